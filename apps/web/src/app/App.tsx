@@ -8,6 +8,7 @@ import { Lighting } from '@/render/Lighting';
 import { CameraController } from '@/render/CameraController';
 import { Agents } from '@/render/Agents';
 import { OrbitPath } from '@/render/OrbitPath';
+import { GroundTrack } from '@/render/GroundTrack';
 import { Objectives } from '@/render/Objectives';
 import { TrajectoryPreview } from '@/render/TrajectoryPreview';
 import { UIContainer } from '@/ui/UIContainer';
@@ -17,11 +18,14 @@ import { useCameraStore } from '@/ui/stores/cameraStore';
 import { useSimClock } from '@/sim/useSimClock';
 import { useAgentStore } from '@/ui/stores/agentStore';
 import { useScenarioStore } from '@/ui/stores/scenarioStore';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
 import { generateTestAgents } from '@/util/generateTestAgents';
 
 function Scene() {
   const preset = useCameraStore((state) => state.preset);
   const enableOrbitControls = preset === 'freecam';
+  const moonTrueScale = useCameraStore((state) => state.moonTrueScale);
+  const aroundEarth = useCentralBodyStore((state) => state.body.name === 'earth');
   const setAgents = useAgentStore((state) => state.setAgents);
   const currentScenario = useScenarioStore((state) => state.currentScenario);
   const loadScenario = useScenarioStore((state) => state.loadScenario);
@@ -56,7 +60,7 @@ function Scene() {
           enableZoom={true}
           enableRotate={true}
           minDistance={2}
-          maxDistance={20}
+          maxDistance={moonTrueScale ? 100 : 20}
         />
       )}
       
@@ -69,11 +73,11 @@ function Scene() {
       {/* Starfield background */}
       <Starfield />
       
-      {/* Earth */}
+      {/* Central body (the Earth unless the scenario sets another) */}
       <Earth radius={1} />
       
-      {/* Moon */}
-      <Moon />
+      {/* Moon (drawn relative to the Earth) */}
+      {aroundEarth && <Moon />}
       
       {/* Agents */}
       <Agents />
@@ -81,6 +85,9 @@ function Scene() {
       {/* Orbit path for selected agent */}
       <OrbitPath />
       
+      {/* Ground track for selected agent or team */}
+      <GroundTrack />
+      
       {/* Trajectory preview for planned maneuver */}
       <TrajectoryPreview />
       
@@ -4,31 +4,103 @@ import { InstancedMesh, Object3D, Color } from 'three';
 import { useAgentStore } from '@/ui/stores/agentStore';
 import { useSimClockStore } from '@/ui/stores/simClockStore';
 import { useTaskStore } from '@/ui/stores/taskStore';
-import { propagateKeplerBatch } from '@/sim/orbit/propagator';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
+import { useDiagnosticsStore } from '@/ui/stores/diagnosticsStore';
+import { useLedgerStore } from '@/ui/stores/ledgerStore';
+import { SimWorkerClient, SimWorkerStepResult } from '@/sim/worker/SimWorkerClient';
+import { sunPosition } from '@/sim/orbit/sun';
+import { shadowState, ShadowState } from '@/sim/orbit/eclipse';
 import { eciToScene } from './utils/coordinateConversion';
-import { computeSwarmForces, enforceMinimumSeparation, DEFAULT_BEHAVIOR_PARAMS } from '@/sim/swarm';
-import { allocateTasks, updateObjectiveState } from '@/sim/tasks/allocation';
-import { computeObjectiveSteeringBatch } from '@/sim/tasks/steering';
-import { DEFAULT_OBJECTIVE_STEERING_PARAMS } from '@/sim/tasks/types';
-import { ObjectiveType } from '@/sim/tasks/types';
 
 const tempObject = new Object3D();
 const tempColor = new Color();
 
+/**
+ * Brightness of an agent's team color in each shadow state.
+ */
+const SHADOW_BRIGHTNESS: Record<ShadowState, number> = {
+  sunlit: 1.0,
+  penumbra: 0.6,
+  umbra: 0.3,
+};
+
+/**
+ * Apply a sim step result to the agent and task stores.
+ */
+function applyStepResult(result: SimWorkerStepResult): void {
+  const agentStore = useAgentStore.getState();
+  agentStore.markAgentsReentered(result.reenteredIds, result.startTime);
+  // Steering and burns change the agents' trajectories, not just their place on them
+  const controlledIds = [...result.steeredIds, ...result.maneuveredIds];
+  agentStore.updateAgentsBatch(result.updates, controlledIds);
+  agentStore.applyExecutedManeuvers(result.executedManeuvers);
+  agentStore.updateAgentBudgets(result.budgetUpdates);
+  useLedgerStore.getState().recordStep(result.charges, result.endTime);
+
+  // Check the new states against the invariants of the agents' orbits
+  useDiagnosticsStore.getState().recordStep(
+    useAgentStore.getState().agents,
+    result.endTime,
+    controlledIds,
+    useCentralBodyStore.getState().body.mu
+  );
+
+  const taskStore = useTaskStore.getState();
+  for (const { id, updates } of result.objectiveUpdates) {
+    taskStore.updateObjective(id, updates);
+  }
+
+  // Award points for newly completed objectives
+  for (const id of result.newlyCompleted) {
+    taskStore.completeObjective(id);
+  }
+
+  // Update game timer
+  if (result.tasksUpdated && taskStore.timerRunning) {
+    taskStore.updateTimer(result.endTime - result.startTime);
+  }
+}
+
 /**
  * Agents component using InstancedMesh for high-performance rendering.
- * Handles orbit propagation, selection, and hover highlighting.
+ * Handles selection and hover highlighting; orbit propagation, swarm
+ * behaviors and objectives run in the sim worker (see sim/step.ts).
  */
 export function Agents() {
   const instancedMeshRef = useRef<InstancedMesh>(null);
   const { raycaster, camera, pointer, gl } = useThree();
-  const { agents, updateAgentsBatch, selectAgent, hoverAgent, clearSelection } = useAgentStore();
+  const { agents, reentryAltitude, selectAgent, hoverAgent, clearSelection } = useAgentStore();
   const { clockInstance, paused } = useSimClockStore();
-  const { objectives, updateObjective, completeObjective, updateTimer, timerRunning } = useTaskStore();
+  const objectives = useTaskStore((state) => state.objectives);
 
   // Track last sim time to calculate delta
   const lastSimTimeRef = useRef<number | null>(null);
 
+  // Sim worker owning the authoritative agent states
+  const simClientRef = useRef<SimWorkerClient | null>(null);
+
+  useEffect(() => {
+    const client = new SimWorkerClient({ getAgents: () => useAgentStore.getState().agents });
+    client.onResult((result) => {
+      applyStepResult(result);
+      lastSimTimeRef.current = result.endTime;
+      if (useDiagnosticsStore.getState().stepError) {
+        useDiagnosticsStore.getState().setStepError(null);
+      }
+    });
+    // A failed step would fail again on the next frame: pause and show why
+    client.onError((message) => {
+      console.error('Sim step failed:', message);
+      useDiagnosticsStore.getState().setStepError(message);
+      useSimClockStore.getState().setPaused(true);
+    });
+    simClientRef.current = client;
+    return () => {
+      client.dispose();
+      simClientRef.current = null;
+    };
+  }, []);
+
   // Initialize last sim time when clock instance changes
   useEffect(() => {
     if (clockInstance) {
@@ -38,7 +110,7 @@ export function Agents() {
     }
   }, [clockInstance]);
 
-  // Propagate orbits in render loop
+  // Request a sim step each frame (results are applied when the worker replies)
   useFrame(() => {
     if (!instancedMeshRef.current || agents.length === 0) return;
 
@@ -52,213 +124,34 @@ export function Agents() {
         return;
       }
       
-      const simDelta = currentSimTime - lastSimTimeRef.current;
-      
-      if (simDelta > 0) {
-        // Identify player-controlled agents (selected agents skip auto-navigation)
-        const playerControlledIds = new Set(
-          agents.filter((a) => a.selected).map((a) => a.id)
-        );
-        
-        // Separate agents into player-controlled and auto-navigated
-        const playerControlledAgents = agents.filter((a) => playerControlledIds.has(a.id));
-        const autoAgents = agents.filter((a) => !playerControlledIds.has(a.id));
-        
-        // Propagate player-controlled agents with pure Kepler (no steering)
-        const playerStates = playerControlledAgents.map((agent) => agent.state);
-        const propagatedPlayerStates = propagateKeplerBatch(playerStates, simDelta);
-        const playerUpdates = playerControlledAgents.map((agent, index) => ({
-          id: agent.id,
-          state: propagatedPlayerStates[index]!,
-        }));
-        
-        // Task allocation and objective steering for auto-navigated agents (if objectives exist)
-        if (objectives.length > 0 && autoAgents.length > 0) {
-          // Create a mutable copy of objectives for allocation
-          const objectivesCopy = objectives.map((obj) => ({ ...obj }));
-          
-          // Allocate tasks to auto-navigated agents only
-          allocateTasks(autoAgents, objectivesCopy);
-          
-          // Update objectives in store with new assignments
-          for (const obj of objectivesCopy) {
-            if (obj.type === 'relay_node' && 'assignedAgentId' in obj) {
-              const currentObj = objectives.find((o) => o.id === obj.id);
-              if (currentObj && 'assignedAgentId' in currentObj && currentObj.assignedAgentId !== obj.assignedAgentId) {
-                updateObjective(obj.id, { assignedAgentId: obj.assignedAgentId });
-              }
-            } else if (obj.type === 'hold_formation_zone' && 'assignedAgentIds' in obj) {
-              const currentObj = objectives.find((o) => o.id === obj.id);
-              if (currentObj && 'assignedAgentIds' in currentObj) {
-                // Only update if changed
-                const currentIds = JSON.stringify(currentObj.assignedAgentIds.sort());
-                const newIds = JSON.stringify(obj.assignedAgentIds.sort());
-                if (currentIds !== newIds) {
-                  updateObjective(obj.id, { assignedAgentIds: obj.assignedAgentIds });
-                }
-              }
-            }
-          }
-          
-          // Get auto agent states
-          const autoStates = autoAgents.map((agent) => agent.state);
-          
-          // Compute objective steering velocity adjustments (only for auto agents)
-          const objectiveAdjustments = computeObjectiveSteeringBatch(
-            autoAgents,
-            objectives,
-            DEFAULT_OBJECTIVE_STEERING_PARAMS
-          );
-          
-          // Compute swarm behavior velocity adjustments (only for auto agents)
-          const swarmAdjustments = computeSwarmForces(autoAgents, DEFAULT_BEHAVIOR_PARAMS, simDelta);
-          
-          // Combine objective and swarm adjustments
-          const velocityAdjustments = swarmAdjustments.map((swarmAdj, index) => {
-            const objAdj = objectiveAdjustments[index]!;
-            return {
-              delta: [
-                swarmAdj.delta[0] + objAdj.delta[0],
-                swarmAdj.delta[1] + objAdj.delta[1],
-                swarmAdj.delta[2] + objAdj.delta[2],
-              ] as [number, number, number],
-            };
-          });
-          
-          // Enforce minimum separation (basic collision avoidance)
-          enforceMinimumSeparation(agents, velocityAdjustments, DEFAULT_BEHAVIOR_PARAMS);
-          
-          // Apply velocity adjustments to auto agent states before propagation
-          const adjustedStates = autoStates.map((state, index) => {
-            const adjustment = velocityAdjustments[index]!;
-            const [vx, vy, vz] = state.velocity;
-            const [dvx, dvy, dvz] = adjustment.delta;
-            
-            return {
-              position: state.position,
-              velocity: [
-                vx + dvx * simDelta,
-                vy + dvy * simDelta,
-                vz + dvz * simDelta,
-              ] as [number, number, number],
-            };
-          });
-          
-          // Propagate auto agents in batch with adjusted velocities
-          const propagatedAutoStates = propagateKeplerBatch(adjustedStates, simDelta);
-          
-          // Combine player-controlled and auto agent updates
-          const autoUpdates = autoAgents.map((agent, index) => ({
-            id: agent.id,
-            state: propagatedAutoStates[index]!,
-          }));
-          const allUpdates = [...playerUpdates, ...autoUpdates];
-          updateAgentsBatch(allUpdates);
-          
-          // Update objective states and check for completion (check all agents, including player-controlled)
-          const objectivesCopyForUpdate = objectives.map((obj) => ({ ...obj }));
-          // Combine propagated states for completion checking
-          const allPropagatedStates = [
-            ...propagatedPlayerStates,
-            ...propagatedAutoStates,
-          ];
-          const allAgentsForCompletion = [
-            ...playerControlledAgents,
-            ...autoAgents,
-          ];
-          const newlyCompleted = updateObjectiveState(
-            objectivesCopyForUpdate,
-            allAgentsForCompletion.map((agent, idx) => ({
-              ...agent,
-              state: allPropagatedStates[idx]!,
-            })),
-            currentSimTime
-          );
-          
-          // Update objectives in store (including completion status and startTime for relay nodes)
-          for (const obj of objectivesCopyForUpdate) {
-            const currentObj = objectives.find((o) => o.id === obj.id);
-            if (!currentObj) continue;
-            
-            const updates: any = {};
-            if (obj.completed !== currentObj.completed) {
-              updates.completed = obj.completed;
-            }
-            if (obj.type === ObjectiveType.RELAY_NODE && currentObj.type === ObjectiveType.RELAY_NODE) {
-              const relayObj = obj as any;
-              const currentRelay = currentObj as any;
-              if (relayObj.startTime !== currentRelay.startTime) {
-                updates.startTime = relayObj.startTime;
-              }
-            }
-            if (Object.keys(updates).length > 0) {
-              updateObjective(obj.id, updates);
-            }
-          }
-          
-          // Award points for newly completed objectives
-          for (const id of newlyCompleted) {
-            completeObjective(id);
-          }
-          
-          // Update game timer
-          if (timerRunning) {
-            updateTimer(simDelta);
-          }
-        } else {
-          // No objectives, just use swarm behaviors for auto agents
-          if (autoAgents.length > 0) {
-            const autoStates = autoAgents.map((agent) => agent.state);
-            const velocityAdjustments = computeSwarmForces(autoAgents, DEFAULT_BEHAVIOR_PARAMS, simDelta);
-            
-            // Enforce minimum separation (basic collision avoidance)
-            enforceMinimumSeparation(autoAgents, velocityAdjustments, DEFAULT_BEHAVIOR_PARAMS);
-            
-            // Apply velocity adjustments to auto agent states before propagation
-            const adjustedStates = autoStates.map((state, index) => {
-              const adjustment = velocityAdjustments[index]!;
-              const [vx, vy, vz] = state.velocity;
-              const [dvx, dvy, dvz] = adjustment.delta;
-              
-              return {
-                position: state.position,
-                velocity: [
-                  vx + dvx * simDelta,
-                  vy + dvy * simDelta,
-                  vz + dvz * simDelta,
-                ] as [number, number, number],
-              };
-            });
-            
-            // Propagate auto agents in batch with adjusted velocities
-            const propagatedAutoStates = propagateKeplerBatch(adjustedStates, simDelta);
-            
-            // Combine player-controlled and auto agent updates
-            const autoUpdates = autoAgents.map((agent, index) => ({
-              id: agent.id,
-              state: propagatedAutoStates[index]!,
-            }));
-            const allUpdates = [...playerUpdates, ...autoUpdates];
-            updateAgentsBatch(allUpdates);
-          } else {
-            // Only player-controlled agents, just update them
-            updateAgentsBatch(playerUpdates);
-          }
-        }
-        
-        lastSimTimeRef.current = currentSimTime;
+      // Skipped while a step is in flight; the next request covers the whole interval
+      if (currentSimTime > lastSimTimeRef.current) {
+        simClientRef.current?.requestStep({
+          agents,
+          objectives,
+          startTime: lastSimTimeRef.current,
+          endTime: currentSimTime,
+          reentryAltitude,
+          epochJd: useSimClockStore.getState().epoch,
+          centralBody: useCentralBodyStore.getState().body,
+        });
       }
     }
 
+    // Sun position for this frame's shadow states (the shadow model is the Earth's)
+    const sun = sunPosition(useSimClockStore.getState().julianDate());
+    const centralBody = useCentralBodyStore.getState().body;
+    const aroundEarth = centralBody.name === 'earth';
+
     // Update instance matrices (positions) and colors
     agents.forEach((agent, index) => {
-      const scenePos = eciToScene(agent.state.position);
+      const scenePos = eciToScene(agent.state.position, centralBody.radius);
       
       // Set position
       tempObject.position.set(scenePos[0], scenePos[1], scenePos[2]);
       
-      // Scale based on selection/hover state
-      const scale = agent.selected ? 1.5 : agent.hovered ? 1.2 : 1.0;
+      // Scale based on selection/hover state (re-entered agents are hidden)
+      const scale = agent.reentryTime !== undefined ? 0 : agent.selected ? 1.5 : agent.hovered ? 1.2 : 1.0;
       tempObject.scale.set(scale, scale, scale);
       
       // Update matrix
@@ -271,8 +164,11 @@ export function Agents() {
       } else if (agent.hovered) {
         tempColor.set('#00ffff'); // Cyan for hovered
       } else {
-        // Base color based on team
+        // Base color based on team, darkened in the Earth's shadow
         tempColor.set(agent.team === 'friendly' ? '#39ff14' : '#ff4444'); // Neon green for friendly, red for enemy
+        if (aroundEarth) {
+          tempColor.multiplyScalar(SHADOW_BRIGHTNESS[shadowState(agent.state.position, sun)]);
+        }
       }
       instancedMeshRef.current!.setColorAt(index, tempColor);
     });
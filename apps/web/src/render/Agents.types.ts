@@ -2,7 +2,13 @@
  * Type definitions for agent rendering.
  */
 
-import { CartesianState } from '@/sim/orbit/types';
+import { CartesianState, PropagatorType } from '@/sim/orbit/types';
+import { TwoLineElement } from '@/sim/orbit/tle';
+import { Ephemeris } from '@/sim/orbit/ephemeris';
+import { ThrustArc } from '@/sim/orbit/forces';
+import { IntegratorType } from '@/sim/orbit/integrators';
+import { Propulsion } from '@/sim/maneuvers/propulsion';
+import { ScheduledManeuver } from '@/sim/maneuvers/queue';
 import { BehaviorFlags, Team } from '@/scenario/types';
 
 /**
@@ -17,8 +23,40 @@ export interface Agent {
   behaviors: BehaviorFlags;
   /** Team/faction (friendly or enemy) */
   team: Team;
-  /** Remaining delta-v budget in m/s */
+  /** Remaining delta-v budget in m/s (the rocket equation's capacity for agents with propulsion) */
   dvRemaining: number;
+  /** Mass, thrust and Isp for finite burns; agents without one burn impulsively */
+  propulsion?: Propulsion;
+  /** Thrust arc of the agent's latest finite burn, flown by the sim step until cutoff */
+  thrustArc?: ThrustArc;
+  /** Burns scheduled at a time or orbital event, in execution order */
+  maneuvers?: ScheduledManeuver[];
+  /** Sim time (s) of the last scheduled burn, so an orbital event does not fire twice */
+  lastManeuverTime?: number;
+  /** Changes whenever the trajectory changes other than by propagation along it (burns, steering, a new scenario) */
+  trajectoryRevision?: number;
+  /** Propagation model used to advance this agent's orbit */
+  propagator: PropagatorType;
+  /** Force models summed by the 'numerical' propagator (defaults to central gravity) */
+  forceModels?: string[];
+  /** Integration scheme of the 'numerical' propagator (defaults to adaptive 'rk45') */
+  integrator?: IntegratorType;
+  /** Largest integration step in seconds of the 'numerical' propagator (the fixed step for 'rk4') */
+  maxStep?: number;
+  /** Ballistic coefficient m / (Cd·A) in kg/m² for the 'drag' force model */
+  ballisticCoefficient?: number;
+  /** Reflectivity coefficient Cr for the 'srp' force model */
+  reflectivityCoefficient?: number;
+  /** Area-to-mass ratio A/m in m²/kg for the 'srp' force model */
+  areaToMass?: number;
+  /** Element set propagated by the 'sgp4' propagator */
+  tle?: TwoLineElement;
+  /** Seconds from the TLE epoch to sim time 0 */
+  tleEpochOffset?: number;
+  /** Tabulated states replayed by the 'ephemeris' propagator */
+  ephemeris?: Ephemeris;
+  /** Simulation time (s) at which the agent re-entered; re-entered agents are no longer propagated */
+  reentryTime?: number;
   /** Whether this agent is currently selected */
   selected?: boolean;
   /** Whether this agent is currently hovered */
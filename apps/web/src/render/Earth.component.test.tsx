@@ -86,7 +86,7 @@ describe('Earth component', () => {
   });
 
   describe('animation', () => {
-    it('rotates Earth slowly in useFrame', () => {
+    it('rotates Earth with sidereal time in useFrame', () => {
       const mockCallback = vi.fn();
       const mockUseFrame = vi.mocked(useFrame);
       mockUseFrame.mockImplementation((callback) => {
@@ -1,19 +1,84 @@
-import { useRef, useState, useEffect } from 'react';
+import { useRef, useState, useEffect, useCallback } from 'react';
 import { useFrame } from '@react-three/fiber';
-import { Mesh, TextureLoader, Texture, RepeatWrapping } from 'three';
+import { Mesh, TextureLoader, Texture, RepeatWrapping, Vector3, WebGLProgramParametersWithUniforms } from 'three';
+import { useSimClockStore } from '@/ui/stores/simClockStore';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
+import { CentralBodyName } from '@/sim/orbit/centralBody';
+import { greenwichMeanSiderealTime } from '@/sim/orbit/time';
+import { sunSceneDirection } from './utils/coordinateConversion';
 
 interface EarthProps {
   radius?: number;
 }
 
+/**
+ * Surface of a central body: texture files from the three.js planet textures
+ * (none for Mars, which is drawn in a flat colour) and the colours used
+ * without a texture.
+ */
+interface BodyAppearance {
+  /** Day-side texture file name */
+  dayTexture?: string;
+  /** Night-side (city lights) texture file name */
+  nightTexture?: string;
+  /** Surface colour without a texture */
+  color: number;
+  /** Emissive colour without a texture */
+  emissive: number;
+}
+
+const BODY_APPEARANCE: Record<CentralBodyName, BodyAppearance> = {
+  earth: { dayTexture: 'earth_atmos_2048.jpg', nightTexture: 'earth_night_2048.jpg', color: 0x4a90e2, emissive: 0x1a3a5a },
+  moon: { dayTexture: 'moon_1024.jpg', color: 0x888888, emissive: 0x000000 },
+  mars: { color: 0xc1440e, emissive: 0x000000 },
+};
+
+/**
+ * URLs of a three.js planet texture.
+ * Primary: jsDelivr GitHub CDN (CORS-friendly); fallback: GitHub raw (may work with crossOrigin).
+ */
+function textureUrls(file: string): [string, string] {
+  return [
+    `https://cdn.jsdelivr.net/gh/mrdoob/three.js@r160/examples/textures/planets/${file}`,
+    `https://raw.githubusercontent.com/mrdoob/three.js/r160/examples/textures/planets/${file}`,
+  ];
+}
+
+/**
+ * Mask the emissive (city lights) term to the night side. The Sun direction is
+ * passed in view space so it can be compared with the fragment's view-space
+ * normal; the lights fade in across a band around the terminator.
+ */
+function patchNightLights(shader: WebGLProgramParametersWithUniforms, sunDirection: { value: Vector3 }) {
+  shader.uniforms.sunDirectionView = sunDirection;
+  shader.fragmentShader = shader.fragmentShader
+    .replace('#include <common>', '#include <common>\nuniform vec3 sunDirectionView;')
+    .replace(
+      '#include <emissivemap_fragment>',
+      '#include <emissivemap_fragment>\ntotalEmissiveRadiance *= smoothstep(0.1, -0.2, dot(normal, sunDirectionView));'
+    );
+}
+
+/**
+ * The central body: the Earth by default, or the Moon or Mars when the
+ * scenario orbits them (see centralBodyStore).
+ */
 export function Earth({ radius = 1 }: EarthProps) {
   const meshRef = useRef<Mesh>(null);
+  const sunDirectionRef = useRef({ value: new Vector3(1, 0, 0) });
+  const body = useCentralBodyStore((state) => state.body.name);
+  const appearance = BODY_APPEARANCE[body];
   const [dayTexture, setDayTexture] = useState<Texture | null>(null);
   const [nightTexture, setNightTexture] = useState<Texture | null>(null);
-  const [texturesLoaded, setTexturesLoaded] = useState(false);
   const [textureError, setTextureError] = useState(false);
 
   useEffect(() => {
+    const { dayTexture: dayFile, nightTexture: nightFile } = BODY_APPEARANCE[body];
+    setDayTexture(null);
+    setNightTexture(null);
+    setTextureError(false);
+    if (!dayFile) return;
+
     const loader = new TextureLoader();
     // Set crossOrigin to allow CORS requests
     loader.crossOrigin = 'anonymous';
@@ -23,16 +88,9 @@ export function Earth({ radius = 1 }: EarthProps) {
 
     const loadTextures = async () => {
       try {
-        // Use correct texture file names and multiple reliable sources
-        // Primary: jsDelivr GitHub CDN (CORS-friendly)
-        const dayUrl = 'https://cdn.jsdelivr.net/gh/mrdoob/three.js@r160/examples/textures/planets/earth_atmos_2048.jpg';
-        const nightUrl = 'https://cdn.jsdelivr.net/gh/mrdoob/three.js@r160/examples/textures/planets/earth_night_2048.jpg';
-        
-        // Fallback: GitHub raw (may work with crossOrigin)
-        const dayUrlFallback = 'https://raw.githubusercontent.com/mrdoob/three.js/r160/examples/textures/planets/earth_atmos_2048.jpg';
-        const nightUrlFallback = 'https://raw.githubusercontent.com/mrdoob/three.js/r160/examples/textures/planets/earth_night_2048.jpg';
+        const [dayUrl, dayUrlFallback] = textureUrls(dayFile);
 
-        console.log('Loading Earth textures from:', dayUrl);
+        console.log(`Loading ${body} textures from:`, dayUrl);
 
         // Load day texture with proper configuration
         dayTex = await new Promise<Texture>((resolve, reject) => {
@@ -40,8 +98,8 @@ export function Earth({ radius = 1 }: EarthProps) {
             loader.load(
               url,
               (texture) => {
-                console.log(`Earth day texture loaded successfully from ${isFallback ? 'fallback' : 'primary'} URL`);
-                // Configure texture properties for realistic Earth appearance
+                console.log(`${body} day texture loaded successfully from ${isFallback ? 'fallback' : 'primary'} URL`);
+                // Configure texture properties for a realistic appearance
                 texture.wrapS = texture.wrapT = RepeatWrapping;
                 texture.anisotropy = 16; // High quality filtering
                 texture.colorSpace = 'srgb';
@@ -50,15 +108,15 @@ export function Earth({ radius = 1 }: EarthProps) {
               (progress) => {
                 if (progress.lengthComputable) {
                   const percentComplete = (progress.loaded / progress.total) * 100;
-                  console.log(`Earth texture loading (${isFallback ? 'fallback' : 'primary'}):`, percentComplete.toFixed(0) + '%');
+                  console.log(`${body} texture loading (${isFallback ? 'fallback' : 'primary'}):`, percentComplete.toFixed(0) + '%');
                 }
               },
               (error) => {
                 if (!isFallback) {
-                  console.warn('Failed to load Earth day texture from primary URL, trying fallback:', error);
+                  console.warn(`Failed to load ${body} day texture from primary URL, trying fallback:`, error);
                   tryLoad(dayUrlFallback, true);
                 } else {
-                  console.error('Failed to load Earth day texture from both URLs:', error);
+                  console.error(`Failed to load ${body} day texture from both URLs:`, error);
                   reject(error);
                 }
               }
@@ -69,51 +127,50 @@ export function Earth({ radius = 1 }: EarthProps) {
 
         if (cancelled) return;
 
-        // Load night texture with proper configuration (optional - Earth will still render without it)
-        try {
-          nightTex = await new Promise<Texture | null>((resolve) => {
-            const tryLoad = (url: string, isFallback = false) => {
-              loader.load(
-                url,
-                (texture) => {
-                  console.log(`Earth night texture loaded successfully from ${isFallback ? 'fallback' : 'primary'} URL`);
-                  // Configure texture properties
-                  texture.wrapS = texture.wrapT = RepeatWrapping;
-                  texture.anisotropy = 16;
-                  texture.colorSpace = 'srgb';
-                  resolve(texture);
-                },
-                undefined,
-                (error) => {
-                  if (!isFallback) {
-                    console.warn('Failed to load Earth night texture from primary URL, trying fallback:', error);
-                    tryLoad(nightUrlFallback, true);
-                  } else {
-                    console.warn('Failed to load Earth night texture from both URLs, continuing without night texture:', error);
-                    resolve(null); // Resolve with null instead of rejecting - night texture is optional
+        // Load night texture with proper configuration (optional - the body still renders without it)
+        if (nightFile) {
+          const [nightUrl, nightUrlFallback] = textureUrls(nightFile);
+          try {
+            nightTex = await new Promise<Texture | null>((resolve) => {
+              const tryLoad = (url: string, isFallback = false) => {
+                loader.load(
+                  url,
+                  (texture) => {
+                    console.log(`${body} night texture loaded successfully from ${isFallback ? 'fallback' : 'primary'} URL`);
+                    // Configure texture properties
+                    texture.wrapS = texture.wrapT = RepeatWrapping;
+                    texture.anisotropy = 16;
+                    texture.colorSpace = 'srgb';
+                    resolve(texture);
+                  },
+                  undefined,
+                  (error) => {
+                    if (!isFallback) {
+                      console.warn(`Failed to load ${body} night texture from primary URL, trying fallback:`, error);
+                      tryLoad(nightUrlFallback, true);
+                    } else {
+                      console.warn(`Failed to load ${body} night texture from both URLs, continuing without night texture:`, error);
+                      resolve(null); // Resolve with null instead of rejecting - night texture is optional
+                    }
                   }
-                }
-              );
-            };
-            tryLoad(nightUrl);
-          });
-        } catch (error) {
-          console.warn('Night texture loading failed, continuing without it:', error);
-          nightTex = null; // Night texture is optional
+                );
+              };
+              tryLoad(nightUrl);
+            });
+          } catch (error) {
+            console.warn('Night texture loading failed, continuing without it:', error);
+            nightTex = null; // Night texture is optional
+          }
         }
 
         if (cancelled) return;
 
-        console.log('Setting Earth textures - day:', dayTex, 'night:', nightTex);
         setDayTexture(dayTex);
         setNightTexture(nightTex);
-        setTexturesLoaded(true);
-        console.log('Earth textures state updated - should trigger re-render');
       } catch (error) {
         if (!cancelled) {
-          console.error('Failed to load Earth textures, using fallback colors:', error);
+          console.error(`Failed to load ${body} textures, using fallback colors:`, error);
           setTextureError(true);
-          setTexturesLoaded(true); // Mark as loaded so we render fallback
         }
       }
     };
@@ -122,45 +179,62 @@ export function Earth({ radius = 1 }: EarthProps) {
 
     return () => {
       cancelled = true;
-      // Cleanup textures if component unmounts
+      // Cleanup textures when the body changes or the component unmounts
       if (dayTex) dayTex.dispose();
       if (nightTex) nightTex.dispose();
     };
-  }, []);
-
-  // Rotate Earth slowly for visual interest
-  useFrame(() => {
+  }, [body]);
+
+  // Rotate Earth with sidereal time. The sphere's texture puts Greenwich on +X and
+  // the north pole on +Y, so rotating about Y by GMST turns the Earth-fixed frame
+  // into the scene's ECI frame (see eciToScene) and sub-satellite points line up.
+  // Other bodies turn at their rotation rate from their prime meridian on +X at sim time 0.
+  // The night-lights mask follows the Sun vector in view space.
+  useFrame((state) => {
+    const { julianDate, simTime } = useSimClockStore.getState();
+    const jd = julianDate();
     if (meshRef.current) {
-      meshRef.current.rotation.y += 0.0005;
+      const centralBody = useCentralBodyStore.getState().body;
+      meshRef.current.rotation.y = centralBody.name === 'earth'
+        ? greenwichMeanSiderealTime(jd)
+        : centralBody.rotationRate * simTime;
     }
+    const [x, y, z] = sunSceneDirection(jd);
+    sunDirectionRef.current.value.set(x, y, z).transformDirection(state.camera.matrixWorldInverse);
   });
 
-  // Use fallback colors if textures failed to load
-  const useFallback = textureError || (!texturesLoaded && !dayTexture && !nightTexture);
+  const onBeforeCompile = useCallback(
+    (shader: WebGLProgramParametersWithUniforms) => patchNightLights(shader, sunDirectionRef.current),
+    []
+  );
+
+  // Use the body's flat colors until (or unless) its texture loads
+  const useFallback = textureError || !dayTexture;
 
   // Debug logging
   useEffect(() => {
     if (dayTexture) {
-      console.log('Earth day texture is set:', dayTexture);
+      console.log(`${body} day texture is set:`, dayTexture);
     }
     if (textureError) {
-      console.warn('Earth texture error - using fallback blue color');
+      console.warn(`${body} texture error - using fallback color`);
     }
-  }, [dayTexture, textureError]);
+  }, [body, dayTexture, textureError]);
 
   return (
     <mesh ref={meshRef}>
       <sphereGeometry args={[radius, 64, 64]} />
       <meshStandardMaterial
-        key={`earth-material-${texturesLoaded ? 'loaded' : 'fallback'}-${dayTexture ? 'tex' : 'no-tex'}`} // Force re-render when texture loads
-        map={dayTexture}
+        key={`${body}-material-${dayTexture ? 'tex' : 'no-tex'}-${nightTexture ? 'night' : 'no-night'}`} // Force re-render when textures load
+        map={useFallback ? null : dayTexture}
         emissiveMap={nightTexture}
-        color={useFallback ? 0x4a90e2 : 0xffffff} // White color multiplies with texture (no tinting)
-        emissive={useFallback ? 0x1a3a5a : 0x222222} // Subtle glow for night lights
+        color={useFallback ? appearance.color : 0xffffff} // White color multiplies with texture (no tinting)
+        emissive={useFallback ? appearance.emissive : nightTexture ? 0x222222 : 0x000000} // Subtle glow for night lights
         emissiveIntensity={useFallback ? 0.3 : 0.6}
         roughness={0.9}
         metalness={0.05}
         envMapIntensity={1.0}
+        onBeforeCompile={onBeforeCompile}
       />
     </mesh>
   );
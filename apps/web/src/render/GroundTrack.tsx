@@ -0,0 +1,187 @@
+/**
+ * GroundTrack component: draws sub-satellite paths on the Earth sphere.
+ * Companion to OrbitPath: where OrbitPath shows the orbit in inertial space,
+ * the ground track shows where over the rotating Earth the agent passes.
+ */
+
+import { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { Group } from 'three';
+import { useAgentStore } from '@/ui/stores/agentStore';
+import { useSimClockStore } from '@/ui/stores/simClockStore';
+import { useGroundTrackStore, GroundTrackMode } from '@/ui/stores/groundTrackStore';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
+import { computeGroundTrack, splitAtAntimeridian, GroundTrackPoint } from '@/sim/orbit/groundTrack';
+import { greenwichMeanSiderealTime } from '@/sim/orbit/time';
+import { agentPropagatorOptions } from '@/sim/step';
+import { geodeticToEarthLocal } from './utils/coordinateConversion';
+import { agentTrajectoryKey } from './utils/agentEphemeris';
+import { useSimSnapshot } from './utils/useSimSnapshot';
+import { Agent } from './Agents.types';
+
+/**
+ * Radius (scene units) of the drawn track, just above the Earth sphere so the
+ * line is not hidden by the surface between samples.
+ */
+const GROUND_TRACK_RADIUS = 1.004;
+
+/**
+ * Most tracks drawn in 'team' mode.
+ */
+const MAX_TEAM_TRACKS = 12;
+
+/**
+ * Simulation seconds between track refreshes. Tracks are fixed to the Earth,
+ * so they only need recomputing as the drawn revolutions slide forward in time.
+ */
+const GROUND_TRACK_REFRESH_SECONDS = 10;
+
+/**
+ * Agents whose ground tracks are drawn for a mode. Re-entered agents have no track.
+ * @param agents All agents
+ * @param selectedAgentId Selected agent ID
+ * @param mode Ground track mode
+ * @returns The selected agent, its team (selected agent first), or nothing
+ */
+function trackedAgents(agents: Agent[], selectedAgentId: string | null, mode: GroundTrackMode): Agent[] {
+  const selected = agents.find((agent) => agent.id === selectedAgentId);
+  if (mode === 'off' || !selected || selected.reentryTime !== undefined) return [];
+  if (mode === 'selected') return [selected];
+
+  const teammates = agents.filter(
+    (agent) => agent.team === selected.team && agent.id !== selected.id && agent.reentryTime === undefined
+  );
+  return [selected, ...teammates].slice(0, MAX_TEAM_TRACKS);
+}
+
+/**
+ * Key that changes when the tracked agents or their orbits change outside of
+ * propagation (see agentTrajectoryKey).
+ */
+function trackedAgentsKey(agents: Agent[], selectedAgentId: string | null, mode: GroundTrackMode): string {
+  return trackedAgents(agents, selectedAgentId, mode).map(agentTrajectoryKey).join(',');
+}
+
+/**
+ * Ground track of one agent, split into past and future parts at the current time.
+ */
+function agentGroundTrack(
+  agent: Agent,
+  time: number,
+  epochJd: number,
+  pastRevolutions: number,
+  futureRevolutions: number
+): { past: GroundTrackPoint[][]; future: GroundTrackPoint[][] } {
+  const points = computeGroundTrack(agent.state, time, epochJd, {
+    pastRevolutions,
+    futureRevolutions,
+    propagator: agent.propagator,
+    propagateOptions: agentPropagatorOptions(agent, time, epochJd),
+  });
+  return {
+    past: splitAtAntimeridian(points.filter((point) => point.time <= time)),
+    future: splitAtAntimeridian(points.filter((point) => point.time >= time)),
+  };
+}
+
+/**
+ * Convert track segments to line vertex buffers on the Earth sphere.
+ */
+function segmentPositions(segments: GroundTrackPoint[][]): Float32Array[] {
+  return segments
+    .filter((segment) => segment.length > 1)
+    .map((segment) => {
+      const array = new Float32Array(segment.length * 3);
+      segment.forEach((point, index) => {
+        const [x, y, z] = geodeticToEarthLocal(point.latitude, point.longitude, GROUND_TRACK_RADIUS);
+        array[index * 3] = x;
+        array[index * 3 + 1] = y;
+        array[index * 3 + 2] = z;
+      });
+      return array;
+    });
+}
+
+/**
+ * GroundTrack component drawing the selected agent's (or its team's) ground
+ * track for the configured number of past and future revolutions.
+ * Tracks are built in the Earth-fixed frame and rotated with the Earth, so
+ * nothing is drawn around other central bodies.
+ */
+export function GroundTrack() {
+  const groupRef = useRef<Group>(null);
+  const versionRef = useRef(0);
+  const mode = useGroundTrackStore((state) => state.mode);
+  const pastRevolutions = useGroundTrackStore((state) => state.pastRevolutions);
+  const futureRevolutions = useGroundTrackStore((state) => state.futureRevolutions);
+  const selectedAgentId = useAgentStore((state) => state.selectedAgentId);
+  const trackedKey = useAgentStore((state) => trackedAgentsKey(state.agents, state.selectedAgentId, mode));
+  const { agents, simTime } = useSimSnapshot(GROUND_TRACK_REFRESH_SECONDS, trackedKey);
+  const epoch = useSimClockStore((state) => state.epoch);
+  const aroundEarth = useCentralBodyStore((state) => state.body.name === 'earth');
+
+  const tracks = useMemo(() => {
+    if (!aroundEarth) return [];
+    versionRef.current += 1;
+
+    return trackedAgents(agents, selectedAgentId, mode).flatMap((agent) => {
+      try {
+        const { past, future } = agentGroundTrack(agent, simTime, epoch, pastRevolutions, futureRevolutions);
+        // Keyed by version so new vertex buffers get fresh geometries
+        return [{
+          key: `${agent.id}-${versionRef.current}`,
+          past: segmentPositions(past),
+          future: segmentPositions(future),
+        }];
+      } catch (error) {
+        console.warn('Failed to calculate ground track:', error);
+        return [];
+      }
+    });
+  }, [agents, simTime, selectedAgentId, aroundEarth, mode, pastRevolutions, futureRevolutions, epoch]);
+
+  // Rotate with the Earth mesh (see Earth.tsx) so the track stays over the ground
+  useFrame(() => {
+    if (groupRef.current) {
+      groupRef.current.rotation.y = greenwichMeanSiderealTime(useSimClockStore.getState().julianDate());
+    }
+  });
+
+  if (tracks.length === 0) return null;
+
+  return (
+    <group ref={groupRef}>
+      {tracks.map((track) => (
+        <group key={track.key}>
+          {track.past.map((positions, index) => (
+            <GroundTrackLine key={`past-${index}`} positions={positions} opacity={0.3} />
+          ))}
+          {track.future.map((positions, index) => (
+            <GroundTrackLine key={`future-${index}`} positions={positions} opacity={0.8} />
+          ))}
+        </group>
+      ))}
+    </group>
+  );
+}
+
+interface GroundTrackLineProps {
+  positions: Float32Array;
+  opacity: number;
+}
+
+function GroundTrackLine({ positions, opacity }: GroundTrackLineProps) {
+  return (
+    <line>
+      <bufferGeometry>
+        <bufferAttribute
+          attach="attributes-position"
+          count={positions.length / 3}
+          array={positions}
+          itemSize={3}
+        />
+      </bufferGeometry>
+      <lineBasicMaterial color="#ffdd33" opacity={opacity} transparent />
+    </line>
+  );
+}
@@ -1,23 +1,38 @@
+import { useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import { DirectionalLight } from 'three';
+import { useSimClockStore } from '@/ui/stores/simClockStore';
+import { sunSceneDirection } from './utils/coordinateConversion';
+
+/**
+ * Distance (scene units) of the sunlight source from the Earth's center.
+ * Directional lights only use the direction to their target (the origin).
+ */
+const SUN_LIGHT_DISTANCE = 10;
+
 export function Lighting() {
+  const sunLightRef = useRef<DirectionalLight>(null);
+
+  // Place the sunlight along the Sun vector for the current sim date
+  useFrame(() => {
+    if (sunLightRef.current) {
+      const [x, y, z] = sunSceneDirection(useSimClockStore.getState().julianDate());
+      sunLightRef.current.position.set(x * SUN_LIGHT_DISTANCE, y * SUN_LIGHT_DISTANCE, z * SUN_LIGHT_DISTANCE);
+    }
+  });
+
   return (
     <>
-      {/* Ambient light for overall scene illumination */}
+      {/* Ambient light so the night side is not completely black */}
       <ambientLight intensity={0.3} />
       
-      {/* Directional light simulating sun */}
+      {/* Directional light from the Sun */}
       <directionalLight
-        position={[5, 3, 5]}
+        ref={sunLightRef}
+        position={[SUN_LIGHT_DISTANCE, 0, 0]}
         intensity={1.5}
         castShadow={false}
       />
-      
-      {/* Additional fill light */}
-      <directionalLight
-        position={[-5, -3, -5]}
-        intensity={0.3}
-        castShadow={false}
-      />
     </>
   );
 }
-
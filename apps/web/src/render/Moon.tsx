@@ -1,21 +1,26 @@
 import { useRef, useState, useEffect } from 'react';
 import { useFrame } from '@react-three/fiber';
 import { Mesh, TextureLoader, Texture, RepeatWrapping, Group } from 'three';
+import { useSimClockStore } from '@/ui/stores/simClockStore';
+import { useCameraStore } from '@/ui/stores/cameraStore';
+import { moonPosition } from '@/sim/orbit/moon';
+import { EARTH_RADIUS, MOON_RADIUS } from '@/sim/orbit/constants';
+import { eciToScene } from './utils/coordinateConversion';
 
 interface MoonProps {
+  /** Moon radius in scene units (defaults to true scale) */
   radius?: number;
-  orbitDistance?: number;
-  orbitSpeed?: number;
+  /** Distance from the Earth in scene units when not drawn at true scale */
+  displayDistance?: number;
 }
 
 export function Moon({ 
-  radius = 0.27, 
-  orbitDistance = 3.5,
-  orbitSpeed = 0.001 
+  radius = MOON_RADIUS / EARTH_RADIUS, 
+  displayDistance = 3.5,
 }: MoonProps) {
   const meshRef = useRef<Mesh>(null);
   const groupRef = useRef<Group>(null);
-  const orbitAngleRef = useRef(0);
+  const trueScale = useCameraStore((state) => state.moonTrueScale);
   const [moonTexture, setMoonTexture] = useState<Texture | null>(null);
   const [texturesLoaded, setTexturesLoaded] = useState(false);
   const [textureError, setTextureError] = useState(false);
@@ -85,21 +90,18 @@ export function Moon({
     };
   }, []);
 
-  // Animate Moon orbit around Earth and rotation
+  // Place the Moon along its ephemeris direction, at its true distance or
+  // compressed to displayDistance so it stays in view
   useFrame(() => {
+    const [x, y, z] = eciToScene(moonPosition(useSimClockStore.getState().julianDate()));
     if (groupRef.current) {
-      // Update orbit angle
-      orbitAngleRef.current += orbitSpeed;
-      
-      // Position Moon in orbit around Earth (XZ plane)
-      groupRef.current.position.x = Math.cos(orbitAngleRef.current) * orbitDistance;
-      groupRef.current.position.z = Math.sin(orbitAngleRef.current) * orbitDistance;
-      groupRef.current.position.y = 0;
+      const scale = trueScale ? 1 : displayDistance / Math.sqrt(x * x + y * y + z * z);
+      groupRef.current.position.set(x * scale, y * scale, z * scale);
     }
     
-    // Rotate Moon on its own axis
+    // Tidally locked: turn the near side (texture center, local +X) toward the Earth
     if (meshRef.current) {
-      meshRef.current.rotation.y += 0.0003;
+      meshRef.current.rotation.y = Math.atan2(z, -x);
     }
   });
 
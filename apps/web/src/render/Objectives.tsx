@@ -6,7 +6,7 @@ import { useMemo } from 'react';
 import { useTaskStore } from '@/ui/stores/taskStore';
 import { eciToScene } from './utils/coordinateConversion';
 import { ObjectiveType } from '@/sim/tasks/types';
-import { EARTH_RADIUS } from '@/sim/orbit/constants';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
 
 /**
  * Objectives component that visualizes all objectives in the scene.
@@ -29,10 +29,12 @@ export function Objectives() {
  * Individual objective marker component.
  */
 function ObjectiveMarker({ objective }: { objective: any }) {
+  const bodyRadius = useCentralBodyStore((state) => state.body.radius);
+
   // Convert ECI position to scene coordinates
   const scenePos = useMemo(() => {
-    return eciToScene(objective.position);
-  }, [objective.position]);
+    return eciToScene(objective.position, bodyRadius);
+  }, [objective.position, bodyRadius]);
   
   // Determine base color based on objective type
   let baseColor: string;
@@ -87,7 +89,7 @@ function ObjectiveMarker({ objective }: { objective: any }) {
     
     case ObjectiveType.HOLD_FORMATION_ZONE: {
       // Render as a wireframe sphere showing the zone boundary
-      const zoneRadius = objective.radius / EARTH_RADIUS; // Convert to scene units
+      const zoneRadius = objective.radius / bodyRadius; // Convert to scene units
       
       return (
         <group position={[scenePos[0], scenePos[1], scenePos[2]]}>
@@ -1,50 +1,144 @@
 import { useMemo } from 'react';
 import { useAgentStore } from '@/ui/stores/agentStore';
+import { useSimClockStore } from '@/ui/stores/simClockStore';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
 import { cartesianToElements, elementsToCartesian } from '@/sim/orbit/conversions';
 import { OrbitalElements } from '@/sim/orbit/types';
+import { CentralBody } from '@/sim/orbit/centralBody';
+import { Ephemeris, interpolateEphemeris } from '@/sim/orbit/ephemeris';
 import { eciToScene } from './utils/coordinateConversion';
+import { agentEphemeris, agentTrajectoryKey } from './utils/agentEphemeris';
+import { useSimSnapshot } from './utils/useSimSnapshot';
+import { predictManeuvers } from '@/sim/maneuvers/queue';
 
 /**
- * OrbitPath component that visualizes the full orbit ellipse for the selected agent.
+ * Farthest distance (central body radii) drawn along an escape trajectory.
+ */
+const MAX_ESCAPE_PATH_RADII = 20;
+
+/**
+ * Simulation seconds between cache lookups. Lookups are cheap while the cached
+ * window lasts; the path is only rebuilt when the trajectory is resampled.
+ */
+const ORBIT_PATH_REFRESH_SECONDS = 1;
+
+/**
+ * Radius of the markers at scheduled burns (scene units).
+ */
+const MANEUVER_MARKER_RADIUS = 0.012;
+
+/**
+ * Range of true anomaly to draw for an orbit.
+ * Closed orbits span a full revolution; escape trajectories (e ≥ 1) are drawn
+ * between the points where they reach MAX_ESCAPE_PATH_RADII body radii (or
+ * three times the periapsis radius, whichever is farther).
+ * @param elements Orbital elements of the orbit
+ * @param bodyRadius Central body radius in meters
+ * @returns [start, end] true anomaly in radians
+ */
+function trueAnomalyRange(elements: OrbitalElements, bodyRadius: number): [number, number] {
+  if (elements.e < 1) {
+    return [0, 2 * Math.PI];
+  }
+  const p = elements.a * (1 - elements.e * elements.e);
+  const periapsis = p / (1 + elements.e);
+  const rMax = Math.max(MAX_ESCAPE_PATH_RADII * bodyRadius, 3 * periapsis);
+  const νMax = Math.acos((p / rMax - 1) / elements.e);
+  return [-νMax, νMax];
+}
+
+/**
+ * Points along the drawn path of a sampled trajectory.
+ * Closed orbits are drawn over one revolution of the sampled trajectory (so
+ * perturbed propagators show their actual path); escape trajectories are drawn
+ * as the osculating hyperbola at the start of the samples.
+ * @param ephemeris Sampled trajectory
+ * @param centralBody Body the agent orbits
+ * @returns Path points in scene coordinates
+ */
+function pathPoints(ephemeris: Ephemeris, centralBody: CentralBody): [number, number, number][] {
+  const start = ephemeris.points[0]!;
+  const elements = cartesianToElements(start, centralBody.mu);
+  const numPoints = 100;
+  const points: [number, number, number][] = [];
+
+  if (elements.e < 1) {
+    const period = 2 * Math.PI * Math.sqrt((elements.a * elements.a * elements.a) / centralBody.mu);
+    for (let i = 0; i <= numPoints; i++) {
+      const state = interpolateEphemeris(ephemeris, start.time + (i / numPoints) * period);
+      points.push(eciToScene(state.position, centralBody.radius));
+    }
+    return points;
+  }
+
+  // Generate points along the hyperbola by varying true anomaly
+  const [νStart, νEnd] = trueAnomalyRange(elements, centralBody.radius);
+  for (let i = 0; i <= numPoints; i++) {
+    const ν = νStart + (i / numPoints) * (νEnd - νStart);
+    const state = elementsToCartesian({ ...elements, ν }, centralBody.mu);
+    points.push(eciToScene(state.position, centralBody.radius));
+  }
+  return points;
+}
+
+/**
+ * OrbitPath component that visualizes the orbit (or escape hyperbola) of the
+ * selected agent from its cached ephemeris, with a marker at the predicted
+ * position of each scheduled burn.
  */
 export function OrbitPath() {
-  const selectedAgent = useAgentStore((state) => state.getSelectedAgent());
+  const selectedAgentId = useAgentStore((state) => state.selectedAgentId);
+  const trajectoryKey = useAgentStore((state) => {
+    const agent = state.getSelectedAgent();
+    return agent ? agentTrajectoryKey(agent) : null;
+  });
+  const { agents, simTime } = useSimSnapshot(ORBIT_PATH_REFRESH_SECONDS, trajectoryKey);
+  const maneuvers = useAgentStore((state) => state.getSelectedAgent()?.maneuvers);
+  const epoch = useSimClockStore((state) => state.epoch);
+  const centralBody = useCentralBodyStore((state) => state.body);
+
+  // Same object until the trajectory is resampled
+  const ephemeris = useMemo(() => {
+    const agent = agents.find((candidate) => candidate.id === selectedAgentId);
+    if (!agent) return null;
+
+    try {
+      return agentEphemeris(agent, simTime, epoch, centralBody);
+    } catch (error) {
+      console.warn('Failed to sample orbit path:', error);
+      return null;
+    }
+  }, [agents, simTime, selectedAgentId, epoch, centralBody]);
+
+  // Where the queued burns happen (two-body prediction from the current state)
+  const maneuverPoints = useMemo(() => {
+    const agent = agents.find((candidate) => candidate.id === selectedAgentId);
+    if (!agent || !maneuvers?.length) return [];
+
+    try {
+      return predictManeuvers(agent.state, maneuvers, simTime, agent.lastManeuverTime, centralBody.mu).map(
+        (prediction) => ({
+          id: prediction.maneuver.id,
+          position: eciToScene(prediction.state.position, centralBody.radius),
+        })
+      );
+    } catch (error) {
+      console.warn('Failed to predict scheduled burns:', error);
+      return [];
+    }
+  }, [agents, simTime, selectedAgentId, maneuvers, centralBody]);
 
   // Calculate orbit path points
   const orbitPoints = useMemo(() => {
-    if (!selectedAgent) return null;
+    if (!ephemeris) return null;
 
     try {
-      // Convert current state to orbital elements
-      const elements = cartesianToElements(selectedAgent.state);
-
-      // Generate points along the orbit by varying true anomaly
-      const numPoints = 100;
-      const points: [number, number, number][] = [];
-
-      for (let i = 0; i <= numPoints; i++) {
-        const ν = (i / numPoints) * 2 * Math.PI;
-        
-        // Create orbital elements with this true anomaly
-        const orbitElements: OrbitalElements = {
-          ...elements,
-          ν,
-        };
-
-        // Convert to Cartesian state
-        const state = elementsToCartesian(orbitElements);
-        
-        // Convert to scene coordinates
-        const scenePos = eciToScene(state.position);
-        points.push(scenePos);
-      }
-
-      return points;
+      return pathPoints(ephemeris, centralBody);
     } catch (error) {
       console.warn('Failed to calculate orbit path:', error);
       return null;
     }
-  }, [selectedAgent]);
+  }, [ephemeris, centralBody]);
 
   // Convert points to Float32Array for buffer geometry
   // Always call this hook, even if orbitPoints is null
@@ -63,19 +157,27 @@ export function OrbitPath() {
   }, [orbitPoints]);
 
   // Only render if we have valid data
-  if (!selectedAgent || !orbitPoints) return null;
+  if (!orbitPoints) return null;
 
   return (
-    <line>
-      <bufferGeometry>
-        <bufferAttribute
-          attach="attributes-position"
-          count={orbitPoints.length}
-          array={positions}
-          itemSize={3}
-        />
-      </bufferGeometry>
-      <lineBasicMaterial color="#00ffff" opacity={0.5} transparent lineWidth={1} />
-    </line>
+    <>
+      <line>
+        <bufferGeometry>
+          <bufferAttribute
+            attach="attributes-position"
+            count={orbitPoints.length}
+            array={positions}
+            itemSize={3}
+          />
+        </bufferGeometry>
+        <lineBasicMaterial color="#00ffff" opacity={0.5} transparent lineWidth={1} />
+      </line>
+      {maneuverPoints.map(({ id, position }) => (
+        <mesh key={id} position={position}>
+          <sphereGeometry args={[MANEUVER_MARKER_RADIUS, 12, 12]} />
+          <meshBasicMaterial color="#ffaa00" />
+        </mesh>
+      ))}
+    </>
   );
 }
@@ -1,16 +1,22 @@
 /**
  * TrajectoryPreview component: shows predicted trajectory after delta-v burn.
- * Renders a preview of the orbit path that would result from applying the current RTN delta-v inputs.
+ * Renders a preview of the orbit path that would result from applying the current RTN delta-v inputs,
+ * and the arc of the transfer chosen in the TransferPlanner.
  */
 
 import { useMemo, useState, useEffect } from 'react';
 import { useAgentStore } from '@/ui/stores/agentStore';
-import { propagateKepler } from '@/sim/orbit/propagator';
-import { applyDeltaV } from '@/sim/maneuvers/deltaV';
-import { rtnToEci } from '@/sim/maneuvers/rtnToEci';
+import { useSimClockStore } from '@/ui/stores/simClockStore';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
+import { interpolateEphemeris } from '@/sim/orbit/ephemeris';
+import { sampleEphemeris, hermiteStepForTolerance, DEFAULT_EPHEMERIS_TOLERANCE } from '@/sim/orbit/ephemerisCache';
+import { executeBurn } from '@/sim/maneuvers/deltaV';
+import { executeFiniteBurn } from '@/sim/maneuvers/propulsion';
+import { agentPropagatorOptions } from '@/sim/step';
 import { eciToScene } from './utils/coordinateConversion';
-import { EARTH_MU } from '@/sim/orbit/constants';
 import { cartesianToElements } from '@/sim/orbit/conversions';
+import { CartesianState } from '@/sim/orbit/types';
+import { TransferArc, TRANSFER_PREVIEW_EVENT } from './utils/transferPreview';
 
 /**
  * TrajectoryPreview component showing predicted trajectory after burn.
@@ -18,6 +24,7 @@ import { cartesianToElements } from '@/sim/orbit/conversions';
  */
 export function TrajectoryPreview() {
   const selectedAgent = useAgentStore((state) => state.getSelectedAgent());
+  const centralBody = useCentralBodyStore((state) => state.body);
   
   // We need to get RTN inputs from ManeuverPanel. Since we don't have a shared store for this,
   // we'll use a local state that gets updated via a custom event or we'll read from a temporary store.
@@ -34,6 +41,7 @@ export function TrajectoryPreview() {
   // For MVP, let's make TrajectoryPreview read from a simple state that ManeuverPanel sets
   
   const [previewRtnVector, setPreviewRtnVector] = useState<[number, number, number] | null>(null);
+  const [transferArc, setTransferArc] = useState<TransferArc | null>(null);
 
   // Listen for RTN preview updates from ManeuverPanel
   useEffect(() => {
@@ -47,9 +55,23 @@ export function TrajectoryPreview() {
     };
   }, []);
 
+  // Listen for transfer arc updates from TransferPlanner
+  useEffect(() => {
+    const handleTransferPreviewUpdate = (event: CustomEvent<TransferArc | null>) => {
+      setTransferArc(event.detail);
+    };
+
+    window.addEventListener(TRANSFER_PREVIEW_EVENT, handleTransferPreviewUpdate as EventListener);
+    return () => {
+      window.removeEventListener(TRANSFER_PREVIEW_EVENT, handleTransferPreviewUpdate as EventListener);
+    };
+  }, []);
+
   // Calculate trajectory preview points
   const trajectoryPoints = useMemo(() => {
     if (!selectedAgent || !previewRtnVector) return null;
+    // TLE and ephemeris agents follow their element set or tabulated states and cannot maneuver
+    if (selectedAgent.propagator === 'sgp4' || selectedAgent.propagator === 'ephemeris') return null;
 
     // Check if preview vector is non-zero
     const [r, t, n] = previewRtnVector;
@@ -57,26 +79,43 @@ export function TrajectoryPreview() {
     if (magnitude < 0.1) return null; // Don't show preview for near-zero inputs
 
     try {
-      // Apply delta-v to get predicted initial state (without actually updating the agent)
-      const dvVector = rtnToEci(previewRtnVector, selectedAgent.state);
-      const { newState } = applyDeltaV(selectedAgent.state, dvVector, selectedAgent.dvRemaining);
+      // Apply delta-v to get predicted initial state (without actually updating the agent);
+      // agents with propulsion fly the burn to cutoff, which includes the finite-burn losses
+      const { simTime, epoch } = useSimClockStore.getState();
+      const options = agentPropagatorOptions(selectedAgent, simTime, epoch, centralBody);
+      let newState: CartesianState;
+      let startTime = simTime;
+      if (selectedAgent.propulsion) {
+        const burn = executeFiniteBurn(
+          selectedAgent.state,
+          previewRtnVector,
+          selectedAgent.propulsion,
+          selectedAgent.propagator,
+          options
+        );
+        newState = burn.state;
+        startTime = simTime + burn.duration;
+      } else {
+        newState = executeBurn(selectedAgent.state, previewRtnVector, selectedAgent.dvRemaining).state;
+      }
 
       // Calculate orbital period for preview time horizon (~1 orbit)
-      const elements = cartesianToElements(newState);
-      const n = Math.sqrt(EARTH_MU / (elements.a * elements.a * elements.a)); // Mean motion (rad/s)
-      const period = (2 * Math.PI) / n; // Orbital period (s)
+      // Escape trajectories have no period, so they use the 2 hour cap
+      const elements = cartesianToElements(newState, centralBody.mu);
+      const period = elements.e < 1
+        ? 2 * Math.PI * Math.sqrt((elements.a * elements.a * elements.a) / centralBody.mu) // Orbital period (s)
+        : Infinity;
       const previewTime = Math.min(period, 7200); // Cap at 2 hours or 1 period
 
-      // Generate points along predicted trajectory
+      // Sample the predicted trajectory once, then interpolate points along it
+      const step = Math.min(hermiteStepForTolerance(newState, DEFAULT_EPHEMERIS_TOLERANCE, centralBody.mu), previewTime);
+      const ephemeris = sampleEphemeris(newState, startTime, previewTime, step, selectedAgent.propagator, options);
+
       const numPoints = 100;
       const points: [number, number, number][] = [];
-      const timeStep = previewTime / numPoints;
-
       for (let i = 0; i <= numPoints; i++) {
-        // Propagate from initial state
-        const propagatedState = propagateKepler(newState, i * timeStep);
-        const scenePos = eciToScene(propagatedState.position);
-        points.push(scenePos);
+        const state = interpolateEphemeris(ephemeris, startTime + (i / numPoints) * previewTime);
+        points.push(eciToScene(state.position, centralBody.radius));
       }
 
       return points;
@@ -84,36 +123,77 @@ export function TrajectoryPreview() {
       console.warn('Failed to calculate trajectory preview:', error);
       return null;
     }
-  }, [selectedAgent, previewRtnVector]);
+  }, [selectedAgent, previewRtnVector, centralBody]);
 
-  // Convert points to Float32Array for buffer geometry
-  const positions = useMemo(() => {
-    if (!trajectoryPoints) {
-      return new Float32Array(0);
+  // Transfer arc: the two-body conic from the departure burn to arrival
+  const transferPositions = useMemo(() => {
+    if (!transferArc) return null;
+
+    try {
+      const { simTime } = useSimClockStore.getState();
+      const step = Math.min(
+        hermiteStepForTolerance(transferArc.state, DEFAULT_EPHEMERIS_TOLERANCE, centralBody.mu),
+        transferArc.duration
+      );
+      const ephemeris = sampleEphemeris(transferArc.state, simTime, transferArc.duration, step, 'kepler', { centralBody });
+
+      const numPoints = 100;
+      const points: [number, number, number][] = [];
+      for (let i = 0; i <= numPoints; i++) {
+        const state = interpolateEphemeris(ephemeris, simTime + (i / numPoints) * transferArc.duration);
+        points.push(eciToScene(state.position, centralBody.radius));
+      }
+      return toPositionArray(points);
+    } catch (error) {
+      console.warn('Failed to calculate transfer arc:', error);
+      return null;
     }
-    const array = new Float32Array(trajectoryPoints.length * 3);
-    trajectoryPoints.forEach((point, index) => {
-      array[index * 3] = point[0];
-      array[index * 3 + 1] = point[1];
-      array[index * 3 + 2] = point[2];
-    });
-    return array;
-  }, [trajectoryPoints]);
+  }, [transferArc, centralBody]);
+
+  // Convert points to Float32Array for buffer geometry
+  const positions = useMemo(() => (trajectoryPoints ? toPositionArray(trajectoryPoints) : null), [trajectoryPoints]);
 
   // Only render if we have valid data
-  if (!selectedAgent || !trajectoryPoints || trajectoryPoints.length === 0) return null;
+  if (!selectedAgent || (!positions && !transferPositions)) return null;
+
+  return (
+    <>
+      {positions && <PreviewLine positions={positions} color="#ffaa00" />}
+      {transferPositions && <PreviewLine positions={transferPositions} color="#ff66ff" />}
+    </>
+  );
+}
+
+/**
+ * Convert points to a Float32Array for buffer geometry.
+ */
+function toPositionArray(points: [number, number, number][]): Float32Array {
+  const array = new Float32Array(points.length * 3);
+  points.forEach((point, index) => {
+    array[index * 3] = point[0];
+    array[index * 3 + 1] = point[1];
+    array[index * 3 + 2] = point[2];
+  });
+  return array;
+}
+
+interface PreviewLineProps {
+  positions: Float32Array;
+  color: string;
+}
 
+function PreviewLine({ positions, color }: PreviewLineProps) {
   return (
     <line>
       <bufferGeometry>
         <bufferAttribute
           attach="attributes-position"
-          count={trajectoryPoints.length}
+          count={positions.length / 3}
           array={positions}
           itemSize={3}
         />
       </bufferGeometry>
-      <lineBasicMaterial color="#ffaa00" opacity={0.6} transparent />
+      <lineBasicMaterial color={color} opacity={0.6} transparent />
     </line>
   );
 }
@@ -0,0 +1,58 @@
+/**
+ * Tests for the trajectory cache key of the agent ephemerides.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { agentEphemeris, agentTrajectoryKey } from './agentEphemeris';
+import { Agent } from '../Agents.types';
+import { useAgentStore } from '@/ui/stores/agentStore';
+import { elementsToCartesian } from '@/sim/orbit/conversions';
+import { propagateKepler } from '@/sim/orbit/propagator';
+import { EARTH_BODY } from '@/sim/orbit/centralBody';
+import { J2000_JD } from '@/sim/orbit/time';
+
+const agent: Agent = {
+  id: 'sat',
+  state: elementsToCartesian({ a: 7000e3, e: 0.01, i: 0.5, Ω: 0, ω: 0, ν: 0 }),
+  behaviors: { cohesion: false, separation: false, alignment: false },
+  team: 'friendly',
+  dvRemaining: 100,
+  propagator: 'kepler',
+  maneuvers: [{ id: 'm1', trigger: { type: 'time', time: 30 }, rtn: [0, 1, 0] }],
+};
+
+function key(): string {
+  return agentTrajectoryKey(useAgentStore.getState().agents[0]!);
+}
+
+describe('agentTrajectoryKey', () => {
+  beforeEach(() => {
+    useAgentStore.getState().setAgents([agent]);
+  });
+
+  it('keeps the key while agents propagate along their trajectory', () => {
+    const before = key();
+    useAgentStore.getState().updateAgentsBatch([{ id: 'sat', state: propagateKepler(agent.state, 60) }]);
+    expect(key()).toBe(before);
+
+    const moved = useAgentStore.getState().agents[0]!;
+    expect(agentEphemeris(moved, 60, J2000_JD, EARTH_BODY)).toBe(agentEphemeris(moved, 61, J2000_JD, EARTH_BODY));
+  });
+
+  it('changes the key when the trajectory changes', () => {
+    const keys = [key()];
+    const store = useAgentStore.getState();
+
+    store.updateAgentsBatch([{ id: 'sat', state: propagateKepler(agent.state, 60) }], ['sat']);
+    keys.push(key());
+    store.applyDeltaVToAgent('sat', [0, 1, 0]);
+    keys.push(key());
+    store.applyExecutedManeuvers([{ agentId: 'sat', maneuverId: 'm1', time: 30, dvRemaining: 98 }]);
+    keys.push(key());
+    // A new scenario reusing the ID
+    store.setAgents([agent]);
+    keys.push(key());
+
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+});
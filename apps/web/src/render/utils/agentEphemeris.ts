@@ -0,0 +1,46 @@
+/**
+ * Sampled trajectories of agents for drawing, shared by the render components
+ * through one ephemeris cache (see sim/orbit/ephemerisCache.ts).
+ */
+
+import { EphemerisCache } from '@/sim/orbit/ephemerisCache';
+import { Ephemeris } from '@/sim/orbit/ephemeris';
+import { CentralBody } from '@/sim/orbit/centralBody';
+import { agentPropagatorOptions } from '@/sim/step';
+import { Agent } from '../Agents.types';
+
+const cache = new EphemerisCache();
+
+/**
+ * Key that changes when an agent's trajectory changes outside of propagation
+ * (see Agent.trajectoryRevision).
+ * @param agent Agent
+ * @returns Trajectory key
+ */
+export function agentTrajectoryKey(agent: Agent): string {
+  return `${agent.id}:${agent.trajectoryRevision ?? 0}`;
+}
+
+/**
+ * Cached ephemeris of an agent from (about) the current time onwards.
+ * The same object is returned until the agent's trajectory changes or time
+ * moves past the first half of the sampled window.
+ *
+ * @param agent Agent (its state is taken to be at time)
+ * @param time Current sim time in seconds
+ * @param epochJd Julian date of sim time 0
+ * @param centralBody Body the agent orbits
+ * @returns Sampled ephemeris of the agent
+ */
+export function agentEphemeris(agent: Agent, time: number, epochJd: number, centralBody: CentralBody): Ephemeris {
+  // A new scenario may reuse agent IDs, so its epoch and central body are part of the revision
+  const revision = `${agentTrajectoryKey(agent)}:${agent.propagator}:${epochJd}:${centralBody.name}:${centralBody.mu}`;
+  return cache.get(
+    agent.id,
+    revision,
+    agent.state,
+    time,
+    agent.propagator,
+    agentPropagatorOptions(agent, time, epochJd, centralBody)
+  );
+}
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { Mesh, SphereGeometry, Vector3 } from 'three';
+import { eciToScene, sceneToEci, geodeticToEarthLocal } from './coordinateConversion';
+import { ecefToEci, geodeticToEcef } from '@/sim/orbit/conversions';
+import { EARTH_RADIUS, MOON_RADIUS } from '@/sim/orbit/constants';
+
+/**
+ * Vertex of a sphere geometry at texture coordinates (u, v), as the Earth mesh builds it.
+ * Equirectangular Earth textures put longitude -180° at u = 0 and the north pole at v = 1.
+ */
+function sphereVertexAt(geometry: SphereGeometry, u: number, v: number): Vector3 {
+  const positions = geometry.getAttribute('position');
+  const uvs = geometry.getAttribute('uv');
+  for (let index = 0; index < uvs.count; index++) {
+    if (Math.abs(uvs.getX(index) - u) < 1e-9 && Math.abs(uvs.getY(index) - v) < 1e-9) {
+      return new Vector3().fromBufferAttribute(positions, index);
+    }
+  }
+  throw new Error(`No vertex at (${u}, ${v})`);
+}
+
+describe('coordinateConversion', () => {
+  it('maps ECI north to scene +Y and round-trips', () => {
+    expect(eciToScene([0, 0, EARTH_RADIUS])[1]).toBe(1);
+    expect(eciToScene([0, EARTH_RADIUS, 0])[2]).toBe(-1);
+    expect(sceneToEci(eciToScene([1e6, -2e6, 3e6]))).toEqual([1e6, -2e6, 3e6]);
+  });
+
+  it('scales by the central body radius', () => {
+    expect(eciToScene([MOON_RADIUS, 0, 0], MOON_RADIUS)[0]).toBe(1);
+    expect(sceneToEci([0, 2, 0], MOON_RADIUS)[2]).toBe(2 * MOON_RADIUS);
+  });
+
+  it('lines texture longitudes up with ECI positions when the Earth rotates by GMST', () => {
+    const geometry = new SphereGeometry(1, 64, 64);
+    const earth = new Mesh(geometry);
+    const gmst = 1.234;
+    earth.rotation.y = gmst;
+    earth.updateMatrixWorld();
+
+    for (const [u, longitude] of [[0.5, 0], [0.75, Math.PI / 2], [0.25, -Math.PI / 2]] as const) {
+      const onTexture = earth.localToWorld(sphereVertexAt(geometry, u, 0.5));
+      const ecef = geodeticToEcef({ latitude: 0, longitude, altitude: 0 });
+      const [x, y, z] = eciToScene(ecefToEci(ecef, gmst)).map((value) => value * (EARTH_RADIUS / 6378137));
+
+      expect(onTexture.x).toBeCloseTo(x!, 9);
+      expect(onTexture.y).toBeCloseTo(y!, 9);
+      expect(onTexture.z).toBeCloseTo(z!, 9);
+    }
+  });
+
+  it('places latitudes and longitudes on the matching texture point of the unrotated sphere', () => {
+    const geometry = new SphereGeometry(1, 64, 64);
+
+    // v runs from the south pole (0) to the north pole (1); 0.75 is 45°N
+    for (const [u, v, latitude, longitude] of [
+      [0.5, 0.5, 0, 0],
+      [0.75, 0.75, Math.PI / 4, Math.PI / 2],
+      [0.25, 0.25, -Math.PI / 4, -Math.PI / 2],
+    ] as const) {
+      // Geometry vertices are stored as 32-bit floats
+      const onTexture = sphereVertexAt(geometry, u, v);
+      const [x, y, z] = geodeticToEarthLocal(latitude, longitude);
+
+      expect(onTexture.x).toBeCloseTo(x, 6);
+      expect(onTexture.y).toBeCloseTo(y, 6);
+      expect(onTexture.z).toBeCloseTo(z, 6);
+    }
+    expect(geodeticToEarthLocal(Math.PI / 2, 1, 1.5)[1]).toBeCloseTo(1.5, 12);
+  });
+});
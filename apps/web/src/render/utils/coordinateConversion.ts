@@ -1,33 +1,78 @@
 /**
  * Coordinate conversion utilities for ECI (Earth-Centered Inertial) to scene coordinates.
- * Scene uses normalized units where Earth radius = 1.
+ * Scene uses normalized units where the central body's radius = 1 (the Earth by
+ * default) and is Y-up like three.js: ECI [x, y, z] maps to scene [x, z, -y], so
+ * the north pole is scene +Y (the pole of the sphere geometry) and the vernal
+ * equinox is scene +X.
  */
 
 import { EARTH_RADIUS } from '@/sim/orbit/constants';
+import { sunPosition } from '@/sim/orbit/sun';
 
 /**
  * Convert ECI position (meters) to scene coordinates (normalized units).
- * Scene uses Earth radius = 1 as the unit.
+ * Scene uses the central body's radius as the unit.
  * @param position ECI position in meters [x, y, z]
+ * @param radius Central body radius in meters (defaults to the Earth's)
  * @returns Scene position in normalized units [x, y, z]
  */
-export function eciToScene(position: [number, number, number]): [number, number, number] {
+export function eciToScene(
+  position: [number, number, number],
+  radius: number = EARTH_RADIUS
+): [number, number, number] {
   return [
-    position[0] / EARTH_RADIUS,
-    position[1] / EARTH_RADIUS,
-    position[2] / EARTH_RADIUS,
+    position[0] / radius,
+    position[2] / radius,
+    -position[1] / radius,
   ];
 }
 
 /**
  * Convert scene coordinates (normalized units) to ECI position (meters).
  * @param position Scene position in normalized units [x, y, z]
+ * @param radius Central body radius in meters (defaults to the Earth's)
  * @returns ECI position in meters [x, y, z]
  */
-export function sceneToEci(position: [number, number, number]): [number, number, number] {
+export function sceneToEci(
+  position: [number, number, number],
+  radius: number = EARTH_RADIUS
+): [number, number, number] {
   return [
-    position[0] * EARTH_RADIUS,
-    position[1] * EARTH_RADIUS,
-    position[2] * EARTH_RADIUS,
+    position[0] * radius,
+    -position[2] * radius,
+    position[1] * radius,
   ];
 }
+
+/**
+ * Point on the Earth sphere in the sphere's own (Earth-fixed) frame, before it
+ * is rotated by sidereal time: Greenwich on +X, north on +Y and 90°E on -Z.
+ * Geodetic latitude is used directly, as equirectangular Earth textures do.
+ * @param latitude Geodetic latitude in radians
+ * @param longitude Longitude in radians, east positive
+ * @param radius Sphere radius in scene units (defaults to 1)
+ * @returns Position in the Earth sphere's local frame
+ */
+export function geodeticToEarthLocal(
+  latitude: number,
+  longitude: number,
+  radius = 1
+): [number, number, number] {
+  const cosLatitude = Math.cos(latitude);
+  return [
+    radius * cosLatitude * Math.cos(longitude),
+    radius * Math.sin(latitude),
+    -radius * cosLatitude * Math.sin(longitude),
+  ];
+}
+
+/**
+ * Unit vector from the Earth toward the Sun in scene coordinates.
+ * @param jd Julian date
+ * @returns Normalized scene direction [x, y, z]
+ */
+export function sunSceneDirection(jd: number): [number, number, number] {
+  const [x, y, z] = eciToScene(sunPosition(jd));
+  const length = Math.sqrt(x * x + y * y + z * z);
+  return [x / length, y / length, z / length];
+}
@@ -0,0 +1,29 @@
+/**
+ * Transfer arc shared between TransferPlanner (which chooses the transfer) and
+ * TrajectoryPreview (which draws it), passed as a window event like the RTN preview.
+ */
+
+import { CartesianState } from '@/sim/orbit/types';
+
+/**
+ * Name of the window event carrying the transfer arc.
+ */
+export const TRANSFER_PREVIEW_EVENT = 'transferPreviewUpdate';
+
+/**
+ * A planned transfer arc: the state just after the departure burn and the time of flight.
+ */
+export interface TransferArc {
+  state: CartesianState;
+  /** Time of flight in seconds */
+  duration: number;
+}
+
+/**
+ * Update the drawn transfer arc.
+ * Call this from TransferPlanner when the chosen transfer changes (null hides the arc).
+ */
+export function updateTransferPreview(arc: TransferArc | null) {
+  const event = new CustomEvent(TRANSFER_PREVIEW_EVENT, { detail: arc });
+  window.dispatchEvent(event);
+}
@@ -0,0 +1,52 @@
+/**
+ * Throttled view of the moving agents for components whose output is too
+ * expensive to rebuild every frame (ground tracks, orbit paths, planners).
+ */
+
+import { useRef, useSyncExternalStore } from 'react';
+import { useAgentStore } from '@/ui/stores/agentStore';
+import { useSimClockStore } from '@/ui/stores/simClockStore';
+import { Agent } from '../Agents.types';
+
+/**
+ * Agents and the sim time their states are at.
+ */
+export interface SimSnapshot {
+  /** All agents */
+  agents: Agent[];
+  /** Sim time in seconds */
+  simTime: number;
+}
+
+function subscribe(onChange: () => void): () => void {
+  const unsubscribeClock = useSimClockStore.subscribe(onChange);
+  const unsubscribeAgents = useAgentStore.subscribe(onChange);
+  return () => {
+    unsubscribeClock();
+    unsubscribeAgents();
+  };
+}
+
+/**
+ * Snapshot of the agents and sim time, retaken when the sim clock enters a
+ * new refresh interval (or jumps back) and when the key changes. In between
+ * the same object is returned, so it can be a memo dependency.
+ *
+ * @param seconds Refresh interval in sim seconds
+ * @param key Value that retakes the snapshot when it changes (e.g. a trajectory key)
+ * @returns Latest snapshot
+ */
+export function useSimSnapshot(seconds: number, key: unknown = null): SimSnapshot {
+  const latest = useRef<{ tick: number; key: unknown; snapshot: SimSnapshot } | null>(null);
+
+  const getSnapshot = (): SimSnapshot => {
+    const { simTime } = useSimClockStore.getState();
+    const tick = Math.floor(simTime / seconds);
+    if (!latest.current || latest.current.tick !== tick || latest.current.key !== key) {
+      latest.current = { tick, key, snapshot: { agents: useAgentStore.getState().agents, simTime } };
+    }
+    return latest.current.snapshot;
+  };
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
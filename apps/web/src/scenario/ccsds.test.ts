@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import { parseOem, formatOem, parseOpm, formatOpm, OemMessage, OpmMessage } from './ccsds';
+
+const METADATA = {
+  objectName: 'SAT-1',
+  objectId: '2024-001A',
+  centerName: 'EARTH',
+  refFrame: 'EME2000',
+  timeSystem: 'UTC',
+};
+
+/** 2024-01-01T00:00:00Z */
+const EPOCH_JD = 2460310.5;
+
+/**
+ * OEM in the style of CCSDS 502.0-B-2 Annex G, with comments, day-of-year
+ * epochs, acceleration columns and a covariance block.
+ */
+const EXTERNAL_OEM = `CCSDS_OEM_VERS = 2.0
+COMMENT Produced by an external tool
+CREATION_DATE = 2024-001T00:00:00
+ORIGINATOR = EXTERNAL
+
+META_START
+OBJECT_NAME = SAT-1
+OBJECT_ID = 2024-001A
+CENTER_NAME = EARTH
+REF_FRAME = GCRF
+TIME_SYSTEM = UTC
+START_TIME = 2024-01-01T00:00:00.000
+STOP_TIME = 2024-01-01T00:02:00.000
+INTERPOLATION = LAGRANGE
+INTERPOLATION_DEGREE = 5
+META_STOP
+
+COMMENT State vectors
+2024-01-01T00:00:00.000 6771.000000 0.000000 0.000000 0.000000 5.336000 5.336000
+2024-001T00:01:00 6765.000000 320.000000 320.000000 -0.200000 5.330000 5.330000 0.0 0.0 0.0
+2024-01-01T00:02:00Z 6747.000000 640.000000 640.000000 -0.400000 5.310000 5.310000
+
+COVARIANCE_START
+EPOCH = 2024-01-01T00:00:00
+COV_REF_FRAME = RTN
+3.3e-04
+COVARIANCE_STOP
+`;
+
+describe('ccsds', () => {
+  describe('OEM', () => {
+    it('parses states in meters with calendar and day-of-year epochs', () => {
+      const oem = parseOem(EXTERNAL_OEM);
+
+      expect(oem.originator).toBe('EXTERNAL');
+      expect(oem.segments).toHaveLength(1);
+
+      const [segment] = oem.segments;
+      expect(segment!.metadata.objectId).toBe('2024-001A');
+      expect(segment!.metadata.refFrame).toBe('GCRF');
+      expect(segment!.metadata.interpolationDegree).toBe(5);
+      expect(segment!.metadata.startTime).toBeCloseTo(EPOCH_JD, 9);
+
+      const states = segment!.states;
+      expect(states).toHaveLength(3);
+      expect(states[0]!.position).toEqual([6771000, 0, 0]);
+      expect(states[0]!.velocity).toEqual([0, 5336, 5336]);
+      expect((states[1]!.epochJd - EPOCH_JD) * 86400).toBeCloseTo(60, 4);
+      expect((states[2]!.epochJd - EPOCH_JD) * 86400).toBeCloseTo(120, 4);
+    });
+
+    it('round-trips through formatOem', () => {
+      const message: OemMessage = {
+        creationDate: '2024-01-02T00:00:00.000Z',
+        originator: 'OSWV',
+        segments: [
+          {
+            metadata: {
+              ...METADATA,
+              startTime: EPOCH_JD,
+              stopTime: EPOCH_JD + 60 / 86400,
+              interpolation: 'LAGRANGE',
+              interpolationDegree: 7,
+            },
+            states: [
+              { epochJd: EPOCH_JD, position: [6771000.123, -1.5, 2], velocity: [0.001, 5336.25, 5336] },
+              { epochJd: EPOCH_JD + 60 / 86400, position: [6765000, 320000, 320000], velocity: [-200, 5330, 5330] },
+            ],
+          },
+        ],
+      };
+
+      const text = formatOem(message);
+      const parsed = parseOem(text);
+
+      expect(text).toContain('CCSDS_OEM_VERS = 2.0');
+      expect(text).toContain('START_TIME = 2024-01-01T00:00:00.000');
+      expect(parsed.segments[0]!.metadata).toMatchObject(METADATA);
+      expect(parsed.segments[0]!.metadata.interpolationDegree).toBe(7);
+
+      const [first] = parsed.segments[0]!.states;
+      expect(first!.epochJd).toBeCloseTo(EPOCH_JD, 9);
+      expect(first!.position[0]).toBeCloseTo(6771000.123, 3);
+      expect(first!.position[1]).toBeCloseTo(-1.5, 3);
+      expect(first!.velocity[0]).toBeCloseTo(0.001, 6);
+      expect(first!.velocity[1]).toBeCloseTo(5336.25, 6);
+    });
+
+    it('rejects frames, centers and time systems the sim cannot use', () => {
+      expect(() => parseOem(EXTERNAL_OEM.replace('REF_FRAME = GCRF', 'REF_FRAME = ITRF'))).toThrow('REF_FRAME');
+      expect(() => parseOem(EXTERNAL_OEM.replace('CENTER_NAME = EARTH', 'CENTER_NAME = SUN'))).toThrow('CENTER_NAME');
+      expect(() => parseOem(EXTERNAL_OEM.replace('TIME_SYSTEM = UTC', 'TIME_SYSTEM = TAI'))).toThrow('TIME_SYSTEM');
+    });
+
+    it('rejects malformed messages', () => {
+      expect(() => parseOem(EXTERNAL_OEM.replace('CCSDS_OEM_VERS', 'CCSDS_OPM_VERS'))).toThrow('Not an OEM');
+      expect(() => parseOem(EXTERNAL_OEM.replace('6771.000000 0.000000', '6771.000000 x'))).toThrow('Invalid OEM state line');
+      expect(() => parseOem(EXTERNAL_OEM.replace('2024-01-01T00:00:00.000 ', '01/01/2024 '))).toThrow('Invalid CCSDS epoch');
+      expect(() => parseOem(EXTERNAL_OEM.replace('OBJECT_ID = 2024-001A\n', ''))).toThrow('Missing OBJECT_ID');
+    });
+  });
+
+  describe('OPM', () => {
+    const message: OpmMessage = {
+      creationDate: '2024-01-02T00:00:00.000Z',
+      originator: 'OSWV',
+      metadata: METADATA,
+      epochJd: EPOCH_JD + 0.25,
+      position: [6771000, 0, 0],
+      velocity: [0, 5336, 5336],
+      keplerian: {
+        elements: { a: 6800000, e: 0.01, i: 0.9, Ω: 1, ω: 2, ν: 3 },
+        mu: 3.986004418e14,
+      },
+    };
+
+    it('writes the state vector with units', () => {
+      const text = formatOpm(message);
+
+      expect(text).toContain('CCSDS_OPM_VERS = 2.0');
+      expect(text).toContain('EPOCH = 2024-01-01T06:00:00.000');
+      expect(text).toContain('X = 6771.000000 [km]');
+      expect(text).toContain('Y_DOT = 5.336000000 [km/s]');
+      expect(text).toContain('GM = 398600.4418 [km**3/s**2]');
+    });
+
+    it('round-trips through formatOpm', () => {
+      const parsed = parseOpm(formatOpm(message));
+
+      expect(parsed.metadata).toEqual(METADATA);
+      expect(parsed.epochJd).toBeCloseTo(message.epochJd, 9);
+      expect(parsed.position).toEqual(message.position);
+      expect(parsed.velocity).toEqual(message.velocity);
+      expect(parsed.keplerian!.elements.a).toBeCloseTo(6800000, 3);
+      expect(parsed.keplerian!.elements.i).toBeCloseTo(0.9, 9);
+      expect(parsed.keplerian!.elements.ν).toBeCloseTo(3, 9);
+      expect(parsed.keplerian!.mu).toBeCloseTo(3.986004418e14, -2);
+    });
+
+    it('reads a state vector without Keplerian elements', () => {
+      const { keplerian: _keplerian, ...stateOnly } = message;
+      const parsed = parseOpm(formatOpm(stateOnly));
+
+      expect(parsed.keplerian).toBeUndefined();
+      expect(() => parseOpm(formatOpm(stateOnly).replace(/^X = .*$/m, ''))).toThrow('Missing X');
+    });
+  });
+});
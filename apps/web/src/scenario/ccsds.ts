@@ -0,0 +1,433 @@
+/**
+ * CCSDS Orbit Data Messages (CCSDS 502.0-B-2) in keyword = value notation (KVN).
+ * Supports the Orbit Ephemeris Message (OEM: tabulated states) and the
+ * Orbit Parameter Message (OPM: a single state with optional Keplerian elements).
+ * Messages use km and km/s; the parsed types use meters and m/s like the rest of the sim.
+ */
+
+import { OrbitalElements } from '@/sim/orbit/types';
+import { isoFromJulianDate, SECONDS_PER_DAY, UNIX_EPOCH_JD } from '@/sim/orbit/time';
+
+/**
+ * Inertial reference frames accepted on import. The sim does not distinguish
+ * between them (the differences are far below its modelling accuracy).
+ */
+const INERTIAL_FRAMES = ['EME2000', 'GCRF', 'ICRF', 'TEME'];
+
+/**
+ * Frame origins accepted on import: the central bodies the sim can orbit.
+ */
+const CENTER_NAMES = ['EARTH', 'MOON', 'MARS'];
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Fields shared by the metadata of every message.
+ */
+export interface OdmMetadata {
+  /** Spacecraft name */
+  objectName: string;
+  /** Spacecraft identifier (international designator or local ID) */
+  objectId: string;
+  /** Origin of the reference frame (e.g. 'EARTH') */
+  centerName: string;
+  /** Reference frame (e.g. 'EME2000') */
+  refFrame: string;
+  /** Time system of the epochs (e.g. 'UTC') */
+  timeSystem: string;
+}
+
+/**
+ * One state in an OEM data block.
+ */
+export interface OemState {
+  /** Epoch as a Julian date */
+  epochJd: number;
+  /** Position (meters) */
+  position: [number, number, number];
+  /** Velocity (m/s) */
+  velocity: [number, number, number];
+}
+
+/**
+ * One metadata block and the states that follow it.
+ */
+export interface OemSegment {
+  metadata: OdmMetadata & {
+    /** First epoch covered (Julian date) */
+    startTime: number;
+    /** Last epoch covered (Julian date) */
+    stopTime: number;
+    /** Interpolation method (e.g. 'LAGRANGE'), if given */
+    interpolation?: string;
+    /** Degree of the interpolating polynomial, if given */
+    interpolationDegree?: number;
+  };
+  /** States in time order */
+  states: OemState[];
+}
+
+/**
+ * Orbit Ephemeris Message.
+ */
+export interface OemMessage {
+  /** Message creation date (ISO 8601) */
+  creationDate: string;
+  /** Creating organization */
+  originator: string;
+  segments: OemSegment[];
+}
+
+/**
+ * Orbit Parameter Message.
+ */
+export interface OpmMessage {
+  /** Message creation date (ISO 8601) */
+  creationDate: string;
+  /** Creating organization */
+  originator: string;
+  metadata: OdmMetadata;
+  /** Epoch of the state as a Julian date */
+  epochJd: number;
+  /** Position (meters) */
+  position: [number, number, number];
+  /** Velocity (m/s) */
+  velocity: [number, number, number];
+  /** Osculating elements and the gravitational parameter (m³/s²) they assume, if given */
+  keplerian?: { elements: OrbitalElements; mu: number };
+}
+
+/**
+ * Julian date from a CCSDS epoch: 'YYYY-MM-DDThh:mm:ss[.ddd][Z]' or the
+ * day-of-year form 'YYYY-DDDThh:mm:ss[.ddd][Z]'.
+ */
+function parseEpoch(text: string): number {
+  const match = /^(\d{4})-(?:(\d{2})-(\d{2})|(\d{3}))T(\d{2}):(\d{2}):(\d{2}(?:\.\d*)?)Z?$/.exec(text.trim());
+  if (!match) {
+    throw new Error(`Invalid CCSDS epoch "${text}"`);
+  }
+  const [, year, month, day, dayOfYear, hours, minutes, seconds] = match;
+  const midnight = dayOfYear !== undefined
+    ? Date.UTC(Number(year), 0, Number(dayOfYear))
+    : Date.UTC(Number(year), Number(month) - 1, Number(day));
+  const secondOfDay = Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds);
+  return midnight / (SECONDS_PER_DAY * 1000) + UNIX_EPOCH_JD + secondOfDay / SECONDS_PER_DAY;
+}
+
+/**
+ * CCSDS epoch (calendar form, millisecond precision, no zone suffix) from a Julian date.
+ */
+function formatEpoch(jd: number): string {
+  return isoFromJulianDate(jd).slice(0, -1);
+}
+
+/**
+ * Format a number in km with fixed decimals, converting from meters.
+ */
+function km(value: number, decimals: number): string {
+  return (value / 1000).toFixed(decimals);
+}
+
+/**
+ * Split a message into 'KEY = value' pairs and data lines, dropping comments and blank lines.
+ */
+function tokenize(text: string): Array<{ key: string; value: string } | { data: string }> {
+  const tokens: Array<{ key: string; value: string } | { data: string }> = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (line === '' || line.startsWith('COMMENT')) continue;
+
+    const keyValue = /^([A-Z0-9_]+)\s*=\s*(.*?)(?:\s*\[[^\]]*\])?$/.exec(line);
+    if (keyValue) {
+      tokens.push({ key: keyValue[1]!, value: keyValue[2]! });
+    } else if (/^[A-Z_]+$/.test(line)) {
+      // Block delimiters such as META_START
+      tokens.push({ key: line, value: '' });
+    } else {
+      tokens.push({ data: line });
+    }
+  }
+  return tokens;
+}
+
+/**
+ * Read a required keyword from a block.
+ */
+function required(block: Map<string, string>, key: string): string {
+  const value = block.get(key);
+  if (value === undefined || value === '') {
+    throw new Error(`Missing ${key}`);
+  }
+  return value;
+}
+
+/**
+ * Read a required numeric keyword from a block.
+ */
+function requiredNumber(block: Map<string, string>, key: string): number {
+  const value = Number(required(block, key));
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid ${key} "${block.get(key)}"`);
+  }
+  return value;
+}
+
+/**
+ * Read the metadata shared by every message and check that the sim can use its frame.
+ */
+function readMetadata(block: Map<string, string>): OdmMetadata {
+  const metadata: OdmMetadata = {
+    objectName: required(block, 'OBJECT_NAME'),
+    objectId: required(block, 'OBJECT_ID'),
+    centerName: required(block, 'CENTER_NAME'),
+    refFrame: required(block, 'REF_FRAME'),
+    timeSystem: required(block, 'TIME_SYSTEM'),
+  };
+  if (!CENTER_NAMES.includes(metadata.centerName.toUpperCase())) {
+    throw new Error(`Unsupported CENTER_NAME "${metadata.centerName}" (expected one of ${CENTER_NAMES.join(', ')})`);
+  }
+  if (!INERTIAL_FRAMES.includes(metadata.refFrame.toUpperCase())) {
+    throw new Error(`Unsupported REF_FRAME "${metadata.refFrame}" (expected one of ${INERTIAL_FRAMES.join(', ')})`);
+  }
+  if (metadata.timeSystem.toUpperCase() !== 'UTC') {
+    throw new Error(`Unsupported TIME_SYSTEM "${metadata.timeSystem}" (only UTC is supported)`);
+  }
+  return metadata;
+}
+
+/**
+ * Header lines shared by OEM and OPM.
+ */
+function formatHeader(kind: 'OEM' | 'OPM', creationDate: string, originator: string): string[] {
+  return [
+    `CCSDS_${kind}_VERS = 2.0`,
+    `CREATION_DATE = ${creationDate.replace(/Z$/, '')}`,
+    `ORIGINATOR = ${originator}`,
+  ];
+}
+
+/**
+ * Metadata lines shared by OEM and OPM.
+ */
+function formatMetadata(metadata: OdmMetadata): string[] {
+  return [
+    `OBJECT_NAME = ${metadata.objectName}`,
+    `OBJECT_ID = ${metadata.objectId}`,
+    `CENTER_NAME = ${metadata.centerName}`,
+    `REF_FRAME = ${metadata.refFrame}`,
+    `TIME_SYSTEM = ${metadata.timeSystem}`,
+  ];
+}
+
+/**
+ * Write an Orbit Ephemeris Message in KVN.
+ * @param message OEM to write
+ * @returns Message text
+ */
+export function formatOem(message: OemMessage): string {
+  const lines = formatHeader('OEM', message.creationDate, message.originator);
+
+  for (const segment of message.segments) {
+    const { metadata } = segment;
+    lines.push('', 'META_START', ...formatMetadata(metadata));
+    lines.push(`START_TIME = ${formatEpoch(metadata.startTime)}`);
+    lines.push(`STOP_TIME = ${formatEpoch(metadata.stopTime)}`);
+    if (metadata.interpolation !== undefined) {
+      lines.push(`INTERPOLATION = ${metadata.interpolation}`);
+    }
+    if (metadata.interpolationDegree !== undefined) {
+      lines.push(`INTERPOLATION_DEGREE = ${metadata.interpolationDegree}`);
+    }
+    lines.push('META_STOP', '');
+
+    for (const state of segment.states) {
+      lines.push([
+        formatEpoch(state.epochJd),
+        ...state.position.map((value) => km(value, 6)),
+        ...state.velocity.map((value) => km(value, 9)),
+      ].join(' '));
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Read an Orbit Ephemeris Message in KVN.
+ * Covariance blocks and optional acceleration columns are ignored.
+ * @param text Message text
+ * @returns Parsed message in meters and m/s
+ * @throws Error if the message is malformed, has no states, or uses an unsupported center, frame or time system
+ */
+export function parseOem(text: string): OemMessage {
+  const tokens = tokenize(text);
+  const header = new Map<string, string>();
+  const segments: OemSegment[] = [];
+  let metadataBlock: Map<string, string> | null = null;
+  let inCovariance = false;
+
+  for (const token of tokens) {
+    if ('data' in token) {
+      if (inCovariance) continue;
+      const segment = segments[segments.length - 1];
+      if (!segment || metadataBlock) {
+        throw new Error(`Unexpected data line "${token.data}"`);
+      }
+      const [epoch, ...fields] = token.data.split(/\s+/);
+      const values = fields.map(Number);
+      if ((values.length !== 6 && values.length !== 9) || values.some((value) => !Number.isFinite(value))) {
+        throw new Error(`Invalid OEM state line "${token.data}"`);
+      }
+      const [x, y, z, vx, vy, vz] = values.map((value) => value * 1000) as [number, number, number, number, number, number];
+      segment.states.push({ epochJd: parseEpoch(epoch!), position: [x, y, z], velocity: [vx, vy, vz] });
+      continue;
+    }
+
+    const { key, value } = token;
+    if (key === 'META_START') {
+      metadataBlock = new Map();
+    } else if (key === 'META_STOP') {
+      if (!metadataBlock) throw new Error('META_STOP without META_START');
+      const degree = metadataBlock.get('INTERPOLATION_DEGREE');
+      segments.push({
+        metadata: {
+          ...readMetadata(metadataBlock),
+          startTime: parseEpoch(required(metadataBlock, 'START_TIME')),
+          stopTime: parseEpoch(required(metadataBlock, 'STOP_TIME')),
+          interpolation: metadataBlock.get('INTERPOLATION'),
+          interpolationDegree: degree !== undefined ? Number(degree) : undefined,
+        },
+        states: [],
+      });
+      metadataBlock = null;
+    } else if (key === 'COVARIANCE_START') {
+      inCovariance = true;
+    } else if (key === 'COVARIANCE_STOP') {
+      inCovariance = false;
+    } else if (!inCovariance) {
+      (metadataBlock ?? header).set(key, value);
+    }
+  }
+
+  if (!header.has('CCSDS_OEM_VERS')) {
+    throw new Error('Not an OEM (missing CCSDS_OEM_VERS)');
+  }
+  if (segments.length === 0 || segments.every((segment) => segment.states.length === 0)) {
+    throw new Error('OEM contains no states');
+  }
+
+  return {
+    creationDate: required(header, 'CREATION_DATE'),
+    originator: required(header, 'ORIGINATOR'),
+    segments,
+  };
+}
+
+/**
+ * Check that an OEM's states are relative to the body the sim orbits.
+ * @param oem Parsed OEM
+ * @param centerName Expected CENTER_NAME (e.g. 'MOON'), compared case-insensitively
+ * @throws Error if a segment is centered on another body
+ */
+export function checkOemCenter(oem: OemMessage, centerName: string): void {
+  for (const segment of oem.segments) {
+    if (segment.metadata.centerName.toUpperCase() !== centerName.toUpperCase()) {
+      throw new Error(
+        `OEM states are centered on ${segment.metadata.centerName}, not the central body ${centerName.toUpperCase()}`
+      );
+    }
+  }
+}
+
+/**
+ * Write an Orbit Parameter Message in KVN.
+ * @param message OPM to write
+ * @returns Message text
+ */
+export function formatOpm(message: OpmMessage): string {
+  const lines = [
+    ...formatHeader('OPM', message.creationDate, message.originator),
+    '',
+    ...formatMetadata(message.metadata),
+    '',
+    `EPOCH = ${formatEpoch(message.epochJd)}`,
+    `X = ${km(message.position[0], 6)} [km]`,
+    `Y = ${km(message.position[1], 6)} [km]`,
+    `Z = ${km(message.position[2], 6)} [km]`,
+    `X_DOT = ${km(message.velocity[0], 9)} [km/s]`,
+    `Y_DOT = ${km(message.velocity[1], 9)} [km/s]`,
+    `Z_DOT = ${km(message.velocity[2], 9)} [km/s]`,
+  ];
+
+  if (message.keplerian) {
+    const { elements, mu } = message.keplerian;
+    const degrees = (radians: number) => (radians / DEG_TO_RAD).toFixed(9);
+    lines.push(
+      '',
+      `SEMI_MAJOR_AXIS = ${km(elements.a, 6)} [km]`,
+      `ECCENTRICITY = ${elements.e.toFixed(9)}`,
+      `INCLINATION = ${degrees(elements.i)} [deg]`,
+      `RA_OF_ASC_NODE = ${degrees(elements.Ω)} [deg]`,
+      `ARG_OF_PERICENTER = ${degrees(elements.ω)} [deg]`,
+      `TRUE_ANOMALY = ${degrees(elements.ν ?? 0)} [deg]`,
+      `GM = ${(mu / 1e9).toFixed(4)} [km**3/s**2]`
+    );
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Read an Orbit Parameter Message in KVN.
+ * Spacecraft parameters, covariance and maneuver blocks are ignored.
+ * @param text Message text
+ * @returns Parsed message in meters and m/s
+ * @throws Error if the message is malformed or uses an unsupported center, frame or time system
+ */
+export function parseOpm(text: string): OpmMessage {
+  const block = new Map<string, string>();
+  for (const token of tokenize(text)) {
+    // Maneuver blocks repeat keywords, so keep the first occurrence (the orbit state)
+    if ('key' in token && !block.has(token.key)) {
+      block.set(token.key, token.value);
+    }
+  }
+
+  if (!block.has('CCSDS_OPM_VERS')) {
+    throw new Error('Not an OPM (missing CCSDS_OPM_VERS)');
+  }
+
+  const message: OpmMessage = {
+    creationDate: required(block, 'CREATION_DATE'),
+    originator: required(block, 'ORIGINATOR'),
+    metadata: readMetadata(block),
+    epochJd: parseEpoch(required(block, 'EPOCH')),
+    position: [
+      requiredNumber(block, 'X') * 1000,
+      requiredNumber(block, 'Y') * 1000,
+      requiredNumber(block, 'Z') * 1000,
+    ],
+    velocity: [
+      requiredNumber(block, 'X_DOT') * 1000,
+      requiredNumber(block, 'Y_DOT') * 1000,
+      requiredNumber(block, 'Z_DOT') * 1000,
+    ],
+  };
+
+  if (block.has('SEMI_MAJOR_AXIS')) {
+    message.keplerian = {
+      elements: {
+        a: requiredNumber(block, 'SEMI_MAJOR_AXIS') * 1000,
+        e: requiredNumber(block, 'ECCENTRICITY'),
+        i: requiredNumber(block, 'INCLINATION') * DEG_TO_RAD,
+        Ω: requiredNumber(block, 'RA_OF_ASC_NODE') * DEG_TO_RAD,
+        ω: requiredNumber(block, 'ARG_OF_PERICENTER') * DEG_TO_RAD,
+        ν: block.has('TRUE_ANOMALY') ? requiredNumber(block, 'TRUE_ANOMALY') * DEG_TO_RAD : undefined,
+        M: block.has('MEAN_ANOMALY') ? requiredNumber(block, 'MEAN_ANOMALY') * DEG_TO_RAD : undefined,
+      },
+      mu: requiredNumber(block, 'GM') * 1e9,
+    };
+  }
+
+  return message;
+}
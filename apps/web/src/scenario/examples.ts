@@ -10,11 +10,14 @@ import demoScenarioData from './examples/demo.json';
 import taskDemoScenarioData from './examples/task-demo.json';
 import largeSwarmScenarioData from './examples/large-swarm.json';
 import simpleRingScenarioData from './examples/simple-ring.json';
+import highOrbitsScenarioData from './examples/high-orbits.json';
+import lunarOrbitScenarioData from './examples/lunar-orbit.json';
+import marsOrbitScenarioData from './examples/mars-orbit.json';
 
 /**
  * Available example scenario names.
  */
-export type ExampleScenarioName = 'demo' | 'task-demo' | 'large-swarm' | 'simple-ring';
+export type ExampleScenarioName = 'demo' | 'task-demo' | 'large-swarm' | 'simple-ring' | 'high-orbits' | 'lunar-orbit' | 'mars-orbit';
 
 /**
  * Map of example scenario names to their data.
@@ -24,6 +27,9 @@ const EXAMPLE_SCENARIOS: Record<ExampleScenarioName, unknown> = {
   'task-demo': taskDemoScenarioData,
   'large-swarm': largeSwarmScenarioData,
   'simple-ring': simpleRingScenarioData,
+  'high-orbits': highOrbitsScenarioData,
+  'lunar-orbit': lunarOrbitScenarioData,
+  'mars-orbit': marsOrbitScenarioData,
 };
 
 /**
@@ -4,41 +4,237 @@
 
 import { Scenario } from './types';
 import { Agent } from '@/render/Agents.types';
-import { OrbitalElements, CartesianState } from '@/sim/orbit/types';
-import { elementsToCartesian } from '@/sim/orbit/conversions';
+import { OrbitalElements, CartesianState, EquinoctialElements, PropagatorType } from '@/sim/orbit/types';
+import { elementsToCartesian, equinoctialToCartesian } from '@/sim/orbit/conversions';
+import { CentralBody, EARTH_BODY, resolveCentralBody } from '@/sim/orbit/centralBody';
+import { DEFAULT_REENTRY_ALTITUDE } from '@/sim/orbit/decay';
+import { parseTLE, TwoLineElement } from '@/sim/orbit/tle';
+import { propagateTle } from '@/sim/orbit/sgp4';
+import { julianDateFromIso, J2000_JD, SECONDS_PER_DAY } from '@/sim/orbit/time';
+import { Ephemeris, interpolateEphemeris, DEFAULT_INTERPOLATION_DEGREE } from '@/sim/orbit/ephemeris';
+import { OemMessage, checkOemCenter, parseOem } from './ccsds';
+import { deltaVCapacity } from '@/sim/maneuvers/propulsion';
 import { useSimClockStore } from '@/ui/stores/simClockStore';
 import { useAgentStore } from '@/ui/stores/agentStore';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
 import { useTaskStore } from '@/ui/stores/taskStore';
+import { useDiagnosticsStore } from '@/ui/stores/diagnosticsStore';
+import { useLedgerStore } from '@/ui/stores/ledgerStore';
 import { setSeed } from '@/util/seed';
 
+/**
+ * Julian date of sim time 0 implied by the TLE and ephemeris agents in a list.
+ * @param agents Agents (only 'sgp4' agents with a TLE and 'ephemeris' agents are considered)
+ * @returns Julian date, or undefined if no agent is tied to an absolute epoch
+ */
+export function agentEpoch(agents: Agent[]): number | undefined {
+  for (const agent of agents) {
+    if (agent.propagator === 'sgp4' && agent.tle) {
+      return agent.tle.epochJd + (agent.tleEpochOffset ?? 0) / SECONDS_PER_DAY;
+    }
+    if (agent.propagator === 'ephemeris' && agent.ephemeris) {
+      return agent.ephemeris.epochJd;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Tabulated ephemeris from an OEM, with times in seconds from a sim epoch.
+ * Segments are merged; the interpolation method and degree of the first segment that gives
+ * them are used (INTERPOLATION = HERMITE selects Hermite interpolation, anything else Lagrange).
+ * @param oem Parsed Orbit Ephemeris Message
+ * @param epochJd Julian date of sim time 0
+ * @param centralBody Body the states are centered on (defaults to the Earth)
+ * @returns Ephemeris in time order
+ * @throws Error if the OEM is centered on another body
+ */
+export function ephemerisFromOem(oem: OemMessage, epochJd: number, centralBody: CentralBody = EARTH_BODY): Ephemeris {
+  checkOemCenter(oem, centralBody.name);
+  const [first] = oem.segments;
+  const degree = oem.segments.find((segment) => segment.metadata.interpolationDegree !== undefined);
+  const method = oem.segments.find((segment) => segment.metadata.interpolation !== undefined);
+  return {
+    epochJd,
+    points: oem.segments
+      .flatMap((segment) => segment.states)
+      .map((state) => ({
+        time: (state.epochJd - epochJd) * SECONDS_PER_DAY,
+        position: state.position,
+        velocity: state.velocity,
+      }))
+      .sort((a, b) => a.time - b.time),
+    interpolationDegree: degree?.metadata.interpolationDegree ?? DEFAULT_INTERPOLATION_DEGREE,
+    interpolation: method?.metadata.interpolation?.toUpperCase() === 'HERMITE' ? 'hermite' : 'lagrange',
+    objectName: first?.metadata.objectName,
+    objectId: first?.metadata.objectId,
+    mu: centralBody.mu,
+  };
+}
+
+/**
+ * Create an agent that follows a TLE with SGP4.
+ * TLE agents cannot maneuver, so they start without a delta-v budget.
+ * @param tle Parsed element set
+ * @param id Agent identifier
+ * @param epochJd Julian date of sim time 0
+ * @param simTime Sim time in seconds at which the initial state is evaluated
+ * @returns Agent with its state at simTime
+ * @throws Sgp4Error if the element set cannot be propagated to simTime
+ */
+export function createTleAgent(tle: TwoLineElement, id: string, epochJd: number, simTime: number): Agent {
+  const tleEpochOffset = (epochJd - tle.epochJd) * SECONDS_PER_DAY;
+  return {
+    id,
+    state: propagateTle(tle, simTime + tleEpochOffset),
+    behaviors: { cohesion: false, separation: false, alignment: false },
+    team: 'friendly',
+    dvRemaining: 0,
+    propagator: 'sgp4',
+    tle,
+    tleEpochOffset,
+    selected: false,
+    hovered: false,
+  };
+}
+
+/**
+ * Create an agent that replays a tabulated ephemeris.
+ * Like TLE agents, ephemeris agents cannot maneuver and start without a delta-v budget.
+ * @param ephemeris Ephemeris with times relative to sim time 0
+ * @param id Agent identifier
+ * @param simTime Sim time in seconds at which the initial state is evaluated
+ * @returns Agent with its state at simTime
+ */
+export function createEphemerisAgent(ephemeris: Ephemeris, id: string, simTime: number): Agent {
+  return {
+    id,
+    state: interpolateEphemeris(ephemeris, simTime),
+    behaviors: { cohesion: false, separation: false, alignment: false },
+    team: 'friendly',
+    dvRemaining: 0,
+    propagator: 'ephemeris',
+    ephemeris,
+    selected: false,
+    hovered: false,
+  };
+}
+
+/**
+ * Julian date of sim time 0 for a scenario.
+ * Uses sim.epoch if given; otherwise the latest TLE epoch or OEM start time, so
+ * every element set can be propagated from sim time 0; otherwise J2000.
+ * @param scenario Scenario
+ * @param tles Parsed TLE orbits (parsed from the scenario if omitted)
+ * @param oems Parsed OEM orbits (parsed from the scenario if omitted)
+ * @returns Julian date (UTC)
+ */
+export function scenarioEpoch(
+  scenario: Scenario,
+  tles?: TwoLineElement[],
+  oems?: OemMessage[]
+): number {
+  if (scenario.sim.epoch !== undefined) {
+    return julianDateFromIso(scenario.sim.epoch);
+  }
+
+  const orbits = scenario.agents.map((agent) => agent.orbit);
+  const epochs = [
+    ...(tles ?? orbits.flatMap((orbit) => ('tle' in orbit ? [parseTLE(orbit.tle)] : [])))
+      .map((tle) => tle.epochJd),
+    ...(oems ?? orbits.flatMap((orbit) => ('oem' in orbit ? [parseOem(orbit.oem)] : [])))
+      .map((oem) => oem.segments[0]!.metadata.startTime),
+  ];
+  // Backward compatibility: scenarios without dated orbits start at J2000
+  return epochs.length > 0 ? Math.max(...epochs) : J2000_JD;
+}
+
+/**
+ * Central body of a scenario: its preset with the scenario's radius and μ.
+ * @param scenario Scenario
+ * @returns Central body parameters
+ */
+export function scenarioCentralBody(scenario: Scenario): CentralBody {
+  return resolveCentralBody(scenario.earth.body, scenario.earth.radius, scenario.earth.mu);
+}
+
 /**
  * Convert scenario agent definition to Agent format.
- * Handles both OrbitalElements and CartesianState inputs.
+ * Handles OrbitalElements, CartesianState, TLE and OEM inputs.
  */
 export function scenarioToAgents(scenario: Scenario): Agent[] {
   const agents: Agent[] = [];
+  const initialTime = scenario.sim.initialTime ?? 0;
+
+  // Parse TLE and OEM orbits up front (their epochs are relative to sim.epoch)
+  const tles = new Map<string, TwoLineElement>();
+  const oems = new Map<string, OemMessage>();
+  for (const agentScenario of scenario.agents) {
+    if ('tle' in agentScenario.orbit) {
+      tles.set(agentScenario.id, parseTLE(agentScenario.orbit.tle));
+    } else if ('oem' in agentScenario.orbit) {
+      oems.set(agentScenario.id, parseOem(agentScenario.orbit.oem));
+    }
+  }
+  const epochJd = scenarioEpoch(scenario, [...tles.values()], [...oems.values()]);
+  const centralBody = scenarioCentralBody(scenario);
+  const { mu } = centralBody;
 
   for (const agentScenario of scenario.agents) {
     let state: CartesianState;
+    let tle: TwoLineElement | undefined;
+    let tleEpochOffset: number | undefined;
+    let ephemeris: Ephemeris | undefined;
 
-    // Check if orbit is OrbitalElements or CartesianState
-    if ('position' in agentScenario.orbit && 'velocity' in agentScenario.orbit) {
+    // Check if orbit is a TLE, OEM, CartesianState, EquinoctialElements or OrbitalElements
+    if ('tle' in agentScenario.orbit) {
+      tle = tles.get(agentScenario.id)!;
+      tleEpochOffset = (epochJd - tle.epochJd) * SECONDS_PER_DAY;
+      state = propagateTle(tle, initialTime + tleEpochOffset);
+    } else if ('oem' in agentScenario.orbit) {
+      ephemeris = ephemerisFromOem(oems.get(agentScenario.id)!, epochJd, centralBody);
+      state = interpolateEphemeris(ephemeris, initialTime);
+    } else if ('position' in agentScenario.orbit && 'velocity' in agentScenario.orbit) {
       // Already Cartesian state
       state = agentScenario.orbit as CartesianState;
+    } else if ('p' in agentScenario.orbit) {
+      // Convert modified equinoctial elements to Cartesian state
+      state = equinoctialToCartesian(agentScenario.orbit as EquinoctialElements, mu);
     } else {
       // Convert orbital elements to Cartesian state
       const elements = agentScenario.orbit as OrbitalElements;
-      state = elementsToCartesian(elements);
+      state = elementsToCartesian(elements, mu);
     }
 
+    // TLE orbits default to SGP4, OEM orbits to replaying the ephemeris, everything
+    // else to two-body propagation (backward compatibility)
+    const propagator: PropagatorType = agentScenario.propagator ?? (tle ? 'sgp4' : ephemeris ? 'ephemeris' : 'kepler');
+
     agents.push({
       id: agentScenario.id,
       state,
       behaviors: agentScenario.behaviors,
       // Default to 'friendly' if team is not specified (backward compatibility)
       team: agentScenario.team ?? 'friendly',
-      // Default to 1000 m/s if dvRemaining is not specified (backward compatibility)
-      dvRemaining: agentScenario.dvRemaining ?? 1000,
+      // Propulsion sets the budget through the rocket equation; otherwise default
+      // to 1000 m/s if dvRemaining is not specified (backward compatibility)
+      dvRemaining: agentScenario.propulsion
+        ? deltaVCapacity(agentScenario.propulsion)
+        : agentScenario.dvRemaining ?? 1000,
+      propulsion: agentScenario.propulsion,
+      thrustArc: agentScenario.thrustArc,
+      propagator,
+      forceModels: agentScenario.forceModels,
+      integrator: agentScenario.integrator,
+      maxStep: agentScenario.maxStep,
+      ballisticCoefficient: agentScenario.ballisticCoefficient,
+      reflectivityCoefficient: agentScenario.reflectivityCoefficient,
+      areaToMass: agentScenario.areaToMass,
+      maneuvers: agentScenario.maneuvers,
+      lastManeuverTime: agentScenario.lastManeuverTime,
+      // Other propagators only use the TLE or OEM for the initial state
+      ...(propagator === 'sgp4' ? { tle, tleEpochOffset } : {}),
+      ...(propagator === 'ephemeris' ? { ephemeris } : {}),
       selected: false,
       hovered: false,
     });
@@ -60,12 +256,19 @@ export function loadScenario(scenario: Scenario): void {
   // Update sim clock store
   useSimClockStore.getState().setSeed(scenario.seed);
   useSimClockStore.getState().setSimTime(scenario.sim.initialTime ?? 0);
+  useSimClockStore.getState().setEpoch(scenarioEpoch(scenario));
+  useCentralBodyStore.getState().setBody(scenarioCentralBody(scenario));
   
   // Convert scenario agents to Agent format
   const agents = scenarioToAgents(scenario);
   
   // Update agent store
   useAgentStore.getState().setAgents(agents);
+  // Invariants and spending of the previous scenario's agents no longer apply
+  useDiagnosticsStore.getState().reset();
+  useLedgerStore.getState().reset();
+  // Default to the standard re-entry floor if not specified (backward compatibility)
+  useAgentStore.getState().setReentryAltitude(scenario.sim.reentryAltitude ?? DEFAULT_REENTRY_ALTITUDE);
   
   // Load objectives into task store (if present)
   if (scenario.objectives) {
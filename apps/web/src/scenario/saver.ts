@@ -5,28 +5,188 @@
 import { Scenario, AgentScenario, BehaviorFlags, FormationType } from './types';
 import { Agent } from '@/render/Agents.types';
 import { OrbitalElements, CartesianState } from '@/sim/orbit/types';
-import { cartesianToElements } from '@/sim/orbit/conversions';
+import { cartesianToElements, cartesianToEquinoctial } from '@/sim/orbit/conversions';
+import { propagate } from '@/sim/orbit/propagator';
+import { agentPropagatorOptions } from '@/sim/step';
+import { formatTLE } from '@/sim/orbit/tle';
+import { isoFromJulianDate, SECONDS_PER_DAY } from '@/sim/orbit/time';
+import { Ephemeris, EphemerisInterpolation, DEFAULT_INTERPOLATION_DEGREE } from '@/sim/orbit/ephemeris';
+import { OdmMetadata, OemMessage, OemState, OpmMessage, formatOem } from './ccsds';
 import { useSimClockStore } from '@/ui/stores/simClockStore';
 import { useAgentStore } from '@/ui/stores/agentStore';
 import { useTaskStore } from '@/ui/stores/taskStore';
-import { EARTH_RADIUS, EARTH_MU } from '@/sim/orbit/constants';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
+import { CentralBody, EARTH_BODY } from '@/sim/orbit/centralBody';
+
+/**
+ * Originator written in exported CCSDS messages.
+ */
+const ORIGINATOR = 'OSWV';
+
+/**
+ * Eccentricity, or sine of the inclination, below which Ω, ω and ν are poorly
+ * defined; such orbits are saved as modified equinoctial elements instead.
+ */
+const NEAR_SINGULAR_ELEMENTS = 1e-6;
+
+/**
+ * CCSDS metadata describing an agent.
+ * SGP4 states are in the TEME frame; every other propagator works in EME2000.
+ */
+function agentMetadata(agent: Agent, centralBody: CentralBody = EARTH_BODY): OdmMetadata {
+  return {
+    objectName: agent.tle?.name ?? agent.ephemeris?.objectName ?? agent.id,
+    objectId: agent.tle?.satnum ?? agent.ephemeris?.objectId ?? agent.id,
+    centerName: centralBody.name.toUpperCase(),
+    refFrame: agent.propagator === 'sgp4' ? 'TEME' : 'EME2000',
+    timeSystem: 'UTC',
+  };
+}
+
+/**
+ * Build an OEM with one segment from tabulated states.
+ */
+function oemFromStates(
+  metadata: OdmMetadata,
+  states: OemState[],
+  interpolationDegree: number,
+  interpolation: EphemerisInterpolation = 'lagrange'
+): OemMessage {
+  return {
+    creationDate: new Date().toISOString(),
+    originator: ORIGINATOR,
+    segments: [
+      {
+        metadata: {
+          ...metadata,
+          startTime: states[0]!.epochJd,
+          stopTime: states[states.length - 1]!.epochJd,
+          interpolation: interpolation.toUpperCase(),
+          interpolationDegree,
+        },
+        states,
+      },
+    ],
+  };
+}
+
+/**
+ * Write a tabulated ephemeris back to an OEM (used to save ephemeris agents).
+ */
+function ephemerisToOem(ephemeris: Ephemeris, metadata: OdmMetadata): OemMessage {
+  const states = ephemeris.points.map((point) => ({
+    epochJd: ephemeris.epochJd + point.time / SECONDS_PER_DAY,
+    position: point.position,
+    velocity: point.velocity,
+  }));
+  return oemFromStates(metadata, states, ephemeris.interpolationDegree, ephemeris.interpolation);
+}
+
+/**
+ * Sample an agent's predicted trajectory as an Orbit Ephemeris Message.
+ * Each sample is propagated from the previous one with the agent's own propagator.
+ *
+ * @param agent Agent to export
+ * @param epochJd Julian date of sim time 0
+ * @param startTime Sim time of the agent's current state in seconds
+ * @param duration Time span to sample in seconds
+ * @param step Time between samples in seconds
+ * @param centralBody Body the agent orbits (defaults to the Earth)
+ * @returns OEM covering startTime to startTime + duration
+ */
+export function agentToOem(
+  agent: Agent,
+  epochJd: number,
+  startTime: number,
+  duration: number,
+  step: number,
+  centralBody: CentralBody = EARTH_BODY
+): OemMessage {
+  if (!(step > 0) || !(duration >= 0)) {
+    throw new Error('OEM step must be positive and duration non-negative');
+  }
+
+  const states: OemState[] = [];
+  let state = agent.state;
+  for (let elapsed = 0; ; elapsed += step) {
+    const time = startTime + elapsed;
+    states.push({ epochJd: epochJd + time / SECONDS_PER_DAY, position: state.position, velocity: state.velocity });
+    if (elapsed + step > duration) break;
+    state = propagate(state, step, agent.propagator, agentPropagatorOptions(agent, time, epochJd, centralBody));
+  }
+
+  return oemFromStates(agentMetadata(agent, centralBody), states, DEFAULT_INTERPOLATION_DEGREE);
+}
+
+/**
+ * Describe an agent's current state as an Orbit Parameter Message, including
+ * its osculating Keplerian elements.
+ *
+ * @param agent Agent to export
+ * @param epochJd Julian date of sim time 0
+ * @param time Sim time of the agent's current state in seconds
+ * @param centralBody Body the agent orbits (defaults to the Earth)
+ * @returns OPM at the given time
+ */
+export function agentToOpm(
+  agent: Agent,
+  epochJd: number,
+  time: number,
+  centralBody: CentralBody = EARTH_BODY
+): OpmMessage {
+  return {
+    creationDate: new Date().toISOString(),
+    originator: ORIGINATOR,
+    metadata: agentMetadata(agent, centralBody),
+    epochJd: epochJd + time / SECONDS_PER_DAY,
+    position: agent.state.position,
+    velocity: agent.state.velocity,
+    keplerian: { elements: cartesianToElements(agent.state, centralBody.mu), mu: centralBody.mu },
+  };
+}
 
 /**
  * Convert agent to scenario format.
- * Converts Cartesian state to orbital elements for storage.
+ * Converts Cartesian state to orbital elements for storage (modified equinoctial
+ * elements for near-circular and near-equatorial orbits); SGP4 agents keep
+ * their TLE and ephemeris agents their OEM.
  * 
  * @param agent Agent to convert
- * @returns AgentScenario with orbital elements
+ * @param centralBody Body the agent orbits
+ * @param simTime Current sim time in seconds
+ * @returns AgentScenario with orbital elements, equinoctial elements, TLE or OEM
  */
-function agentToScenario(agent: Agent): AgentScenario {
-  // Convert Cartesian state to orbital elements
-  const elements = cartesianToElements(agent.state);
+function agentToScenario(agent: Agent, centralBody: CentralBody, simTime: number): AgentScenario {
+  const { mu } = centralBody;
+  // TLE mean elements are only meaningful to SGP4, so store the element set itself
+  let orbit: AgentScenario['orbit'];
+  if (agent.propagator === 'sgp4' && agent.tle) {
+    orbit = { tle: formatTLE(agent.tle) };
+  } else if (agent.propagator === 'ephemeris' && agent.ephemeris) {
+    orbit = { oem: formatOem(ephemerisToOem(agent.ephemeris, agentMetadata(agent, centralBody))) };
+  } else {
+    const elements = cartesianToElements(agent.state, mu) as OrbitalElements;
+    const nearSingular = elements.e < NEAR_SINGULAR_ELEMENTS || Math.sin(elements.i) < NEAR_SINGULAR_ELEMENTS;
+    orbit = nearSingular ? cartesianToEquinoctial(agent.state, mu) : elements;
+  }
   
   return {
     id: agent.id,
-    orbit: elements as OrbitalElements,
+    orbit,
     behaviors: agent.behaviors, // Preserve agent behaviors
     team: agent.team, // Preserve team property
+    propagator: agent.propagator, // Preserve propagation model
+    forceModels: agent.forceModels,
+    integrator: agent.integrator,
+    maxStep: agent.maxStep,
+    ballisticCoefficient: agent.ballisticCoefficient,
+    reflectivityCoefficient: agent.reflectivityCoefficient,
+    areaToMass: agent.areaToMass,
+    propulsion: agent.propulsion, // Remaining propellant, which sets the delta-v budget
+    // Burn under way, already paid for at ignition
+    thrustArc: agent.thrustArc && agent.thrustArc.endTime > simTime ? agent.thrustArc : undefined,
+    maneuvers: agent.maneuvers?.length ? agent.maneuvers : undefined, // Burns not yet executed
+    lastManeuverTime: agent.lastManeuverTime,
   };
 }
 
@@ -46,12 +206,15 @@ export function saveScenario(
   const simClockStore = useSimClockStore.getState();
   const agentStore = useAgentStore.getState();
   const taskStore = useTaskStore.getState();
+  const centralBody = useCentralBodyStore.getState().body;
   
-  // Get current agents
-  const agents = agentStore.agents;
+  // Get current agents (re-entered agents no longer exist in the simulation)
+  const agents = agentStore.agents.filter((agent) => agent.reentryTime === undefined);
   
   // Convert agents to scenario format
-  const agentScenarios: AgentScenario[] = agents.map(agentToScenario);
+  const agentScenarios: AgentScenario[] = agents.map((agent) =>
+    agentToScenario(agent, centralBody, simClockStore.simTime)
+  );
   
   // Get sim params from clock store
   // Note: timeStep is not directly stored, use a default
@@ -68,13 +231,16 @@ export function saveScenario(
     description,
     version,
     earth: {
-      radius: EARTH_RADIUS,
-      mu: EARTH_MU,
+      body: centralBody.name,
+      radius: centralBody.radius,
+      mu: centralBody.mu,
     },
     agents: agentScenarios,
     sim: {
       timeStep,
       initialTime: simClockStore.simTime,
+      epoch: isoFromJulianDate(simClockStore.epoch),
+      reentryAltitude: agentStore.reentryAltitude,
     },
     seed: simClockStore.seed,
     objectives,
@@ -105,12 +271,23 @@ export function scenarioToJSON(scenario: Scenario, pretty: boolean = true): stri
  */
 export function downloadScenario(scenario: Scenario, filename?: string): void {
   const json = scenarioToJSON(scenario, true);
-  const blob = new Blob([json], { type: 'application/json' });
+  downloadText(json, filename || `${scenario.name.replace(/[^a-z0-9]/gi, '_')}.json`, 'application/json');
+}
+
+/**
+ * Download text as a file (e.g. a CCSDS message).
+ * 
+ * @param text File contents
+ * @param filename Filename
+ * @param type MIME type (defaults to plain text)
+ */
+export function downloadText(text: string, filename: string, type: string = 'text/plain'): void {
+  const blob = new Blob([text], { type });
   const url = URL.createObjectURL(blob);
   
   const link = document.createElement('a');
   link.href = url;
-  link.download = filename || `${scenario.name.replace(/[^a-z0-9]/gi, '_')}.json`;
+  link.download = filename;
   document.body.appendChild(link);
   link.click();
   document.body.removeChild(link);
@@ -5,20 +5,28 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { Scenario, AgentScenario, FormationType } from './types';
 import { validateScenario, safeParseScenario } from './schema';
-import { scenarioToAgents, loadScenario } from './loader';
-import { saveScenario } from './saver';
-import { OrbitalElements, CartesianState } from '@/sim/orbit/types';
+import { scenarioToAgents, loadScenario, ephemerisFromOem } from './loader';
+import { saveScenario, agentToOem } from './saver';
+import { formatOem, parseOem } from './ccsds';
+import { loadExampleScenario } from './examples';
+import { OrbitalElements, CartesianState, EquinoctialElements } from '@/sim/orbit/types';
 import { useSimClockStore } from '@/ui/stores/simClockStore';
 import { useAgentStore } from '@/ui/stores/agentStore';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
 import { setSeed } from '@/util/seed';
 import { propagateKepler } from '@/sim/orbit/propagator';
-import { EARTH_RADIUS, EARTH_MU } from '@/sim/orbit/constants';
+import { EARTH_RADIUS, EARTH_MU, MOON_RADIUS, MOON_MU, MARS_MU } from '@/sim/orbit/constants';
+import { EARTH_BODY, MOON_BODY } from '@/sim/orbit/centralBody';
+import { runSimStep } from '@/sim/step';
+import { distance } from '@/sim/orbit/vector';
+import { DEFAULT_REENTRY_ALTITUDE } from '@/sim/orbit/decay';
 
 describe('scenario', () => {
   beforeEach(() => {
     // Reset stores before each test
     useSimClockStore.getState().reset();
     useAgentStore.getState().setAgents([]);
+    useCentralBodyStore.getState().setBody(EARTH_BODY);
     setSeed('test-seed');
   });
 
@@ -93,6 +101,27 @@ describe('scenario', () => {
       expect(() => validateScenario(invalidScenario)).toThrow();
     });
 
+    it('accepts hyperbolic orbits with a negative semi-major axis', () => {
+      const scenario = (orbit: OrbitalElements) => ({
+        name: 'Escape',
+        description: '',
+        version: '1.0.0',
+        earth: { radius: EARTH_RADIUS },
+        agents: [
+          {
+            id: 'agent-0',
+            orbit,
+            behaviors: { cohesion: false, separation: false, alignment: false },
+          },
+        ],
+        sim: { timeStep: 1.0 },
+        seed: 'test',
+      });
+
+      expect(() => validateScenario(scenario({ a: -20000e3, e: 1.5, i: 0, Ω: 0, ω: 0, ν: 0 }))).not.toThrow();
+      expect(() => validateScenario(scenario({ a: 20000e3, e: 1.5, i: 0, Ω: 0, ω: 0, ν: 0 }))).toThrow();
+    });
+
     it('rejects scenario with missing required fields', () => {
       const invalidScenario = {
         name: 'Invalid',
@@ -102,6 +131,28 @@ describe('scenario', () => {
       expect(() => validateScenario(invalidScenario)).toThrow();
     });
 
+    it('rejects TLE orbits and Earth-only force models around other bodies', () => {
+      const scenario = (agent: Record<string, unknown>) => ({
+        name: 'Moon',
+        description: '',
+        version: '1.0.0',
+        earth: { body: 'moon', radius: MOON_RADIUS },
+        agents: [{ id: 'agent-0', behaviors: { cohesion: false, separation: false, alignment: false }, ...agent }],
+        sim: { timeStep: 1.0 },
+        seed: 'test',
+      });
+      const tle =
+        '1 00005U 58002B   00179.78495062  .00000023  00000-0  28098-4 0  4753\n' +
+        '2 00005  34.2682 348.7242 1859667 331.7664  19.3264 10.82419157413667';
+      const elements = { a: 1837400, e: 0, i: 0, Ω: 0, ω: 0, ν: 0 };
+
+      expect(() => validateScenario(scenario({ orbit: elements, forceModels: ['central_gravity', 'j2'] })))
+        .not.toThrow();
+      expect(() => validateScenario(scenario({ orbit: { tle } }))).toThrow('only supported around the Earth');
+      expect(() => validateScenario(scenario({ orbit: elements, forceModels: ['central_gravity', 'drag'] })))
+        .toThrow('only available around the Earth');
+    });
+
     it('safeParseScenario returns success flag', () => {
       const validScenario: Scenario = {
         name: 'Test',
@@ -187,6 +238,435 @@ describe('scenario', () => {
       expect(agents[0].state.position).toEqual([6771000, 0, 0]);
       expect(agents[0].state.velocity).toEqual([0, 7546, 0]);
     });
+
+    it('uses the propagator selected in the scenario', () => {
+      const orbit: CartesianState = {
+        position: [6771000, 0, 0],
+        velocity: [0, 7546, 0],
+      };
+      const behaviors = { cohesion: false, separation: false, alignment: false };
+      const scenario = validateScenario({
+        name: 'Test',
+        description: '',
+        version: '1.0.0',
+        earth: { radius: EARTH_RADIUS },
+        agents: [
+          { id: 'agent-0', orbit, behaviors },
+          { id: 'agent-1', orbit, behaviors, propagator: 'j2' },
+        ],
+        sim: { timeStep: 1.0 },
+        seed: 'test',
+      });
+
+      const agents = scenarioToAgents(scenario);
+      expect(agents[0]!.propagator).toBe('kepler');
+      expect(agents[1]!.propagator).toBe('j2');
+    });
+
+    it('loads drag parameters, the integrator and the re-entry altitude', () => {
+      const scenario = validateScenario({
+        name: 'Test',
+        description: '',
+        version: '1.0.0',
+        earth: { radius: EARTH_RADIUS },
+        agents: [
+          {
+            id: 'agent-0',
+            orbit: { position: [6671000, 0, 0], velocity: [0, 7730, 0] },
+            behaviors: { cohesion: false, separation: false, alignment: false },
+            propagator: 'numerical',
+            forceModels: ['central_gravity', 'drag'],
+            ballisticCoefficient: 30,
+            integrator: 'rk4',
+            maxStep: 30,
+          },
+        ],
+        sim: { timeStep: 1.0, reentryAltitude: 100e3 },
+        seed: 'test',
+      });
+
+      loadScenario(scenario);
+
+      const { agents, reentryAltitude } = useAgentStore.getState();
+      expect(agents[0]!.forceModels).toEqual(['central_gravity', 'drag']);
+      expect(agents[0]!.ballisticCoefficient).toBe(30);
+      expect(agents[0]!).toMatchObject({ integrator: 'rk4', maxStep: 30 });
+      expect(reentryAltitude).toBe(100e3);
+      expect(saveScenario('Test').agents[0]).toMatchObject({ integrator: 'rk4', maxStep: 30 });
+    });
+
+    it('loads solar radiation pressure parameters and saves them back', () => {
+      const agentScenario = {
+        id: 'geo-1',
+        orbit: { position: [42164e3, 0, 0], velocity: [0, 3075, 0] },
+        behaviors: { cohesion: false, separation: false, alignment: false },
+        propagator: 'numerical',
+        forceModels: ['central_gravity', 'srp'],
+        reflectivityCoefficient: 1.4,
+        areaToMass: 0.05,
+      };
+      const scenario = validateScenario({
+        name: 'SRP',
+        description: '',
+        version: '1.0.0',
+        earth: { radius: EARTH_RADIUS },
+        agents: [agentScenario],
+        sim: { timeStep: 1.0 },
+        seed: 'test',
+      });
+
+      loadScenario(scenario);
+
+      const agent = useAgentStore.getState().agents[0]!;
+      expect(agent.reflectivityCoefficient).toBe(1.4);
+      expect(agent.areaToMass).toBe(0.05);
+      expect(saveScenario('SRP').agents[0]).toMatchObject({ reflectivityCoefficient: 1.4, areaToMass: 0.05 });
+
+      // Cr runs from 0 (transparent) to 2 (perfect specular reflector)
+      const invalid = { ...scenario, agents: [{ ...agentScenario, reflectivityCoefficient: 2.5 }] };
+      expect(() => validateScenario(invalid)).toThrow();
+    });
+
+    it('loads propulsion, spends propellant on burns and saves what is left', () => {
+      const agentScenario = {
+        id: 'sat-1',
+        orbit: { position: [7000e3, 0, 0], velocity: [0, 7546, 0] },
+        behaviors: { cohesion: false, separation: false, alignment: false },
+        dvRemaining: 50,
+        propulsion: { dryMass: 400, propellantMass: 100, thrust: 20, isp: 220 },
+      };
+      const scenario = validateScenario({
+        name: 'Propulsion',
+        description: '',
+        version: '1.0.0',
+        earth: { radius: EARTH_RADIUS },
+        agents: [agentScenario],
+        sim: { timeStep: 1.0 },
+        seed: 'test',
+      });
+
+      loadScenario(scenario);
+
+      // The rocket equation sets the budget, not dvRemaining
+      const capacity = 220 * 9.80665 * Math.log(500 / 400);
+      expect(useAgentStore.getState().agents[0]!.dvRemaining).toBeCloseTo(capacity, 6);
+
+      const loaded = useAgentStore.getState().agents[0]!;
+      useAgentStore.getState().applyDeltaVToAgent('sat-1', [0, 100, 0]);
+      const agent = useAgentStore.getState().agents[0]!;
+      // The burn thrusts from now on rather than moving the agent at once
+      expect(agent.state).toBe(loaded.state);
+      expect(agent.thrustArc!.startTime).toBe(0);
+      expect(() => useAgentStore.getState().applyDeltaVToAgent('sat-1', [0, 10, 0])).toThrow('previous burn thrusts');
+      expect(agent.dvRemaining).toBeCloseTo(capacity - 100, 6);
+      expect(agent.propulsion!.propellantMass).toBeCloseTo(100 - 500 * (1 - Math.exp(-100 / (220 * 9.80665))), 6);
+      expect(saveScenario('Propulsion').agents[0]!.propulsion).toEqual(agent.propulsion);
+
+      const invalid = { ...scenario, agents: [{ ...agentScenario, propulsion: { ...agentScenario.propulsion, isp: 0 } }] };
+      expect(() => validateScenario(invalid)).toThrow();
+    });
+
+    it('saves a finite burn under way and finishes it after loading', () => {
+      const scenario = validateScenario({
+        name: 'Mid-burn',
+        description: '',
+        version: '1.0.0',
+        earth: { radius: EARTH_RADIUS },
+        agents: [
+          {
+            id: 'sat-1',
+            orbit: { position: [7000e3, 0, 0], velocity: [0, 7546, 0] },
+            behaviors: { cohesion: false, separation: false, alignment: false },
+            propulsion: { dryMass: 400, propellantMass: 100, thrust: 20, isp: 220 },
+          },
+        ],
+        sim: { timeStep: 1.0 },
+        seed: 'test',
+      });
+      loadScenario(scenario);
+      useAgentStore.getState().applyDeltaVToAgent('sat-1', [0, 100, 0]);
+
+      // Fly the first 600 s of the burn and save halfway through it
+      const step = { objectives: [], reentryAltitude: DEFAULT_REENTRY_ALTITUDE };
+      const first = runSimStep({ ...step, agents: useAgentStore.getState().agents, startTime: 0, endTime: 600 });
+      useAgentStore.getState().updateAgentsBatch(first.updates);
+      useSimClockStore.getState().setSimTime(600);
+      const burning = useAgentStore.getState().agents[0]!;
+      expect(burning.thrustArc!.endTime).toBeGreaterThan(600);
+
+      const saved = saveScenario('Mid-burn');
+      expect(saved.agents[0]!.thrustArc).toEqual(burning.thrustArc);
+      expect(saved.agents[0]!.propulsion).toEqual(burning.propulsion);
+
+      loadScenario(validateScenario(JSON.parse(JSON.stringify(saved))));
+      const loaded = useAgentStore.getState().agents[0]!;
+      expect(loaded.thrustArc).toEqual(burning.thrustArc);
+      expect(loaded.dvRemaining).toBeCloseTo(burning.dvRemaining, 6);
+
+      // The loaded agent thrusts on to cutoff like the one that never stopped
+      const endTime = burning.thrustArc!.endTime + 60;
+      const resumed = runSimStep({ ...step, agents: [loaded], startTime: 600, endTime });
+      const continued = runSimStep({ ...step, agents: [burning], startTime: 600, endTime });
+      expect(resumed.maneuveredIds).toEqual(['sat-1']);
+      expect(distance(resumed.updates[0]!.state.position, continued.updates[0]!.state.position)).toBeLessThan(1);
+
+      // Finished burns are not saved
+      useSimClockStore.getState().setSimTime(endTime);
+      expect(saveScenario('Mid-burn').agents[0]!.thrustArc).toBeUndefined();
+    });
+
+    it('loads and saves scheduled maneuvers', () => {
+      const maneuvers = [
+        { id: 'm1', trigger: { type: 'time', time: 600 }, rtn: [0, 10, 0], label: 'Raise' },
+        { id: 'm2', trigger: { type: 'apoapsis' }, rtn: [0, 5, 1] },
+      ];
+      const agentScenario = {
+        id: 'sat-1',
+        orbit: { position: [7000e3, 0, 0], velocity: [0, 7546, 0] },
+        behaviors: { cohesion: false, separation: false, alignment: false },
+        maneuvers,
+        lastManeuverTime: 300,
+      };
+      const scenario = validateScenario({
+        name: 'Maneuvers',
+        description: '',
+        version: '1.0.0',
+        earth: { radius: EARTH_RADIUS },
+        agents: [agentScenario],
+        sim: { timeStep: 1.0 },
+        seed: 'test',
+      });
+
+      loadScenario(scenario);
+      expect(useAgentStore.getState().agents[0]!.maneuvers).toEqual(maneuvers);
+      expect(useAgentStore.getState().agents[0]!.lastManeuverTime).toBe(300);
+
+      useAgentStore.getState().removeManeuver('sat-1', 'm1');
+      const saved = saveScenario('Maneuvers').agents[0]!;
+      expect(saved.maneuvers).toEqual([maneuvers[1]]);
+      expect(saved.lastManeuverTime).toBe(300);
+
+      const invalid = { ...scenario, agents: [{ ...agentScenario, maneuvers: [{ ...maneuvers[1], trigger: { type: 'noon' } }] }] };
+      expect(() => validateScenario(invalid)).toThrow();
+    });
+
+    it('sets the clock epoch from sim.epoch and saves it back', () => {
+      const scenario = validateScenario({
+        name: 'Epoch',
+        description: '',
+        version: '1.0.0',
+        earth: { radius: EARTH_RADIUS },
+        agents: [],
+        sim: { timeStep: 1.0, epoch: '2024-03-20T03:06:00Z' },
+        seed: 'test',
+      });
+
+      loadScenario(scenario);
+
+      expect(useSimClockStore.getState().epoch).toBeCloseTo(2460389.629167, 6);
+      expect(useSimClockStore.getState().formatDate()).toBe('2024-03-20 03:06:00 UTC');
+      expect(saveScenario('Epoch').sim.epoch).toBe('2024-03-20T03:06:00.000Z');
+
+      // Scenarios without an epoch or dated orbits start at J2000
+      loadScenario({ ...scenario, sim: { timeStep: 1.0 } });
+      expect(useSimClockStore.getState().epoch).toBe(2451545.0);
+    });
+
+    it('loads the high-orbit example with lunisolar perturbations', () => {
+      loadScenario(loadExampleScenario('high-orbits'));
+
+      const { agents } = useAgentStore.getState();
+      const lunisolar = agents.find((agent) => agent.id === 'geo-lunisolar');
+      expect(lunisolar?.propagator).toBe('numerical');
+      expect(lunisolar?.forceModels).toContain('moon_gravity');
+      expect(lunisolar?.forceModels).toContain('sun_gravity');
+      expect(useSimClockStore.getState().formatDate()).toBe('2024-01-01 00:00:00 UTC');
+    });
+
+    it('loads the Mars example around Mars and saves the central body back', () => {
+      loadScenario(loadExampleScenario('mars-orbit'));
+
+      const body = useCentralBodyStore.getState().body;
+      expect(body.name).toBe('mars');
+      expect(body.mu).toBe(MARS_MU);
+
+      // Areostationary speed comes from Mars' μ, not the Earth's
+      const relay = useAgentStore.getState().agents.find((agent) => agent.id === 'areostationary-1')!;
+      const speed = Math.hypot(...relay.state.velocity);
+      expect(speed).toBeCloseTo(Math.sqrt(MARS_MU / 20428000), 6);
+
+      const saved = saveScenario('Mars', '', '1.0.0');
+      expect(saved.earth).toEqual({ body: 'mars', radius: body.radius, mu: MARS_MU });
+      // Areostationary orbits are circular and equatorial, so they are saved as equinoctial elements
+      expect((saved.agents[0]!.orbit as EquinoctialElements).p).toBeCloseTo(20428000, 0);
+    });
+
+    it('loads the lunar example around the Moon', () => {
+      loadScenario(loadExampleScenario('lunar-orbit'));
+
+      expect(useCentralBodyStore.getState().body.name).toBe('moon');
+      expect(useAgentStore.getState().reentryAltitude).toBe(0);
+      expect(useAgentStore.getState().agents).toHaveLength(5);
+    });
+
+    it('loads modified equinoctial elements and saves near-singular orbits with them', () => {
+      const scenario = validateScenario({
+        name: 'Equinoctial',
+        description: '',
+        version: '1.0.0',
+        earth: { radius: EARTH_RADIUS },
+        agents: [
+          {
+            id: 'circular-equatorial',
+            orbit: { p: 7000e3, f: 0, g: 0, h: 0, k: 0, L: 1.0 },
+            behaviors: { cohesion: false, separation: false, alignment: false },
+          },
+          {
+            id: 'inclined',
+            orbit: { a: 7000e3, e: 0.1, i: 1.0, Ω: 0.5, ω: 1.0, ν: 1.5 },
+            behaviors: { cohesion: false, separation: false, alignment: false },
+          },
+        ],
+        sim: { timeStep: 1.0 },
+        seed: 'test',
+      });
+
+      loadScenario(scenario);
+
+      const agent = useAgentStore.getState().agents[0]!;
+      expect(agent.state.position[0]).toBeCloseTo(7000e3 * Math.cos(1.0), 3);
+      expect(agent.state.position[1]).toBeCloseTo(7000e3 * Math.sin(1.0), 3);
+      expect(agent.state.position[2]).toBeCloseTo(0, 6);
+
+      const saved = saveScenario('Equinoctial', '', '1.0.0');
+      const circular = saved.agents[0]!.orbit as EquinoctialElements;
+      expect(circular.p).toBeCloseTo(7000e3, 0);
+      expect(circular.L).toBeCloseTo(1.0, 12);
+      expect(saved.agents[1]!.orbit).toHaveProperty('a');
+
+      expect(() => validateScenario({
+        ...scenario,
+        agents: [{ ...scenario.agents[0]!, orbit: { p: 7000e3, f: -2, g: 0, h: 0, k: 0, L: 0 } }],
+      })).toThrow('asymptote');
+    });
+
+    it('loads TLE agents with SGP4 and saves the element set back', () => {
+      const tle =
+        'VANGUARD 1\n' +
+        '1 00005U 58002B   00179.78495062  .00000023  00000-0  28098-4 0  4753\n' +
+        '2 00005  34.2682 348.7242 1859667 331.7664  19.3264 10.82419157413667';
+      const scenario = validateScenario({
+        name: 'TLE',
+        description: '',
+        version: '1.0.0',
+        earth: { radius: EARTH_RADIUS },
+        agents: [
+          {
+            id: 'vanguard',
+            orbit: { tle },
+            behaviors: { cohesion: false, separation: false, alignment: false },
+          },
+        ],
+        sim: { timeStep: 1.0, initialTime: 360 * 60 },
+        seed: 'test',
+      });
+
+      loadScenario(scenario);
+
+      const agent = useAgentStore.getState().agents[0]!;
+      expect(agent.propagator).toBe('sgp4');
+      expect(agent.tleEpochOffset).toBe(0);
+      // tcppver.out state of 00005 at 360 minutes, in meters
+      expect(agent.state.position[0]).toBeCloseTo(-7154031.202, 0);
+      expect(agent.state.position[1]).toBeCloseTo(-3783176.825, 0);
+      expect(agent.state.position[2]).toBeCloseTo(-3536194.100, 0);
+
+      const saved = saveScenario('TLE', '', '1.0.0');
+      expect(saved.agents[0]!.orbit).toEqual({ tle });
+      expect(saved.agents[0]!.propagator).toBe('sgp4');
+      expect(saved.sim.epoch).toBe('2000-06-27T18:50:19.734Z');
+    });
+
+    it('replays an exported OEM as an ephemeris agent', () => {
+      const orbit: CartesianState = { position: [6771000, 0, 0], velocity: [0, 5336, 5336] };
+      const source = scenarioToAgents(validateScenario({
+        name: 'Source',
+        description: '',
+        version: '1.0.0',
+        earth: { radius: EARTH_RADIUS },
+        agents: [{ id: 'agent-0', orbit, behaviors: { cohesion: false, separation: false, alignment: false } }],
+        sim: { timeStep: 1.0 },
+        seed: 'test',
+      }))[0]!;
+      const epochJd = 2460310.5;
+      const oem = formatOem(agentToOem(source, epochJd, 0, 3600, 60));
+
+      expect(parseOem(oem).segments[0]!.states).toHaveLength(61);
+
+      const scenario = validateScenario({
+        name: 'OEM',
+        description: '',
+        version: '1.0.0',
+        earth: { radius: EARTH_RADIUS },
+        agents: [
+          { id: 'replay', orbit: { oem }, behaviors: { cohesion: false, separation: false, alignment: false } },
+        ],
+        sim: { timeStep: 1.0, initialTime: 1234 },
+        seed: 'test',
+      });
+
+      loadScenario(scenario);
+
+      const agent = useAgentStore.getState().agents[0]!;
+      const truth = propagateKepler(orbit, 1234);
+      expect(agent.propagator).toBe('ephemeris');
+      expect(agent.ephemeris!.epochJd).toBeCloseTo(epochJd, 9);
+      for (let axis = 0; axis < 3; axis++) {
+        expect(agent.state.position[axis]).toBeCloseTo(truth.position[axis]!, -1);
+      }
+
+      const saved = saveScenario('OEM', '', '1.0.0');
+      expect(saved.sim.epoch).toBe('2024-01-01T00:00:00.000Z');
+      expect(ephemerisFromOem(parseOem((saved.agents[0]!.orbit as { oem: string }).oem), epochJd).points)
+        .toHaveLength(61);
+    });
+
+    it('replays an OEM exported around the Moon, and only around the Moon', () => {
+      const orbit: CartesianState = { position: [1837400, 0, 0], velocity: [0, 1633, 0] };
+      const moonScenario = (agent: Record<string, unknown>) => validateScenario({
+        name: 'Moon',
+        description: '',
+        version: '1.0.0',
+        earth: { body: 'moon', radius: MOON_RADIUS },
+        agents: [{ id: 'agent-0', behaviors: { cohesion: false, separation: false, alignment: false }, ...agent }],
+        sim: { timeStep: 1.0, initialTime: 1234 },
+        seed: 'test',
+      });
+      const source = scenarioToAgents(moonScenario({ orbit }))[0]!;
+      const epochJd = 2460310.5;
+      const oem = formatOem(agentToOem(source, epochJd, 0, 3600, 60, MOON_BODY));
+      expect(parseOem(oem).segments[0]!.metadata.centerName).toBe('MOON');
+
+      loadScenario(moonScenario({ orbit: { oem } }));
+
+      const agent = useAgentStore.getState().agents[0]!;
+      const truth = propagateKepler(orbit, 1234, MOON_MU);
+      expect(agent.propagator).toBe('ephemeris');
+      for (let axis = 0; axis < 3; axis++) {
+        expect(agent.state.position[axis]).toBeCloseTo(truth.position[axis]!, -1);
+      }
+
+      // Saving keeps the center, so the scenario loads again
+      const saved = saveScenario('Moon', '', '1.0.0');
+      const savedOem = (saved.agents[0]!.orbit as { oem: string }).oem;
+      expect(parseOem(savedOem).segments[0]!.metadata.centerName).toBe('MOON');
+      expect(() => validateScenario(saved)).not.toThrow();
+
+      // Lunar states are not geocentric
+      const earthScenario = { ...saved, earth: { radius: EARTH_RADIUS } };
+      expect(() => validateScenario(earthScenario)).toThrow('centered on MOON');
+      expect(() => ephemerisFromOem(parseOem(oem), epochJd)).toThrow('centered on MOON');
+    });
   });
 
   describe('save/load roundtrip', () => {
@@ -4,8 +4,13 @@
 
 import { z } from 'zod';
 import { Scenario, FormationType, BehaviorFlags, AgentScenario, EarthParams, SimParams } from './types';
-import { OrbitalElements, CartesianState } from '@/sim/orbit/types';
+import { OrbitalElements, CartesianState, EquinoctialElements } from '@/sim/orbit/types';
+import { parseTLE } from '@/sim/orbit/tle';
+import { isEarthOnlyForceModel, ThrustArc } from '@/sim/orbit/forces';
+import { checkOemCenter, parseOem } from './ccsds';
 import { ObjectiveType } from '@/sim/tasks/types';
+import { Propulsion } from '@/sim/maneuvers/propulsion';
+import { ScheduledManeuver } from '@/sim/maneuvers/queue';
 
 /**
  * Zod schema for FormationType enum.
@@ -24,10 +29,11 @@ const BehaviorFlagsSchema: z.ZodType<BehaviorFlags> = z.object({
 
 /**
  * Zod schema for orbital elements.
+ * Elliptical orbits have a > 0 and e < 1; hyperbolic orbits have a < 0 and e > 1.
  */
 const OrbitalElementsSchema: z.ZodType<OrbitalElements> = z.object({
-  a: z.number().positive(),
-  e: z.number().min(0).max(1),
+  a: z.number(),
+  e: z.number().min(0),
   i: z.number().min(0).max(Math.PI),
   Ω: z.number().min(0).max(2 * Math.PI),
   ω: z.number().min(0).max(2 * Math.PI),
@@ -36,6 +42,9 @@ const OrbitalElementsSchema: z.ZodType<OrbitalElements> = z.object({
 }).refine(
   (data) => data.ν !== undefined || data.M !== undefined,
   { message: 'Orbital elements must have either ν (true anomaly) or M (mean anomaly)' }
+).refine(
+  (data) => (data.e < 1 ? data.a > 0 : data.e > 1 && data.a < 0),
+  { message: 'Semi-major axis must be positive for elliptical orbits (e < 1) and negative for hyperbolic orbits (e > 1)' }
 );
 
 /**
@@ -47,15 +56,112 @@ const CartesianStateSchema: z.ZodType<CartesianState> = z.object({
 });
 
 /**
- * Zod schema for orbit state (union of OrbitalElements and CartesianState).
+ * Zod schema for modified equinoctial elements.
+ * Open orbits (√(f² + g²) ≥ 1) must place the true longitude inside the asymptotes.
  */
-const OrbitStateSchema = z.union([OrbitalElementsSchema, CartesianStateSchema]);
+const EquinoctialElementsSchema: z.ZodType<EquinoctialElements> = z.object({
+  p: z.number().positive(),
+  f: z.number(),
+  g: z.number(),
+  h: z.number(),
+  k: z.number(),
+  L: z.number(),
+  retrograde: z.boolean().optional(),
+}).refine(
+  (data) => 1 + data.f * Math.cos(data.L) + data.g * Math.sin(data.L) > 0,
+  { message: 'True longitude lies beyond the hyperbolic asymptote' }
+);
+
+/**
+ * Zod schema for a TLE orbit (the text must parse and pass the checksums).
+ */
+const TleOrbitSchema = z.object({
+  tle: z.string().superRefine((text, ctx) => {
+    try {
+      parseTLE(text);
+    } catch (error) {
+      ctx.addIssue({ code: 'custom', message: error instanceof Error ? error.message : 'Invalid TLE' });
+    }
+  }),
+});
+
+/**
+ * Zod schema for an OEM orbit (the message must parse and contain states).
+ */
+const OemOrbitSchema = z.object({
+  oem: z.string().superRefine((text, ctx) => {
+    try {
+      parseOem(text);
+    } catch (error) {
+      ctx.addIssue({ code: 'custom', message: error instanceof Error ? error.message : 'Invalid OEM' });
+    }
+  }),
+});
+
+/**
+ * Zod schema for orbit state (union of OrbitalElements, CartesianState, EquinoctialElements, TLE and OEM).
+ */
+const OrbitStateSchema = z.union([
+  OrbitalElementsSchema,
+  CartesianStateSchema,
+  EquinoctialElementsSchema,
+  TleOrbitSchema,
+  OemOrbitSchema,
+]);
 
 /**
  * Zod schema for Team.
  */
 const TeamSchema = z.enum(['friendly', 'enemy']);
 
+/**
+ * Zod schema for PropagatorType.
+ */
+const PropagatorTypeSchema = z.enum(['kepler', 'j2', 'numerical', 'sgp4', 'ephemeris']);
+
+/**
+ * Zod schema for Propulsion.
+ */
+const PropulsionSchema: z.ZodType<Propulsion> = z.object({
+  dryMass: z.number().positive(),
+  propellantMass: z.number().nonnegative(),
+  thrust: z.number().positive(),
+  isp: z.number().positive(),
+});
+
+/**
+ * Zod schema for ThrustArc.
+ */
+const ThrustArcSchema: z.ZodType<ThrustArc> = z.object({
+  startTime: z.number(),
+  endTime: z.number(),
+  direction: z.tuple([z.number(), z.number(), z.number()]),
+  thrust: z.number().positive(),
+  mass: z.number().positive(),
+  massFlow: z.number().nonnegative(),
+}).refine(
+  (data) => data.endTime >= data.startTime,
+  { message: 'A thrust arc must end after it starts' }
+);
+
+/**
+ * Zod schema for ManeuverTrigger.
+ */
+const ManeuverTriggerSchema = z.union([
+  z.object({ type: z.literal('time'), time: z.number() }),
+  z.object({ type: z.enum(['apoapsis', 'periapsis', 'ascending_node', 'descending_node']) }),
+]);
+
+/**
+ * Zod schema for ScheduledManeuver.
+ */
+const ScheduledManeuverSchema: z.ZodType<ScheduledManeuver> = z.object({
+  id: z.string().min(1),
+  trigger: ManeuverTriggerSchema,
+  rtn: z.tuple([z.number(), z.number(), z.number()]),
+  label: z.string().optional(),
+});
+
 /**
  * Zod schema for AgentScenario.
  */
@@ -65,12 +171,35 @@ const AgentScenarioSchema: z.ZodType<AgentScenario> = z.object({
   behaviors: BehaviorFlagsSchema,
   team: TeamSchema.optional().default('friendly'),
   dvRemaining: z.number().nonnegative().optional(),
-});
+  propulsion: PropulsionSchema.optional(),
+  thrustArc: ThrustArcSchema.optional(),
+  propagator: PropagatorTypeSchema.optional(),
+  forceModels: z.array(z.string().min(1)).optional(),
+  integrator: z.enum(['rk4', 'rk45']).optional(),
+  maxStep: z.number().positive().optional(),
+  ballisticCoefficient: z.number().positive().optional(),
+  reflectivityCoefficient: z.number().min(0).max(2).optional(),
+  areaToMass: z.number().positive().optional(),
+  maneuvers: z.array(ScheduledManeuverSchema).optional(),
+  lastManeuverTime: z.number().optional(),
+}).refine(
+  (data) => data.propagator !== 'sgp4' || 'tle' in data.orbit,
+  { message: 'The sgp4 propagator requires a TLE orbit' }
+).refine(
+  (data) => data.propagator !== 'ephemeris' || 'oem' in data.orbit,
+  { message: 'The ephemeris propagator requires an OEM orbit' }
+);
+
+/**
+ * Zod schema for CentralBodyName.
+ */
+const CentralBodyNameSchema = z.enum(['earth', 'moon', 'mars']);
 
 /**
  * Zod schema for EarthParams.
  */
 const EarthParamsSchema: z.ZodType<EarthParams> = z.object({
+  body: CentralBodyNameSchema.optional(),
   radius: z.number().positive(),
   mu: z.number().positive().optional(),
 });
@@ -82,6 +211,8 @@ const SimParamsSchema: z.ZodType<SimParams> = z.object({
   timeStep: z.number().positive(),
   maxTime: z.number().positive().optional(),
   initialTime: z.number().min(0).optional(),
+  epoch: z.string().refine((value) => !Number.isNaN(Date.parse(value)), { message: 'Invalid date-time' }).optional(),
+  reentryAltitude: z.number().nonnegative().optional(),
 });
 
 /**
@@ -151,6 +282,40 @@ const ScenarioSchema: z.ZodType<Scenario> = z.object({
   sim: SimParamsSchema,
   seed: z.string(),
   objectives: z.array(ObjectiveSchema).optional(),
+}).superRefine((scenario, ctx) => {
+  const body = scenario.earth.body ?? 'earth';
+  scenario.agents.forEach((agent, index) => {
+    // OEM states must be relative to the scenario's central body
+    if ('oem' in agent.orbit) {
+      try {
+        checkOemCenter(parseOem(agent.orbit.oem), body);
+      } catch (error) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['agents', index, 'orbit'],
+          message: error instanceof Error ? error.message : 'Invalid OEM',
+        });
+      }
+    }
+    // TLEs and the Earth-centered force models only make sense around the Earth
+    if (body === 'earth') return;
+    if ('tle' in agent.orbit) {
+      ctx.addIssue({
+        code: 'custom',
+        path: ['agents', index, 'orbit'],
+        message: 'TLE orbits are only supported around the Earth',
+      });
+    }
+    for (const name of agent.forceModels ?? []) {
+      if (isEarthOnlyForceModel(name)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['agents', index, 'forceModels'],
+          message: `The "${name}" force model is only available around the Earth`,
+        });
+      }
+    }
+  });
 });
 
 /**
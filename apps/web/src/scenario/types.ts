@@ -3,16 +3,27 @@
  * Scenarios define initial conditions and simulation parameters.
  */
 
-import { OrbitalElements, CartesianState } from '@/sim/orbit/types';
+import { OrbitalElements, CartesianState, EquinoctialElements, PropagatorType } from '@/sim/orbit/types';
+import { IntegratorType } from '@/sim/orbit/integrators';
+import { CentralBodyName } from '@/sim/orbit/centralBody';
+import { Propulsion } from '@/sim/maneuvers/propulsion';
+import { ScheduledManeuver } from '@/sim/maneuvers/queue';
+import { ThrustArc } from '@/sim/orbit/forces';
 
 /**
- * Formation types for agent behaviors (placeholder for milestone 7).
+ * Formation types for agent behaviors.
+ * Ring, plane and lattice are fixed offsets in the local frame; the others are
+ * natural relative orbits that hold without steering (see sim/swarm/formations.ts).
  */
 export enum FormationType {
   NONE = 'none',
   RING = 'ring',
   PLANE = 'plane',
   LATTICE = 'lattice',
+  INPLANE_ELLIPSE = 'inplane_ellipse',
+  PROJECTED_CIRCLE = 'projected_circle',
+  ALONG_TRACK_STRING = 'along_track_string',
+  CROSS_TRACK = 'cross_track',
 }
 
 /**
@@ -34,30 +45,70 @@ export interface BehaviorFlags {
  */
 export type Team = 'friendly' | 'enemy';
 
+/**
+ * Orbit given as a Two-Line Element set, propagated with SGP4.
+ */
+export interface TleOrbit {
+  /** TLE text: two data lines, optionally preceded by a title line */
+  tle: string;
+}
+
+/**
+ * Orbit given as a CCSDS Orbit Ephemeris Message, replayed by interpolation.
+ */
+export interface OemOrbit {
+  /** OEM text in keyword = value notation */
+  oem: string;
+}
+
 /**
  * Agent definition in a scenario.
- * Supports both orbital elements and Cartesian state for flexibility.
+ * Supports orbital elements (classical or modified equinoctial), Cartesian state, a TLE or an OEM for flexibility.
  */
 export interface AgentScenario {
   /** Unique identifier */
   id: string;
-  /** Initial orbit state (either elements or Cartesian) */
-  orbit: OrbitalElements | CartesianState;
+  /** Initial orbit state (elements, Cartesian state, TLE or OEM) */
+  orbit: OrbitalElements | CartesianState | EquinoctialElements | TleOrbit | OemOrbit;
   /** Behavior flags */
   behaviors: BehaviorFlags;
   /** Team/faction (friendly or enemy). Defaults to 'friendly' if not specified. */
   team?: Team;
-  /** Initial delta-v budget in m/s. Defaults to 1000 m/s if not specified. */
+  /** Initial delta-v budget in m/s. Defaults to 1000 m/s if not specified; ignored when propulsion is given. */
   dvRemaining?: number;
+  /** Dry mass, propellant, thrust and Isp for finite burns (the budget follows from the rocket equation) */
+  propulsion?: Propulsion;
+  /** Finite burn under way (its propellant was charged at ignition), flown on until cutoff */
+  thrustArc?: ThrustArc;
+  /** Propagation model for this agent. Defaults to 'sgp4' for TLE orbits, 'ephemeris' for OEM orbits and 'kepler' otherwise. */
+  propagator?: PropagatorType;
+  /** Force model names for the 'numerical' propagator (e.g. ['central_gravity', 'j2']) */
+  forceModels?: string[];
+  /** Integration scheme for the 'numerical' propagator (defaults to adaptive 'rk45') */
+  integrator?: IntegratorType;
+  /** Largest integration step in seconds for the 'numerical' propagator (the fixed step for 'rk4') */
+  maxStep?: number;
+  /** Ballistic coefficient m / (Cd·A) in kg/m² for the 'drag' force model */
+  ballisticCoefficient?: number;
+  /** Reflectivity coefficient Cr (0-2) for the 'srp' force model */
+  reflectivityCoefficient?: number;
+  /** Area-to-mass ratio A/m in m²/kg for the 'srp' force model */
+  areaToMass?: number;
+  /** Burns scheduled at a sim time or orbital event, in execution order */
+  maneuvers?: ScheduledManeuver[];
+  /** Sim time in seconds of the agent's previous scheduled burn, so an event trigger does not fire twice */
+  lastManeuverTime?: number;
 }
 
 /**
- * Earth parameters in a scenario.
+ * Central body parameters in a scenario (named 'earth' for backward compatibility).
  */
 export interface EarthParams {
-  /** Earth radius in meters */
+  /** Central body preset (defaults to 'earth') */
+  body?: CentralBodyName;
+  /** Central body radius in meters */
   radius: number;
-  /** Gravitational parameter μ = GM in m³/s² (optional, defaults to standard value) */
+  /** Gravitational parameter μ = GM in m³/s² (optional, defaults to the preset's value) */
   mu?: number;
 }
 
@@ -71,6 +122,10 @@ export interface SimParams {
   maxTime?: number;
   /** Initial simulation time in seconds (defaults to 0) */
   initialTime?: number;
+  /** UTC date-time of sim time 0 (ISO 8601). Defaults to the latest TLE epoch or OEM start time, or J2000 if there is none. */
+  epoch?: string;
+  /** Altitude above the central body's surface in meters below which agents re-enter (defaults to 120 km) */
+  reentryAltitude?: number;
 }
 
 /**
@@ -2,6 +2,9 @@ import { describe, it, expect, beforeEach } from 'vitest';
 import { SimClock } from './SimClock';
 import { setSeed, random } from '@/util/seed';
 import { testDeterminism, compareSimulationResults } from '@/test/helpers';
+import { propagateNumericalBatch } from '@/sim/orbit/numerical';
+import { elementsToCartesian } from '@/sim/orbit/conversions';
+import { CartesianState } from '@/sim/orbit/types';
 
 describe('SimClock determinism', () => {
   beforeEach(() => {
@@ -253,5 +256,55 @@ describe('SimClock determinism', () => {
       expect(results[0]).toBe(results[1]);
     });
   });
-});
 
+  describe('numerical propagation determinism', () => {
+    const initialStates: CartesianState[] = [
+      elementsToCartesian({ a: 6778e3, e: 0.001, i: 0.9, Ω: 0.2, ω: 0, ν: 0 }),
+      elementsToCartesian({ a: 8000e3, e: 0.2, i: 0.3, Ω: 1.5, ω: 2.0, ν: 1.0 }),
+    ];
+
+    it('same clock updates produce bit-identical numerical propagation', () => {
+      const run = (integrator: 'rk4' | 'rk45') => () => {
+        const clock = new SimClock({ seed: 'numerical-test', simTime: 0, timeScale: 50 });
+        clock.play();
+        let states = initialStates;
+        for (let i = 0; i < 20; i++) {
+          const startTime = clock.getTime();
+          const simDelta = clock.update(0.016);
+          states = propagateNumericalBatch(states, simDelta, {
+            integrator,
+            forces: ['central_gravity', 'j2'],
+            startTime,
+          });
+        }
+        return states;
+      };
+
+      const rk4Results = testDeterminism(run('rk4'), 2);
+      expect(rk4Results[0]).toEqual(rk4Results[1]);
+
+      const rk45Results = testDeterminism(run('rk45'), 2);
+      expect(rk45Results[0]).toEqual(rk45Results[1]);
+    });
+
+    it('reset and replay reproduces the same numerical trajectory', () => {
+      const clock = new SimClock({ seed: 'numerical-replay', simTime: 0, timeScale: 10 });
+
+      const playThrough = () => {
+        clock.play();
+        let states = initialStates;
+        for (let i = 0; i < 10; i++) {
+          const simDelta = clock.update(0.016);
+          states = propagateNumericalBatch(states, simDelta);
+        }
+        return states;
+      };
+
+      const first = playThrough();
+      clock.reset();
+      const second = playThrough();
+
+      expect(second).toEqual(first);
+    });
+  });
+});
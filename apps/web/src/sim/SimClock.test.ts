@@ -254,6 +254,7 @@ describe('SimClock', () => {
         simTime: 50,
         seed: 'test',
         stepDelta: 0.5,
+        epoch: 2460310.5,
       });
       const state = clock.getState();
       expect(state).toEqual({
@@ -262,6 +263,7 @@ describe('SimClock', () => {
         simTime: 50,
         seed: 'test',
         stepDelta: 0.5,
+        epoch: 2460310.5,
       });
     });
   });
@@ -1,4 +1,5 @@
 import { setSeed } from '@/util/seed';
+import { J2000_JD, SECONDS_PER_DAY, formatUtc, greenwichMeanSiderealTime } from '@/sim/orbit/time';
 
 export interface SimClockState {
   paused: boolean;
@@ -6,6 +7,7 @@ export interface SimClockState {
   simTime: number; // seconds
   seed: string;
   stepDelta: number; // seconds per step
+  epoch: number; // Julian date (UTC) of simTime 0
 }
 
 export class SimClock {
@@ -18,6 +20,7 @@ export class SimClock {
       simTime: 0,
       seed: 'default',
       stepDelta: 1.0,
+      epoch: J2000_JD,
       ...initialState,
     };
     
@@ -53,6 +56,27 @@ export class SimClock {
     return this.state.seed;
   }
 
+  /**
+   * Get the Julian date (UTC) of simulation time 0.
+   */
+  getEpoch(): number {
+    return this.state.epoch;
+  }
+
+  /**
+   * Get the Julian date (UTC) of the current simulation time.
+   */
+  getJulianDate(): number {
+    return this.state.epoch + this.state.simTime / SECONDS_PER_DAY;
+  }
+
+  /**
+   * Get Greenwich mean sidereal time at the current simulation time (radians).
+   */
+  getGmst(): number {
+    return greenwichMeanSiderealTime(this.getJulianDate());
+  }
+
   /**
    * Pause the simulation.
    */
@@ -93,6 +117,13 @@ export class SimClock {
     setSeed(seed);
   }
 
+  /**
+   * Set the Julian date (UTC) of simulation time 0.
+   */
+  setEpoch(epoch: number): void {
+    this.state.epoch = epoch;
+  }
+
   /**
    * Advance simulation by one step (when paused, for single-step).
    */
@@ -153,5 +184,12 @@ export class SimClock {
     }
     return `${seconds}s`;
   }
+
+  /**
+   * Format the current simulation time as a UTC calendar date.
+   */
+  formatDate(): string {
+    return formatUtc(this.getJulianDate());
+  }
 }
 
@@ -0,0 +1,166 @@
+/**
+ * Tests for the physics invariant monitor.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  orbitInvariants,
+  invariantDrift,
+  conservedInvariants,
+  InvariantMonitor,
+  DEFAULT_INVARIANT_TOLERANCES,
+} from './invariants';
+import { Agent } from '@/render/Agents.types';
+import { elementsToCartesian } from '@/sim/orbit/conversions';
+import { propagate, propagateKepler } from '@/sim/orbit/propagator';
+import { EARTH_MU, EARTH_RADIUS } from '@/sim/orbit/constants';
+import { OrbitalElements, PropagatorType } from '@/sim/orbit/types';
+
+function makeAgent(id: string, elements: OrbitalElements, propagator: PropagatorType = 'kepler'): Agent {
+  return {
+    id,
+    state: elementsToCartesian(elements),
+    behaviors: { cohesion: false, separation: false, alignment: false },
+    team: 'friendly',
+    dvRemaining: 100,
+    propagator,
+  };
+}
+
+/**
+ * Propagate an agent step by step, observing it after every step.
+ */
+function run(monitor: InvariantMonitor, agent: Agent, steps: number, step: number): Agent {
+  let current = agent;
+  monitor.observe(current, 0);
+  for (let i = 1; i <= steps; i++) {
+    current = { ...current, state: propagate(current.state, step, current.propagator, { startTime: (i - 1) * step }) };
+    monitor.observe(current, i * step);
+  }
+  return current;
+}
+
+describe('invariants', () => {
+  describe('orbitInvariants', () => {
+    it('matches the elements of an orbit', () => {
+      const a = EARTH_RADIUS + 800e3;
+      const invariants = orbitInvariants(elementsToCartesian({ a, e: 0.1, i: 0.9, Ω: 1, ω: 2, ν: 3 }));
+      const [ex, ey, ez] = invariants.eccentricityVector;
+      const [hx, hy, hz] = invariants.angularMomentum;
+
+      expect(invariants.energy).toBeCloseTo(-EARTH_MU / (2 * a), 6);
+      expect(Math.hypot(ex, ey, ez)).toBeCloseTo(0.1, 12);
+      expect(Math.hypot(hx, hy, hz)).toBeCloseTo(Math.sqrt(EARTH_MU * a * (1 - 0.01)), 3);
+      expect(Math.acos(hz / Math.hypot(hx, hy, hz))).toBeCloseTo(0.9, 12);
+    });
+
+    it('has no drift against itself', () => {
+      const state = elementsToCartesian({ a: 7000e3, e: 0.01, i: 0.5, Ω: 0, ω: 0, ν: 0 });
+      const invariants = orbitInvariants(state);
+      expect(invariantDrift(invariants, invariants)).toEqual({ energy: 0, angularMomentum: 0, eccentricity: 0 });
+    });
+  });
+
+  describe('conservedInvariants', () => {
+    it('checks only the invariants a propagator conserves', () => {
+      expect(conservedInvariants('kepler')).toEqual(['energy', 'angularMomentum', 'eccentricity']);
+      expect(conservedInvariants('numerical')).toEqual(['energy', 'angularMomentum', 'eccentricity']);
+      expect(conservedInvariants('j2')).toEqual(['energy']);
+      expect(conservedInvariants('numerical', ['central_gravity', 'drag'])).toEqual([]);
+      expect(conservedInvariants('sgp4')).toEqual([]);
+    });
+  });
+
+  describe('InvariantMonitor', () => {
+    // Circular and equatorial orbits go through the argument of latitude and true longitude branches of the conversions
+    it.each<[string, OrbitalElements]>([
+      ['eccentric inclined', { a: 7500e3, e: 0.2, i: 1.1, Ω: 0.4, ω: 2.2, ν: 0.3 }],
+      ['circular inclined', { a: 7000e3, e: 0, i: 0.9, Ω: 1.2, ω: 0, ν: 2 }],
+      ['circular equatorial', { a: 42164e3, e: 0, i: 0, Ω: 0, ω: 0, ν: 1 }],
+      ['eccentric retrograde equatorial', { a: 9000e3, e: 0.3, i: Math.PI, Ω: 0, ω: 1, ν: 4 }],
+    ])('does not flag Kepler propagation of a %s orbit', (_, elements) => {
+      const monitor = new InvariantMonitor();
+      run(monitor, makeAgent('sat', elements), 500, 60);
+
+      const status = monitor.status('sat')!;
+      expect(status.flagged).toEqual([]);
+      expect(status.maxDrift.energy).toBeLessThan(1e-10);
+      expect(status.maxDrift.angularMomentum).toBeLessThan(1e-10);
+      expect(status.maxDrift.eccentricity).toBeLessThan(1e-10);
+    });
+
+    it('does not flag numerical two-body propagation over a day', () => {
+      const monitor = new InvariantMonitor();
+      const agent = makeAgent('sat', { a: 7000e3, e: 0.05, i: 0.7, Ω: 0, ω: 0, ν: 0 }, 'numerical');
+      run(monitor, agent, 144, 600);
+
+      expect(monitor.status('sat')!.flagged).toEqual([]);
+    });
+
+    it('flags a state change that was not a control input', () => {
+      const monitor = new InvariantMonitor();
+      const agent = makeAgent('sat', { a: 7000e3, e: 0.01, i: 0.5, Ω: 0, ω: 0, ν: 0 });
+      monitor.observe(agent, 0);
+
+      const [vx, vy, vz] = agent.state.velocity;
+      const kicked = { ...agent, state: { ...agent.state, velocity: [vx, vy + 0.1, vz] as [number, number, number] } };
+      const status = monitor.observe(kicked, 60)!;
+
+      expect(status.flagged).toEqual(['energy', 'angularMomentum', 'eccentricity']);
+      expect(status.maxDrift.energy).toBeGreaterThan(DEFAULT_INVARIANT_TOLERANCES.energy);
+    });
+
+    it('retakes the baseline after control is applied', () => {
+      const monitor = new InvariantMonitor();
+      const agent = makeAgent('sat', { a: 7000e3, e: 0.01, i: 0.5, Ω: 0, ω: 0, ν: 0 });
+      monitor.observe(agent, 0);
+
+      const [vx, vy, vz] = agent.state.velocity;
+      const velocity: [number, number, number] = [vx, vy + 10, vz];
+      const steered = monitor.observe({ ...agent, state: { ...agent.state, velocity } }, 60, true)!;
+      const burned = monitor.observe(
+        { ...agent, dvRemaining: 90, state: { position: agent.state.position, velocity: [vx, vy, vz + 10] } },
+        120
+      )!;
+
+      expect(steered.flagged).toEqual([]);
+      expect(steered.since).toBe(60);
+      expect(burned.flagged).toEqual([]);
+      expect(burned.since).toBe(120);
+    });
+
+    it('keeps the largest drift after it recovers', () => {
+      const monitor = new InvariantMonitor();
+      const agent = makeAgent('sat', { a: 7000e3, e: 0.01, i: 0.5, Ω: 0, ω: 0, ν: 0 });
+      monitor.observe(agent, 0);
+      monitor.observe({ ...agent, state: { ...agent.state, position: [0, 0, 0.9 * 7000e3] } }, 60);
+      const status = monitor.observe({ ...agent, state: propagateKepler(agent.state, 120) }, 120)!;
+
+      expect(status.drift.energy).toBeLessThan(1e-10);
+      expect(status.flagged).toContain('energy');
+    });
+
+    it('reports flagged agents worst first and drops re-entered agents', () => {
+      const monitor = new InvariantMonitor();
+      const agents = ['a', 'b', 'c', 'sgp4'].map((id) =>
+        makeAgent(id, { a: 7000e3, e: 0.01, i: 0.5, Ω: 0, ω: 0, ν: 0 }, id === 'sgp4' ? 'sgp4' : 'kepler')
+      );
+      agents.forEach((agent) => monitor.observe(agent, 0));
+
+      const kick = (agent: Agent, dv: number): Agent => {
+        const [vx, vy, vz] = agent.state.velocity;
+        return { ...agent, state: { ...agent.state, velocity: [vx + dv, vy, vz] } };
+      };
+      monitor.observe(kick(agents[0]!, 1), 10);
+      monitor.observe(kick(agents[1]!, 5), 10);
+      monitor.observe({ ...agents[2]!, reentryTime: 10 }, 10);
+      monitor.observe(kick(agents[3]!, 5), 10);
+
+      const report = monitor.report();
+      expect(report.time).toBe(10);
+      expect(report.monitored).toBe(2);
+      expect(report.flagged.map((status) => status.id)).toEqual(['b', 'a']);
+      expect(monitor.status('c')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,296 @@
+/**
+ * Physics invariant monitor: tracks the quantities two-body motion conserves
+ * (specific orbital energy, angular momentum vector and eccentricity vector)
+ * for each agent and flags agents whose invariants drift while no control was
+ * applied. Drift means a propagator or conversion is wrong (e.g. a bad branch
+ * in conversions.ts sends a circular orbit to the wrong argument of latitude)
+ * or that numerical integration is losing accuracy.
+ *
+ * Each agent's invariants are compared with a baseline taken when monitoring
+ * starts and again after every control input (a burn, swarm steering), so
+ * intended changes of orbit are not reported as drift.
+ */
+
+import { Agent } from '@/render/Agents.types';
+import { CartesianState, PropagatorType } from '@/sim/orbit/types';
+import { EARTH_MU } from '@/sim/orbit/constants';
+import { DEFAULT_FORCE_MODELS } from '@/sim/orbit/forces';
+import { distance } from '@/sim/orbit/vector';
+
+/**
+ * Name of a monitored invariant.
+ */
+export type InvariantName = 'energy' | 'angularMomentum' | 'eccentricity';
+
+/**
+ * Quantities conserved by two-body motion.
+ */
+export interface OrbitInvariants {
+  /** Specific orbital energy v²/2 − μ/r in m²/s² */
+  energy: number;
+  /** Specific angular momentum r × v in m²/s */
+  angularMomentum: [number, number, number];
+  /** Eccentricity vector (v × h)/μ − r/|r| (points to periapsis) */
+  eccentricityVector: [number, number, number];
+}
+
+/**
+ * Drift of each invariant from its baseline.
+ */
+export interface InvariantDrift {
+  /** Relative change of the specific energy |ΔE/E| */
+  energy: number;
+  /** Relative change of the angular momentum vector |Δh|/|h| */
+  angularMomentum: number;
+  /** Change of the eccentricity vector |Δe| */
+  eccentricity: number;
+}
+
+/**
+ * Largest drift allowed for each invariant before an agent is flagged.
+ */
+export type InvariantTolerances = InvariantDrift;
+
+/**
+ * Default tolerances: far above the round-off of the analytical propagators and
+ * the error of the adaptive integrator over a day, far below the error of a
+ * wrong conversion branch.
+ */
+export const DEFAULT_INVARIANT_TOLERANCES: InvariantTolerances = {
+  energy: 1e-6,
+  angularMomentum: 1e-6,
+  eccentricity: 1e-5,
+};
+
+/**
+ * Monitoring state of one agent.
+ */
+export interface AgentInvariantStatus {
+  /** Agent ID */
+  id: string;
+  /** Invariants the agent's propagator conserves (the only ones checked) */
+  checked: InvariantName[];
+  /** Sim time of the baseline in seconds */
+  since: number;
+  /** Sim time of the latest observation in seconds */
+  time: number;
+  /** Drift at the latest observation */
+  drift: InvariantDrift;
+  /** Largest drift since the baseline */
+  maxDrift: InvariantDrift;
+  /** Checked invariants whose largest drift exceeds the tolerance */
+  flagged: InvariantName[];
+}
+
+/**
+ * Summary of all monitored agents.
+ */
+export interface InvariantReport {
+  /** Sim time of the latest observation in seconds */
+  time: number;
+  /** Number of agents with at least one checked invariant */
+  monitored: number;
+  /** Largest drift of each invariant over the monitored agents (checked invariants only) */
+  maxDrift: InvariantDrift;
+  /** Agents with a flagged invariant, worst first */
+  flagged: AgentInvariantStatus[];
+}
+
+/**
+ * Invariants of a state in two-body motion.
+ * @param state Cartesian state
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Specific energy, angular momentum and eccentricity vector
+ */
+export function orbitInvariants(state: CartesianState, mu: number = EARTH_MU): OrbitInvariants {
+  const [x, y, z] = state.position;
+  const [vx, vy, vz] = state.velocity;
+  const r = Math.sqrt(x * x + y * y + z * z);
+  const v2 = vx * vx + vy * vy + vz * vz;
+
+  const h: [number, number, number] = [y * vz - z * vy, z * vx - x * vz, x * vy - y * vx];
+  const vxh: [number, number, number] = [vy * h[2] - vz * h[1], vz * h[0] - vx * h[2], vx * h[1] - vy * h[0]];
+
+  return {
+    energy: v2 / 2 - mu / r,
+    angularMomentum: h,
+    eccentricityVector: [vxh[0] / mu - x / r, vxh[1] / mu - y / r, vxh[2] / mu - z / r],
+  };
+}
+
+/**
+ * Drift of invariants from a baseline.
+ * @param baseline Invariants at the baseline
+ * @param current Current invariants
+ * @returns Relative energy and angular momentum change and absolute eccentricity vector change
+ */
+export function invariantDrift(baseline: OrbitInvariants, current: OrbitInvariants): InvariantDrift {
+  const [hx, hy, hz] = baseline.angularMomentum;
+  return {
+    energy: Math.abs((current.energy - baseline.energy) / baseline.energy),
+    angularMomentum: distance(current.angularMomentum, baseline.angularMomentum) / Math.hypot(hx, hy, hz),
+    eccentricity: distance(current.eccentricityVector, baseline.eccentricityVector),
+  };
+}
+
+/**
+ * Invariants conserved by a propagator. Kepler propagation and numerical
+ * propagation under central gravity alone conserve all three; the secular J2
+ * propagator keeps the orbit's size and shape but turns its plane and
+ * periapsis, so only the energy is checked. Perturbed numerical propagation,
+ * SGP4 and ephemeris replay conserve nothing.
+ * @param propagator Propagation model
+ * @param forceModels Force models of the 'numerical' propagator
+ * @returns Invariants to check
+ */
+export function conservedInvariants(propagator: PropagatorType, forceModels?: string[]): InvariantName[] {
+  switch (propagator) {
+    case 'kepler':
+      return ['energy', 'angularMomentum', 'eccentricity'];
+    case 'j2':
+      return ['energy'];
+    case 'numerical':
+      return (forceModels ?? DEFAULT_FORCE_MODELS).every((name) => name === 'central_gravity')
+        ? ['energy', 'angularMomentum', 'eccentricity']
+        : [];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Baseline and running state of one monitored agent.
+ */
+interface MonitorEntry {
+  status: AgentInvariantStatus;
+  baseline: OrbitInvariants;
+  propagator: PropagatorType;
+  dvRemaining: number;
+}
+
+const NO_DRIFT: InvariantDrift = { energy: 0, angularMomentum: 0, eccentricity: 0 };
+
+/**
+ * Per-agent invariant drift tracker.
+ * An agent's baseline is retaken when it is first observed, when control is
+ * applied (the caller says so, or its delta-v budget changed), when its
+ * propagator changes and when time runs backwards (a scenario was loaded).
+ */
+export class InvariantMonitor {
+  private entries = new Map<string, MonitorEntry>();
+  private latestTime = 0;
+  private readonly tolerances: InvariantTolerances;
+
+  constructor(tolerances: InvariantTolerances = DEFAULT_INVARIANT_TOLERANCES) {
+    this.tolerances = tolerances;
+  }
+
+  /**
+   * Record an agent's state. Re-entered agents are dropped.
+   * @param agent Agent at time
+   * @param time Sim time in seconds
+   * @param controlled Whether control was applied to the agent since its last observation
+   * @param mu Gravitational parameter (m³/s², defaults to Earth)
+   * @returns The agent's status, or null if it is not monitored
+   */
+  observe(agent: Agent, time: number, controlled = false, mu: number = EARTH_MU): AgentInvariantStatus | null {
+    if (agent.reentryTime !== undefined) {
+      this.entries.delete(agent.id);
+      return null;
+    }
+
+    const invariants = orbitInvariants(agent.state, mu);
+    const entry = this.entries.get(agent.id);
+    const rebaseline =
+      !entry ||
+      controlled ||
+      time < entry.status.time ||
+      entry.propagator !== agent.propagator ||
+      entry.dvRemaining !== agent.dvRemaining;
+    this.latestTime = time;
+
+    if (rebaseline) {
+      const status: AgentInvariantStatus = {
+        id: agent.id,
+        checked: conservedInvariants(agent.propagator, agent.forceModels),
+        since: time,
+        time,
+        drift: NO_DRIFT,
+        maxDrift: NO_DRIFT,
+        flagged: [],
+      };
+      this.entries.set(agent.id, {
+        status,
+        baseline: invariants,
+        propagator: agent.propagator,
+        dvRemaining: agent.dvRemaining,
+      });
+      return status;
+    }
+
+    const drift = invariantDrift(entry.baseline, invariants);
+    const previous = entry.status.maxDrift;
+    const maxDrift: InvariantDrift = {
+      energy: Math.max(previous.energy, drift.energy),
+      angularMomentum: Math.max(previous.angularMomentum, drift.angularMomentum),
+      eccentricity: Math.max(previous.eccentricity, drift.eccentricity),
+    };
+    entry.status = {
+      ...entry.status,
+      time,
+      drift,
+      maxDrift,
+      flagged: entry.status.checked.filter((name) => maxDrift[name] > this.tolerances[name]),
+    };
+    return entry.status;
+  }
+
+  /**
+   * Status of one agent.
+   * @param id Agent ID
+   * @returns The agent's status, or null if it has not been observed
+   */
+  status(id: string): AgentInvariantStatus | null {
+    return this.entries.get(id)?.status ?? null;
+  }
+
+  /**
+   * Summarize all monitored agents.
+   * @returns Largest drifts and flagged agents, worst (by largest drift over its tolerance) first
+   */
+  report(): InvariantReport {
+    const maxDrift = { ...NO_DRIFT };
+    const flagged: AgentInvariantStatus[] = [];
+    let monitored = 0;
+
+    for (const { status } of this.entries.values()) {
+      if (status.checked.length === 0) continue;
+      monitored++;
+      for (const name of status.checked) {
+        maxDrift[name] = Math.max(maxDrift[name], status.maxDrift[name]);
+      }
+      if (status.flagged.length > 0) {
+        flagged.push(status);
+      }
+    }
+
+    const severity = (status: AgentInvariantStatus) =>
+      Math.max(...status.flagged.map((name) => status.maxDrift[name] / this.tolerances[name]));
+    flagged.sort((a, b) => severity(b) - severity(a));
+
+    return { time: this.latestTime, monitored, maxDrift, flagged };
+  }
+
+  /**
+   * Forget one agent, or every agent.
+   * @param id Agent ID (all agents if omitted)
+   */
+  reset(id?: string): void {
+    if (id === undefined) {
+      this.entries.clear();
+      this.latestTime = 0;
+    } else {
+      this.entries.delete(id);
+    }
+  }
+}
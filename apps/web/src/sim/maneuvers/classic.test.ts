@@ -0,0 +1,145 @@
+/**
+ * Tests for the classic maneuver calculators.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  hohmannTransfer,
+  biEllipticTransfer,
+  planeChange,
+  combinedPlaneChange,
+  phasingManeuver,
+  phaseAngleTo,
+  ManeuverPlan,
+} from './classic';
+import { rtnToEci } from './rtnToEci';
+import { propagateUniversal } from '@/sim/orbit/universal';
+import { elementsToCartesian, cartesianToElements } from '@/sim/orbit/conversions';
+import { CartesianState } from '@/sim/orbit/types';
+
+/**
+ * Earth radius used by the textbook examples (km).
+ */
+const TEXTBOOK_RADIUS = 6378.137;
+
+/**
+ * Fly a plan: coast to each burn and apply it in the RTN frame at that moment.
+ * @returns State just after the last burn
+ */
+function fly(state: CartesianState, plan: ManeuverPlan): CartesianState {
+  let time = 0;
+  for (const burn of plan.burns) {
+    if (burn.time > time) {
+      state = propagateUniversal(state, burn.time - time);
+      time = burn.time;
+    }
+    const dv = rtnToEci(burn.rtn, state);
+    state = {
+      position: state.position,
+      velocity: [state.velocity[0] + dv[0], state.velocity[1] + dv[1], state.velocity[2] + dv[2]],
+    };
+  }
+  return state;
+}
+
+describe('classic maneuvers', () => {
+  it('matches Vallado example 6-1 (Hohmann transfer to GEO)', () => {
+    const start = elementsToCartesian({ a: (TEXTBOOK_RADIUS + 191.34411) * 1e3, e: 0, i: 0, Ω: 0, ω: 0, ν: 0 });
+    const plan = hohmannTransfer(start, (TEXTBOOK_RADIUS + 35781.34857) * 1e3);
+
+    expect(plan.burns).toHaveLength(2);
+    expect(plan.totalDeltaV).toBeCloseTo(3935.224, 0);
+    expect(plan.duration / 3600).toBeCloseTo(5.256713, 4);
+    expect(plan.burns[0]!.rtn[1]).toBeGreaterThan(0);
+    expect(plan.minimumRadius).toBeCloseTo((TEXTBOOK_RADIUS + 191.34411) * 1e3, 0);
+
+    const final = cartesianToElements(fly(start, plan));
+    expect(final.a / 1e3).toBeCloseTo(TEXTBOOK_RADIUS + 35781.34857, 0);
+    expect(final.e).toBeLessThan(1e-6);
+  });
+
+  it('matches Vallado example 6-2 (bi-elliptic transfer)', () => {
+    const start = elementsToCartesian({ a: (TEXTBOOK_RADIUS + 191.34411) * 1e3, e: 0, i: 0, Ω: 0, ω: 0, ν: 0 });
+    const plan = biEllipticTransfer(start, (TEXTBOOK_RADIUS + 376310) * 1e3, (TEXTBOOK_RADIUS + 503873) * 1e3);
+
+    expect(plan.burns).toHaveLength(3);
+    expect(plan.totalDeltaV).toBeCloseTo(3904.057, 0);
+    expect(plan.duration / 3600).toBeCloseTo(593.919, 1);
+
+    const final = cartesianToElements(fly(start, plan));
+    expect(final.a / 1e3).toBeCloseTo(TEXTBOOK_RADIUS + 376310, 0);
+    expect(final.e).toBeLessThan(1e-6);
+    expect(() => biEllipticTransfer(start, 42000e3, 30000e3)).toThrow('intermediate radius');
+  });
+
+  it('lowers orbits with retrograde burns', () => {
+    const start = elementsToCartesian({ a: 8000e3, e: 0, i: 0.5, Ω: 1, ω: 0, ν: 2 });
+    const plan = hohmannTransfer(start, 7000e3);
+
+    expect(plan.burns.every((burn) => burn.rtn[1] < 0)).toBe(true);
+    expect(plan.minimumRadius).toBe(7000e3);
+    expect(cartesianToElements(fly(start, plan)).a).toBeCloseTo(7000e3, -1);
+  });
+
+  it('changes only the inclination at the next node', () => {
+    const start = elementsToCartesian({ a: 7500e3, e: 0.05, i: 0.9, Ω: 0.4, ω: 0.7, ν: 1.2 });
+    const Δi = (10 * Math.PI) / 180;
+    const plan = planeChange(start, Δi);
+    const before = cartesianToElements(start);
+    const after = cartesianToElements(fly(start, plan));
+
+    expect(plan.burns[0]!.time).toBeGreaterThan(0);
+    expect(plan.burns[0]!.rtn[0]).toBe(0);
+    expect(after.i).toBeCloseTo(before.i + Δi, 9);
+    expect(after.Ω).toBeCloseTo(before.Ω, 9);
+    expect(after.a).toBeCloseTo(before.a, -1);
+    expect(after.e).toBeCloseTo(before.e, 9);
+
+    // Δv = 2v·sin(Δi/2) on a circular orbit
+    const circular = elementsToCartesian({ a: 7000e3, e: 0, i: 0.9, Ω: 0.4, ω: 0, ν: 4 });
+    const speed = Math.hypot(...circular.velocity);
+    expect(planeChange(circular, -Δi).totalDeltaV).toBeCloseTo(2 * speed * Math.sin(Δi / 2), 6);
+    expect(cartesianToElements(fly(circular, planeChange(circular, -Δi))).i).toBeCloseTo(0.9 - Δi, 9);
+  });
+
+  it('combines a Hohmann transfer with a plane change more cheaply than separately', () => {
+    const start = elementsToCartesian({ a: 7000e3, e: 0, i: 0.5, Ω: 0.2, ω: 0, ν: 2.5 });
+    const Δi = (28 * Math.PI) / 180;
+    const combined = combinedPlaneChange(start, 42164e3, Δi);
+    const final = cartesianToElements(fly(start, combined));
+
+    expect(final.a / 1e3).toBeCloseTo(42164, 0);
+    expect(final.e).toBeLessThan(1e-6);
+    expect(final.i).toBeCloseTo(0.5 + Δi, 9);
+    expect(combined.burns[0]!.rtn[2]).toBe(0);
+
+    // Turning the 3074.7 m/s geostationary velocity after arrival
+    const separate = hohmannTransfer(start, 42164e3).totalDeltaV + 2 * 3074.7 * Math.sin(Δi / 2);
+    expect(combined.totalDeltaV).toBeLessThan(separate);
+  });
+
+  it('meets a leading or trailing point after the phasing revolutions', () => {
+    const start = elementsToCartesian({ a: 7000e3, e: 0, i: 0.3, Ω: 0, ω: 0, ν: 0 });
+    for (const phaseAngle of [0.3, -0.3]) {
+      const target = elementsToCartesian({ a: 7000e3, e: 0, i: 0.3, Ω: 0, ω: 0, ν: phaseAngle });
+      expect(phaseAngleTo(start, target.position)).toBeCloseTo(phaseAngle, 9);
+
+      const plan = phasingManeuver(start, phaseAngle, 2);
+      const arrived = fly(start, plan);
+      const targetThen = propagateUniversal(target, plan.duration);
+      const miss = Math.hypot(...arrived.position.map((value, k) => value - targetThen.position[k]!));
+      expect(miss).toBeLessThan(10);
+      expect(Math.hypot(...arrived.velocity.map((value, k) => value - targetThen.velocity[k]!))).toBeLessThan(1e-2);
+      expect(plan.burns[0]!.rtn[1] < 0).toBe(phaseAngle > 0);
+      expect(plan.minimumRadius).toBeLessThanOrEqual(7000e3);
+    }
+
+    expect(() => phasingManeuver(start, 0.3, 0)).toThrow('positive integer');
+  });
+
+  it('rejects escape orbits', () => {
+    const escape: CartesianState = { position: [7000e3, 0, 0], velocity: [0, 12000, 0] };
+    expect(() => hohmannTransfer(escape, 8000e3)).toThrow('elliptical');
+    expect(() => hohmannTransfer(escape, -1)).toThrow('positive');
+  });
+});
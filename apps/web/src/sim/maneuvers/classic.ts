@@ -0,0 +1,331 @@
+/**
+ * Classic maneuver calculators: Hohmann and bi-elliptic transfers, pure and
+ * combined plane changes, and phasing orbits.
+ *
+ * Each calculator returns a plan: a sequence of impulsive burns in the RTN
+ * frame of the agent at the moment of each burn, with execution times
+ * measured from the moment the plan is computed. The textbook formulas
+ * (Vallado, "Fundamentals of Astrodynamics and Applications", §6.3–6.5)
+ * assume circular orbits; the coplanar calculators treat the current orbit
+ * as circular at the agent's radius and only change its along-track speed.
+ */
+
+import { CartesianState } from '@/sim/orbit/types';
+import { EARTH_MU } from '@/sim/orbit/constants';
+import { propagateUniversal } from '@/sim/orbit/universal';
+import { dot, cross, magnitude } from '@/sim/orbit/vector';
+import { timeToOrbitEvent } from './orbitEvents';
+
+/**
+ * One burn of a maneuver plan.
+ */
+export interface PlannedBurn {
+  /** Execution time in seconds after the start of the plan */
+  time: number;
+  /** Delta-v in the agent's RTN frame at execution [radial, along-track, normal] (m/s) */
+  rtn: [number, number, number];
+  /** Burn magnitude in m/s */
+  deltaV: number;
+  /** Short description for display */
+  label: string;
+}
+
+/**
+ * A sequence of burns that performs a maneuver.
+ */
+export interface ManeuverPlan {
+  /** Maneuver name for display */
+  name: string;
+  /** Burns in execution order */
+  burns: PlannedBurn[];
+  /** Sum of the burn magnitudes in m/s */
+  totalDeltaV: number;
+  /** Time of the last burn in seconds after the start of the plan */
+  duration: number;
+  /** Smallest orbital radius reached during the maneuver (meters), to check against the central body */
+  minimumRadius: number;
+}
+
+/**
+ * Speeds at both ends of a half-ellipse between two radii.
+ */
+interface TransferLeg {
+  /** Speed at the departure radius (m/s) */
+  departureSpeed: number;
+  /** Speed at the arrival radius (m/s) */
+  arrivalSpeed: number;
+  /** Half the transfer orbit's period (s) */
+  duration: number;
+}
+
+/**
+ * Semi-major axis of an elliptical orbit.
+ * @throws Error if the orbit is not elliptical
+ */
+function semiMajorAxis(state: CartesianState, mu: number): number {
+  const r = magnitude(state.position);
+  const v = magnitude(state.velocity);
+  const a = 1 / (2 / r - (v * v) / mu);
+  if (!(a > 0) || !Number.isFinite(a)) {
+    throw new Error('Maneuver calculators need an elliptical orbit');
+  }
+  return a;
+}
+
+/**
+ * Speed perpendicular to the radius vector, |r × v| / |r|.
+ */
+function horizontalSpeed(state: CartesianState): number {
+  return magnitude(cross(state.position, state.velocity)) / magnitude(state.position);
+}
+
+/**
+ * Half-ellipse from one radius to another (its periapsis and apoapsis).
+ */
+function transferLeg(r1: number, r2: number, mu: number): TransferLeg {
+  const a = (r1 + r2) / 2;
+  return {
+    departureSpeed: Math.sqrt(mu * (2 / r1 - 1 / a)),
+    arrivalSpeed: Math.sqrt(mu * (2 / r2 - 1 / a)),
+    duration: Math.PI * Math.sqrt((a * a * a) / mu),
+  };
+}
+
+/**
+ * Burn that changes the horizontal speed and turns it about the radius
+ * vector by Δi; positive turns toward +N.
+ */
+function turnBurn(before: number, after: number, Δi: number): [number, number, number] {
+  return [0, after * Math.cos(Δi) - before, after * Math.sin(Δi)];
+}
+
+function burn(time: number, rtn: [number, number, number], label: string): PlannedBurn {
+  return { time, rtn, deltaV: magnitude(rtn), label };
+}
+
+function plan(name: string, burns: PlannedBurn[], minimumRadius: number): ManeuverPlan {
+  return {
+    name,
+    burns,
+    totalDeltaV: burns.reduce((sum, b) => sum + b.deltaV, 0),
+    duration: burns.length > 0 ? burns[burns.length - 1]!.time : 0,
+    minimumRadius,
+  };
+}
+
+/**
+ * Next crossing of the equatorial plane, where a burn normal to the orbit
+ * changes only its inclination. Equatorial orbits are at a node everywhere.
+ * @param state Current state
+ * @param mu Gravitational parameter
+ * @returns Seconds until the node and whether it is the ascending one
+ */
+function nextNode(state: CartesianState, mu: number): { time: number; ascending: boolean } {
+  const ascending = timeToOrbitEvent(state, 'ascending_node', mu);
+  const descending = timeToOrbitEvent(state, 'descending_node', mu);
+  if (!Number.isFinite(ascending) || !Number.isFinite(descending)) {
+    return { time: 0, ascending: true };
+  }
+  return ascending <= descending ? { time: ascending, ascending: true } : { time: descending, ascending: false };
+}
+
+/**
+ * Hohmann transfer to a circular orbit: a tangential burn now onto a
+ * half-ellipse and a circularizing burn at its far end.
+ *
+ * @param state Current state (treated as a circular orbit at its radius)
+ * @param targetRadius Radius of the target circular orbit (meters)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Two-burn plan
+ * @throws Error if the target radius is not positive or the orbit is not elliptical
+ */
+export function hohmannTransfer(state: CartesianState, targetRadius: number, mu: number = EARTH_MU): ManeuverPlan {
+  if (!(targetRadius > 0)) {
+    throw new Error('Target radius must be positive');
+  }
+  semiMajorAxis(state, mu);
+  const r1 = magnitude(state.position);
+  const leg = transferLeg(r1, targetRadius, mu);
+
+  return plan(
+    'Hohmann transfer',
+    [
+      burn(0, turnBurn(horizontalSpeed(state), leg.departureSpeed, 0), 'Enter transfer orbit'),
+      burn(leg.duration, turnBurn(leg.arrivalSpeed, Math.sqrt(mu / targetRadius), 0), 'Circularize'),
+    ],
+    Math.min(r1, targetRadius)
+  );
+}
+
+/**
+ * Bi-elliptic transfer to a circular orbit: out to an intermediate radius on
+ * one half-ellipse and back to the target on a second one. Cheaper than a
+ * Hohmann transfer for target radii beyond about 11.94 times the initial one.
+ *
+ * @param state Current state (treated as a circular orbit at its radius)
+ * @param targetRadius Radius of the target circular orbit (meters)
+ * @param intermediateRadius Apoapsis radius of the two transfer ellipses (meters)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Three-burn plan
+ * @throws Error if the intermediate radius is below the initial or target radius, or the orbit is not elliptical
+ */
+export function biEllipticTransfer(
+  state: CartesianState,
+  targetRadius: number,
+  intermediateRadius: number,
+  mu: number = EARTH_MU
+): ManeuverPlan {
+  if (!(targetRadius > 0)) {
+    throw new Error('Target radius must be positive');
+  }
+  semiMajorAxis(state, mu);
+  const r1 = magnitude(state.position);
+  if (!(intermediateRadius >= Math.max(r1, targetRadius))) {
+    throw new Error('Bi-elliptic intermediate radius must be at least the initial and target radii');
+  }
+  const outbound = transferLeg(r1, intermediateRadius, mu);
+  const inbound = transferLeg(intermediateRadius, targetRadius, mu);
+
+  return plan(
+    'Bi-elliptic transfer',
+    [
+      burn(0, turnBurn(horizontalSpeed(state), outbound.departureSpeed, 0), 'Enter first ellipse'),
+      burn(outbound.duration, turnBurn(outbound.arrivalSpeed, inbound.departureSpeed, 0), 'Enter second ellipse'),
+      burn(
+        outbound.duration + inbound.duration,
+        turnBurn(inbound.arrivalSpeed, Math.sqrt(mu / targetRadius), 0),
+        'Circularize'
+      ),
+    ],
+    Math.min(r1, targetRadius)
+  );
+}
+
+/**
+ * Pure inclination change: at the next node, turn the horizontal velocity
+ * about the radius vector by Δi, keeping its magnitude (Δv = 2v·sin(Δi/2)).
+ * Works for elliptical orbits; the burn is cheapest at the node farthest from
+ * the central body, but the calculator uses the next one.
+ *
+ * @param state Current state
+ * @param Δi Inclination change in radians (negative lowers the inclination)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns One-burn plan
+ * @throws Error if the orbit is not elliptical
+ */
+export function planeChange(state: CartesianState, Δi: number, mu: number = EARTH_MU): ManeuverPlan {
+  const a = semiMajorAxis(state, mu);
+  const { time, ascending } = nextNode(state, mu);
+  const atNode = time > 0 ? propagateUniversal(state, time, mu) : state;
+  const speed = horizontalSpeed(atNode);
+
+  // Periapsis a(1 − e), with e from the semi-latus rectum p = h²/μ = a(1 − e²)
+  const h = magnitude(cross(state.position, state.velocity));
+  const periapsis = a * (1 - Math.sqrt(Math.max(0, 1 - (h * h) / (mu * a))));
+
+  return plan(
+    'Plane change',
+    [burn(time, turnBurn(speed, speed, ascending ? Δi : -Δi), ascending ? 'Ascending node' : 'Descending node')],
+    periapsis
+  );
+}
+
+/**
+ * Hohmann transfer combined with an inclination change, starting at the next
+ * node. The whole plane change is made with the burn at the larger radius,
+ * where the orbital speed (and so the cost of turning it) is lower.
+ *
+ * @param state Current state (treated as a circular orbit at its radius at the node)
+ * @param targetRadius Radius of the target circular orbit (meters)
+ * @param Δi Inclination change in radians (negative lowers the inclination)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Two-burn plan
+ * @throws Error if the target radius is not positive or the orbit is not elliptical
+ */
+export function combinedPlaneChange(
+  state: CartesianState,
+  targetRadius: number,
+  Δi: number,
+  mu: number = EARTH_MU
+): ManeuverPlan {
+  if (!(targetRadius > 0)) {
+    throw new Error('Target radius must be positive');
+  }
+  semiMajorAxis(state, mu);
+  const { time, ascending } = nextNode(state, mu);
+  const atNode = time > 0 ? propagateUniversal(state, time, mu) : state;
+  const r1 = magnitude(atNode.position);
+  const leg = transferLeg(r1, targetRadius, mu);
+
+  // The transfer's far end is the opposite node, where +N turns the other way
+  const raising = targetRadius >= r1;
+  const departureTurn = raising ? 0 : ascending ? Δi : -Δi;
+  const arrivalTurn = raising ? (ascending ? -Δi : Δi) : 0;
+
+  return plan(
+    'Combined plane change',
+    [
+      burn(time, turnBurn(horizontalSpeed(atNode), leg.departureSpeed, departureTurn), 'Enter transfer orbit'),
+      burn(time + leg.duration, turnBurn(leg.arrivalSpeed, Math.sqrt(mu / targetRadius), arrivalTurn), 'Circularize'),
+    ],
+    Math.min(r1, targetRadius)
+  );
+}
+
+/**
+ * Phasing maneuver: leave the circular orbit for a phasing orbit whose period
+ * makes the agent return to the burn point after a number of revolutions
+ * exactly when a point leading it by the phase angle gets there, then return
+ * to the original orbit. Leading points need a shorter (lower) phasing orbit,
+ * trailing ones a longer (higher) one.
+ *
+ * @param state Current state (treated as a circular orbit at its radius)
+ * @param phaseAngle Angle by which the point to meet leads the agent (radians; negative trails)
+ * @param revolutions Revolutions on the phasing orbit (defaults to 1)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Two-burn plan
+ * @throws Error if the revolutions are not a positive integer, are too few to
+ *   catch up with the phase angle, or the orbit is not elliptical
+ */
+export function phasingManeuver(
+  state: CartesianState,
+  phaseAngle: number,
+  revolutions = 1,
+  mu: number = EARTH_MU
+): ManeuverPlan {
+  if (!Number.isInteger(revolutions) || revolutions < 1) {
+    throw new Error('Phasing revolutions must be a positive integer');
+  }
+  semiMajorAxis(state, mu);
+  const r = magnitude(state.position);
+  const meanMotion = Math.sqrt(mu / (r * r * r));
+  const duration = (2 * Math.PI * revolutions - phaseAngle) / meanMotion;
+  if (!(duration > 0)) {
+    throw new Error('Phasing needs more revolutions to catch up with this phase angle');
+  }
+
+  const period = duration / revolutions;
+  const a = Math.cbrt(mu * (period / (2 * Math.PI)) ** 2);
+  const phasingSpeed = Math.sqrt(mu * (2 / r - 1 / a));
+  const circularSpeed = horizontalSpeed(state);
+
+  return plan(
+    'Phasing',
+    [
+      burn(0, turnBurn(circularSpeed, phasingSpeed, 0), 'Enter phasing orbit'),
+      burn(duration, turnBurn(phasingSpeed, circularSpeed, 0), 'Return to orbit'),
+    ],
+    Math.min(r, 2 * a - r)
+  );
+}
+
+/**
+ * Angle by which a position leads the agent along its orbit, for phasing.
+ * @param state Agent state
+ * @param position Position to meet (ECI, meters); projected onto the agent's orbital plane
+ * @returns Phase angle in (-π, π] radians, positive ahead of the agent
+ */
+export function phaseAngleTo(state: CartesianState, position: [number, number, number]): number {
+  const h = cross(state.position, state.velocity);
+  return Math.atan2(dot(cross(state.position, position), h) / magnitude(h), dot(state.position, position));
+}
@@ -1,6 +1,8 @@
 /**
  * Delta-v application module.
  * Handles impulsive burns: updating velocity and tracking delta-v budget.
+ * executeBurn starts finite burns (thrust arcs) for agents with propulsion;
+ * spendDeltaV charges autonomous steering against the same budget.
  * 
  * Units:
  * - Velocity: meters/second (ECI frame)
@@ -24,6 +26,9 @@
  */
 
 import { CartesianState } from '@/sim/orbit/types';
+import { ThrustArc } from '@/sim/orbit/forces';
+import { rtnToEci } from './rtnToEci';
+import { deltaVCapacity, propellantForDeltaV, Propulsion, startFiniteBurn } from './propulsion';
 
 /**
  * Apply impulsive delta-v burn to a satellite state.
@@ -75,3 +80,86 @@ export function applyDeltaV(
     newDvRemaining,
   };
 }
+
+/**
+ * Result of executing a burn on an agent.
+ */
+export interface BurnOutcome {
+  /** State after an impulsive burn (unchanged for a finite burn, which thrusts from now on) */
+  state: CartesianState;
+  /** Delta-v budget after the burn in m/s */
+  dvRemaining: number;
+  /** Propulsion after the burn (agents with propulsion) */
+  propulsion?: Propulsion;
+  /** Propellant used in kg (0 for agents without propulsion) */
+  propellantUsed: number;
+  /** Thrust arc the simulation step flies from now on (agents with propulsion) */
+  thrustArc?: ThrustArc;
+}
+
+/**
+ * Execute a burn given in the RTN frame: a finite burn for agents with
+ * propulsion, an impulsive one against the bare budget otherwise.
+ * A finite burn is charged now and starts a thrust arc at the given time.
+ *
+ * @param state Current orbital state (ECI frame, meters and m/s)
+ * @param rtnVector Delta-v in the RTN frame [radial, along-track, normal] in m/s
+ * @param dvRemaining Current delta-v budget in m/s
+ * @param propulsion Propulsion system, if the agent has one
+ * @param time Current sim time in seconds (ignition of a finite burn)
+ * @returns State, budget and propulsion after the burn
+ * @throws Error if delta-v magnitude exceeds available budget
+ */
+export function executeBurn(
+  state: CartesianState,
+  rtnVector: [number, number, number],
+  dvRemaining: number,
+  propulsion?: Propulsion,
+  time: number = 0
+): BurnOutcome {
+  if (propulsion) {
+    const burn = startFiniteBurn(rtnVector, propulsion, time);
+    return {
+      state,
+      dvRemaining: burn.dvRemaining,
+      propulsion: burn.propulsion,
+      propellantUsed: burn.propellantUsed,
+      thrustArc: burn.thrustArc,
+    };
+  }
+  const { newState, newDvRemaining } = applyDeltaV(state, rtnToEci(rtnVector, state), dvRemaining);
+  return { state: newState, dvRemaining: newDvRemaining, propellantUsed: 0 };
+}
+
+/**
+ * Delta-v charged against a budget.
+ */
+export interface DeltaVSpend {
+  /** Delta-v actually spent in m/s (no more than the budget) */
+  deltaV: number;
+  /** Delta-v budget left in m/s */
+  dvRemaining: number;
+  /** Propulsion after spending (agents with propulsion) */
+  propulsion?: Propulsion;
+  /** Propellant used in kg (0 for agents without propulsion) */
+  propellantUsed: number;
+}
+
+/**
+ * Charge delta-v against an agent's budget, as much as the budget covers.
+ * Agents with propulsion spend propellant by the rocket equation.
+ *
+ * @param dvRemaining Current delta-v budget in m/s
+ * @param propulsion Propulsion system, if the agent has one
+ * @param deltaV Delta-v requested in m/s
+ * @returns Delta-v spent and the budget left
+ */
+export function spendDeltaV(dvRemaining: number, propulsion: Propulsion | undefined, deltaV: number): DeltaVSpend {
+  const spent = Math.min(deltaV, Math.max(0, dvRemaining));
+  if (!propulsion) {
+    return { deltaV: spent, dvRemaining: dvRemaining - spent, propellantUsed: 0 };
+  }
+  const propellantUsed = Math.min(propulsion.propellantMass, propellantForDeltaV(propulsion, spent));
+  const after: Propulsion = { ...propulsion, propellantMass: propulsion.propellantMass - propellantUsed };
+  return { deltaV: spent, dvRemaining: deltaVCapacity(after), propulsion: after, propellantUsed };
+}
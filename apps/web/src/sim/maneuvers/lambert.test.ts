@@ -0,0 +1,89 @@
+/**
+ * Tests for the Lambert solver.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { solveLambert } from './lambert';
+import { propagateUniversal } from '@/sim/orbit/universal';
+import { cartesianToElements } from '@/sim/orbit/conversions';
+
+/**
+ * μ used by the textbook examples (m³/s²).
+ */
+const TEXTBOOK_MU = 398600e9;
+
+function expectVectorClose(actual: number[], expected: number[], tolerance: number) {
+  const error = Math.hypot(...actual.map((value, index) => value - expected[index]!));
+  expect(error).toBeLessThan(tolerance);
+}
+
+describe('solveLambert', () => {
+  it('matches Curtis example 5.2', () => {
+    const [solution] = solveLambert([5000e3, 10000e3, 2100e3], [-14600e3, 2500e3, 7000e3], 3600, TEXTBOOK_MU);
+
+    expect(solution!.branch).toBe('single');
+    expectVectorClose(solution!.v1, [-5992.5, 1925.4, 3245.6], 1);
+    expectVectorClose(solution!.v2, [-3312.5, -4196.6, -385.29], 1);
+  });
+
+  it('connects the two positions in the time of flight', () => {
+    const r1: [number, number, number] = [7000e3, 0, 0];
+    const r2: [number, number, number] = [-2000e3, 8000e3, 1000e3];
+    const [solution] = solveLambert(r1, r2, 2400);
+
+    const arrival = propagateUniversal({ position: r1, velocity: solution!.v1 }, 2400);
+    expectVectorClose(arrival.position, r2, 1e-2);
+    expectVectorClose(arrival.velocity, solution!.v2, 1e-5);
+  });
+
+  it('goes the long way for a retrograde sense of motion', () => {
+    const r1: [number, number, number] = [7000e3, 0, 0];
+    const r2: [number, number, number] = [0, 7000e3, 0];
+    const [prograde] = solveLambert(r1, r2, 1800);
+    const [retrograde] = solveLambert(r1, r2, 4000, undefined, { normal: [0, 0, -1] });
+
+    expect(prograde!.v1[1]).toBeGreaterThan(0);
+    expect(retrograde!.v1[1]).toBeLessThan(0);
+    const arrival = propagateUniversal({ position: r1, velocity: retrograde!.v1 }, 4000);
+    expectVectorClose(arrival.position, r2, 1e-2);
+  });
+
+  it('finds both branches of a multi-revolution transfer', () => {
+    const r1: [number, number, number] = [7000e3, 0, 0];
+    const r2: [number, number, number] = [0, 7500e3, 500e3];
+    const timeOfFlight = 3 * 3600;
+    const solutions = solveLambert(r1, r2, timeOfFlight, undefined, { revolutions: 1 });
+
+    expect(solutions.map((s) => s.branch)).toEqual(['left', 'right']);
+    for (const solution of solutions) {
+      const arrival = propagateUniversal({ position: r1, velocity: solution.v1 }, timeOfFlight);
+      expectVectorClose(arrival.position, r2, 1);
+
+      // One complete revolution: the period is between a half and the whole time of flight
+      const { a } = cartesianToElements({ position: r1, velocity: solution.v1 });
+      const period = 2 * Math.PI * Math.sqrt(a ** 3 / 3.986004418e14);
+      expect(period).toBeLessThan(timeOfFlight);
+      expect(period).toBeGreaterThan(timeOfFlight / 2);
+    }
+    expect(solutions[0]!.v1).not.toEqual(solutions[1]!.v1);
+  });
+
+  it('has no multi-revolution solution below the minimum time of flight', () => {
+    expect(solveLambert([7000e3, 0, 0], [0, 7000e3, 0], 3000, undefined, { revolutions: 1 })).toEqual([]);
+  });
+
+  it('solves short hyperbolic transfers', () => {
+    const r1: [number, number, number] = [7000e3, 0, 0];
+    const r2: [number, number, number] = [7000e3, 7000e3, 0];
+    const [solution] = solveLambert(r1, r2, 300);
+
+    expect(cartesianToElements({ position: r1, velocity: solution!.v1 }).e).toBeGreaterThan(1);
+    const arrival = propagateUniversal({ position: r1, velocity: solution!.v1 }, 300);
+    expectVectorClose(arrival.position, r2, 1e-2);
+  });
+
+  it('rejects invalid problems', () => {
+    expect(() => solveLambert([7000e3, 0, 0], [0, 7000e3, 0], 0)).toThrow('time of flight');
+    expect(() => solveLambert([7000e3, 0, 0], [-8000e3, 0, 0], 3000)).toThrow('180°');
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Lambert solver: the two-body orbit connecting two positions in a given time
+ * of flight, including transfers with complete revolutions.
+ *
+ * Uses the universal-variable formulation (Vallado, "Fundamentals of
+ * Astrodynamics and Applications", Algorithm 58, with the multi-revolution
+ * extension). The time of flight is a function of ψ = Δχ²/a:
+ *   y(ψ) = r₁ + r₂ + A(ψS(ψ) − 1)/√C(ψ),   √μ·t(ψ) = (y/C)^{3/2}·S + A√y
+ * where A = ±√(r₁r₂(1 + cos Δν)) and C, S are the Stumpff functions.
+ * With no complete revolution t(ψ) increases monotonically over
+ * ψ < 4π²; an N-revolution transfer has ψ in (4π²N², 4π²(N + 1)²), where
+ * t(ψ) has a single minimum and each longer time of flight is reached twice
+ * (the left and right branches).
+ */
+
+import { EARTH_MU } from '@/sim/orbit/constants';
+import { stumpffC, stumpffS } from '@/sim/orbit/universal';
+
+/**
+ * Branch of a multi-revolution solution: ψ below ('left') or above ('right')
+ * the minimum time of flight. Single-revolution transfers have one solution.
+ */
+export type LambertBranch = 'single' | 'left' | 'right';
+
+/**
+ * Options of the Lambert solver.
+ */
+export interface LambertOptions {
+  /** Complete revolutions before arrival (defaults to 0) */
+  revolutions?: number;
+  /**
+   * Sense of motion: the transfer's angular momentum points along this vector
+   * (defaults to +Z, i.e. prograde)
+   */
+  normal?: [number, number, number];
+}
+
+/**
+ * A transfer orbit between two positions.
+ */
+export interface LambertSolution {
+  /** Velocity at the first position (m/s) */
+  v1: [number, number, number];
+  /** Velocity at the second position (m/s) */
+  v2: [number, number, number];
+  /** Complete revolutions before arrival */
+  revolutions: number;
+  /** Solution branch */
+  branch: LambertBranch;
+}
+
+/**
+ * Bisection and golden-section iterations (enough to resolve ψ to round-off).
+ */
+const MAX_ITERATIONS = 200;
+
+/**
+ * Geometry of a Lambert problem.
+ */
+interface LambertGeometry {
+  r1: number;
+  r2: number;
+  /** A = ±√(r₁r₂(1 + cos Δν)) */
+  A: number;
+  sqrtMu: number;
+}
+
+/**
+ * y(ψ), or NaN where the transfer does not exist (y < 0).
+ */
+function yOf(geometry: LambertGeometry, ψ: number): number {
+  const C = stumpffC(ψ);
+  const y = geometry.r1 + geometry.r2 + (geometry.A * (ψ * stumpffS(ψ) - 1)) / Math.sqrt(C);
+  return y >= 0 ? y : NaN;
+}
+
+/**
+ * Time of flight t(ψ); negative where y(ψ) < 0 (short of any transfer).
+ */
+function timeOfFlight(geometry: LambertGeometry, ψ: number): number {
+  const y = yOf(geometry, ψ);
+  if (Number.isNaN(y)) return -1;
+  const C = stumpffC(ψ);
+  const χ = Math.sqrt(y / C);
+  return (χ * χ * χ * stumpffS(ψ) + geometry.A * Math.sqrt(y)) / geometry.sqrtMu;
+}
+
+/**
+ * Find ψ in [low, high] where t(ψ) crosses the target, given that t increases
+ * (or, with decreasing, decreases) with ψ over the interval.
+ */
+function bisect(geometry: LambertGeometry, target: number, low: number, high: number, decreasing = false): number {
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (mid === low || mid === high) break;
+    const short = timeOfFlight(geometry, mid) < target;
+    if (short !== decreasing) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * ψ of the minimum time of flight in a multi-revolution interval (golden-section search).
+ */
+function minimumTimePsi(geometry: LambertGeometry, low: number, high: number): number {
+  const ratio = (Math.sqrt(5) - 1) / 2;
+  let a = low;
+  let b = high;
+  let c = b - ratio * (b - a);
+  let d = a + ratio * (b - a);
+  for (let i = 0; i < MAX_ITERATIONS && b - a > 1e-14 * high; i++) {
+    if (timeOfFlight(geometry, c) < timeOfFlight(geometry, d)) {
+      b = d;
+    } else {
+      a = c;
+    }
+    c = b - ratio * (b - a);
+    d = a + ratio * (b - a);
+  }
+  return (a + b) / 2;
+}
+
+/**
+ * Velocities at both ends of the transfer for a solved ψ (Lagrange coefficients).
+ */
+function velocities(
+  geometry: LambertGeometry,
+  position1: [number, number, number],
+  position2: [number, number, number],
+  ψ: number,
+  mu: number
+): { v1: [number, number, number]; v2: [number, number, number] } {
+  const y = yOf(geometry, ψ);
+  const f = 1 - y / geometry.r1;
+  const g = geometry.A * Math.sqrt(y / mu);
+  const gDot = 1 - y / geometry.r2;
+  return {
+    v1: [
+      (position2[0] - f * position1[0]) / g,
+      (position2[1] - f * position1[1]) / g,
+      (position2[2] - f * position1[2]) / g,
+    ],
+    v2: [
+      (gDot * position2[0] - position1[0]) / g,
+      (gDot * position2[1] - position1[1]) / g,
+      (gDot * position2[2] - position1[2]) / g,
+    ],
+  };
+}
+
+/**
+ * Solve Lambert's problem: the orbits from position1 to position2 in a time of flight.
+ *
+ * @param position1 Departure position (ECI, meters)
+ * @param position2 Arrival position (ECI, meters)
+ * @param timeOfFlightSeconds Time of flight in seconds
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @param options Revolutions and sense of motion
+ * @returns The single solution without complete revolutions, the left and right
+ *   solutions with them, or nothing if the time of flight is shorter than the
+ *   shortest transfer with that many revolutions
+ * @throws Error if the time of flight is not positive or the positions are 180° apart
+ */
+export function solveLambert(
+  position1: [number, number, number],
+  position2: [number, number, number],
+  timeOfFlightSeconds: number,
+  mu: number = EARTH_MU,
+  options: LambertOptions = {}
+): LambertSolution[] {
+  if (!(timeOfFlightSeconds > 0)) {
+    throw new Error('Lambert time of flight must be positive');
+  }
+  const revolutions = options.revolutions ?? 0;
+  const [nx, ny, nz] = options.normal ?? [0, 0, 1];
+
+  const [x1, y1, z1] = position1;
+  const [x2, y2, z2] = position2;
+  const r1 = Math.hypot(x1, y1, z1);
+  const r2 = Math.hypot(x2, y2, z2);
+  const cosΔν = Math.max(-1, Math.min(1, (x1 * x2 + y1 * y2 + z1 * z2) / (r1 * r2)));
+
+  // Short way (Δν < π) when r₁ × r₂ points along the reference normal
+  const cx = y1 * z2 - z1 * y2;
+  const cy = z1 * x2 - x1 * z2;
+  const cz = x1 * y2 - y1 * x2;
+  const shortWay = cx * nx + cy * ny + cz * nz >= 0;
+  const A = (shortWay ? 1 : -1) * Math.sqrt(r1 * r2 * (1 + cosΔν));
+  if (Math.abs(A) < 1e-9 * Math.sqrt(r1 * r2)) {
+    throw new Error('Lambert transfer plane is undefined for positions 180° apart');
+  }
+
+  const geometry: LambertGeometry = { r1, r2, A, sqrtMu: Math.sqrt(mu) };
+  const fourPi2 = 4 * Math.PI * Math.PI;
+
+  if (revolutions === 0) {
+    // Extend the hyperbolic bound until it is short of the time of flight
+    let low = -fourPi2;
+    while (timeOfFlight(geometry, low) > timeOfFlightSeconds && low > -1e4) {
+      low *= 2;
+    }
+    const high = fourPi2 * (1 - 1e-12);
+    const ψ = bisect(geometry, timeOfFlightSeconds, low, high);
+    return [{ ...velocities(geometry, position1, position2, ψ, mu), revolutions, branch: 'single' }];
+  }
+
+  const low = fourPi2 * revolutions * revolutions;
+  const high = fourPi2 * (revolutions + 1) * (revolutions + 1);
+  const margin = 1e-12 * high;
+  const ψMin = minimumTimePsi(geometry, low + margin, high - margin);
+  if (timeOfFlight(geometry, ψMin) > timeOfFlightSeconds) {
+    return [];
+  }
+
+  const ψLeft = bisect(geometry, timeOfFlightSeconds, low + margin, ψMin, true);
+  const ψRight = bisect(geometry, timeOfFlightSeconds, ψMin, high - margin);
+  return [
+    { ...velocities(geometry, position1, position2, ψLeft, mu), revolutions, branch: 'left' },
+    { ...velocities(geometry, position1, position2, ψRight, mu), revolutions, branch: 'right' },
+  ];
+}
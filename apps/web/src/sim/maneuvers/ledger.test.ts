@@ -0,0 +1,50 @@
+/**
+ * Tests for the propellant ledger.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PropellantLedger } from './ledger';
+import { spendDeltaV } from './deltaV';
+import { deltaVCapacity } from './propulsion';
+
+describe('PropellantLedger', () => {
+  it('totals spending by agent, category and fleet', () => {
+    const ledger = new PropellantLedger();
+    ledger.record([
+      { agentId: 'a', category: 'manual', deltaV: 10, propellant: 2 },
+      { agentId: 'a', category: 'steering', deltaV: 0.5, propellant: 0.1 },
+      { agentId: 'b', category: 'scheduled', deltaV: 4, propellant: 0 },
+    ]);
+
+    expect(ledger.entry('a')).toEqual({
+      deltaV: { manual: 10, scheduled: 0, steering: 0.5 },
+      totalDeltaV: 10.5,
+      propellant: 2.1,
+    });
+    expect(ledger.entry('c').totalDeltaV).toBe(0);
+
+    const { agents, fleet } = ledger.summary();
+    expect(Object.keys(agents)).toEqual(['a', 'b']);
+    expect(fleet.deltaV).toEqual({ manual: 10, scheduled: 4, steering: 0.5 });
+    expect(fleet.totalDeltaV).toBe(14.5);
+
+    ledger.reset();
+    expect(ledger.summary().fleet.totalDeltaV).toBe(0);
+  });
+});
+
+describe('spendDeltaV', () => {
+  it('spends no more than the budget', () => {
+    expect(spendDeltaV(3, undefined, 5)).toEqual({ deltaV: 3, dvRemaining: 0, propellantUsed: 0 });
+    expect(spendDeltaV(0, undefined, 5).deltaV).toBe(0);
+  });
+
+  it('spends propellant by the rocket equation', () => {
+    const propulsion = { dryMass: 400, propellantMass: 100, thrust: 20, isp: 220 };
+    const spend = spendDeltaV(deltaVCapacity(propulsion), propulsion, 50);
+
+    expect(spend.deltaV).toBe(50);
+    expect(spend.propellantUsed).toBeCloseTo(500 * (1 - Math.exp(-50 / (220 * 9.80665))), 9);
+    expect(spend.dvRemaining).toBeCloseTo(deltaVCapacity(propulsion) - 50, 6);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Propellant ledger: the delta-v (and, for agents with propulsion, the
+ * propellant) each agent has spent, split by what spent it, with fleet
+ * totals, so that runs can be compared on fuel efficiency.
+ *
+ * Manual burns are charged when the player executes them; scheduled burns and
+ * autonomous steering (swarm behaviors, objective steering and collision
+ * avoidance) are charged by the simulation step.
+ */
+
+/**
+ * What spent the delta-v.
+ */
+export type LedgerCategory = 'manual' | 'scheduled' | 'steering';
+
+/**
+ * Ledger categories in display order.
+ */
+export const LEDGER_CATEGORIES: LedgerCategory[] = ['manual', 'scheduled', 'steering'];
+
+/**
+ * Delta-v spent by one agent at one time.
+ */
+export interface LedgerCharge {
+  agentId: string;
+  category: LedgerCategory;
+  /** Delta-v spent in m/s */
+  deltaV: number;
+  /** Propellant spent in kg (0 for agents without propulsion) */
+  propellant: number;
+}
+
+/**
+ * Spending of an agent (or the fleet) so far.
+ */
+export interface LedgerEntry {
+  /** Delta-v spent by category in m/s */
+  deltaV: Record<LedgerCategory, number>;
+  /** Delta-v spent in all categories in m/s */
+  totalDeltaV: number;
+  /** Propellant spent in kg */
+  propellant: number;
+}
+
+/**
+ * Snapshot of the ledger.
+ */
+export interface LedgerSummary {
+  /** Spending of each agent that has spent anything */
+  agents: Record<string, LedgerEntry>;
+  /** Spending of all agents together */
+  fleet: LedgerEntry;
+}
+
+function emptyEntry(): LedgerEntry {
+  return { deltaV: { manual: 0, scheduled: 0, steering: 0 }, totalDeltaV: 0, propellant: 0 };
+}
+
+function addCharge(entry: LedgerEntry, charge: LedgerCharge): void {
+  entry.deltaV[charge.category] += charge.deltaV;
+  entry.totalDeltaV += charge.deltaV;
+  entry.propellant += charge.propellant;
+}
+
+function copyEntry(entry: LedgerEntry): LedgerEntry {
+  return { ...entry, deltaV: { ...entry.deltaV } };
+}
+
+/**
+ * Running totals of the delta-v and propellant spent by each agent.
+ */
+export class PropellantLedger {
+  private entries = new Map<string, LedgerEntry>();
+
+  /**
+   * Add charges to the agents' totals.
+   * @param charges Delta-v spent, in any order
+   */
+  record(charges: LedgerCharge[]): void {
+    for (const charge of charges) {
+      let entry = this.entries.get(charge.agentId);
+      if (!entry) {
+        entry = emptyEntry();
+        this.entries.set(charge.agentId, entry);
+      }
+      addCharge(entry, charge);
+    }
+  }
+
+  /**
+   * Spending of one agent.
+   * @param agentId Agent ID
+   * @returns The agent's totals (zero if it has spent nothing)
+   */
+  entry(agentId: string): LedgerEntry {
+    const entry = this.entries.get(agentId);
+    return entry ? copyEntry(entry) : emptyEntry();
+  }
+
+  /**
+   * Snapshot of every agent's spending and the fleet totals.
+   */
+  summary(): LedgerSummary {
+    const agents: Record<string, LedgerEntry> = {};
+    const fleet = emptyEntry();
+    for (const [id, entry] of this.entries) {
+      agents[id] = copyEntry(entry);
+      for (const category of LEDGER_CATEGORIES) {
+        fleet.deltaV[category] += entry.deltaV[category];
+      }
+      fleet.totalDeltaV += entry.totalDeltaV;
+      fleet.propellant += entry.propellant;
+    }
+    return { agents, fleet };
+  }
+
+  /**
+   * Forget all spending (e.g. when a new scenario is loaded).
+   */
+  reset(): void {
+    this.entries.clear();
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Orbital events (apsides and nodes) and the time until an agent reaches
+ * them on its two-body orbit. Nodes are crossings of the equatorial plane.
+ */
+
+import { CartesianState } from '@/sim/orbit/types';
+import { EARTH_MU } from '@/sim/orbit/constants';
+import { normalizeAngle } from '@/sim/orbit/conversions';
+import { dot, cross, magnitude } from '@/sim/orbit/vector';
+
+/**
+ * An orbital event a burn can be scheduled at.
+ */
+export type OrbitEvent = 'apoapsis' | 'periapsis' | 'ascending_node' | 'descending_node';
+
+/**
+ * Eccentricities below this have no defined apsides.
+ */
+const CIRCULAR_ECCENTRICITY = 1e-10;
+
+/**
+ * Angle from a reference direction to the position, measured in the direction of motion.
+ */
+function angleFrom(reference: [number, number, number], state: CartesianState, h: [number, number, number]): number {
+  return Math.atan2(dot(cross(reference, state.position), h) / magnitude(h), dot(reference, state.position));
+}
+
+/**
+ * Time until an agent next reaches an orbital event, assuming two-body motion.
+ *
+ * @param state Current state
+ * @param event Event to reach
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @param lookBack Seconds into the past that still count: an event passed less
+ *   than this long ago is returned as a negative time (defaults to 0)
+ * @returns Seconds until the event, in [−lookBack, period − lookBack), or
+ *   Infinity if the orbit never reaches it (escape orbits, apsides of circular
+ *   orbits, nodes of equatorial orbits)
+ */
+export function timeToOrbitEvent(
+  state: CartesianState,
+  event: OrbitEvent,
+  mu: number = EARTH_MU,
+  lookBack = 0
+): number {
+  const r = magnitude(state.position);
+  const v2 = dot(state.velocity, state.velocity);
+  const a = 1 / (2 / r - v2 / mu);
+  if (!(a > 0) || !Number.isFinite(a)) return Infinity;
+
+  const rv = dot(state.position, state.velocity);
+  const eVector = state.position.map(
+    (component, k) => ((v2 - mu / r) * component - rv * state.velocity[k]!) / mu
+  ) as [number, number, number];
+  const e = magnitude(eVector);
+  const h = cross(state.position, state.velocity);
+  const circular = e < CIRCULAR_ECCENTRICITY;
+
+  // True anomaly to sweep before the event
+  let Δν: number;
+  if (event === 'apoapsis' || event === 'periapsis') {
+    if (circular) return Infinity;
+    const ν = angleFrom(eVector, state, h);
+    Δν = normalizeAngle((event === 'periapsis' ? 0 : Math.PI) - ν);
+  } else {
+    const node: [number, number, number] = [-h[1], h[0], 0];
+    if (magnitude(node) < 1e-9 * magnitude(h)) return Infinity;
+    const u = angleFrom(node, state, h);
+    Δν = normalizeAngle((event === 'ascending_node' ? 0 : Math.PI) - u);
+  }
+
+  const meanMotion = Math.sqrt(mu / (a * a * a));
+  const period = (2 * Math.PI) / meanMotion;
+  let ΔM = Δν;
+  if (!circular) {
+    const meanAnomaly = (ν: number) => {
+      const E = Math.atan2(Math.sqrt(1 - e * e) * Math.sin(ν), e + Math.cos(ν));
+      return E - e * Math.sin(E);
+    };
+    const ν0 = angleFrom(eVector, state, h);
+    ΔM = normalizeAngle(meanAnomaly(ν0 + Δν) - meanAnomaly(ν0));
+  }
+
+  const time = ΔM / meanMotion;
+  return time >= period - lookBack ? time - period : time;
+}
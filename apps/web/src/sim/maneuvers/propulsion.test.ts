@@ -0,0 +1,84 @@
+/**
+ * Tests for finite-duration burns.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { deltaVCapacity, propellantForDeltaV, burnDuration, executeFiniteBurn, Propulsion } from './propulsion';
+import { rtnToEci } from './rtnToEci';
+import { elementsToCartesian, cartesianToElements } from '@/sim/orbit/conversions';
+import { propagateUniversal } from '@/sim/orbit/universal';
+import { CartesianState } from '@/sim/orbit/types';
+import { EARTH_MU } from '@/sim/orbit/constants';
+
+const propulsion: Propulsion = { dryMass: 100, propellantMass: 100, thrust: 500, isp: 300 };
+
+function impulsive(state: CartesianState, rtn: [number, number, number]): CartesianState {
+  const dv = rtnToEci(rtn, state);
+  return {
+    position: state.position,
+    velocity: [state.velocity[0] + dv[0], state.velocity[1] + dv[1], state.velocity[2] + dv[2]],
+  };
+}
+
+describe('propulsion', () => {
+  const start = elementsToCartesian({ a: 7000e3, e: 0.001, i: 0.9, Ω: 0.3, ω: 0, ν: 1 });
+
+  it('follows the rocket equation', () => {
+    expect(deltaVCapacity(propulsion)).toBeCloseTo(300 * 9.80665 * Math.log(2), 6);
+
+    const propellant = propellantForDeltaV(propulsion, 500);
+    expect(propellant).toBeCloseTo(200 * (1 - Math.exp(-500 / (300 * 9.80665))), 9);
+    expect(burnDuration(propulsion, 500)).toBeCloseTo(propellant / (500 / (300 * 9.80665)), 9);
+
+    // Burns in sequence deliver the same total as one burn
+    const first = executeFiniteBurn(start, [0, 300, 0], propulsion);
+    const second = executeFiniteBurn(first.state, [0, 200, 0], first.propulsion);
+    expect(first.propellantUsed + second.propellantUsed).toBeCloseTo(propellant, 9);
+    expect(second.dvRemaining).toBeCloseTo(deltaVCapacity(propulsion) - 500, 6);
+  });
+
+  it('matches an impulsive burn when the burn is short', () => {
+    const strong: Propulsion = { ...propulsion, thrust: 1e6 };
+    // In the orbital plane (a normal burn turns the frame it is steered in)
+    const result = executeFiniteBurn(start, [5, 20, 0], strong);
+    // An impulsive burn halfway through, flown to the cutoff
+    const half = result.duration / 2;
+    const expected = propagateUniversal(impulsive(propagateUniversal(start, half, EARTH_MU), [5, 20, 0]), half, EARTH_MU);
+
+    expect(result.duration).toBeLessThan(0.1);
+    expect(result.thrustArc.endTime).toBeCloseTo(result.duration, 12);
+    expect(Math.hypot(...result.state.velocity.map((v, k) => v - expected.velocity[k]!))).toBeLessThan(1e-3);
+    expect(Math.hypot(...result.state.position.map((p, k) => p - expected.position[k]!))).toBeLessThan(1e-3);
+  });
+
+  it('loses energy to a long burn', () => {
+    const weak: Propulsion = { ...propulsion, thrust: 50 };
+    const result = executeFiniteBurn(start, [0, 400, 0], weak);
+    const initial = cartesianToElements(start).a;
+    const ideal = cartesianToElements(impulsive(start, [0, 400, 0])).a;
+    const finite = cartesianToElements(result.state).a;
+
+    expect(result.duration).toBeGreaterThan(1000);
+    expect(finite).toBeGreaterThan(initial);
+    expect(finite).toBeLessThan(ideal);
+    expect((ideal - finite) / (ideal - initial)).toBeLessThan(0.1);
+  });
+
+  it('integrates the forces of the agent\'s propagator during the burn', () => {
+    const weak: Propulsion = { ...propulsion, thrust: 50 };
+    const twoBody = executeFiniteBurn(start, [0, 100, 10], weak);
+    const j2 = executeFiniteBurn(start, [0, 100, 10], weak, 'j2', { startTime: 500 });
+    const numerical = executeFiniteBurn(start, [0, 100, 10], weak, 'numerical', {
+      forces: ['central_gravity', 'j2'],
+      startTime: 500,
+    });
+
+    expect(j2.thrustArc.startTime).toBe(500);
+    expect(Math.hypot(...j2.state.position.map((p, k) => p - twoBody.state.position[k]!))).toBeGreaterThan(100);
+    expect(numerical.state).toEqual(j2.state);
+  });
+
+  it('rejects burns beyond the capacity', () => {
+    expect(() => executeFiniteBurn(start, [0, 2100, 0], propulsion)).toThrow('exceeds available budget');
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Finite-duration burns for agents that carry a propulsion system.
+ *
+ * An agent with dry mass m_d, propellant m_p, thrust F and specific impulse
+ * Isp has a delta-v capacity from the rocket equation,
+ *   Δv = Isp·g₀·ln((m_d + m_p) / m_d),
+ * and a burn of Δv takes the propellant m₀(1 − e^(−Δv / (Isp·g₀))) at the mass
+ * flow F / (Isp·g₀). A burn is a thrust arc: from ignition the engine pushes
+ * along the burn's direction in the RTN frame of the current state (so the
+ * thrust turns with the orbit) until the burn's propellant is spent. The arc
+ * is integrated with the 'thrust' force model on top of the forces of the
+ * agent's propagator, so perturbations act during the burn and the difference
+ * from an impulsive burn of the same Δv (the finite-burn loss) follows from
+ * the integration. The simulation step flies the arc through the steps it
+ * covers; the propellant is charged at ignition.
+ *
+ * Units: masses in kg, thrust in N, Isp in seconds, delta-v in m/s.
+ */
+
+import { CartesianState, PropagatorType } from '@/sim/orbit/types';
+import { EARTH_G } from '@/sim/orbit/constants';
+import { ThrustArc } from '@/sim/orbit/forces';
+import { propagateNumerical, NumericalPropagatorOptions } from '@/sim/orbit/numerical';
+import { propagatorForceModels } from '@/sim/orbit/propagator';
+
+/**
+ * Propulsion system and propellant load of an agent.
+ */
+export interface Propulsion {
+  /** Mass without propellant in kg */
+  dryMass: number;
+  /** Remaining propellant mass in kg */
+  propellantMass: number;
+  /** Engine thrust in N */
+  thrust: number;
+  /** Specific impulse in seconds */
+  isp: number;
+}
+
+/**
+ * A finite burn started at ignition.
+ */
+export interface FiniteBurn {
+  /** Thrust arc of the burn, from ignition to cutoff */
+  thrustArc: ThrustArc;
+  /** Propulsion after the burn (less propellant) */
+  propulsion: Propulsion;
+  /** Delta-v capacity left after the burn in m/s */
+  dvRemaining: number;
+  /** Burn duration in seconds */
+  duration: number;
+  /** Propellant used in kg */
+  propellantUsed: number;
+}
+
+/**
+ * Outcome of a finite burn flown to cutoff.
+ */
+export interface FiniteBurnResult extends FiniteBurn {
+  /** State at cutoff */
+  state: CartesianState;
+}
+
+/**
+ * Longest RK4 step while thrusting (seconds).
+ */
+const MAX_BURN_STEP = 1;
+
+/**
+ * Most RK4 steps per burn; longer burns use longer steps.
+ */
+const MAX_BURN_STEPS = 2000;
+
+/**
+ * Effective exhaust velocity Isp·g₀ in m/s.
+ */
+function exhaustVelocity(propulsion: Propulsion): number {
+  return propulsion.isp * EARTH_G;
+}
+
+/**
+ * Delta-v the agent can still deliver (rocket equation).
+ * @param propulsion Propulsion system and propellant load
+ * @returns Delta-v capacity in m/s
+ */
+export function deltaVCapacity(propulsion: Propulsion): number {
+  return exhaustVelocity(propulsion) * Math.log((propulsion.dryMass + propulsion.propellantMass) / propulsion.dryMass);
+}
+
+/**
+ * Propellant a burn uses (rocket equation).
+ * @param propulsion Propulsion system and propellant load
+ * @param deltaV Burn magnitude in m/s
+ * @returns Propellant mass in kg
+ */
+export function propellantForDeltaV(propulsion: Propulsion, deltaV: number): number {
+  const initialMass = propulsion.dryMass + propulsion.propellantMass;
+  return initialMass * (1 - Math.exp(-deltaV / exhaustVelocity(propulsion)));
+}
+
+/**
+ * How long a burn takes at full thrust.
+ * @param propulsion Propulsion system and propellant load
+ * @param deltaV Burn magnitude in m/s
+ * @returns Duration in seconds
+ */
+export function burnDuration(propulsion: Propulsion, deltaV: number): number {
+  const massFlow = propulsion.thrust / exhaustVelocity(propulsion);
+  return propellantForDeltaV(propulsion, deltaV) / massFlow;
+}
+
+/**
+ * Start a finite burn: the thrust arc that delivers a delta-v, and the
+ * propellant it takes.
+ *
+ * @param rtnVector Delta-v in the RTN frame [radial, along-track, normal] (m/s)
+ * @param propulsion Propulsion system and propellant load
+ * @param startTime Sim time of ignition in seconds
+ * @returns Thrust arc, remaining propellant and the burn's duration
+ * @throws Error if the delta-v exceeds the agent's capacity
+ */
+export function startFiniteBurn(
+  rtnVector: [number, number, number],
+  propulsion: Propulsion,
+  startTime: number = 0
+): FiniteBurn {
+  const deltaV = Math.hypot(rtnVector[0], rtnVector[1], rtnVector[2]);
+  const capacity = deltaVCapacity(propulsion);
+  if (deltaV > capacity) {
+    throw new Error(
+      `Delta-v magnitude (${deltaV.toFixed(2)} m/s) exceeds available budget (${capacity.toFixed(2)} m/s)`
+    );
+  }
+
+  const propellantUsed = Math.min(propulsion.propellantMass, propellantForDeltaV(propulsion, deltaV));
+  const after: Propulsion = { ...propulsion, propellantMass: propulsion.propellantMass - propellantUsed };
+  const massFlow = propulsion.thrust / exhaustVelocity(propulsion);
+  const duration = propellantUsed / massFlow;
+  return {
+    thrustArc: {
+      startTime,
+      endTime: startTime + duration,
+      direction: deltaV > 0 ? [rtnVector[0] / deltaV, rtnVector[1] / deltaV, rtnVector[2] / deltaV] : [0, 0, 0],
+      thrust: propulsion.thrust,
+      mass: propulsion.dryMass + propulsion.propellantMass,
+      massFlow,
+    },
+    propulsion: after,
+    dvRemaining: deltaVCapacity(after),
+    duration,
+    propellantUsed,
+  };
+}
+
+/**
+ * Propagate through part of a thrust arc, integrating the thrust together
+ * with the forces of the agent's propagator (fixed-step RK4).
+ *
+ * @param state State at options.startTime, within the arc
+ * @param deltaTime Seconds to propagate, up to the arc's cutoff
+ * @param thrustArc Thrust arc being flown
+ * @param propagator Agent's propagator, whose forces act during the burn (defaults to 'kepler')
+ * @param options Agent's force models, spacecraft parameters, start time, epoch and central body
+ * @returns State after deltaTime
+ */
+export function propagateThrustArc(
+  state: CartesianState,
+  deltaTime: number,
+  thrustArc: ThrustArc,
+  propagator: PropagatorType = 'kepler',
+  options: NumericalPropagatorOptions = {}
+): CartesianState {
+  return propagateNumerical(state, deltaTime, {
+    ...options,
+    forces: [...propagatorForceModels(propagator, options.forces), 'thrust'],
+    thrustArc,
+    integrator: 'rk4',
+    maxStep: Math.max(MAX_BURN_STEP, (thrustArc.endTime - thrustArc.startTime) / MAX_BURN_STEPS),
+  });
+}
+
+/**
+ * Execute a finite burn from ignition to cutoff in one go, e.g. to preview
+ * the orbit it leads to.
+ *
+ * @param state State at ignition (ECI, meters and m/s)
+ * @param rtnVector Delta-v in the RTN frame [radial, along-track, normal] (m/s)
+ * @param propulsion Propulsion system and propellant load
+ * @param propagator Agent's propagator, whose forces act during the burn (defaults to 'kepler')
+ * @param options Agent's force models and spacecraft parameters, the ignition time (startTime), epoch and central body
+ * @returns State at cutoff, remaining propellant and the burn's duration
+ * @throws Error if the delta-v exceeds the agent's capacity
+ */
+export function executeFiniteBurn(
+  state: CartesianState,
+  rtnVector: [number, number, number],
+  propulsion: Propulsion,
+  propagator: PropagatorType = 'kepler',
+  options: NumericalPropagatorOptions = {}
+): FiniteBurnResult {
+  const burn = startFiniteBurn(rtnVector, propulsion, options.startTime);
+  if (!(burn.duration > 0)) {
+    return { ...burn, state };
+  }
+  return {
+    ...burn,
+    state: propagateThrustArc(state, burn.duration, burn.thrustArc, propagator, options),
+  };
+}
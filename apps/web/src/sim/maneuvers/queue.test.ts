@@ -0,0 +1,105 @@
+/**
+ * Tests for orbital events and the maneuver queue.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { timeToOrbitEvent } from './orbitEvents';
+import {
+  applyExecutedManeuvers,
+  enqueueManeuver,
+  maneuverDueTime,
+  nextManeuverId,
+  predictManeuvers,
+  ScheduledManeuver,
+} from './queue';
+import { elementsToCartesian, cartesianToElements } from '@/sim/orbit/conversions';
+import { propagateUniversal } from '@/sim/orbit/universal';
+import { EARTH_MU, EARTH_RADIUS } from '@/sim/orbit/constants';
+import { generateTestAgents } from '@/util/generateTestAgents';
+
+const a = EARTH_RADIUS + 1000e3;
+const period = 2 * Math.PI * Math.sqrt((a * a * a) / EARTH_MU);
+
+function burn(id: string, trigger: ScheduledManeuver['trigger'], rtn: [number, number, number] = [0, 1, 0]): ScheduledManeuver {
+  return { id, trigger, rtn };
+}
+
+describe('timeToOrbitEvent', () => {
+  const state = elementsToCartesian({ a, e: 0.1, i: 0.5, Ω: 0.3, ω: 1, ν: 0.4 });
+
+  it('reaches the apsides and nodes where the elements place them', () => {
+    const toApoapsis = timeToOrbitEvent(state, 'apoapsis');
+    expect(cartesianToElements(propagateUniversal(state, toApoapsis, EARTH_MU)).ν).toBeCloseTo(Math.PI, 8);
+
+    const toPeriapsis = timeToOrbitEvent(state, 'periapsis');
+    expect(toPeriapsis).toBeGreaterThan(toApoapsis);
+    expect(toPeriapsis).toBeLessThan(period);
+
+    const ascending = propagateUniversal(state, timeToOrbitEvent(state, 'ascending_node'), EARTH_MU);
+    expect(ascending.position[2]).toBeCloseTo(0, 2);
+    expect(ascending.velocity[2]).toBeGreaterThan(0);
+
+    const descending = propagateUniversal(state, timeToOrbitEvent(state, 'descending_node'), EARTH_MU);
+    expect(descending.position[2]).toBeCloseTo(0, 2);
+    expect(descending.velocity[2]).toBeLessThan(0);
+  });
+
+  it('returns just-passed events as negative times within the look-back', () => {
+    const atPeriapsis = elementsToCartesian({ a, e: 0.1, i: 0.5, Ω: 0.3, ω: 1, ν: 0 });
+    const justAfter = propagateUniversal(atPeriapsis, 0.5, EARTH_MU);
+
+    expect(timeToOrbitEvent(justAfter, 'periapsis')).toBeCloseTo(period - 0.5, 3);
+    expect(timeToOrbitEvent(justAfter, 'periapsis', EARTH_MU, 1)).toBeCloseTo(-0.5, 3);
+  });
+
+  it('never reaches undefined events', () => {
+    const circular = elementsToCartesian({ a, e: 0, i: 0.5, Ω: 0, ω: 0, ν: 0 });
+    const equatorial = elementsToCartesian({ a, e: 0.1, i: 0, Ω: 0, ω: 0, ν: 1 });
+    const escape = { position: [a, 0, 0] as [number, number, number], velocity: [0, 12000, 0] as [number, number, number] };
+
+    expect(timeToOrbitEvent(circular, 'apoapsis')).toBe(Infinity);
+    expect(timeToOrbitEvent(equatorial, 'ascending_node')).toBe(Infinity);
+    expect(timeToOrbitEvent(escape, 'periapsis')).toBe(Infinity);
+  });
+});
+
+describe('maneuver queue', () => {
+  const state = elementsToCartesian({ a, e: 0.05, i: 0.5, Ω: 0, ω: 0, ν: 2 });
+
+  it('fires an event just passed once', () => {
+    const atApoapsis = propagateUniversal(state, timeToOrbitEvent(state, 'apoapsis'), EARTH_MU);
+    const justAfter = propagateUniversal(atApoapsis, 0.5, EARTH_MU);
+
+    expect(maneuverDueTime({ type: 'apoapsis' }, justAfter, 100)).toBe(100);
+    // The agent already burned at this apoapsis: wait for the next one
+    expect(maneuverDueTime({ type: 'apoapsis' }, justAfter, 100, 99.5)).toBeCloseTo(99.5 + period, 3);
+  });
+
+  it('predicts burns in queue order on the orbits between them', () => {
+    const queue = [burn('m1', { type: 'apoapsis' }, [0, 500, 0]), burn('m2', { type: 'periapsis' })];
+    const predictions = predictManeuvers(state, queue, 1000);
+
+    expect(predictions.map((p) => p.maneuver.id)).toEqual(['m1', 'm2']);
+    expect(predictions[0]!.time).toBeCloseTo(1000 + timeToOrbitEvent(state, 'apoapsis'), 6);
+    // Raising the apoapsis turned it into the periapsis: the next periapsis is one period later
+    expect(predictions[1]!.time - predictions[0]!.time).toBeGreaterThan(period);
+  });
+
+  it('orders burns at a time and appends burns at an event', () => {
+    let queue: ScheduledManeuver[] = [];
+    queue = enqueueManeuver(queue, burn(nextManeuverId(queue), { type: 'time', time: 500 }));
+    queue = enqueueManeuver(queue, burn(nextManeuverId(queue), { type: 'apoapsis' }));
+    queue = enqueueManeuver(queue, burn(nextManeuverId(queue), { type: 'time', time: 200 }));
+
+    expect(queue.map((m) => m.id)).toEqual(['m3', 'm1', 'm2']);
+  });
+
+  it('drops executed burns and takes over the budget left', () => {
+    const agent = { ...generateTestAgents(1)[0]!, maneuvers: [burn('m1', { type: 'apoapsis' }), burn('m2', { type: 'periapsis' })] };
+    const [updated] = applyExecutedManeuvers([agent], [{ agentId: agent.id, maneuverId: 'm1', time: 300, dvRemaining: 42 }]);
+
+    expect(updated!.maneuvers!.map((m) => m.id)).toEqual(['m2']);
+    expect(updated!.dvRemaining).toBe(42);
+    expect(updated!.lastManeuverTime).toBe(300);
+  });
+});
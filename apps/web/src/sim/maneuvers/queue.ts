@@ -0,0 +1,228 @@
+/**
+ * Maneuver queue: burns scheduled at an absolute sim time or at the next
+ * orbital event (apoapsis, periapsis, a node), executed in queue order by the
+ * simulation step at exactly their time.
+ *
+ * An event trigger is resolved from the agent's two-body orbit at the start
+ * of every step, so it follows orbit changes made before it fires. Events
+ * passed up to EVENT_LOOK_BACK seconds before the step (where the agent's own
+ * propagator and the two-body estimate disagree) still fire, and an event
+ * within EVENT_LOOK_BACK seconds of the agent's last scheduled burn counts as
+ * already burned at.
+ */
+
+import { Agent } from '@/render/Agents.types';
+import { CartesianState } from '@/sim/orbit/types';
+import { EARTH_MU } from '@/sim/orbit/constants';
+import { ThrustArc } from '@/sim/orbit/forces';
+import { propagateUniversal } from '@/sim/orbit/universal';
+import { OrbitEvent, timeToOrbitEvent } from './orbitEvents';
+import { rtnToEci } from './rtnToEci';
+import { Propulsion } from './propulsion';
+
+/**
+ * When a scheduled burn executes.
+ */
+export type ManeuverTrigger = { type: 'time'; time: number } | { type: OrbitEvent };
+
+/**
+ * A burn in an agent's maneuver queue.
+ */
+export interface ScheduledManeuver {
+  /** Identifier, unique within the agent's queue */
+  id: string;
+  /** Absolute sim time (seconds) or orbital event of the burn */
+  trigger: ManeuverTrigger;
+  /** Delta-v in the RTN frame at execution [radial, along-track, normal] (m/s) */
+  rtn: [number, number, number];
+  /** Short description for display */
+  label?: string;
+}
+
+/**
+ * A scheduled burn the simulation step reached.
+ */
+export interface ExecutedManeuver {
+  agentId: string;
+  maneuverId: string;
+  /** Sim time of the burn in seconds (the middle of a finite burn) */
+  time: number;
+  /** Delta-v budget after the burn in m/s */
+  dvRemaining: number;
+  /** Propulsion after the burn (agents with propulsion) */
+  propulsion?: Propulsion;
+  /** Thrust arc of a finite burn (agents with propulsion) */
+  thrustArc?: ThrustArc;
+  /** Why the burn could not be executed (it is still removed from the queue) */
+  error?: string;
+}
+
+/**
+ * Predicted execution of a queued burn.
+ */
+export interface ManeuverPrediction {
+  maneuver: ScheduledManeuver;
+  /** Sim time of the burn in seconds */
+  time: number;
+  /** Two-body state just before the burn */
+  state: CartesianState;
+}
+
+/**
+ * Seconds before a step within which a just-passed orbital event still fires.
+ */
+export const EVENT_LOOK_BACK = 1;
+
+/**
+ * Display names of the triggers.
+ */
+export const TRIGGER_LABELS: Record<ManeuverTrigger['type'], string> = {
+  time: 'At time',
+  apoapsis: 'Next apoapsis',
+  periapsis: 'Next periapsis',
+  ascending_node: 'Next ascending node',
+  descending_node: 'Next descending node',
+};
+
+/**
+ * Sim time at which a queued burn is due, from the agent's state.
+ *
+ * @param trigger Burn trigger
+ * @param state Agent state at the given time
+ * @param time Current sim time in seconds
+ * @param lastManeuverTime Sim time of the agent's previous scheduled burn, if any
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Sim time of the burn (no earlier than the given time for events
+ *   ahead, earlier for overdue time triggers), or Infinity if the orbit never
+ *   reaches the event
+ */
+export function maneuverDueTime(
+  trigger: ManeuverTrigger,
+  state: CartesianState,
+  time: number,
+  lastManeuverTime?: number,
+  mu: number = EARTH_MU
+): number {
+  if (trigger.type === 'time') {
+    return trigger.time;
+  }
+  const untilEvent = timeToOrbitEvent(state, trigger.type, mu, EVENT_LOOK_BACK);
+  const eventTime = time + untilEvent;
+  // The agent burned at this very event (e.g. a burn that moved the periapsis to where it burned)
+  if (lastManeuverTime !== undefined && Math.abs(eventTime - lastManeuverTime) <= EVENT_LOOK_BACK) {
+    return eventTime + orbitalPeriod(state, mu);
+  }
+  // Events just passed fire now
+  return Math.max(time, eventTime);
+}
+
+/**
+ * Period of an elliptical orbit in seconds (Infinity for escape orbits).
+ */
+function orbitalPeriod(state: CartesianState, mu: number): number {
+  const r = Math.hypot(...state.position);
+  const v = Math.hypot(...state.velocity);
+  const a = 1 / (2 / r - (v * v) / mu);
+  return a > 0 ? 2 * Math.PI * Math.sqrt((a * a * a) / mu) : Infinity;
+}
+
+/**
+ * Predict when and where queued burns execute, flying the queue on two-body
+ * orbits with impulsive burns. Stops at the first burn that is never reached.
+ *
+ * @param state Agent state at the given time
+ * @param queue Scheduled burns in execution order
+ * @param time Current sim time in seconds
+ * @param lastManeuverTime Sim time of the agent's previous scheduled burn, if any
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Predicted burns, in queue order
+ */
+export function predictManeuvers(
+  state: CartesianState,
+  queue: ScheduledManeuver[],
+  time: number,
+  lastManeuverTime?: number,
+  mu: number = EARTH_MU
+): ManeuverPrediction[] {
+  const predictions: ManeuverPrediction[] = [];
+  let current = state;
+  let now = time;
+  let lastBurn = lastManeuverTime;
+  for (const maneuver of queue) {
+    const due = Math.max(now, maneuverDueTime(maneuver.trigger, current, now, lastBurn, mu));
+    if (!Number.isFinite(due)) break;
+
+    current = propagateUniversal(current, due - now, mu);
+    predictions.push({ maneuver, time: due, state: current });
+    const dv = rtnToEci(maneuver.rtn, current);
+    current = {
+      position: current.position,
+      velocity: [current.velocity[0] + dv[0], current.velocity[1] + dv[1], current.velocity[2] + dv[2]],
+    };
+    now = due;
+    lastBurn = due;
+  }
+  return predictions;
+}
+
+/**
+ * Add a burn to a queue. Burns at a time go before the first queued burn at a
+ * later time; burns at an orbital event go at the end.
+ *
+ * @param queue Current queue (not mutated)
+ * @param maneuver Burn to add
+ * @returns New queue
+ */
+export function enqueueManeuver(queue: ScheduledManeuver[], maneuver: ScheduledManeuver): ScheduledManeuver[] {
+  const { trigger } = maneuver;
+  if (trigger.type === 'time') {
+    const index = queue.findIndex((m) => m.trigger.type === 'time' && m.trigger.time > trigger.time);
+    if (index >= 0) {
+      return [...queue.slice(0, index), maneuver, ...queue.slice(index)];
+    }
+  }
+  return [...queue, maneuver];
+}
+
+/**
+ * Identifier for a new burn in a queue.
+ * @param queue Current queue
+ * @returns An identifier no queued burn uses
+ */
+export function nextManeuverId(queue: ScheduledManeuver[]): string {
+  const used = new Set(queue.map((m) => m.id));
+  let index = queue.length + 1;
+  while (used.has(`m${index}`)) index++;
+  return `m${index}`;
+}
+
+/**
+ * Apply executed burns to the agents that flew them: drop the burns from
+ * their queues and take over the budget and propellant left and the thrust
+ * arc of the latest finite burn.
+ *
+ * @param agents Agents (not mutated)
+ * @param executed Burns executed by the simulation step, in order
+ * @returns Agents, with new objects for those that maneuvered
+ */
+export function applyExecutedManeuvers(agents: Agent[], executed: ExecutedManeuver[]): Agent[] {
+  if (executed.length === 0) return agents;
+  const byAgent = new Map<string, ExecutedManeuver[]>();
+  for (const burn of executed) {
+    byAgent.set(burn.agentId, [...(byAgent.get(burn.agentId) ?? []), burn]);
+  }
+  return agents.map((agent) => {
+    const burns = byAgent.get(agent.id);
+    if (!burns) return agent;
+    const done = new Set(burns.map((burn) => burn.maneuverId));
+    const last = burns[burns.length - 1]!;
+    return {
+      ...agent,
+      maneuvers: (agent.maneuvers ?? []).filter((m) => !done.has(m.id)),
+      dvRemaining: last.dvRemaining,
+      propulsion: last.propulsion,
+      thrustArc: burns.reduce((arc, burn) => burn.thrustArc ?? arc, agent.thrustArc),
+      lastManeuverTime: last.time,
+    };
+  });
+}
@@ -43,3 +43,25 @@ export function rtnToEci(
 
   return [dvx, dvy, dvz];
 }
+
+/**
+ * Convert an ECI vector (e.g. a delta-v) to the RTN frame of a state.
+ * Inverse of rtnToEci.
+ *
+ * @param eciVector Vector in ECI frame [x, y, z]
+ * @param state Orbital state defining the RTN frame axes
+ * @returns Vector in RTN frame [radial, along-track, normal]
+ */
+export function eciToRtn(
+  eciVector: [number, number, number],
+  state: CartesianState
+): [number, number, number] {
+  const [x, y, z] = eciVector;
+  const { radial, alongTrack, crossTrack } = computeLocalFrame(state);
+
+  return [
+    x * radial[0] + y * radial[1] + z * radial[2],
+    x * alongTrack[0] + y * alongTrack[1] + z * alongTrack[2],
+    x * crossTrack[0] + y * crossTrack[1] + z * crossTrack[2],
+  ];
+}
@@ -0,0 +1,98 @@
+/**
+ * Tests for the two-point transfer planner.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { planTransfer, transferTable, defaultTimesOfFlight, targetAtArrival, TransferTarget } from './transfer';
+import { propagateUniversal } from '@/sim/orbit/universal';
+import { elementsToCartesian } from '@/sim/orbit/conversions';
+import { CartesianState } from '@/sim/orbit/types';
+import { EARTH_MU } from '@/sim/orbit/constants';
+import { add, distance } from '@/sim/orbit/vector';
+
+/**
+ * Fly a plan: departure burn, coast, arrival burn.
+ */
+function fly(state: CartesianState, plan: ReturnType<typeof planTransfer>): CartesianState {
+  const coast = propagateUniversal(
+    { position: state.position, velocity: add(state.velocity, plan!.departureBurn) },
+    plan!.timeOfFlight
+  );
+  return { position: coast.position, velocity: add(coast.velocity, plan!.arrivalBurn) };
+}
+
+describe('transfer planner', () => {
+  const agent = elementsToCartesian({ a: 7000e3, e: 0.001, i: 0.9, Ω: 0.3, ω: 0, ν: 0 });
+
+  it('rendezvous with a moving destination', () => {
+    const slot = elementsToCartesian({ a: 7100e3, e: 0.002, i: 0.92, Ω: 0.3, ω: 0, ν: 1 });
+    const target: TransferTarget = { position: slot.position, velocity: slot.velocity };
+    const plan = planTransfer(agent, target, 3000)!;
+
+    const arrived = fly(agent, plan);
+    const expected = targetAtArrival(target, 3000);
+    expect(distance(arrived.position, expected.position)).toBeLessThan(1);
+    expect(distance(arrived.velocity, expected.velocity)).toBeLessThan(1e-3);
+    expect(plan.totalDeltaV).toBeCloseTo(plan.departureDeltaV + plan.arrivalDeltaV, 9);
+    expect(Math.hypot(...plan.departureBurnRtn)).toBeCloseTo(plan.departureDeltaV, 6);
+    expect(Math.hypot(...plan.arrivalBurnRtn)).toBeCloseTo(plan.arrivalDeltaV, 6);
+  });
+
+  it('comes to rest at a fixed point, or flies through it without rendezvous', () => {
+    const point: [number, number, number] = [-2000e3, 6000e3, 3000e3];
+    const plan = planTransfer(agent, { position: point }, 1500)!;
+    const arrived = fly(agent, plan);
+    expect(distance(arrived.position, point)).toBeLessThan(1);
+    expect(Math.hypot(...arrived.velocity)).toBeLessThan(1e-3);
+
+    const flyby = planTransfer(agent, { position: point }, 1500, { rendezvous: false })!;
+    expect(flyby.arrivalBurn).toEqual([0, 0, 0]);
+    expect(flyby.departureBurn).toEqual(plan.departureBurn);
+  });
+
+  it('costs about a Hohmann transfer between coplanar circular orbits', () => {
+    const r1 = 7000e3;
+    const r2 = 10000e3;
+    const transferTime = Math.PI * Math.sqrt(((r1 + r2) / 2) ** 3 / EARTH_MU);
+    const start = elementsToCartesian({ a: r1, e: 0, i: 0, Ω: 0, ω: 0, ν: 0 });
+    // The destination reaches 179° (180° has no unique transfer plane) at the end of the transfer
+    const destination = elementsToCartesian({
+      a: r2,
+      e: 0,
+      i: 0,
+      Ω: 0,
+      ω: 0,
+      ν: (179 * Math.PI) / 180 - transferTime * Math.sqrt(EARTH_MU / r2 ** 3),
+    });
+
+    const plan = planTransfer(start, destination, transferTime)!;
+    const hohmann =
+      Math.sqrt(EARTH_MU / r1) * (Math.sqrt((2 * r2) / (r1 + r2)) - 1) +
+      Math.sqrt(EARTH_MU / r2) * (1 - Math.sqrt((2 * r1) / (r1 + r2)));
+    expect(plan.revolutions).toBe(0);
+    expect(Math.abs(plan.totalDeltaV - hohmann) / hohmann).toBeLessThan(0.05);
+    expect(plan.departureBurnRtn[1]).toBeGreaterThan(0);
+  });
+
+  it('uses multi-revolution transfers when they are cheaper', () => {
+    const slot = elementsToCartesian({ a: 7000e3, e: 0.001, i: 0.9, Ω: 0.3, ω: 0, ν: 0.2 });
+    const target = { position: slot.position, velocity: slot.velocity };
+    const single = planTransfer(agent, target, 4 * 3600)!;
+    const multi = planTransfer(agent, target, 4 * 3600, { maxRevolutions: 3 })!;
+
+    expect(multi.revolutions).toBeGreaterThan(0);
+    expect(multi.totalDeltaV).toBeLessThan(single.totalDeltaV);
+  });
+
+  it('tabulates transfers over times of flight', () => {
+    const times = defaultTimesOfFlight(agent);
+    const period = 2 * Math.PI * Math.sqrt((7000e3) ** 3 / EARTH_MU);
+    expect(times).toHaveLength(8);
+    expect(times[0]).toBeCloseTo(period / 4, 0);
+    expect(times[7]).toBeCloseTo(2 * period, 0);
+
+    const rows = transferTable(agent, { position: [-2000e3, 6000e3, 3000e3] }, times, { maxRevolutions: 1 });
+    expect(rows.map((row) => row.timeOfFlight)).toEqual(times);
+    expect(rows.every((row) => row.plan !== null)).toBe(true);
+  });
+});
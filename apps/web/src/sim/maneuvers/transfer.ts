@@ -0,0 +1,189 @@
+/**
+ * Two-point transfer planner: the departure and arrival burns that take an
+ * agent to a destination (an objective, a formation slot) in a given time of
+ * flight, from Lambert solutions of the two-body problem.
+ *
+ * Destinations with a velocity (formation slots) coast on their own two-body
+ * orbit during the transfer and the arrival burn matches their velocity;
+ * destinations without one are fixed points in the ECI frame (objectives are
+ * stationary), so the arrival burn brings the agent to rest.
+ */
+
+import { CartesianState } from '@/sim/orbit/types';
+import { EARTH_MU } from '@/sim/orbit/constants';
+import { propagateUniversal } from '@/sim/orbit/universal';
+import { subtract, magnitude } from '@/sim/orbit/vector';
+import { solveLambert, LambertBranch } from './lambert';
+import { eciToRtn } from './rtnToEci';
+
+/**
+ * Destination of a transfer.
+ */
+export interface TransferTarget {
+  /** Position at departure (ECI, meters) */
+  position: [number, number, number];
+  /** Velocity at departure (ECI, m/s); omitted for fixed points */
+  velocity?: [number, number, number];
+}
+
+/**
+ * Options of the transfer planner.
+ */
+export interface TransferOptions {
+  /** Most complete revolutions considered (defaults to 0) */
+  maxRevolutions?: number;
+  /** Match the destination's velocity on arrival (defaults to true); otherwise the agent flies through it */
+  rendezvous?: boolean;
+}
+
+/**
+ * A planned transfer.
+ */
+export interface TransferPlan {
+  /** Time of flight in seconds */
+  timeOfFlight: number;
+  /** Complete revolutions before arrival */
+  revolutions: number;
+  /** Lambert solution branch */
+  branch: LambertBranch;
+  /** Departure burn (ECI, m/s) */
+  departureBurn: [number, number, number];
+  /** Departure burn in the agent's RTN frame [radial, along-track, normal] (m/s) */
+  departureBurnRtn: [number, number, number];
+  /** Arrival burn (ECI, m/s; zero without rendezvous) */
+  arrivalBurn: [number, number, number];
+  /** Arrival burn in the RTN frame of the arriving transfer orbit (m/s) */
+  arrivalBurnRtn: [number, number, number];
+  /** Departure burn magnitude in m/s */
+  departureDeltaV: number;
+  /** Arrival burn magnitude in m/s */
+  arrivalDeltaV: number;
+  /** Total delta-v in m/s */
+  totalDeltaV: number;
+  /** Agent state just after the departure burn (start of the transfer arc) */
+  transferState: CartesianState;
+}
+
+/**
+ * One row of a transfer table.
+ */
+export interface TransferTableRow {
+  /** Time of flight in seconds */
+  timeOfFlight: number;
+  /** Cheapest transfer, or null if none exists (or the geometry is degenerate) */
+  plan: TransferPlan | null;
+}
+
+/**
+ * State of a destination at the end of a transfer.
+ * @param target Destination at departure
+ * @param timeOfFlight Time of flight in seconds
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Destination state on arrival (fixed points have zero velocity)
+ */
+export function targetAtArrival(target: TransferTarget, timeOfFlight: number, mu: number = EARTH_MU): CartesianState {
+  if (!target.velocity) {
+    return { position: target.position, velocity: [0, 0, 0] };
+  }
+  return propagateUniversal({ position: target.position, velocity: target.velocity }, timeOfFlight, mu);
+}
+
+/**
+ * Plan the cheapest transfer to a destination in a time of flight, over the
+ * single-revolution solution and both branches of each multi-revolution one.
+ * The transfer moves in the same sense as the agent's current orbit.
+ *
+ * @param state Agent state at departure
+ * @param target Destination at departure
+ * @param timeOfFlight Time of flight in seconds
+ * @param options Revolutions considered and whether to rendezvous
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Transfer with the least total delta-v, or null if none exists
+ * @throws Error if the time of flight is not positive or the destination is 180° from the agent
+ */
+export function planTransfer(
+  state: CartesianState,
+  target: TransferTarget,
+  timeOfFlight: number,
+  options: TransferOptions = {},
+  mu: number = EARTH_MU
+): TransferPlan | null {
+  const maxRevolutions = options.maxRevolutions ?? 0;
+  const rendezvous = options.rendezvous ?? true;
+  const arrival = targetAtArrival(target, timeOfFlight, mu);
+
+  const [x, y, z] = state.position;
+  const [vx, vy, vz] = state.velocity;
+  const normal: [number, number, number] = [y * vz - z * vy, z * vx - x * vz, x * vy - y * vx];
+
+  let best: TransferPlan | null = null;
+  for (let revolutions = 0; revolutions <= maxRevolutions; revolutions++) {
+    for (const solution of solveLambert(state.position, arrival.position, timeOfFlight, mu, { revolutions, normal })) {
+      const departureBurn = subtract(solution.v1, state.velocity);
+      const arrivalBurn: [number, number, number] = rendezvous ? subtract(arrival.velocity, solution.v2) : [0, 0, 0];
+      const departureDeltaV = magnitude(departureBurn);
+      const arrivalDeltaV = magnitude(arrivalBurn);
+      if (best && departureDeltaV + arrivalDeltaV >= best.totalDeltaV) continue;
+
+      best = {
+        timeOfFlight,
+        revolutions,
+        branch: solution.branch,
+        departureBurn,
+        departureBurnRtn: eciToRtn(departureBurn, state),
+        arrivalBurn,
+        arrivalBurnRtn: eciToRtn(arrivalBurn, { position: arrival.position, velocity: solution.v2 }),
+        departureDeltaV,
+        arrivalDeltaV,
+        totalDeltaV: departureDeltaV + arrivalDeltaV,
+        transferState: { position: state.position, velocity: solution.v1 },
+      };
+    }
+  }
+  return best;
+}
+
+/**
+ * Cheapest transfer for each of several times of flight (a porkchop plot
+ * for a departure now).
+ *
+ * @param state Agent state at departure
+ * @param target Destination at departure
+ * @param timesOfFlight Times of flight in seconds
+ * @param options Revolutions considered and whether to rendezvous
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns One row per time of flight
+ */
+export function transferTable(
+  state: CartesianState,
+  target: TransferTarget,
+  timesOfFlight: number[],
+  options: TransferOptions = {},
+  mu: number = EARTH_MU
+): TransferTableRow[] {
+  return timesOfFlight.map((timeOfFlight) => {
+    try {
+      return { timeOfFlight, plan: planTransfer(state, target, timeOfFlight, options, mu) };
+    } catch {
+      // Destinations 180° away have no unique transfer plane at this time of flight
+      return { timeOfFlight, plan: null };
+    }
+  });
+}
+
+/**
+ * Times of flight spanning a quarter to two of the agent's orbital periods.
+ * @param state Agent state
+ * @param count Number of times (defaults to 8)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Evenly spaced times of flight in seconds (30 minutes to 4 hours for escape orbits)
+ */
+export function defaultTimesOfFlight(state: CartesianState, count = 8, mu: number = EARTH_MU): number[] {
+  const r = magnitude(state.position);
+  const v = magnitude(state.velocity);
+  const a = 1 / (2 / r - (v * v) / mu);
+  const period = a > 0 ? 2 * Math.PI * Math.sqrt((a * a * a) / mu) : 7200;
+  const first = period / 4;
+  const last = 2 * period;
+  return Array.from({ length: count }, (_, index) => first + ((last - first) * index) / Math.max(1, count - 1));
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { atmosphericDensity, altitudeOf, ATMOSPHERE_MAX_ALTITUDE } from './atmosphere';
+import { dragForce, DEFAULT_BALLISTIC_COEFFICIENT } from './forces';
+import { propagateNumerical } from './numerical';
+import { hasReentered, findReentries, DEFAULT_REENTRY_ALTITUDE } from './decay';
+import { cartesianToElements } from './conversions';
+import { CartesianState } from './types';
+import { EARTH_RADIUS, EARTH_MU } from './constants';
+
+/**
+ * Circular equatorial orbit at the given altitude.
+ */
+function circularState(altitude: number): CartesianState {
+  const r = EARTH_RADIUS + altitude;
+  return { position: [r, 0, 0], velocity: [0, Math.sqrt(EARTH_MU / r), 0] };
+}
+
+describe('atmosphere', () => {
+  describe('atmosphericDensity', () => {
+    it('matches the tabulated density at band boundaries', () => {
+      expect(atmosphericDensity(0)).toBeCloseTo(1.225, 6);
+      expect(atmosphericDensity(400e3)).toBeCloseTo(3.725e-12, 16);
+    });
+
+    it('decreases monotonically with altitude', () => {
+      let previous = Infinity;
+      for (let h = 0; h <= ATMOSPHERE_MAX_ALTITUDE; h += 5e3) {
+        const density = atmosphericDensity(h);
+        expect(density).toBeLessThan(previous);
+        previous = density;
+      }
+    });
+
+    it('is zero above the top of the table', () => {
+      expect(atmosphericDensity(ATMOSPHERE_MAX_ALTITUDE + 1)).toBe(0);
+    });
+  });
+
+  describe('drag force', () => {
+    it('opposes the velocity relative to the rotating atmosphere', () => {
+      const state = circularState(300e3);
+      const [ax, ay, az] = dragForce.acceleration(state, { time: 0 });
+
+      expect(ay).toBeLessThan(0);
+      expect(Math.abs(ax)).toBeLessThan(Math.abs(ay) * 1e-9);
+      expect(az).toBeCloseTo(0, 12);
+    });
+
+    it('scales inversely with the ballistic coefficient', () => {
+      const state = circularState(300e3);
+      const [, ayDefault] = dragForce.acceleration(state, { time: 0 });
+      const [, ayHeavy] = dragForce.acceleration(state, {
+        time: 0,
+        ballisticCoefficient: 2 * DEFAULT_BALLISTIC_COEFFICIENT,
+      });
+
+      expect(ayHeavy).toBeCloseTo(ayDefault / 2, 15);
+    });
+
+    it('lowers the semi-major axis of a low orbit', () => {
+      const state = circularState(250e3);
+      const period = 2 * Math.PI * Math.sqrt((EARTH_RADIUS + 250e3) ** 3 / EARTH_MU);
+
+      const dragged = propagateNumerical(state, period, { forces: ['central_gravity', 'drag'] });
+      const vacuum = propagateNumerical(state, period);
+
+      const decay = cartesianToElements(vacuum).a - cartesianToElements(dragged).a;
+      expect(decay).toBeGreaterThan(10);
+      expect(decay).toBeLessThan(1000);
+    });
+
+    it('has no effect above the atmosphere', () => {
+      const state = circularState(2000e3);
+      expect(dragForce.acceleration(state, { time: 0 })).toEqual([0, 0, 0]);
+    });
+  });
+
+  describe('re-entry', () => {
+    it('computes altitude above the Earth surface', () => {
+      expect(altitudeOf(circularState(400e3))).toBeCloseTo(400e3, 6);
+    });
+
+    it('detects states below the re-entry altitude', () => {
+      expect(hasReentered(circularState(DEFAULT_REENTRY_ALTITUDE - 1))).toBe(true);
+      expect(hasReentered(circularState(DEFAULT_REENTRY_ALTITUDE + 1))).toBe(false);
+      expect(hasReentered(circularState(150e3), 200e3)).toBe(true);
+    });
+
+    it('finds the indices of re-entered states', () => {
+      const states = [circularState(400e3), circularState(90e3), circularState(300e3), circularState(10e3)];
+      expect(findReentries(states)).toEqual([1, 3]);
+    });
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Atmospheric density model for drag.
+ * Piecewise-exponential static atmosphere: within each altitude band the
+ * density decays as ρ = ρ₀ · exp(-(h - h₀) / H). Band values are from
+ * Vallado, "Fundamentals of Astrodynamics and Applications", Table 8-4
+ * (CIRA-72 based). Above the last band the density is treated as zero.
+ */
+
+import { CartesianState } from './types';
+import { EARTH_RADIUS } from './constants';
+
+/**
+ * One band of the piecewise-exponential atmosphere.
+ */
+interface AtmosphereBand {
+  /** Base altitude of the band in meters */
+  baseAltitude: number;
+  /** Density at the base altitude in kg/m³ */
+  baseDensity: number;
+  /** Scale height in meters */
+  scaleHeight: number;
+}
+
+/**
+ * Highest altitude covered by the density table in meters.
+ */
+export const ATMOSPHERE_MAX_ALTITUDE = 1000e3;
+
+// [base altitude (km), base density (kg/m³), scale height (km)]
+const BAND_TABLE: [number, number, number][] = [
+  [0, 1.225, 7.249],
+  [25, 3.899e-2, 6.349],
+  [30, 1.774e-2, 6.682],
+  [40, 3.972e-3, 7.554],
+  [50, 1.057e-3, 8.382],
+  [60, 3.206e-4, 7.714],
+  [70, 8.77e-5, 6.549],
+  [80, 1.905e-5, 5.799],
+  [90, 3.396e-6, 5.382],
+  [100, 5.297e-7, 5.877],
+  [110, 9.661e-8, 7.263],
+  [120, 2.438e-8, 9.473],
+  [130, 8.484e-9, 12.636],
+  [140, 3.845e-9, 16.149],
+  [150, 2.07e-9, 22.523],
+  [180, 5.464e-10, 29.74],
+  [200, 2.789e-10, 37.105],
+  [250, 7.248e-11, 45.546],
+  [300, 2.418e-11, 53.628],
+  [350, 9.518e-12, 53.298],
+  [400, 3.725e-12, 58.515],
+  [450, 1.585e-12, 60.828],
+  [500, 6.967e-13, 63.822],
+  [600, 1.454e-13, 71.835],
+  [700, 3.614e-14, 88.667],
+  [800, 1.17e-14, 124.64],
+  [900, 5.245e-15, 181.05],
+  [1000, 3.019e-15, 268.0],
+];
+
+const BANDS: AtmosphereBand[] = BAND_TABLE.map(([h0, rho0, H]) => ({
+  baseAltitude: h0 * 1e3,
+  baseDensity: rho0,
+  scaleHeight: H * 1e3,
+}));
+
+/**
+ * Atmospheric density at a given geometric altitude.
+ * Altitudes below zero use the sea-level band.
+ *
+ * @param altitude Altitude above the Earth's surface in meters
+ * @returns Density in kg/m³ (0 above ATMOSPHERE_MAX_ALTITUDE)
+ */
+export function atmosphericDensity(altitude: number): number {
+  if (altitude > ATMOSPHERE_MAX_ALTITUDE) {
+    return 0;
+  }
+
+  // Find the highest band whose base lies at or below the altitude
+  let band = BANDS[0]!;
+  for (const candidate of BANDS) {
+    if (candidate.baseAltitude > altitude) break;
+    band = candidate;
+  }
+
+  return band.baseDensity * Math.exp(-(altitude - band.baseAltitude) / band.scaleHeight);
+}
+
+/**
+ * Altitude of a state above the (spherical) surface of the central body.
+ * @param state Cartesian state in ECI frame
+ * @param radius Central body radius in meters (defaults to the Earth's)
+ * @returns Altitude in meters
+ */
+export function altitudeOf(state: CartesianState, radius: number = EARTH_RADIUS): number {
+  const [x, y, z] = state.position;
+  return Math.sqrt(x * x + y * y + z * z) - radius;
+}
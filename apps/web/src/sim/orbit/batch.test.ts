@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import {
+  createStateBuffer,
+  packStates,
+  unpackStates,
+  readState,
+  propagateKeplerBuffer,
+} from './batch';
+import { propagateKepler } from './propagator';
+import { propagateUniversal } from './universal';
+import { elementsToCartesian } from './conversions';
+import { CartesianState } from './types';
+import { distance } from './vector';
+
+describe('batch state buffers', () => {
+  const states: CartesianState[] = [
+    elementsToCartesian({ a: 7000e3, e: 0, i: 0.5, Ω: 0, ω: 0, ν: 0 }),
+    elementsToCartesian({ a: 12000e3, e: 0.4, i: 1.2, Ω: 2, ω: 1, ν: 3 }),
+    elementsToCartesian({ a: 42164e3, e: 0.01, i: 0, Ω: 0, ω: 0, ν: 5 }),
+  ];
+
+  it('round-trips states through a buffer', () => {
+    const buffer = packStates(states);
+
+    expect(buffer.count).toBe(3);
+    expect(unpackStates(buffer)).toEqual(states);
+    expect(readState(buffer, 1)).toEqual(states[1]);
+  });
+
+  it('reuses a buffer that is large enough', () => {
+    const buffer = createStateBuffer(10);
+    const packed = packStates(states, buffer);
+
+    expect(packed).toBe(buffer);
+    expect(packed.count).toBe(3);
+  });
+
+  it('matches per-state Kepler propagation', () => {
+    const buffer = packStates(states);
+    propagateKeplerBuffer(buffer, 1234.5);
+
+    states.forEach((state, index) => {
+      const expected = propagateKepler(state, 1234.5);
+      const actual = readState(buffer, index);
+      expect(distance(actual.position, expected.position)).toBeLessThan(1e-3);
+      expect(distance(actual.velocity, expected.velocity)).toBeLessThan(1e-6);
+    });
+  });
+
+  it('matches the universal-variable propagator bit for bit', () => {
+    const escape: CartesianState = { position: [7000e3, 0, 0], velocity: [0, 12000, 1000] };
+    const buffer = packStates([...states, escape]);
+    propagateKeplerBuffer(buffer, 600);
+
+    [...states, escape].forEach((state, index) => {
+      expect(readState(buffer, index)).toEqual(propagateUniversal(state, 600));
+    });
+  });
+
+  it('leaves states unchanged for a zero time step', () => {
+    const buffer = packStates(states);
+    propagateKeplerBuffer(buffer, 0);
+
+    expect(unpackStates(buffer)).toEqual(states);
+  });
+});
@@ -0,0 +1,150 @@
+/**
+ * Structure-of-arrays batch propagation.
+ * States are stored in contiguous Float64Array buffers (x0, y0, z0, x1, ...)
+ * and propagated in place with the universal-variable two-body solver, so a
+ * simulation step allocates nothing per agent. Suited to large swarms where
+ * propagateKeplerBatch's per-agent objects and tuples dominate frame time.
+ */
+
+import { CartesianState } from './types';
+import { EARTH_MU } from './constants';
+import { stumpffC, stumpffS, solveUniversalAnomaly } from './universal';
+
+/**
+ * Contiguous position/velocity storage for a batch of states.
+ * Agent k occupies indices 3k, 3k+1, 3k+2 of both arrays.
+ */
+export interface StateBuffer {
+  /** Positions [x, y, z] per agent in meters (ECI frame) */
+  positions: Float64Array;
+  /** Velocities [vx, vy, vz] per agent in m/s (ECI frame) */
+  velocities: Float64Array;
+  /** Number of agents stored */
+  count: number;
+}
+
+/**
+ * Allocate a zeroed state buffer.
+ * @param count Number of agents
+ * @returns State buffer with room for count agents
+ */
+export function createStateBuffer(count: number): StateBuffer {
+  return {
+    positions: new Float64Array(count * 3),
+    velocities: new Float64Array(count * 3),
+    count,
+  };
+}
+
+/**
+ * Copy Cartesian states into a state buffer.
+ * @param states Array of Cartesian states
+ * @param buffer Buffer to write into (allocated if omitted or too small)
+ * @returns The buffer holding the states
+ */
+export function packStates(states: CartesianState[], buffer?: StateBuffer): StateBuffer {
+  const target =
+    buffer && buffer.positions.length >= states.length * 3 ? buffer : createStateBuffer(states.length);
+  target.count = states.length;
+
+  states.forEach((state, k) => {
+    const o = k * 3;
+    target.positions[o] = state.position[0];
+    target.positions[o + 1] = state.position[1];
+    target.positions[o + 2] = state.position[2];
+    target.velocities[o] = state.velocity[0];
+    target.velocities[o + 1] = state.velocity[1];
+    target.velocities[o + 2] = state.velocity[2];
+  });
+
+  return target;
+}
+
+/**
+ * Read one agent's state out of a buffer.
+ * @param buffer State buffer
+ * @param index Agent index
+ * @returns Cartesian state of the agent
+ */
+export function readState(buffer: StateBuffer, index: number): CartesianState {
+  const o = index * 3;
+  const p = buffer.positions;
+  const v = buffer.velocities;
+  return {
+    position: [p[o]!, p[o + 1]!, p[o + 2]!],
+    velocity: [v[o]!, v[o + 1]!, v[o + 2]!],
+  };
+}
+
+/**
+ * Copy every state out of a buffer.
+ * @param buffer State buffer
+ * @returns Array of Cartesian states
+ */
+export function unpackStates(buffer: StateBuffer): CartesianState[] {
+  const states: CartesianState[] = [];
+  for (let k = 0; k < buffer.count; k++) {
+    states.push(readState(buffer, k));
+  }
+  return states;
+}
+
+/**
+ * Propagate every state in a buffer in place (two-body motion).
+ * Uses the universal-variable formulation, so elliptic, parabolic and
+ * hyperbolic states are all supported. Performs no allocation.
+ *
+ * @param buffer State buffer (modified in place)
+ * @param deltaTime Time step in seconds (may be negative)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ */
+export function propagateKeplerBuffer(
+  buffer: StateBuffer,
+  deltaTime: number,
+  mu: number = EARTH_MU
+): void {
+  if (deltaTime === 0) return;
+
+  const p = buffer.positions;
+  const v = buffer.velocities;
+  const sqrtMu = Math.sqrt(mu);
+
+  for (let k = 0; k < buffer.count; k++) {
+    const o = k * 3;
+    const x = p[o]!;
+    const y = p[o + 1]!;
+    const z = p[o + 2]!;
+    const vx = v[o]!;
+    const vy = v[o + 1]!;
+    const vz = v[o + 2]!;
+
+    const r0 = Math.sqrt(x * x + y * y + z * z);
+    const vr0 = (x * vx + y * vy + z * vz) / r0;
+    const alpha = 2 / r0 - (vx * vx + vy * vy + vz * vz) / mu;
+
+    const χ = solveUniversalAnomaly(r0, vr0, alpha, deltaTime, mu);
+    const χ2 = χ * χ;
+    const zχ = alpha * χ2;
+    const C = stumpffC(zχ);
+    const S = stumpffS(zχ);
+
+    // Lagrange coefficients
+    const f = 1 - (χ2 / r0) * C;
+    const g = deltaTime - ((χ2 * χ) / sqrtMu) * S;
+
+    const nx = f * x + g * vx;
+    const ny = f * y + g * vy;
+    const nz = f * z + g * vz;
+    const r = Math.sqrt(nx * nx + ny * ny + nz * nz);
+
+    const fDot = (sqrtMu / (r * r0)) * (zχ * S - 1) * χ;
+    const gDot = 1 - (χ2 / r) * C;
+
+    p[o] = nx;
+    p[o + 1] = ny;
+    p[o + 2] = nz;
+    v[o] = fDot * x + gDot * vx;
+    v[o + 1] = fDot * y + gDot * vy;
+    v[o + 2] = fDot * z + gDot * vz;
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { resolveCentralBody, MOON_BODY, MARS_BODY } from './centralBody';
+import { elementsToCartesian, cartesianToElements } from './conversions';
+import { propagateKepler, propagateJ2, computeJ2SecularRates } from './propagator';
+import { propagateNumerical } from './numerical';
+import { altitudeOf } from './atmosphere';
+import { hasReentered } from './decay';
+import { MOON_RADIUS, MOON_MU, MARS_EQUATORIAL_RADIUS } from './constants';
+import { OrbitalElements } from './types';
+
+describe('central body', () => {
+  it('resolves presets with an optional radius and μ', () => {
+    expect(resolveCentralBody()).toMatchObject({ name: 'earth' });
+    expect(resolveCentralBody('moon')).toEqual(MOON_BODY);
+
+    const custom = resolveCentralBody('mars', 3.4e6, 4.3e13);
+    expect(custom.radius).toBe(3.4e6);
+    expect(custom.mu).toBe(4.3e13);
+    expect(custom.equatorialRadius).toBe(MARS_EQUATORIAL_RADIUS);
+    expect(custom.j2).toBe(MARS_BODY.j2);
+  });
+
+  it('round-trips elements with the body μ', () => {
+    const elements: OrbitalElements = { a: 1837400, e: 0.05, i: 1.2, Ω: 0.4, ω: 0.8, ν: 2.0 };
+    const state = elementsToCartesian(elements, MOON_MU);
+    const back = cartesianToElements(state, MOON_MU);
+
+    expect(Math.hypot(...state.velocity)).toBeLessThan(2000); // lunar orbital speeds, not LEO
+    expect(back.a).toBeCloseTo(elements.a, 0);
+    expect(back.e).toBeCloseTo(elements.e, 9);
+    expect(back.ν).toBeCloseTo(elements.ν!, 9);
+  });
+
+  it('closes a lunar orbit after one period', () => {
+    const a = MOON_RADIUS + 100e3;
+    const state = elementsToCartesian({ a, e: 0, i: 0, Ω: 0, ω: 0, ν: 0 }, MOON_MU);
+    const period = 2 * Math.PI * Math.sqrt(a ** 3 / MOON_MU);
+
+    for (const after of [propagateKepler(state, period, MOON_MU), propagateNumerical(state, period, { centralBody: MOON_BODY })]) {
+      for (let axis = 0; axis < 3; axis++) {
+        expect(after.position[axis]).toBeCloseTo(state.position[axis]!, -1);
+      }
+    }
+  });
+
+  it('uses the body J2 for secular rates', () => {
+    // Low Mars orbit: Mars' J2 is about 1.8 times the Earth's
+    const elements: OrbitalElements = { a: 3789500, e: 0, i: 0.6, Ω: 0, ω: 0, ν: 0 };
+    const n = Math.sqrt(MARS_BODY.mu / elements.a ** 3);
+    const expected = -1.5 * n * MARS_BODY.j2 * (MARS_EQUATORIAL_RADIUS / elements.a) ** 2 * Math.cos(elements.i);
+
+    expect(computeJ2SecularRates(elements, MARS_BODY).raanRate).toBeCloseTo(expected, 12);
+
+    const state = elementsToCartesian(elements, MARS_BODY.mu);
+    const day = propagateJ2(state, 86400, MARS_BODY);
+    expect(cartesianToElements(day, MARS_BODY.mu).Ω).toBeCloseTo((expected * 86400 + 2 * Math.PI) % (2 * Math.PI), 6);
+  });
+
+  it('refuses Earth-only force models around other bodies', () => {
+    const state = elementsToCartesian({ a: MOON_RADIUS + 100e3, e: 0, i: 0, Ω: 0, ω: 0, ν: 0 }, MOON_MU);
+
+    expect(() => propagateNumerical(state, 60, { forces: ['central_gravity', 'drag'], centralBody: MOON_BODY }))
+      .toThrow('only available around the Earth');
+  });
+
+  it('measures altitude and re-entry from the body surface', () => {
+    const state = { position: [MOON_RADIUS + 50e3, 0, 0] as [number, number, number], velocity: [0, 1600, 0] as [number, number, number] };
+
+    expect(altitudeOf(state, MOON_RADIUS)).toBeCloseTo(50e3, 6);
+    expect(hasReentered(state, 0, MOON_RADIUS)).toBe(false);
+    expect(hasReentered(state, 120e3, MOON_RADIUS)).toBe(true);
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Central bodies: the body an orbit is propagated around.
+ * Scenarios orbit the Earth by default; the Moon and Mars presets swap in
+ * their own gravitational parameter, radius, oblateness and rotation.
+ * Models tied to the Earth (the atmosphere, the geocentric Sun and Moon
+ * ephemerides, SGP4) are only available around the Earth.
+ */
+
+import {
+  EARTH_MU,
+  EARTH_RADIUS,
+  EARTH_EQUATORIAL_RADIUS,
+  EARTH_J2,
+  EARTH_ROTATION_RATE,
+  MOON_MU,
+  MOON_RADIUS,
+  MOON_J2,
+  MOON_ROTATION_RATE,
+  MARS_MU,
+  MARS_RADIUS,
+  MARS_EQUATORIAL_RADIUS,
+  MARS_J2,
+  MARS_ROTATION_RATE,
+} from './constants';
+
+/**
+ * Names of the built-in central bodies.
+ */
+export type CentralBodyName = 'earth' | 'moon' | 'mars';
+
+/**
+ * Physical parameters of a central body.
+ */
+export interface CentralBody {
+  /** Preset the body is based on */
+  name: CentralBodyName;
+  /** Gravitational parameter μ = GM in m³/s² */
+  mu: number;
+  /** Mean radius in meters (altitudes, re-entry and the scene unit) */
+  radius: number;
+  /** Equatorial radius in meters (J2 reference radius) */
+  equatorialRadius: number;
+  /** Second zonal harmonic coefficient (dimensionless) */
+  j2: number;
+  /** Rotation rate relative to inertial space in rad/s */
+  rotationRate: number;
+}
+
+/**
+ * The Earth (WGS84 / EGM96).
+ */
+export const EARTH_BODY: CentralBody = {
+  name: 'earth',
+  mu: EARTH_MU,
+  radius: EARTH_RADIUS,
+  equatorialRadius: EARTH_EQUATORIAL_RADIUS,
+  j2: EARTH_J2,
+  rotationRate: EARTH_ROTATION_RATE,
+};
+
+/**
+ * The Moon.
+ */
+export const MOON_BODY: CentralBody = {
+  name: 'moon',
+  mu: MOON_MU,
+  radius: MOON_RADIUS,
+  equatorialRadius: MOON_RADIUS,
+  j2: MOON_J2,
+  rotationRate: MOON_ROTATION_RATE,
+};
+
+/**
+ * Mars.
+ */
+export const MARS_BODY: CentralBody = {
+  name: 'mars',
+  mu: MARS_MU,
+  radius: MARS_RADIUS,
+  equatorialRadius: MARS_EQUATORIAL_RADIUS,
+  j2: MARS_J2,
+  rotationRate: MARS_ROTATION_RATE,
+};
+
+/**
+ * Built-in central bodies by name.
+ */
+export const CENTRAL_BODIES: Record<CentralBodyName, CentralBody> = {
+  earth: EARTH_BODY,
+  moon: MOON_BODY,
+  mars: MARS_BODY,
+};
+
+/**
+ * Central body from a preset with an optional radius and μ in place of the preset's.
+ * The J2 reference radius stays the preset's.
+ * @param name Preset name (defaults to 'earth')
+ * @param radius Mean radius in meters (defaults to the preset's)
+ * @param mu Gravitational parameter in m³/s² (defaults to the preset's)
+ * @returns Central body parameters
+ */
+export function resolveCentralBody(name: CentralBodyName = 'earth', radius?: number, mu?: number): CentralBody {
+  const preset = CENTRAL_BODIES[name];
+  return { ...preset, radius: radius ?? preset.radius, mu: mu ?? preset.mu };
+}
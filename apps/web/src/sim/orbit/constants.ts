@@ -1,5 +1,6 @@
 /**
- * Earth physical constants for orbital mechanics calculations.
+ * Physical constants for orbital mechanics calculations: the Earth, plus the
+ * Sun, Moon and Mars as third bodies and alternative central bodies.
  * All values in SI units (meters, seconds, m³/s²).
  */
 
@@ -22,3 +23,115 @@ export const EARTH_MU = 3.986004418e14; // m³/s²
  */
 export const EARTH_G = 9.80665; // m/s²
 
+
+/**
+ * Earth's equatorial radius in meters.
+ * Used as the reference radius for the J2 zonal harmonic.
+ * Source: WGS84 ellipsoid semi-major axis
+ */
+export const EARTH_EQUATORIAL_RADIUS = 6.378137e6; // meters
+
+/**
+ * Flattening of the WGS84 ellipsoid, (a - b) / a.
+ * Dimensionless.
+ * Source: WGS84 defining parameter
+ */
+export const WGS84_FLATTENING = 1 / 298.257223563;
+
+/**
+ * Earth's second zonal harmonic coefficient (oblateness).
+ * Dimensionless.
+ * Source: EGM96 (unnormalized)
+ */
+export const EARTH_J2 = 1.08262668e-3;
+
+/**
+ * Earth's rotation rate relative to inertial space.
+ * Units: rad/s
+ * Source: WGS84 value
+ */
+export const EARTH_ROTATION_RATE = 7.292115e-5; // rad/s
+
+/**
+ * Astronomical unit (mean Earth-Sun distance) in meters.
+ * Source: IAU 2012 Resolution B2
+ */
+export const ASTRONOMICAL_UNIT = 1.495978707e11; // meters
+
+/**
+ * Sun's equatorial radius in meters.
+ * Source: IAU 2015 Resolution B3 nominal value
+ */
+export const SUN_RADIUS = 6.957e8; // meters
+
+/**
+ * Moon's standard gravitational parameter (μ = GM).
+ * Units: m³/s²
+ * Source: DE430
+ */
+export const MOON_MU = 4.9028e12; // m³/s²
+
+/**
+ * Moon's mean radius in meters.
+ * Source: IAU Working Group on Cartographic Coordinates
+ */
+export const MOON_RADIUS = 1.7374e6; // meters
+
+/**
+ * Moon's second zonal harmonic coefficient.
+ * Dimensionless.
+ * Source: Lunar Prospector LP165P gravity model (unnormalized)
+ */
+export const MOON_J2 = 2.033e-4;
+
+/**
+ * Moon's rotation rate relative to inertial space (one turn per sidereal month).
+ * Units: rad/s
+ */
+export const MOON_ROTATION_RATE = 2.6617e-6; // rad/s
+
+/**
+ * Sun's standard gravitational parameter (μ = GM).
+ * Units: m³/s²
+ * Source: DE430
+ */
+export const SUN_MU = 1.32712440018e20; // m³/s²
+
+/**
+ * Solar radiation pressure on an absorbing surface at 1 AU (solar flux / speed of light).
+ * Units: N/m²
+ * Source: Montenbruck & Gill, Satellite Orbits (2000), Section 3.4
+ */
+export const SOLAR_RADIATION_PRESSURE = 4.56e-6; // N/m²
+
+/**
+ * Mars' standard gravitational parameter (μ = GM).
+ * Units: m³/s²
+ * Source: DE440
+ */
+export const MARS_MU = 4.282837e13; // m³/s²
+
+/**
+ * Mars' mean radius in meters.
+ * Source: IAU Working Group on Cartographic Coordinates
+ */
+export const MARS_RADIUS = 3.3895e6; // meters
+
+/**
+ * Mars' equatorial radius in meters (J2 reference radius).
+ * Source: IAU Working Group on Cartographic Coordinates
+ */
+export const MARS_EQUATORIAL_RADIUS = 3.3962e6; // meters
+
+/**
+ * Mars' second zonal harmonic coefficient.
+ * Dimensionless.
+ * Source: Vallado, Fundamentals of Astrodynamics and Applications (4th ed.), Table D-3
+ */
+export const MARS_J2 = 1.96045e-3;
+
+/**
+ * Mars' rotation rate relative to inertial space (sidereal day of 24.6229 h).
+ * Units: rad/s
+ */
+export const MARS_ROTATION_RATE = 7.088218e-5; // rad/s
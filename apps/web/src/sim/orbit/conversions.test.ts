@@ -1,7 +1,20 @@
 import { describe, it, expect } from 'vitest';
-import { elementsToCartesian, cartesianToElements } from './conversions';
-import { OrbitalElements, CartesianState } from './types';
-import { EARTH_RADIUS, EARTH_MU } from './constants';
+import {
+  elementsToCartesian,
+  cartesianToElements,
+  cartesianToEquinoctial,
+  equinoctialToCartesian,
+  elementsToEquinoctial,
+  equinoctialToElements,
+  eciToEcef,
+  ecefToEci,
+  ecefToGeodetic,
+  geodeticToEcef,
+} from './conversions';
+import { OrbitalElements, CartesianState, EquinoctialElements } from './types';
+import { EARTH_RADIUS, EARTH_MU, EARTH_EQUATORIAL_RADIUS } from './constants';
+
+const DEG = Math.PI / 180;
 
 describe('conversions', () => {
   describe('elementsToCartesian', () => {
@@ -189,6 +202,24 @@ describe('conversions', () => {
       expect(converted.i).toBeCloseTo(original.i, 0.01);
     });
 
+    it('recovers the true anomaly on both halves of an eccentric orbit', () => {
+      for (const ν of [1.0, 2.5, 4.0, 5.5]) {
+        const original: OrbitalElements = {
+          a: 8000e3,
+          e: 0.1,
+          i: Math.PI / 6,
+          Ω: Math.PI / 4,
+          ω: Math.PI / 3,
+          ν,
+        };
+
+        const converted = cartesianToElements(elementsToCartesian(original));
+
+        expect(converted.ν).toBeCloseTo(ν, 8);
+        expect(converted.ω).toBeCloseTo(original.ω, 8);
+      }
+    });
+
     it('round-trips with mean anomaly', () => {
       const original: OrbitalElements = {
         a: 8000e3,
@@ -242,6 +273,18 @@ describe('conversions', () => {
       expect(converted.i).toBeCloseTo(0, 0.01);
     });
 
+    it('keeps the periapsis of eccentric equatorial orbits', () => {
+      for (const i of [0, Math.PI]) {
+        const state = elementsToCartesian({ a: 7000e3, e: 0.1, i, Ω: 0, ω: Math.PI / 4, ν: Math.PI / 2 });
+        const roundTrip = elementsToCartesian(cartesianToElements(state));
+
+        for (let axis = 0; axis < 3; axis++) {
+          expect(roundTrip.position[axis]).toBeCloseTo(state.position[axis]!, 3);
+          expect(roundTrip.velocity[axis]).toBeCloseTo(state.velocity[axis]!, 6);
+        }
+      }
+    });
+
     it('handles polar orbit (i=π/2)', () => {
       const elements: OrbitalElements = {
         a: 7000e3,
@@ -258,6 +301,39 @@ describe('conversions', () => {
       expect(converted.i).toBeCloseTo(Math.PI / 2, 0.01);
     });
 
+    it('round-trips a hyperbolic orbit', () => {
+      const original: OrbitalElements = {
+        a: -20000e3,
+        e: 1.5,
+        i: Math.PI / 4,
+        Ω: 1.0,
+        ω: 2.0,
+        ν: 0.8,
+      };
+
+      const converted = cartesianToElements(elementsToCartesian(original));
+
+      expect(converted.a).toBeCloseTo(original.a, 1);
+      expect(converted.e).toBeCloseTo(original.e, 8);
+      expect(converted.ν).toBeCloseTo(original.ν!, 8);
+    });
+
+    it('converts hyperbolic mean anomaly', () => {
+      const elements: OrbitalElements = { a: -20000e3, e: 1.5, i: 0, Ω: 0, ω: 0, M: 2.0 };
+
+      const converted = cartesianToElements(elementsToCartesian(elements));
+
+      // Hyperbolic Kepler equation: M = e·sinh(H) - H
+      const H = 2 * Math.atanh(Math.sqrt((1.5 - 1) / (1.5 + 1)) * Math.tan(converted.ν! / 2));
+      expect(1.5 * Math.sinh(H) - H).toBeCloseTo(2.0, 8);
+    });
+
+    it('rejects a true anomaly beyond the hyperbolic asymptote', () => {
+      const elements: OrbitalElements = { a: -20000e3, e: 1.5, i: 0, Ω: 0, ω: 0, ν: Math.PI };
+
+      expect(() => elementsToCartesian(elements)).toThrow('asymptote');
+    });
+
     it('handles high eccentricity orbit', () => {
       const elements: OrbitalElements = {
         a: 10000e3,
@@ -274,5 +350,136 @@ describe('conversions', () => {
       expect(converted.e).toBeCloseTo(0.9, 0.01);
     });
   });
-});
 
+  describe('modified equinoctial elements', () => {
+    function expectStatesClose(actual: CartesianState, expected: CartesianState) {
+      for (let axis = 0; axis < 3; axis++) {
+        expect(actual.position[axis]).toBeCloseTo(expected.position[axis]!, 3);
+        expect(actual.velocity[axis]).toBeCloseTo(expected.velocity[axis]!, 6);
+      }
+    }
+
+    const orbits: OrbitalElements[] = [
+      { a: 7000e3, e: 0.1, i: 51.6 * DEG, Ω: 1.0, ω: 2.0, ν: 0.5 },
+      { a: 26562e3, e: 0.74, i: 63.4 * DEG, Ω: 4.0, ω: 270 * DEG, ν: 3.0 },
+      { a: 7200e3, e: 0.01, i: 98.7 * DEG, Ω: 0.3, ω: 1.2, ν: 5.0 },
+      { a: 42164e3, e: 0.2, i: 179 * DEG, Ω: 2.0, ω: 0.7, M: 1.1 },
+      { a: -20000e3, e: 1.5, i: 30 * DEG, Ω: 1.0, ω: 2.0, ν: 0.8 },
+    ];
+
+    it('describes the same state as the classical elements', () => {
+      for (const elements of orbits) {
+        const state = elementsToCartesian(elements);
+        const equinoctial = elementsToEquinoctial(elements);
+
+        expectStatesClose(equinoctialToCartesian(equinoctial), state);
+
+        const fromState = cartesianToEquinoctial(state);
+        expect(fromState.retrograde ?? false).toBe(elements.i > Math.PI / 2);
+        expect(fromState.p).toBeCloseTo(equinoctial.p, 0);
+        expect(fromState.f).toBeCloseTo(equinoctial.f, 9);
+        expect(fromState.g).toBeCloseTo(equinoctial.g, 9);
+        expect(fromState.h).toBeCloseTo(equinoctial.h, 9);
+        expect(fromState.k).toBeCloseTo(equinoctial.k, 9);
+        expect(fromState.L).toBeCloseTo(equinoctial.L, 9);
+      }
+    });
+
+    it('round-trips through the classical elements', () => {
+      for (const elements of orbits) {
+        const state = elementsToCartesian(elements);
+        expectStatesClose(elementsToCartesian(equinoctialToElements(cartesianToEquinoctial(state))), state);
+      }
+    });
+
+    it('stays smooth through circular and equatorial orbits', () => {
+      // Circular equatorial orbits: f, g, h and k vanish and L is the angle from the x-axis
+      for (const i of [0, Math.PI]) {
+        const state = elementsToCartesian({ a: 7000e3, e: 0, i, Ω: 0, ω: 0, ν: 1.0 });
+        const equinoctial = cartesianToEquinoctial(state);
+        for (const value of [equinoctial.f, equinoctial.g, equinoctial.h, equinoctial.k]) {
+          expect(Math.abs(value)).toBeLessThan(1e-12);
+        }
+        expect(equinoctial.L).toBeCloseTo(1.0, 12);
+        expectStatesClose(equinoctialToCartesian(equinoctial), state);
+      }
+
+      // Shrinking e and i towards zero moves every element continuously
+      let previous: EquinoctialElements | null = null;
+      for (const scale of [1e-3, 1e-5, 1e-7, 1e-9, 1e-11, 0]) {
+        const state = elementsToCartesian({ a: 7000e3, e: scale, i: scale, Ω: 2.0, ω: 3.0, ν: 1.0 });
+        const current = cartesianToEquinoctial(state);
+        if (previous) {
+          expect(Math.abs(current.f - previous.f)).toBeLessThan(1e-3);
+          expect(Math.abs(current.h - previous.h)).toBeLessThan(1e-3);
+          expect(Math.abs(current.L - previous.L)).toBeLessThan(1e-3);
+        }
+        expect(current.L).toBeCloseTo(6.0, 2);
+        previous = current;
+      }
+    });
+
+    it('rejects a true longitude beyond the hyperbolic asymptote', () => {
+      const elements: EquinoctialElements = { p: 20000e3, f: -1.5, g: 0, h: 0, k: 0, L: 0 };
+
+      expect(() => equinoctialToCartesian(elements)).toThrow('asymptote');
+    });
+  });
+
+  describe('Earth-fixed frames', () => {
+    it('rotates ECI into ECEF by sidereal time', () => {
+      const gmst = 30 * DEG;
+      // A point on the ECI x-axis lies 30° west of Greenwich once Greenwich has rotated 30° east
+      const ecef = eciToEcef([7000e3, 0, 1000e3], gmst);
+
+      expect(ecef[0]).toBeCloseTo(7000e3 * Math.cos(gmst), 6);
+      expect(ecef[1]).toBeCloseTo(-7000e3 * Math.sin(gmst), 6);
+      expect(ecef[2]).toBe(1000e3);
+
+      const eci = ecefToEci(ecef, gmst);
+      expect(eci[0]).toBeCloseTo(7000e3, 6);
+      expect(eci[1]).toBeCloseTo(0, 6);
+    });
+
+    it('converts reference points to geodetic coordinates', () => {
+      const equator = ecefToGeodetic([EARTH_EQUATORIAL_RADIUS, 0, 0]);
+      expect(equator.latitude).toBeCloseTo(0, 12);
+      expect(equator.longitude).toBeCloseTo(0, 12);
+      expect(equator.altitude).toBeCloseTo(0, 6);
+
+      // WGS84 semi-minor axis b = a(1 - f)
+      const pole = ecefToGeodetic([0, 0, 6356752.314245]);
+      expect(pole.latitude).toBeCloseTo(Math.PI / 2, 12);
+      expect(pole.altitude).toBeCloseTo(0, 3);
+
+      const west = ecefToGeodetic([0, -EARTH_EQUATORIAL_RADIUS - 500e3, 0]);
+      expect(west.longitude).toBeCloseTo(-Math.PI / 2, 12);
+      expect(west.altitude).toBeCloseTo(500e3, 6);
+    });
+
+    it('matches a published geodetic conversion', () => {
+      // Vallado, Fundamentals of Astrodynamics, Example 3-3
+      const geodetic = ecefToGeodetic([6524834, 6862875, 6448296]);
+
+      expect(geodetic.latitude / DEG).toBeCloseTo(34.352496, 5);
+      expect(geodetic.longitude / DEG).toBeCloseTo(46.4464, 4);
+      expect(geodetic.altitude).toBeCloseTo(5085220, -2);
+    });
+
+    it('round-trips geodetic coordinates from the surface to deep space', () => {
+      for (const [latitude, longitude, altitude] of [
+        [45, 120, 0],
+        [-89.9, -170, 400e3],
+        [10, 179.9, 35786e3],
+        [-60, 0, -1000],
+      ] as const) {
+        const ecef = geodeticToEcef({ latitude: latitude * DEG, longitude: longitude * DEG, altitude });
+        const geodetic = ecefToGeodetic(ecef);
+
+        expect(geodetic.latitude).toBeCloseTo(latitude * DEG, 10);
+        expect(geodetic.longitude).toBeCloseTo(longitude * DEG, 10);
+        expect(geodetic.altitude).toBeCloseTo(altitude, 3);
+      }
+    });
+  });
+});
@@ -1,39 +1,40 @@
 /**
- * Conversion functions between orbital elements and Cartesian state.
- * All calculations use ECI (Earth-Centered Inertial) coordinate system:
+ * Conversion functions between orbital elements (classical and modified equinoctial),
+ * Cartesian state and Earth-fixed coordinates.
+ * Orbital calculations use ECI (Earth-Centered Inertial) coordinate system:
  * - X-axis: Vernal equinox direction
  * - Z-axis: North pole
  * - Y-axis: Completes right-handed system
+ * ECEF (Earth-Centered, Earth-Fixed) shares the Z-axis, with X through the Greenwich
+ * meridian; it is the ECI frame rotated by Greenwich sidereal time (polar motion and
+ * precession/nutation are ignored).
  */
 
-import { OrbitalElements, CartesianState } from './types';
-import { EARTH_MU } from './constants';
+import { OrbitalElements, CartesianState, EquinoctialElements, GeodeticCoordinates } from './types';
+import { EARTH_MU, EARTH_EQUATORIAL_RADIUS, WGS84_FLATTENING } from './constants';
+import { dot } from './vector';
 
 /**
  * Convert orbital elements to Cartesian state.
+ * Supports elliptical (a > 0, e < 1) and hyperbolic (a < 0, e > 1) orbits.
  * @param elements Orbital elements (must have either ν or M)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
  * @returns Cartesian state in ECI frame
+ * @throws Error if ν lies beyond the asymptotes of a hyperbolic orbit
  */
-export function elementsToCartesian(elements: OrbitalElements): CartesianState {
+export function elementsToCartesian(elements: OrbitalElements, mu: number = EARTH_MU): CartesianState {
   const { a, e, i, Ω, ω } = elements;
+  const ν = trueAnomalyOf(elements);
 
-  // Determine true anomaly
-  let ν: number;
-  if (elements.ν !== undefined) {
-    ν = elements.ν;
-  } else if (elements.M !== undefined) {
-    // Convert mean anomaly to true anomaly via eccentric anomaly
-    const E = solveKeplerEquation(elements.M, e);
-    ν = trueAnomalyFromEccentric(E, e);
-  } else {
-    throw new Error('Orbital elements must have either ν (true anomaly) or M (mean anomaly)');
-  }
-
-  // Semi-latus rectum
+  // Semi-latus rectum (positive for both ellipses and hyperbolas)
   const p = a * (1 - e * e);
 
   // Distance from center
-  const r = p / (1 + e * Math.cos(ν));
+  const denominator = 1 + e * Math.cos(ν);
+  if (denominator <= 0) {
+    throw new Error('Invalid orbital elements: true anomaly lies beyond the hyperbolic asymptote');
+  }
+  const r = p / denominator;
 
   // Position in perifocal frame (PQW frame)
   const rPerifocal: [number, number, number] = [
@@ -43,13 +44,13 @@ export function elementsToCartesian(elements: OrbitalElements): CartesianState {
   ];
 
   // Velocity in perifocal frame
-  const h = Math.sqrt(EARTH_MU * p); // Specific angular momentum
+  const h = Math.sqrt(mu * p); // Specific angular momentum
   // For circular orbits (e=0), the formula simplifies correctly
   // vPerifocal = [-(μ/h)sin(ν), (μ/h)(e+cos(ν)), 0]
   // When e=0: [-(μ/h)sin(ν), (μ/h)cos(ν), 0]
   const vPerifocal: [number, number, number] = [
-    -(EARTH_MU / h) * Math.sin(ν),
-    (EARTH_MU / h) * (e + Math.cos(ν)),
+    -(mu / h) * Math.sin(ν),
+    (mu / h) * (e + Math.cos(ν)),
     0,
   ];
 
@@ -93,10 +94,13 @@ export function elementsToCartesian(elements: OrbitalElements): CartesianState {
 
 /**
  * Convert Cartesian state to orbital elements.
+ * Escape trajectories are supported: hyperbolic orbits have a < 0 and e > 1.
+ * An exactly parabolic state (zero energy) yields a = ±Infinity.
  * @param state Cartesian state in ECI frame
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
  * @returns Orbital elements (with true anomaly ν)
  */
-export function cartesianToElements(state: CartesianState): OrbitalElements {
+export function cartesianToElements(state: CartesianState, mu: number = EARTH_MU): OrbitalElements {
   const [x, y, z] = state.position;
   const [vx, vy, vz] = state.velocity;
 
@@ -110,33 +114,20 @@ export function cartesianToElements(state: CartesianState): OrbitalElements {
   const hz = x * vy - y * vx;
   const h = Math.sqrt(hx * hx + hy * hy + hz * hz);
 
-  // Specific energy (vis-viva energy)
-  const energy = (v * v) / 2 - EARTH_MU / r;
-
   // Semi-major axis from vis-viva equation: v² = μ(2/r - 1/a)
   // Rearranging: 1/a = 2/r - v²/μ, so a = 1/(2/r - v²/μ)
   // This works for all orbit types (elliptical, circular, parabolic, hyperbolic)
   // For elliptical: energy < 0, so a > 0
   // For circular: energy = -μ/(2r), so a = r
-  let a = 1 / (2 / r - (v * v) / EARTH_MU);
-  
-  // If result is negative or very large, it might be hyperbolic (energy > 0)
-  // For our purposes (satellites), we expect elliptical orbits, so a should be positive
-  if (a < 0 || !isFinite(a)) {
-    // Fallback to energy formula for elliptical orbits
-    if (energy < 0) {
-      a = -EARTH_MU / (2 * energy);
-    } else {
-      throw new Error('Invalid orbit: hyperbolic orbit detected (energy > 0)');
-    }
-  }
+  // For hyperbolic: energy > 0, so a < 0
+  const a = 1 / (2 / r - (v * v) / mu);
 
   // Eccentricity vector
   const v2 = v * v;
   const rv = x * vx + y * vy + z * vz;
-  const ex = (1 / EARTH_MU) * ((v2 - EARTH_MU / r) * x - rv * vx);
-  const ey = (1 / EARTH_MU) * ((v2 - EARTH_MU / r) * y - rv * vy);
-  const ez = (1 / EARTH_MU) * ((v2 - EARTH_MU / r) * z - rv * vz);
+  const ex = (1 / mu) * ((v2 - mu / r) * x - rv * vx);
+  const ey = (1 / mu) * ((v2 - mu / r) * y - rv * vy);
+  const ez = (1 / mu) * ((v2 - mu / r) * z - rv * vz);
   const e = Math.sqrt(ex * ex + ey * ey + ez * ez);
 
   // Inclination
@@ -165,9 +156,13 @@ export function cartesianToElements(state: CartesianState): OrbitalElements {
   // Argument of periapsis
   const eDotN = ex * nx + ey * ny;
   let ω: number;
-  if (n < 1e-10 || e < 1e-10) {
-    // Circular or equatorial orbit, ω is undefined, set to 0
+  if (e < 1e-10) {
+    // Circular orbit, ω is undefined, set to 0
     ω = 0;
+  } else if (n < 1e-10) {
+    // Equatorial orbit (Ω = 0): ω is the longitude of periapsis, measured
+    // clockwise from the x-axis for retrograde orbits
+    ω = normalizeAngle(Math.atan2(Math.sign(hz) * ey, ex));
   } else {
     ω = Math.acos(eDotN / (e * n));
     if (ez < 0) {
@@ -191,13 +186,14 @@ export function cartesianToElements(state: CartesianState): OrbitalElements {
         ν = 2 * Math.PI - ν;
       }
     } else {
-      // Equatorial circular orbit, use angle from x-axis
-      const angle = Math.atan2(y, x);
+      // Equatorial circular orbit, use angle from x-axis (clockwise when retrograde)
+      const angle = Math.atan2(Math.sign(hz) * y, x);
       ν = normalizeAngle(angle - ω);
     }
   } else {
+    // From e·r = p - r and r·v = (μ/h)·e·r·sin(ν)
     const cosν = rDotE / (r * e);
-    const sinν = rv / (r * Math.sqrt(EARTH_MU * a * (1 - e * e)));
+    const sinν = (rv * h) / (mu * r * e);
     ν = Math.atan2(sinν, cosν);
     if (ν < 0) {
       ν += 2 * Math.PI;
@@ -212,6 +208,191 @@ export function cartesianToElements(state: CartesianState): OrbitalElements {
   return { a, e, i, Ω, ω, ν };
 }
 
+/**
+ * Convert Cartesian state to modified equinoctial elements.
+ * Non-singular for circular and equatorial orbits; orbits inclined more than
+ * 90° use the retrograde set.
+ * @param state Cartesian state in ECI frame
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Modified equinoctial elements
+ */
+export function cartesianToEquinoctial(state: CartesianState, mu: number = EARTH_MU): EquinoctialElements {
+  const [x, y, z] = state.position;
+  const [vx, vy, vz] = state.velocity;
+  const r = Math.sqrt(x * x + y * y + z * z);
+
+  // Specific angular momentum vector
+  const hx = y * vz - z * vy;
+  const hy = z * vx - x * vz;
+  const hz = x * vy - y * vx;
+  const hMag = Math.sqrt(hx * hx + hy * hy + hz * hz);
+  if (hMag < 1e-10) {
+    throw new Error('Invalid orbit: angular momentum is too small');
+  }
+
+  // h and k from the orbit normal: tan(i/2) = sin(i) / (1 + cos(i)), and
+  // cot(i/2) = sin(i) / (1 - cos(i)) for the retrograde set
+  const retrograde = hz < 0;
+  const I = retrograde ? -1 : 1;
+  const denominator = 1 + I * (hz / hMag);
+  const h = -hy / hMag / denominator;
+  const k = hx / hMag / denominator;
+  const [fHat, gHat] = equinoctialFrame(h, k, I);
+
+  // Eccentricity vector
+  const v2 = vx * vx + vy * vy + vz * vz;
+  const rv = x * vx + y * vy + z * vz;
+  const eVector: [number, number, number] = [
+    ((v2 - mu / r) * x - rv * vx) / mu,
+    ((v2 - mu / r) * y - rv * vy) / mu,
+    ((v2 - mu / r) * z - rv * vz) / mu,
+  ];
+
+  return {
+    p: (hMag * hMag) / mu,
+    f: dot(eVector, fHat),
+    g: dot(eVector, gHat),
+    h,
+    k,
+    L: normalizeAngle(Math.atan2(dot(state.position, gHat), dot(state.position, fHat))),
+    ...(retrograde ? { retrograde } : {}),
+  };
+}
+
+/**
+ * Convert modified equinoctial elements to Cartesian state.
+ * @param elements Modified equinoctial elements
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Cartesian state in ECI frame
+ * @throws Error if L lies beyond the asymptotes of a hyperbolic orbit
+ */
+export function equinoctialToCartesian(elements: EquinoctialElements, mu: number = EARTH_MU): CartesianState {
+  const { p, f, g, h, k, L } = elements;
+  const [fHat, gHat] = equinoctialFrame(h, k, elements.retrograde ? -1 : 1);
+
+  const cosL = Math.cos(L);
+  const sinL = Math.sin(L);
+  const w = 1 + f * cosL + g * sinL;
+  if (w <= 0) {
+    throw new Error('Invalid equinoctial elements: true longitude lies beyond the hyperbolic asymptote');
+  }
+  const r = p / w;
+
+  // Position and velocity in the equinoctial frame, then rotated to ECI
+  const x = r * cosL;
+  const y = r * sinL;
+  const speed = Math.sqrt(mu / p);
+  const vx = -speed * (g + sinL);
+  const vy = speed * (f + cosL);
+
+  return {
+    position: [
+      x * fHat[0] + y * gHat[0],
+      x * fHat[1] + y * gHat[1],
+      x * fHat[2] + y * gHat[2],
+    ],
+    velocity: [
+      vx * fHat[0] + vy * gHat[0],
+      vx * fHat[1] + vy * gHat[1],
+      vx * fHat[2] + vy * gHat[2],
+    ],
+  };
+}
+
+/**
+ * Convert classical orbital elements to modified equinoctial elements.
+ * @param elements Orbital elements (must have either ν or M)
+ * @returns Modified equinoctial elements (the retrograde set for i > 90°)
+ */
+export function elementsToEquinoctial(elements: OrbitalElements): EquinoctialElements {
+  const { a, e, i, Ω, ω } = elements;
+  const ν = trueAnomalyOf(elements);
+  const retrograde = i > Math.PI / 2;
+  const I = retrograde ? -1 : 1;
+  const periapsisLongitude = ω + I * Ω;
+  const tanHalf = retrograde ? 1 / Math.tan(i / 2) : Math.tan(i / 2);
+
+  return {
+    p: a * (1 - e * e),
+    f: e * Math.cos(periapsisLongitude),
+    g: e * Math.sin(periapsisLongitude),
+    h: tanHalf * Math.cos(Ω),
+    k: tanHalf * Math.sin(Ω),
+    L: normalizeAngle(periapsisLongitude + ν),
+    ...(retrograde ? { retrograde } : {}),
+  };
+}
+
+/**
+ * Convert modified equinoctial elements to classical orbital elements.
+ * Follows the conventions of cartesianToElements where the classical set is
+ * singular: Ω = 0 for equatorial orbits and ω = 0 for circular orbits.
+ * @param elements Modified equinoctial elements
+ * @returns Orbital elements (with true anomaly ν)
+ */
+export function equinoctialToElements(elements: EquinoctialElements): OrbitalElements {
+  const { p, f, g, h, k, L } = elements;
+  const I = elements.retrograde ? -1 : 1;
+  const e = Math.sqrt(f * f + g * g);
+  const tanHalf = Math.sqrt(h * h + k * k);
+  const halfI = Math.atan(tanHalf);
+  const i = elements.retrograde ? Math.PI - 2 * halfI : 2 * halfI;
+
+  const Ω = tanHalf < 1e-10 ? 0 : Math.atan2(k, h);
+  const periapsisLongitude = e < 1e-10 ? I * Ω : Math.atan2(g, f);
+
+  return {
+    a: p / (1 - e * e),
+    e,
+    i,
+    Ω: normalizeAngle(Ω),
+    ω: normalizeAngle(periapsisLongitude - I * Ω),
+    ν: normalizeAngle(L - periapsisLongitude),
+  };
+}
+
+/**
+ * Unit vectors f̂ and ĝ of the equinoctial frame in ECI. They span the orbit
+ * plane; longitudes such as L are measured from f̂ towards ĝ.
+ * @param h Equinoctial h
+ * @param k Equinoctial k
+ * @param I Retrograde factor (1 or -1)
+ * @returns [f̂, ĝ]
+ */
+function equinoctialFrame(
+  h: number,
+  k: number,
+  I: number
+): [[number, number, number], [number, number, number]] {
+  const s2 = 1 + h * h + k * k;
+  return [
+    [(1 - k * k + h * h) / s2, (2 * h * k) / s2, (-2 * I * k) / s2],
+    [(2 * I * h * k) / s2, (I * (1 + k * k - h * h)) / s2, (2 * h) / s2],
+  ];
+}
+
+/**
+ * True anomaly of a set of orbital elements, from ν or else from M.
+ * @param elements Orbital elements (must have either ν or M)
+ * @returns True anomaly (radians)
+ * @throws Error if the elements have neither ν nor M
+ */
+function trueAnomalyOf(elements: OrbitalElements): number {
+  const { e } = elements;
+  if (elements.ν !== undefined) {
+    return elements.ν;
+  } else if (elements.M !== undefined && e > 1) {
+    // Convert hyperbolic mean anomaly to true anomaly via hyperbolic anomaly
+    const H = solveHyperbolicKeplerEquation(elements.M, e);
+    return trueAnomalyFromHyperbolic(H, e);
+  } else if (elements.M !== undefined) {
+    // Convert mean anomaly to true anomaly via eccentric anomaly
+    const E = solveKeplerEquation(elements.M, e);
+    return trueAnomalyFromEccentric(E, e);
+  }
+  throw new Error('Orbital elements must have either ν (true anomaly) or M (mean anomaly)');
+}
+
 /**
  * Solve Kepler's equation: M = E - e*sin(E)
  * Uses Newton-Raphson iteration.
@@ -262,6 +443,43 @@ function solveKeplerEquation(M: number, e: number): number {
   return normalizeAngle(E);
 }
 
+/**
+ * Solve the hyperbolic Kepler equation: M = e*sinh(H) - H
+ * Uses Newton-Raphson iteration.
+ * @param M Hyperbolic mean anomaly (radians, unbounded)
+ * @param e Eccentricity (> 1)
+ * @returns Hyperbolic anomaly H
+ */
+function solveHyperbolicKeplerEquation(M: number, e: number): number {
+  // Initial guess from the asymptotic form e*sinh(H) ≈ M
+  let H = Math.asinh(M / e);
+
+  const maxIterations = 50;
+  const tolerance = 1e-12;
+
+  for (let i = 0; i < maxIterations; i++) {
+    const f = e * Math.sinh(H) - H - M;
+    if (Math.abs(f) < tolerance * Math.max(1, Math.abs(M))) {
+      break;
+    }
+    const fPrime = e * Math.cosh(H) - 1;
+    H -= f / fPrime;
+  }
+
+  return H;
+}
+
+/**
+ * Convert hyperbolic anomaly to true anomaly.
+ * @param H Hyperbolic anomaly
+ * @param e Eccentricity (> 1)
+ * @returns True anomaly (radians, normalized to [0, 2π))
+ */
+function trueAnomalyFromHyperbolic(H: number, e: number): number {
+  const ν = 2 * Math.atan(Math.sqrt((e + 1) / (e - 1)) * Math.tanh(H / 2));
+  return normalizeAngle(ν);
+}
+
 /**
  * Convert eccentric anomaly to true anomaly.
  * @param E Eccentric anomaly (radians)
@@ -284,7 +502,7 @@ function trueAnomalyFromEccentric(E: number, e: number): number {
  * @param angle Angle in radians
  * @returns Normalized angle
  */
-function normalizeAngle(angle: number): number {
+export function normalizeAngle(angle: number): number {
   angle = angle % (2 * Math.PI);
   if (angle < 0) {
     angle += 2 * Math.PI;
@@ -292,3 +510,80 @@ function normalizeAngle(angle: number): number {
   return angle;
 }
 
+/**
+ * WGS84 first eccentricity squared, e² = f(2 - f).
+ */
+const WGS84_E2 = WGS84_FLATTENING * (2 - WGS84_FLATTENING);
+
+/**
+ * Rotate an ECI position into the Earth-fixed frame.
+ * @param position ECI position in meters [x, y, z]
+ * @param gmst Greenwich sidereal time in radians
+ * @returns ECEF position in meters [x, y, z]
+ */
+export function eciToEcef(position: [number, number, number], gmst: number): [number, number, number] {
+  const cos = Math.cos(gmst);
+  const sin = Math.sin(gmst);
+  const [x, y, z] = position;
+  return [cos * x + sin * y, -sin * x + cos * y, z];
+}
+
+/**
+ * Rotate an Earth-fixed position into the ECI frame.
+ * @param position ECEF position in meters [x, y, z]
+ * @param gmst Greenwich sidereal time in radians
+ * @returns ECI position in meters [x, y, z]
+ */
+export function ecefToEci(position: [number, number, number], gmst: number): [number, number, number] {
+  return eciToEcef(position, -gmst);
+}
+
+/**
+ * Convert an Earth-fixed position to WGS84 geodetic coordinates.
+ * Iterates on the latitude (converges to sub-millimeter in a few steps for
+ * points from the Earth's center out to deep space).
+ * @param position ECEF position in meters [x, y, z]
+ * @returns Geodetic latitude, longitude and height above the ellipsoid
+ */
+export function ecefToGeodetic(position: [number, number, number]): GeodeticCoordinates {
+  const [x, y, z] = position;
+  const p = Math.sqrt(x * x + y * y);
+  const longitude = Math.atan2(y, x);
+
+  // Start from the geocentric latitude
+  let latitude = Math.atan2(z, p * (1 - WGS84_E2));
+  let altitude = 0;
+  for (let iteration = 0; iteration < 10; iteration++) {
+    const sinLat = Math.sin(latitude);
+    const n = EARTH_EQUATORIAL_RADIUS / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+    // Near the poles p / cos(latitude) loses precision, so use the z-based form there
+    altitude = Math.abs(latitude) < Math.PI / 4
+      ? p / Math.cos(latitude) - n
+      : z / sinLat - n * (1 - WGS84_E2);
+    const next = Math.atan2(z, p * (1 - WGS84_E2 * n / (n + altitude)));
+    if (Math.abs(next - latitude) < 1e-12) {
+      latitude = next;
+      break;
+    }
+    latitude = next;
+  }
+
+  return { latitude, longitude, altitude };
+}
+
+/**
+ * Convert WGS84 geodetic coordinates to an Earth-fixed position.
+ * @param geodetic Geodetic latitude, longitude and height above the ellipsoid
+ * @returns ECEF position in meters [x, y, z]
+ */
+export function geodeticToEcef(geodetic: GeodeticCoordinates): [number, number, number] {
+  const { latitude, longitude, altitude } = geodetic;
+  const sinLat = Math.sin(latitude);
+  const cosLat = Math.cos(latitude);
+  const n = EARTH_EQUATORIAL_RADIUS / Math.sqrt(1 - WGS84_E2 * sinLat * sinLat);
+  return [
+    (n + altitude) * cosLat * Math.cos(longitude),
+    (n + altitude) * cosLat * Math.sin(longitude),
+    (n * (1 - WGS84_E2) + altitude) * sinLat,
+  ];
+}
@@ -0,0 +1,52 @@
+/**
+ * Orbit decay / re-entry detection.
+ * An agent is considered to have re-entered once its altitude drops below a
+ * configurable floor above the central body's surface (EARTH_RADIUS by default).
+ * Below ~120 km drag grows so quickly that the remaining descent takes minutes,
+ * so the agent is removed from the simulation at that point rather than
+ * integrated down to the surface.
+ */
+
+import { CartesianState } from './types';
+import { altitudeOf } from './atmosphere';
+
+/**
+ * Default re-entry altitude above the Earth's surface in meters.
+ */
+export const DEFAULT_REENTRY_ALTITUDE = 120e3;
+
+/**
+ * Check whether a state is below the re-entry altitude.
+ * @param state Cartesian state in ECI frame
+ * @param reentryAltitude Altitude floor above the surface in meters
+ * @param radius Central body radius in meters (defaults to the Earth's)
+ * @returns True if the state has re-entered
+ */
+export function hasReentered(
+  state: CartesianState,
+  reentryAltitude: number = DEFAULT_REENTRY_ALTITUDE,
+  radius?: number
+): boolean {
+  return altitudeOf(state, radius) < reentryAltitude;
+}
+
+/**
+ * Find the states that have dropped below the re-entry altitude.
+ * @param states Array of Cartesian states
+ * @param reentryAltitude Altitude floor above the surface in meters
+ * @param radius Central body radius in meters (defaults to the Earth's)
+ * @returns Indices of the re-entered states (ascending)
+ */
+export function findReentries(
+  states: CartesianState[],
+  reentryAltitude: number = DEFAULT_REENTRY_ALTITUDE,
+  radius?: number
+): number[] {
+  const indices: number[] = [];
+  states.forEach((state, index) => {
+    if (hasReentered(state, reentryAltitude, radius)) {
+      indices.push(index);
+    }
+  });
+  return indices;
+}
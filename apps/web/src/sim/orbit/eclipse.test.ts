@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { shadowState, ShadowModel, ShadowState } from './eclipse';
+import { ASTRONOMICAL_UNIT, EARTH_EQUATORIAL_RADIUS } from './constants';
+
+/** Sun along +X */
+const SUN: [number, number, number] = [ASTRONOMICAL_UNIT, 0, 0];
+
+/**
+ * Fraction of a circular orbit in the Sun's plane spent in each shadow state.
+ */
+function shadowFractions(radius: number, model: ShadowModel): Record<ShadowState, number> {
+  const counts: Record<ShadowState, number> = { sunlit: 0, penumbra: 0, umbra: 0 };
+  const samples = 36000;
+  for (let index = 0; index < samples; index++) {
+    const angle = (2 * Math.PI * index) / samples;
+    counts[shadowState([radius * Math.cos(angle), radius * Math.sin(angle), 0], SUN, model)]++;
+  }
+  return { sunlit: counts.sunlit / samples, penumbra: counts.penumbra / samples, umbra: counts.umbra / samples };
+}
+
+describe('eclipse', () => {
+  it('lights satellites on the sunward side and shadows those directly behind the Earth', () => {
+    expect(shadowState([7000e3, 0, 0], SUN)).toBe('sunlit');
+    expect(shadowState([0, 7000e3, 0], SUN)).toBe('sunlit');
+    expect(shadowState([-7000e3, 0, 0], SUN)).toBe('umbra');
+    expect(shadowState([-7000e3, 0, 0], SUN, 'cylindrical')).toBe('umbra');
+    expect(shadowState([-42164e3, 0, 5000e3], SUN)).toBe('umbra');
+  });
+
+  it('puts the shadow edge in the penumbra only for the conical model', () => {
+    const edge: [number, number, number] = [-7000e3, EARTH_EQUATORIAL_RADIUS, 0];
+
+    expect(shadowState(edge, SUN, 'conical')).toBe('penumbra');
+    expect(shadowState(edge, SUN, 'cylindrical')).toBe('umbra');
+    expect(shadowState([-7000e3, EARTH_EQUATORIAL_RADIUS + 100e3, 0], SUN)).toBe('sunlit');
+  });
+
+  it('ends the umbra about 1.4 million km behind the Earth', () => {
+    expect(shadowState([-1.3e9, 0, 0], SUN)).toBe('umbra');
+    expect(shadowState([-1.5e9, 0, 0], SUN)).toBe('penumbra');
+    expect(shadowState([-1.5e9, 0, 0], SUN, 'cylindrical')).toBe('umbra');
+  });
+
+  it('shadows a 500 km orbit in the Sun plane for the geometric fraction of each revolution', () => {
+    const radius = EARTH_EQUATORIAL_RADIUS + 500e3;
+    const geometric = Math.asin(EARTH_EQUATORIAL_RADIUS / radius) / Math.PI;
+
+    const cylindrical = shadowFractions(radius, 'cylindrical');
+    const conical = shadowFractions(radius, 'conical');
+
+    expect(cylindrical.umbra).toBeCloseTo(geometric, 3);
+    expect(cylindrical.penumbra).toBe(0);
+    // The umbra is slightly shorter, and each pass through the penumbra takes a few seconds
+    expect(conical.umbra).toBeLessThan(cylindrical.umbra);
+    expect(conical.umbra + conical.penumbra).toBeGreaterThan(cylindrical.umbra);
+    expect(conical.penumbra).toBeGreaterThan(0);
+    expect(conical.penumbra).toBeLessThan(0.005);
+  });
+});
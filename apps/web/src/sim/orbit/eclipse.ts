@@ -0,0 +1,61 @@
+/**
+ * Earth shadow model: whether a satellite is in sunlight, the penumbra or the umbra.
+ * Follows Vallado Algorithm 34 (SHADOW), with the shadow cone angles derived
+ * from the actual Sun distance.
+ */
+
+import { EARTH_EQUATORIAL_RADIUS, SUN_RADIUS } from './constants';
+
+/**
+ * Illumination of a satellite by the Sun.
+ */
+export type ShadowState = 'sunlit' | 'penumbra' | 'umbra';
+
+/**
+ * Shape of the Earth's shadow.
+ * 'cylindrical' treats sunlight as parallel (umbra only, no penumbra);
+ * 'conical' accounts for the Sun's finite disk.
+ */
+export type ShadowModel = 'cylindrical' | 'conical';
+
+/**
+ * Shadow state of a satellite.
+ * @param position Satellite position relative to the Earth's center (meters)
+ * @param sun Sun position relative to the Earth's center (meters, see sunPosition)
+ * @param model Shadow model (defaults to 'conical')
+ * @returns Whether the satellite is sunlit, in the penumbra or in the umbra
+ */
+export function shadowState(
+  position: [number, number, number],
+  sun: [number, number, number],
+  model: ShadowModel = 'conical'
+): ShadowState {
+  const sunDistance = Math.sqrt(sun[0] * sun[0] + sun[1] * sun[1] + sun[2] * sun[2]);
+
+  // Distance of the satellite behind the Earth along the anti-Sun axis;
+  // satellites on the sunward side are always lit
+  const behind = -(position[0] * sun[0] + position[1] * sun[1] + position[2] * sun[2]) / sunDistance;
+  if (behind <= 0) {
+    return 'sunlit';
+  }
+
+  // Distance of the satellite from the anti-Sun axis
+  const r2 = position[0] * position[0] + position[1] * position[1] + position[2] * position[2];
+  const offAxis = Math.sqrt(Math.max(0, r2 - behind * behind));
+
+  if (model === 'cylindrical') {
+    return offAxis <= EARTH_EQUATORIAL_RADIUS ? 'umbra' : 'sunlit';
+  }
+
+  // The penumbra cone widens behind the Earth, the umbra cone narrows to a point
+  const penumbraAngle = Math.asin((SUN_RADIUS + EARTH_EQUATORIAL_RADIUS) / sunDistance);
+  const umbraAngle = Math.asin((SUN_RADIUS - EARTH_EQUATORIAL_RADIUS) / sunDistance);
+
+  const penumbraApex = EARTH_EQUATORIAL_RADIUS / Math.sin(penumbraAngle); // in front of the Earth
+  if (offAxis > Math.tan(penumbraAngle) * (penumbraApex + behind)) {
+    return 'sunlit';
+  }
+
+  const umbraApex = EARTH_EQUATORIAL_RADIUS / Math.sin(umbraAngle); // behind the Earth
+  return offAxis <= Math.tan(umbraAngle) * (umbraApex - behind) ? 'umbra' : 'penumbra';
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { interpolateEphemeris, Ephemeris } from './ephemeris';
+import { propagate } from './propagator';
+import { propagateUniversal } from './universal';
+import { CartesianState } from './types';
+import { distance } from './vector';
+import { MOON_BODY } from './centralBody';
+
+const LEO: CartesianState = {
+  position: [6771000, 0, 0],
+  velocity: [0, 5336, 5336],
+};
+
+/**
+ * Two-body ephemeris of LEO sampled every step seconds from time 0.
+ */
+function sampledEphemeris(step: number, count: number, interpolationDegree = 7): Ephemeris {
+  return {
+    epochJd: 2451545.0,
+    points: Array.from({ length: count }, (_, index) => ({
+      time: index * step,
+      ...propagateUniversal(LEO, index * step),
+    })),
+    interpolationDegree,
+  };
+}
+
+describe('ephemeris', () => {
+  it('reproduces the tabulated states exactly', () => {
+    const ephemeris = sampledEphemeris(60, 20);
+    const point = ephemeris.points[7]!;
+    const state = interpolateEphemeris(ephemeris, point.time);
+
+    expect(distance(state.position, point.position)).toBeLessThan(1e-6);
+    expect(distance(state.velocity, point.velocity)).toBeLessThan(1e-9);
+  });
+
+  it('interpolates between samples to sub-meter accuracy', () => {
+    const ephemeris = sampledEphemeris(60, 100);
+
+    for (const time of [30, 1234.5, 5000, 5930]) {
+      const state = interpolateEphemeris(ephemeris, time);
+      const truth = propagateUniversal(LEO, time);
+
+      expect(distance(state.position, truth.position)).toBeLessThan(0.01);
+      expect(distance(state.velocity, truth.velocity)).toBeLessThan(1e-4);
+    }
+  });
+
+  it('propagates two-body motion outside the tabulated span', () => {
+    const ephemeris = sampledEphemeris(60, 10);
+
+    const before = interpolateEphemeris(ephemeris, -300);
+    const after = interpolateEphemeris(ephemeris, 540 + 300);
+
+    expect(distance(before.position, propagateUniversal(LEO, -300).position)).toBeLessThan(1e-3);
+    expect(distance(after.position, propagateUniversal(LEO, 840).position)).toBeLessThan(1e-3);
+  });
+
+  it('extrapolates about the central body of the ephemeris', () => {
+    const orbiter: CartesianState = { position: [1837e3, 0, 0], velocity: [0, 1633, 0] };
+    const ephemeris: Ephemeris = {
+      epochJd: 2451545.0,
+      points: [0, 60, 120].map((time) => ({ time, ...propagateUniversal(orbiter, time, MOON_BODY.mu) })),
+      interpolationDegree: 2,
+      mu: MOON_BODY.mu,
+    };
+
+    const after = interpolateEphemeris(ephemeris, 1800);
+    expect(distance(after.position, propagateUniversal(orbiter, 1800, MOON_BODY.mu).position)).toBeLessThan(1e-3);
+  });
+
+  it('uses every sample when the ephemeris is shorter than the interpolation window', () => {
+    const ephemeris = sampledEphemeris(60, 3);
+    const state = interpolateEphemeris(ephemeris, 90);
+
+    // A quadratic through three samples; a nearest-sample lookup would be ~200 km off
+    expect(distance(state.position, propagateUniversal(LEO, 90).position)).toBeLessThan(500);
+  });
+
+  it('interpolates with Hermite polynomials through positions and velocities', () => {
+    const lagrange = sampledEphemeris(120, 50, 3);
+    const hermite = { ...lagrange, interpolation: 'hermite' as const };
+
+    // At a sample the polynomial matches both the position and the velocity
+    const sample = hermite.points[10]!;
+    const atSample = interpolateEphemeris(hermite, sample.time);
+    expect(distance(atSample.position, sample.position)).toBeLessThan(1e-6);
+    expect(distance(atSample.velocity, sample.velocity)).toBeLessThan(1e-9);
+
+    // Two samples with velocities beat four samples without them, and degree 5 does better still
+    const quintic = { ...hermite, interpolationDegree: 5 };
+    for (const time of [1290, 4321]) {
+      const truth = propagateUniversal(LEO, time);
+      const cubicError = distance(interpolateEphemeris(hermite, time).position, truth.position);
+      expect(cubicError).toBeLessThan(distance(interpolateEphemeris(lagrange, time).position, truth.position));
+      expect(distance(interpolateEphemeris(quintic, time).position, truth.position)).toBeLessThan(cubicError);
+      expect(distance(interpolateEphemeris(hermite, time).velocity, truth.velocity)).toBeLessThan(0.5);
+    }
+  });
+
+  it('is selected by propagate() with the step start time', () => {
+    const ephemeris = sampledEphemeris(60, 20);
+
+    const state = propagate(LEO, 30, 'ephemeris', { ephemeris, startTime: 600 });
+
+    expect(state).toEqual(interpolateEphemeris(ephemeris, 630));
+    expect(() => propagate(LEO, 30, 'ephemeris')).toThrow('requires an ephemeris');
+  });
+
+  it('throws for an empty ephemeris', () => {
+    expect(() => interpolateEphemeris({ epochJd: 0, points: [], interpolationDegree: 7 }, 0)).toThrow('no points');
+  });
+});
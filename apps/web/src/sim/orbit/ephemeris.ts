@@ -0,0 +1,186 @@
+/**
+ * Tabulated ephemerides (e.g. imported from a CCSDS OEM, or sampled by the
+ * ephemeris cache). States between samples are found by Lagrange or Hermite
+ * interpolation; outside the tabulated span the nearest sample is propagated
+ * as two-body motion about the ephemeris' central body.
+ */
+
+import { CartesianState } from './types';
+import { EARTH_MU } from './constants';
+import { propagateUniversal } from './universal';
+
+/**
+ * One tabulated state.
+ */
+export interface EphemerisPoint {
+  /** Sim time in seconds */
+  time: number;
+  /** Position in ECI frame (meters) */
+  position: [number, number, number];
+  /** Velocity in ECI frame (m/s) */
+  velocity: [number, number, number];
+}
+
+/**
+ * Interpolation method of an ephemeris.
+ * - 'lagrange': positions and velocities interpolated separately from degree + 1 samples
+ * - 'hermite': positions interpolated from the positions and velocities of (degree + 1) / 2
+ *   samples; velocities are the derivative of the position polynomial
+ */
+export type EphemerisInterpolation = 'lagrange' | 'hermite';
+
+/**
+ * Tabulated ephemeris of one object.
+ */
+export interface Ephemeris {
+  /** Julian date (UTC) of sim time 0 */
+  epochJd: number;
+  /** States in ascending time order */
+  points: EphemerisPoint[];
+  /** Degree of the interpolating polynomial */
+  interpolationDegree: number;
+  /** Interpolation method (defaults to 'lagrange') */
+  interpolation?: EphemerisInterpolation;
+  /** Gravitational parameter of the central body (m³/s², defaults to Earth), for extrapolating past the table */
+  mu?: number;
+  /** Object name, if known */
+  objectName?: string;
+  /** Object identifier (e.g. international designator), if known */
+  objectId?: string;
+}
+
+/**
+ * Default Lagrange interpolation degree (the degree most OEM producers use).
+ */
+export const DEFAULT_INTERPOLATION_DEGREE = 7;
+
+/**
+ * Index of the last point at or before time (binary search).
+ */
+function pointIndexAt(points: EphemerisPoint[], time: number): number {
+  let low = 0;
+  let high = points.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (points[mid]!.time <= time) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return low;
+}
+
+/**
+ * Evaluate the ephemeris at a sim time.
+ * Lagrange interpolation uses the interpolationDegree + 1 samples centred on
+ * time, Hermite interpolation the (interpolationDegree + 1) / 2 samples (fewer
+ * if the ephemeris is shorter); outside the tabulated span the first or last
+ * state is propagated with two-body motion about the ephemeris' central body.
+ *
+ * @param ephemeris Tabulated ephemeris
+ * @param time Sim time in seconds
+ * @returns Interpolated Cartesian state in ECI frame
+ * @throws Error if the ephemeris has no points
+ */
+export function interpolateEphemeris(ephemeris: Ephemeris, time: number): CartesianState {
+  const { points } = ephemeris;
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last) {
+    throw new Error('Ephemeris has no points');
+  }
+
+  const mu = ephemeris.mu ?? EARTH_MU;
+  if (time <= first.time) {
+    return propagateUniversal(first, time - first.time, mu);
+  }
+  if (time >= last.time) {
+    return propagateUniversal(last, time - last.time, mu);
+  }
+
+  // Window of samples centred on the interval containing time
+  const hermite = ephemeris.interpolation === 'hermite';
+  const samples = hermite
+    ? Math.max(2, Math.ceil((ephemeris.interpolationDegree + 1) / 2))
+    : ephemeris.interpolationDegree + 1;
+  const count = Math.min(samples, points.length);
+  const index = pointIndexAt(points, time);
+  const start = Math.max(0, Math.min(index - Math.floor((count - 1) / 2), points.length - count));
+
+  return hermite
+    ? hermiteInterpolate(points, start, count, time)
+    : lagrangeInterpolate(points, start, count, time);
+}
+
+/**
+ * Lagrange interpolation of positions and velocities over points[start, start + count).
+ */
+function lagrangeInterpolate(points: EphemerisPoint[], start: number, count: number, time: number): CartesianState {
+  const position: [number, number, number] = [0, 0, 0];
+  const velocity: [number, number, number] = [0, 0, 0];
+  for (let j = start; j < start + count; j++) {
+    const point = points[j]!;
+    let weight = 1;
+    for (let k = start; k < start + count; k++) {
+      if (k !== j) {
+        weight *= (time - points[k]!.time) / (point.time - points[k]!.time);
+      }
+    }
+    position[0] += weight * point.position[0];
+    position[1] += weight * point.position[1];
+    position[2] += weight * point.position[2];
+    velocity[0] += weight * point.velocity[0];
+    velocity[1] += weight * point.velocity[1];
+    velocity[2] += weight * point.velocity[2];
+  }
+
+  return { position, velocity };
+}
+
+/**
+ * Hermite interpolation over points[start, start + count): the polynomial of
+ * degree 2·count - 1 matching every sample's position and velocity, built
+ * from divided differences with each sample time repeated. The velocity is
+ * the polynomial's derivative, so it stays consistent with the position.
+ */
+function hermiteInterpolate(points: EphemerisPoint[], start: number, count: number, time: number): CartesianState {
+  // Times relative to the first sample keep the products well conditioned
+  const t0 = points[start]!.time;
+  const nodes: number[] = [];
+  for (let j = start; j < start + count; j++) {
+    const t = points[j]!.time - t0;
+    nodes.push(t, t);
+  }
+  const t = time - t0;
+  const n = nodes.length;
+
+  const position: [number, number, number] = [0, 0, 0];
+  const velocity: [number, number, number] = [0, 0, 0];
+  for (let axis = 0; axis < 3; axis++) {
+    // Divided-difference table, updated in place column by column
+    const table = nodes.map((_, i) => points[start + (i >> 1)]!.position[axis]!);
+    const coefficients = [table[0]!];
+    for (let order = 1; order < n; order++) {
+      for (let i = n - 1; i >= order; i--) {
+        const span = nodes[i]! - nodes[i - order]!;
+        table[i] = span === 0
+          ? points[start + (i >> 1)]!.velocity[axis]! // Repeated node: the derivative
+          : (table[i]! - table[i - 1]!) / span;
+      }
+      coefficients.push(table[order]!);
+    }
+
+    // Newton form and its derivative by Horner's rule
+    let value = coefficients[n - 1]!;
+    let derivative = 0;
+    for (let i = n - 2; i >= 0; i--) {
+      derivative = derivative * (t - nodes[i]!) + value;
+      value = value * (t - nodes[i]!) + coefficients[i]!;
+    }
+    position[axis] = value;
+    velocity[axis] = derivative;
+  }
+
+  return { position, velocity };
+}
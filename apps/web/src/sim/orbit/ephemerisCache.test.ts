@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EphemerisCache,
+  sampleEphemeris,
+  hermiteErrorBound,
+  hermiteStepForTolerance,
+  twoBodyFourthDerivative,
+} from './ephemerisCache';
+import { interpolateEphemeris } from './ephemeris';
+import { propagate } from './propagator';
+import { propagateUniversal } from './universal';
+import { elementsToCartesian } from './conversions';
+import { EARTH_MU, EARTH_RADIUS } from './constants';
+import { CartesianState } from './types';
+import { distance } from './vector';
+
+const LEO = elementsToCartesian({ a: EARTH_RADIUS + 400e3, e: 0.001, i: 0.9, Ω: 0.3, ω: 0.5, ν: 0 });
+const MOLNIYA = elementsToCartesian({ a: 26562e3, e: 0.74, i: 1.1, Ω: 0, ω: 4.7, ν: 0 });
+
+/**
+ * Largest interpolation errors over a window, checked at off-sample times.
+ */
+function maxErrors(state: CartesianState, span: number, step: number): { position: number; velocity: number } {
+  const ephemeris = sampleEphemeris(state, 0, span, step);
+  let position = 0;
+  let velocity = 0;
+  for (let time = step / 3; time < span; time += step * 0.37) {
+    const interpolated = interpolateEphemeris(ephemeris, time);
+    const truth = propagateUniversal(state, time);
+    position = Math.max(position, distance(interpolated.position, truth.position));
+    velocity = Math.max(velocity, distance(interpolated.velocity, truth.velocity));
+  }
+  return { position, velocity };
+}
+
+describe('ephemeris cache', () => {
+  it('gives the circular-orbit fourth derivative n⁴r', () => {
+    const circular = elementsToCartesian({ a: 7000e3, e: 0, i: 0, Ω: 0, ω: 0, ν: 0 });
+    const n = Math.sqrt(EARTH_MU / 7000e3 ** 3);
+
+    expect(twoBodyFourthDerivative(circular)).toBeCloseTo(n ** 4 * 7000e3, 15);
+  });
+
+  it('keeps Hermite interpolation errors within the documented bounds', () => {
+    for (const [state, span] of [[LEO, 5600], [MOLNIYA, 43000]] as const) {
+      const step = hermiteStepForTolerance(state, 1);
+      const bound = hermiteErrorBound(state, step);
+      const errors = maxErrors(state, span, step);
+
+      expect(bound.position).toBeCloseTo(1, 9);
+      expect(errors.position).toBeLessThan(bound.position);
+      expect(errors.velocity).toBeLessThan(bound.velocity);
+    }
+  });
+
+  it('converges with the fourth power of the step', () => {
+    const coarse = maxErrors(LEO, 5600, 240);
+    const fine = maxErrors(LEO, 5600, 120);
+
+    expect(coarse.position / fine.position).toBeGreaterThan(12);
+    expect(coarse.position / fine.position).toBeLessThan(20);
+  });
+
+  it('samples the propagator it is given', () => {
+    const ephemeris = sampleEphemeris(LEO, 100, 3000, 60, 'j2');
+
+    // Samples follow the propagator step by step, as the simulation does
+    let truth = LEO;
+    for (let step = 0; step < 30; step++) {
+      truth = propagate(truth, 60, 'j2');
+    }
+    expect(ephemeris.points[0]!.time).toBe(100);
+    expect(ephemeris.points[ephemeris.points.length - 1]!.time).toBe(3100);
+    expect(ephemeris.points[30]!.position).toEqual(truth.position);
+    // Between samples: interpolation error plus the meter-level difference between one
+    // 30 s J2 step and the sampled 60 s steps (secular rates restart from osculating elements)
+    expect(distance(interpolateEphemeris(ephemeris, 1930).position, propagate(truth, 30, 'j2').position))
+      .toBeLessThan(5);
+    expect(() => sampleEphemeris(LEO, 0, 0, 60)).toThrow('positive');
+  });
+
+  it('reuses an entry until the revision changes or time leaves the window', () => {
+    const cache = new EphemerisCache();
+    const ephemeris = cache.get('leo', 'a', LEO, 0);
+
+    // Two revolutions are sampled; the first half of the window is served from the cache
+    const period = 2 * Math.PI * Math.sqrt((EARTH_RADIUS + 400e3) ** 3 / EARTH_MU);
+    expect(ephemeris.points[ephemeris.points.length - 1]!.time).toBeCloseTo(2 * period, -1);
+    expect(cache.get('leo', 'a', propagateUniversal(LEO, 600), 600)).toBe(ephemeris);
+
+    expect(cache.get('leo', 'b', LEO, 600)).not.toBe(ephemeris);
+    const later = cache.get('leo', 'b', propagateUniversal(LEO, 2 * period), 2 * period);
+    expect(later.points[0]!.time).toBe(2 * period);
+    expect(cache.size).toBe(1);
+  });
+
+  it('answers state queries inside the cached window', () => {
+    const cache = new EphemerisCache();
+    cache.get('leo', 'a', LEO, 0);
+
+    expect(distance(cache.stateAt('leo', 1234)!.position, propagateUniversal(LEO, 1234).position)).toBeLessThan(1);
+    expect(cache.stateAt('leo', -10)).toBeNull();
+    expect(cache.stateAt('other', 0)).toBeNull();
+
+    cache.invalidate('leo');
+    expect(cache.stateAt('leo', 1234)).toBeNull();
+  });
+});
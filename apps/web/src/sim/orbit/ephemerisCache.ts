@@ -0,0 +1,259 @@
+/**
+ * Ephemeris cache: sampled states of each object over a time window, so path
+ * drawing, timeline queries and analysis can evaluate any time in the window
+ * by interpolation instead of propagating from scratch.
+ *
+ * Samples are interpolated with cubic Hermite polynomials (positions and
+ * velocities of the two samples around a time). For a sample step h the error
+ * is bounded by
+ *   |Δr| ≤ h⁴/384 · max|r⁗|,   |Δv| ≤ √3·h³/216 · max|r⁗|
+ * where r⁗ is the fourth time derivative of the position. For two-body motion
+ * |r⁗| peaks at periapsis at μ²(1 + 3e)/r_p⁵, which gives the step needed for
+ * a position tolerance. Perturbations (J2, drag, third bodies) add little to
+ * r⁗ and are not included in the bound.
+ */
+
+import { CartesianState, PropagatorType } from './types';
+import { cartesianToElements } from './conversions';
+import { EARTH_MU } from './constants';
+import { propagate, PropagateOptions } from './propagator';
+import { Ephemeris, interpolateEphemeris } from './ephemeris';
+import { J2000_JD } from './time';
+
+/**
+ * Options of an ephemeris cache.
+ */
+export interface EphemerisCacheOptions {
+  /** Position error allowed by the sample step in meters (defaults to 1) */
+  tolerance?: number;
+  /** Revolutions of a closed orbit sampled at once (defaults to 2) */
+  revolutions?: number;
+  /** Longest window sampled at once in seconds (defaults to one day) */
+  maxSpan?: number;
+  /** Window sampled for escape trajectories in seconds (defaults to 2 hours) */
+  escapeSpan?: number;
+  /** Most samples in one window (defaults to 2000; the step grows to fit) */
+  maxSamples?: number;
+}
+
+/**
+ * Default position tolerance of cached ephemerides (meters).
+ */
+export const DEFAULT_EPHEMERIS_TOLERANCE = 1;
+
+/**
+ * Cubic Hermite interpolation error bounds for a sample step.
+ */
+export interface HermiteErrorBound {
+  /** Largest position error in meters */
+  position: number;
+  /** Largest velocity error in m/s */
+  velocity: number;
+}
+
+/**
+ * Largest fourth time derivative of the position over a two-body orbit,
+ * μ²(1 + 3e)/r_p⁵ at periapsis.
+ * @param state Cartesian state on the orbit
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns |r⁗| at periapsis in m/s⁴
+ */
+export function twoBodyFourthDerivative(state: CartesianState, mu: number = EARTH_MU): number {
+  const { a, e } = cartesianToElements(state, mu);
+  const periapsis = a * (1 - e);
+  return (mu * mu * (1 + 3 * e)) / periapsis ** 5;
+}
+
+/**
+ * Cubic Hermite interpolation error bounds of a two-body orbit sampled every step seconds.
+ * @param state Cartesian state on the orbit
+ * @param step Sample step in seconds
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Position and velocity error bounds
+ */
+export function hermiteErrorBound(state: CartesianState, step: number, mu: number = EARTH_MU): HermiteErrorBound {
+  const fourthDerivative = twoBodyFourthDerivative(state, mu);
+  return {
+    position: (step ** 4 / 384) * fourthDerivative,
+    velocity: ((Math.sqrt(3) * step ** 3) / 216) * fourthDerivative,
+  };
+}
+
+/**
+ * Longest sample step whose cubic Hermite position error stays within a tolerance.
+ * @param state Cartesian state on the orbit
+ * @param tolerance Position tolerance in meters
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Sample step in seconds
+ */
+export function hermiteStepForTolerance(state: CartesianState, tolerance: number, mu: number = EARTH_MU): number {
+  return ((384 * tolerance) / twoBodyFourthDerivative(state, mu)) ** 0.25;
+}
+
+/**
+ * Sample a trajectory into a Hermite ephemeris. Each sample is propagated from
+ * the previous one, so numerical propagation integrates the window only once.
+ *
+ * @param state Cartesian state at startTime
+ * @param startTime Sim time of state in seconds
+ * @param span Length of the window in seconds
+ * @param step Sample step in seconds (the last step is shortened to end at startTime + span)
+ * @param propagator Propagation model (defaults to 'kepler')
+ * @param options Propagation options (startTime is set for each sample)
+ * @returns Ephemeris with samples from startTime to startTime + span
+ * @throws Error if span or step is not positive
+ */
+export function sampleEphemeris(
+  state: CartesianState,
+  startTime: number,
+  span: number,
+  step: number,
+  propagator: PropagatorType = 'kepler',
+  options: PropagateOptions = {}
+): Ephemeris {
+  if (!(span > 0) || !(step > 0)) {
+    throw new Error('Ephemeris span and step must be positive');
+  }
+
+  const points = [{ time: startTime, position: state.position, velocity: state.velocity }];
+  let current = state;
+  let time = startTime;
+  const endTime = startTime + span;
+  while (time < endTime) {
+    const next = Math.min(time + step, endTime);
+    current = propagate(current, next - time, propagator, { ...options, startTime: time });
+    points.push({ time: next, position: current.position, velocity: current.velocity });
+    time = next;
+  }
+
+  return {
+    epochJd: options.epochJd ?? J2000_JD,
+    points,
+    interpolationDegree: 3,
+    interpolation: 'hermite',
+    mu: options.centralBody?.mu ?? EARTH_MU,
+  };
+}
+
+/**
+ * Cached ephemeris of one object.
+ */
+interface CacheEntry {
+  /** Revision of the object's trajectory when it was sampled */
+  revision: string;
+  /** Sampled states */
+  ephemeris: Ephemeris;
+  /** Sim time the window starts at */
+  startTime: number;
+  /** Sim time the window ends at */
+  endTime: number;
+}
+
+/**
+ * Cache of sampled ephemerides by object ID.
+ * An entry is resampled from the object's current state when its revision
+ * changes (callers bump the revision whenever the state is changed off its
+ * trajectory, e.g. by a burn) or when the queried time leaves the first half
+ * of its window, so at least half a window always lies ahead.
+ */
+export class EphemerisCache {
+  private entries = new Map<string, CacheEntry>();
+  private readonly tolerance: number;
+  private readonly revolutions: number;
+  private readonly maxSpan: number;
+  private readonly escapeSpan: number;
+  private readonly maxSamples: number;
+
+  constructor(options: EphemerisCacheOptions = {}) {
+    this.tolerance = options.tolerance ?? DEFAULT_EPHEMERIS_TOLERANCE;
+    this.revolutions = options.revolutions ?? 2;
+    this.maxSpan = options.maxSpan ?? 86400;
+    this.escapeSpan = options.escapeSpan ?? 7200;
+    this.maxSamples = options.maxSamples ?? 2000;
+  }
+
+  /**
+   * Get an object's ephemeris covering time, sampling it if needed.
+   * The same Ephemeris object is returned until the entry is resampled, so it
+   * can be used as a memoization key.
+   *
+   * @param id Object ID
+   * @param revision Revision of the object's trajectory
+   * @param state Object's state at time (used when sampling)
+   * @param time Current sim time in seconds
+   * @param propagator Propagation model (defaults to 'kepler')
+   * @param options Propagation options
+   * @returns Cached ephemeris starting at or before time
+   */
+  get(
+    id: string,
+    revision: string,
+    state: CartesianState,
+    time: number,
+    propagator: PropagatorType = 'kepler',
+    options: PropagateOptions = {}
+  ): Ephemeris {
+    const entry = this.entries.get(id);
+    if (
+      entry &&
+      entry.revision === revision &&
+      time >= entry.startTime &&
+      time <= entry.startTime + (entry.endTime - entry.startTime) / 2
+    ) {
+      return entry.ephemeris;
+    }
+
+    const mu = options.centralBody?.mu ?? EARTH_MU;
+    const span = this.windowSpan(state, mu);
+    const step = Math.max(hermiteStepForTolerance(state, this.tolerance, mu), span / this.maxSamples);
+    const ephemeris = sampleEphemeris(state, time, span, Math.min(step, span), propagator, options);
+    this.entries.set(id, { revision, ephemeris, startTime: time, endTime: time + span });
+    return ephemeris;
+  }
+
+  /**
+   * Interpolated state of a cached object.
+   * @param id Object ID
+   * @param time Sim time in seconds
+   * @returns State at time, or null if the object is not cached or time is outside its window
+   */
+  stateAt(id: string, time: number): CartesianState | null {
+    const entry = this.entries.get(id);
+    if (!entry || time < entry.startTime || time > entry.endTime) {
+      return null;
+    }
+    return interpolateEphemeris(entry.ephemeris, time);
+  }
+
+  /**
+   * Drop one object's entry, or every entry.
+   * @param id Object ID (all objects if omitted)
+   */
+  invalidate(id?: string): void {
+    if (id === undefined) {
+      this.entries.clear();
+    } else {
+      this.entries.delete(id);
+    }
+  }
+
+  /**
+   * Number of cached objects.
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Length of the window sampled for an orbit: a few revolutions of a closed
+   * orbit, or a fixed span for escape trajectories.
+   */
+  private windowSpan(state: CartesianState, mu: number): number {
+    const { a, e } = cartesianToElements(state, mu);
+    if (e >= 1 || !(a > 0)) {
+      return this.escapeSpan;
+    }
+    const period = 2 * Math.PI * Math.sqrt((a * a * a) / mu);
+    return Math.min(this.revolutions * period, this.maxSpan);
+  }
+}
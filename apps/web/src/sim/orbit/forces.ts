@@ -0,0 +1,371 @@
+/**
+ * Force model registry for the numerical propagator.
+ * Each force model contributes an acceleration (m/s², ECI frame); the
+ * numerical propagator sums the contributions of the models an agent uses.
+ *
+ * Built-in models:
+ * - 'central_gravity': point-mass two-body gravity
+ * - 'j2': Earth oblateness (second zonal harmonic)
+ * - 'drag': atmospheric drag against an atmosphere co-rotating with the Earth
+ * - 'moon_gravity': third-body point-mass attraction of the Moon
+ * - 'sun_gravity': third-body point-mass attraction of the Sun
+ * - 'srp': cannonball solar radiation pressure, off in the Earth's shadow
+ * - 'thrust': an engine burning along a direction fixed in the RTN frame
+ *
+ * Gravity models use the context's central body. The drag, third-body and SRP
+ * models are Earth-centered (Earth atmosphere, geocentric ephemerides) and are
+ * only available around the Earth.
+ */
+
+import { CartesianState } from './types';
+import {
+  EARTH_ROTATION_RATE,
+  MOON_MU,
+  SUN_MU,
+  ASTRONOMICAL_UNIT,
+  SOLAR_RADIATION_PRESSURE,
+} from './constants';
+import { atmosphericDensity, altitudeOf } from './atmosphere';
+import { moonPosition } from './moon';
+import { sunPosition } from './sun';
+import { shadowState, ShadowState } from './eclipse';
+import { CentralBody, EARTH_BODY } from './centralBody';
+import { J2000_JD, SECONDS_PER_DAY } from './time';
+
+/**
+ * An engine burn for the 'thrust' force model. The thrust is constant from
+ * ignition to cutoff while the spacecraft's mass falls at the mass flow.
+ */
+export interface ThrustArc {
+  /** Sim time of ignition in seconds */
+  startTime: number;
+  /** Sim time of cutoff in seconds */
+  endTime: number;
+  /** Unit thrust direction in the RTN frame of the current state [radial, along-track, normal] */
+  direction: [number, number, number];
+  /** Engine thrust in N */
+  thrust: number;
+  /** Spacecraft mass at ignition in kg */
+  mass: number;
+  /** Propellant mass flow in kg/s */
+  massFlow: number;
+}
+
+/**
+ * Context available to force models when evaluating an acceleration.
+ */
+export interface ForceContext {
+  /** Simulation time in seconds at which the acceleration is evaluated */
+  time: number;
+  /** Spacecraft ballistic coefficient m / (Cd·A) in kg/m² (used by 'drag') */
+  ballisticCoefficient?: number;
+  /** Spacecraft reflectivity coefficient Cr (used by 'srp') */
+  reflectivityCoefficient?: number;
+  /** Spacecraft area-to-mass ratio A/m in m²/kg (used by 'srp') */
+  areaToMass?: number;
+  /** Julian date of simulation time 0 (used by the third-body and 'srp' models, defaults to J2000) */
+  epochJd?: number;
+  /** Body the orbit is propagated around (defaults to the Earth) */
+  centralBody?: CentralBody;
+  /** Engine burn (used by 'thrust') */
+  thrustArc?: ThrustArc;
+}
+
+/**
+ * A force model contributing an acceleration to the equations of motion.
+ */
+export interface ForceModel {
+  /** Unique registry name (used in scenarios) */
+  name: string;
+  /** Whether the model assumes the Earth as the central body */
+  earthOnly?: boolean;
+  /**
+   * Compute the acceleration on a spacecraft.
+   * @param state Cartesian state in ECI frame (meters, m/s)
+   * @param context Evaluation context
+   * @returns Acceleration [ax, ay, az] in m/s²
+   */
+  acceleration: (state: CartesianState, context: ForceContext) => [number, number, number];
+}
+
+/**
+ * Force models used when none are specified: pure two-body gravity.
+ */
+export const DEFAULT_FORCE_MODELS: string[] = ['central_gravity'];
+
+/**
+ * Ballistic coefficient used by 'drag' when the spacecraft does not specify one.
+ * Typical of a small satellite (e.g. 100 kg, Cd = 2.2, 1 m²). Units: kg/m²
+ */
+export const DEFAULT_BALLISTIC_COEFFICIENT = 50;
+
+/**
+ * Reflectivity coefficient used by 'srp' when the spacecraft does not specify one
+ * (1 for a perfect absorber, 2 for a perfect specular reflector).
+ */
+export const DEFAULT_REFLECTIVITY_COEFFICIENT = 1.3;
+
+/**
+ * Area-to-mass ratio used by 'srp' when the spacecraft does not specify one.
+ * Same small satellite as the default ballistic coefficient (100 kg, 1 m²). Units: m²/kg
+ */
+export const DEFAULT_AREA_TO_MASS = 0.01;
+
+/**
+ * Fraction of the sunlight reaching the spacecraft in each shadow state.
+ * The penumbra is taken as half lit.
+ */
+const SUNLIGHT_FRACTION: Record<ShadowState, number> = {
+  sunlit: 1,
+  penumbra: 0.5,
+  umbra: 0,
+};
+
+const registry = new Map<string, ForceModel>();
+
+/**
+ * Register a force model, replacing any existing model with the same name.
+ * @param model Force model to register
+ */
+export function registerForceModel(model: ForceModel): void {
+  registry.set(model.name, model);
+}
+
+/**
+ * Look up a registered force model.
+ * @param name Registry name
+ * @returns The force model
+ * @throws Error if no model is registered under this name
+ */
+export function getForceModel(name: string): ForceModel {
+  const model = registry.get(name);
+  if (!model) {
+    throw new Error(`Unknown force model "${name}"`);
+  }
+  return model;
+}
+
+/**
+ * Whether a force model only applies around the Earth.
+ * @param name Registry name
+ * @returns True for registered Earth-only models (false for unknown names)
+ */
+export function isEarthOnlyForceModel(name: string): boolean {
+  return registry.get(name)?.earthOnly === true;
+}
+
+/**
+ * Get the names of all registered force models.
+ * @returns Sorted array of registry names
+ */
+export function getForceModelNames(): string[] {
+  return [...registry.keys()].sort();
+}
+
+/**
+ * Sum the accelerations of several force models.
+ * @param state Cartesian state in ECI frame
+ * @param context Evaluation context
+ * @param forces Names of the force models to include
+ * @returns Total acceleration [ax, ay, az] in m/s²
+ * @throws Error if an Earth-only model is used around another central body
+ */
+export function computeAcceleration(
+  state: CartesianState,
+  context: ForceContext,
+  forces: string[] = DEFAULT_FORCE_MODELS
+): [number, number, number] {
+  let ax = 0;
+  let ay = 0;
+  let az = 0;
+  const aroundEarth = (context.centralBody ?? EARTH_BODY).name === 'earth';
+  for (const name of forces) {
+    const model = getForceModel(name);
+    if (model.earthOnly && !aroundEarth) {
+      throw new Error(`The "${name}" force model is only available around the Earth`);
+    }
+    const [fx, fy, fz] = model.acceleration(state, context);
+    ax += fx;
+    ay += fy;
+    az += fz;
+  }
+  return [ax, ay, az];
+}
+
+/**
+ * Point-mass central gravity: a = -μ r / |r|³.
+ */
+export const centralGravityForce: ForceModel = {
+  name: 'central_gravity',
+  acceleration: (state, context) => {
+    const mu = (context.centralBody ?? EARTH_BODY).mu;
+    const [x, y, z] = state.position;
+    const r2 = x * x + y * y + z * z;
+    const r = Math.sqrt(r2);
+    const k = -mu / (r2 * r);
+    return [k * x, k * y, k * z];
+  },
+};
+
+/**
+ * J2 zonal harmonic perturbation (oblateness of the central body).
+ */
+export const j2Force: ForceModel = {
+  name: 'j2',
+  acceleration: (state, context) => {
+    const { mu, j2, equatorialRadius } = context.centralBody ?? EARTH_BODY;
+    const [x, y, z] = state.position;
+    const r2 = x * x + y * y + z * z;
+    const r = Math.sqrt(r2);
+    const zr2 = (z * z) / r2;
+    const k = (-1.5 * j2 * mu * equatorialRadius * equatorialRadius) / (r2 * r2 * r);
+    return [k * x * (1 - 5 * zr2), k * y * (1 - 5 * zr2), k * z * (3 - 5 * zr2)];
+  },
+};
+
+/**
+ * Atmospheric drag: a = -½ ρ |v_rel| v_rel / B, where v_rel = v - ω⊕ × r is the
+ * velocity relative to the co-rotating atmosphere and B the ballistic coefficient.
+ */
+export const dragForce: ForceModel = {
+  name: 'drag',
+  earthOnly: true,
+  acceleration: (state, context) => {
+    const density = atmosphericDensity(altitudeOf(state));
+    if (density === 0) {
+      return [0, 0, 0];
+    }
+
+    const [x, y] = state.position;
+    const [vx, vy, vz] = state.velocity;
+    const vrx = vx + EARTH_ROTATION_RATE * y;
+    const vry = vy - EARTH_ROTATION_RATE * x;
+    const vrz = vz;
+    const vRel = Math.sqrt(vrx * vrx + vry * vry + vrz * vrz);
+    const ballisticCoefficient = context.ballisticCoefficient ?? DEFAULT_BALLISTIC_COEFFICIENT;
+    const k = (-0.5 * density * vRel) / ballisticCoefficient;
+    return [k * vrx, k * vry, k * vrz];
+  },
+};
+
+/**
+ * Julian date at which a force model is evaluated.
+ * @param context Evaluation context
+ * @returns Julian date of context.time
+ */
+export function contextJulianDate(context: ForceContext): number {
+  return (context.epochJd ?? J2000_JD) + context.time / SECONDS_PER_DAY;
+}
+
+/**
+ * Third-body point-mass perturbation: the body's pull on the spacecraft minus
+ * its pull on the Earth (the ECI frame accelerates with the Earth),
+ * a = μ₃ [(r₃ - r) / |r₃ - r|³ - r₃ / |r₃|³].
+ * @param position Spacecraft position relative to the Earth (meters)
+ * @param body Third body position relative to the Earth (meters)
+ * @param mu Third body gravitational parameter (m³/s²)
+ * @returns Acceleration [ax, ay, az] in m/s²
+ */
+export function thirdBodyAcceleration(
+  position: [number, number, number],
+  body: [number, number, number],
+  mu: number
+): [number, number, number] {
+  const dx = body[0] - position[0];
+  const dy = body[1] - position[1];
+  const dz = body[2] - position[2];
+  const d2 = dx * dx + dy * dy + dz * dz;
+  const kd = mu / (d2 * Math.sqrt(d2));
+
+  const r2 = body[0] * body[0] + body[1] * body[1] + body[2] * body[2];
+  const kb = mu / (r2 * Math.sqrt(r2));
+
+  return [kd * dx - kb * body[0], kd * dy - kb * body[1], kd * dz - kb * body[2]];
+}
+
+/**
+ * Lunar third-body gravity, with the Moon from the analytic ephemeris.
+ */
+export const moonGravityForce: ForceModel = {
+  name: 'moon_gravity',
+  earthOnly: true,
+  acceleration: (state, context) =>
+    thirdBodyAcceleration(state.position, moonPosition(contextJulianDate(context)), MOON_MU),
+};
+
+/**
+ * Solar third-body gravity, with the Sun from the analytic ephemeris.
+ */
+export const sunGravityForce: ForceModel = {
+  name: 'sun_gravity',
+  earthOnly: true,
+  acceleration: (state, context) =>
+    thirdBodyAcceleration(state.position, sunPosition(contextJulianDate(context)), SUN_MU),
+};
+
+/**
+ * Cannonball solar radiation pressure: a = -ν P⊙ Cr (A/m) (AU / |s|)² ŝ, where
+ * s = r⊙ - r points from the spacecraft to the Sun and ν is the fraction of
+ * sunlight reaching the spacecraft past the Earth (see shadowState).
+ */
+export const srpForce: ForceModel = {
+  name: 'srp',
+  earthOnly: true,
+  acceleration: (state, context) => {
+    const sun = sunPosition(contextJulianDate(context));
+    const sunlight = SUNLIGHT_FRACTION[shadowState(state.position, sun)];
+    if (sunlight === 0) {
+      return [0, 0, 0];
+    }
+
+    const sx = sun[0] - state.position[0];
+    const sy = sun[1] - state.position[1];
+    const sz = sun[2] - state.position[2];
+    const s2 = sx * sx + sy * sy + sz * sz;
+    const reflectivity = context.reflectivityCoefficient ?? DEFAULT_REFLECTIVITY_COEFFICIENT;
+    const areaToMass = context.areaToMass ?? DEFAULT_AREA_TO_MASS;
+    const pressure = (SOLAR_RADIATION_PRESSURE * ASTRONOMICAL_UNIT * ASTRONOMICAL_UNIT) / s2;
+    const k = (-sunlight * pressure * reflectivity * areaToMass) / Math.sqrt(s2);
+    return [k * sx, k * sy, k * sz];
+  },
+};
+
+/**
+ * Engine thrust: a = F / (m₀ - ṁ (t - t₀)) û from ignition t₀ to cutoff (both
+ * included, so integrate the arc on its own rather than across its ends),
+ * where û is the arc's direction turned from the RTN frame of the current
+ * state into ECI. No acceleration outside the arc or without one.
+ */
+export const thrustForce: ForceModel = {
+  name: 'thrust',
+  acceleration: (state, context) => {
+    const arc = context.thrustArc;
+    if (!arc || context.time < arc.startTime || context.time > arc.endTime) {
+      return [0, 0, 0];
+    }
+
+    // RTN axes: radial along r, normal along h = r × v, along-track completing the triad
+    const [x, y, z] = state.position;
+    const [vx, vy, vz] = state.velocity;
+    const r = Math.sqrt(x * x + y * y + z * z);
+    const hx = y * vz - z * vy;
+    const hy = z * vx - x * vz;
+    const hz = x * vy - y * vx;
+    const h = Math.sqrt(hx * hx + hy * hy + hz * hz);
+    const R = [x / r, y / r, z / r];
+    const N = [hx / h, hy / h, hz / h];
+    const T = [N[1]! * R[2]! - N[2]! * R[1]!, N[2]! * R[0]! - N[0]! * R[2]!, N[0]! * R[1]! - N[1]! * R[0]!];
+
+    const [dr, dt, dn] = arc.direction;
+    const k = arc.thrust / (arc.mass - arc.massFlow * (context.time - arc.startTime));
+    return [0, 1, 2].map((i) => k * (dr * R[i]! + dt * T[i]! + dn * N[i]!)) as [number, number, number];
+  },
+};
+
+registerForceModel(centralGravityForce);
+registerForceModel(j2Force);
+registerForceModel(dragForce);
+registerForceModel(moonGravityForce);
+registerForceModel(sunGravityForce);
+registerForceModel(srpForce);
+registerForceModel(thrustForce);
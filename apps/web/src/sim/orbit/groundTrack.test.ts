@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import {
+  computeGroundTrack,
+  splitAtAntimeridian,
+  subSatellitePoint,
+  orbitalPeriod,
+  GroundTrackPoint,
+} from './groundTrack';
+import { elementsToCartesian } from './conversions';
+import { EARTH_EQUATORIAL_RADIUS, EARTH_ROTATION_RATE } from './constants';
+import { greenwichMeanSiderealTime, J2000_JD, SECONDS_PER_DAY } from './time';
+import { CartesianState } from './types';
+
+const DEG = Math.PI / 180;
+
+/** Circular 500 km orbit at 51.6° inclination, starting at the ascending node */
+const ISS_LIKE: CartesianState = elementsToCartesian({
+  a: EARTH_EQUATORIAL_RADIUS + 500e3,
+  e: 0,
+  i: 51.6 * DEG,
+  Ω: 0,
+  ω: 0,
+  ν: 0,
+});
+
+function point(longitude: number, latitude: number, time: number): GroundTrackPoint {
+  return { latitude: latitude * DEG, longitude: longitude * DEG, altitude: 0, time };
+}
+
+describe('groundTrack', () => {
+  it('finds the sub-satellite point in the rotating Earth frame', () => {
+    const gmst = greenwichMeanSiderealTime(J2000_JD);
+    const r = EARTH_EQUATORIAL_RADIUS + 1000e3;
+
+    // Over Greenwich: along the ECI direction of the prime meridian at that instant
+    const greenwich = subSatellitePoint([r * Math.cos(gmst), r * Math.sin(gmst), 0], J2000_JD);
+    expect(greenwich.latitude).toBeCloseTo(0, 9);
+    expect(greenwich.longitude).toBeCloseTo(0, 9);
+    expect(greenwich.altitude).toBeCloseTo(1000e3, 3);
+
+    // Six sidereal hours later the same inertial point lies 90° further west
+    const later = subSatellitePoint([r * Math.cos(gmst), r * Math.sin(gmst), 0], J2000_JD + 0.25 * 0.99727);
+    expect(later.longitude).toBeCloseTo(-Math.PI / 2, 3);
+  });
+
+  it('samples whole revolutions on either side of the current time', () => {
+    const period = orbitalPeriod(ISS_LIKE);
+    const track = computeGroundTrack(ISS_LIKE, 1000, J2000_JD, {
+      pastRevolutions: 1,
+      futureRevolutions: 2,
+      samplesPerRevolution: 60,
+    });
+
+    expect(track).toHaveLength(60 + 1 + 120);
+    expect(track[0]!.time).toBeCloseTo(1000 - period, 6);
+    expect(track[60]!.time).toBe(1000);
+    expect(track[track.length - 1]!.time).toBeCloseTo(1000 + 2 * period, 6);
+
+    // The current sample is the current sub-satellite point
+    const now = subSatellitePoint(ISS_LIKE.position, J2000_JD + 1000 / SECONDS_PER_DAY);
+    expect(track[60]!.longitude).toBeCloseTo(now.longitude, 12);
+    expect(track[60]!.latitude).toBeCloseTo(now.latitude, 12);
+  });
+
+  it('reaches the inclination in latitude and drifts west by the Earth rotation each revolution', () => {
+    const period = orbitalPeriod(ISS_LIKE);
+    const track = computeGroundTrack(ISS_LIKE, 0, J2000_JD, {
+      pastRevolutions: 0,
+      futureRevolutions: 1,
+      samplesPerRevolution: 360,
+    });
+
+    const maxLatitude = Math.max(...track.map((p) => p.latitude));
+    // Geodetic latitude runs slightly above the geocentric inclination
+    expect(maxLatitude).toBeGreaterThan(51.6 * DEG - 0.002);
+    expect(maxLatitude).toBeLessThan(51.6 * DEG + 0.005);
+
+    // One revolution later the ascending node has moved west by ωE·T
+    const first = track[0]!;
+    const last = track[track.length - 1]!;
+    expect(last.latitude).toBeCloseTo(0, 6);
+    expect(last.longitude - first.longitude).toBeCloseTo(-EARTH_ROTATION_RATE * period, 4);
+  });
+
+  it('uses the agent propagator for each sample', () => {
+    const kepler = computeGroundTrack(ISS_LIKE, 0, J2000_JD, { pastRevolutions: 0, futureRevolutions: 3 });
+    const j2 = computeGroundTrack(ISS_LIKE, 0, J2000_JD, {
+      pastRevolutions: 0,
+      futureRevolutions: 3,
+      propagator: 'j2',
+    });
+
+    // Nodal regression moves the J2 track west of the two-body track
+    expect(j2[j2.length - 1]!.longitude).toBeLessThan(kepler[kepler.length - 1]!.longitude - 0.005);
+  });
+
+  it('returns no track for escape trajectories', () => {
+    const escape: CartesianState = { position: [7000e3, 0, 0], velocity: [0, 12000, 0] };
+
+    expect(orbitalPeriod(escape)).toBe(Infinity);
+    expect(computeGroundTrack(escape, 0, J2000_JD, { pastRevolutions: 1, futureRevolutions: 1 })).toEqual([]);
+  });
+
+  describe('splitAtAntimeridian', () => {
+    it('splits an eastward crossing at +180° and resumes at -180°', () => {
+      const segments = splitAtAntimeridian([point(170, 0, 0), point(178, 2, 10), point(-178, 6, 20), point(-170, 8, 30)]);
+
+      expect(segments).toHaveLength(2);
+      const [west, east] = segments;
+      expect(west).toHaveLength(3);
+      expect(east).toHaveLength(3);
+      expect(west![2]!.longitude).toBe(Math.PI);
+      expect(east![0]!.longitude).toBe(-Math.PI);
+      // Halfway between 178° and 182°
+      expect(west![2]!.latitude).toBeCloseTo(4 * DEG, 12);
+      expect(east![0]!.time).toBeCloseTo(15, 12);
+    });
+
+    it('splits a westward crossing at -180° and resumes at +180°', () => {
+      const segments = splitAtAntimeridian([point(-179, 0, 0), point(177, -4, 40)]);
+
+      expect(segments).toHaveLength(2);
+      expect(segments[0]![1]!.longitude).toBe(-Math.PI);
+      expect(segments[1]![0]!.longitude).toBe(Math.PI);
+      expect(segments[0]![1]!.latitude).toBeCloseTo(-1 * DEG, 12);
+      expect(segments[1]![0]!.time).toBeCloseTo(10, 12);
+    });
+
+    it('leaves no jumps across the map in a multi-revolution track', () => {
+      const track = computeGroundTrack(ISS_LIKE, 0, J2000_JD, { pastRevolutions: 2, futureRevolutions: 2 });
+      const segments = splitAtAntimeridian(track);
+
+      // Roughly one crossing per revolution
+      expect(segments.length).toBeGreaterThanOrEqual(4);
+      for (const segment of segments) {
+        for (let index = 1; index < segment.length; index++) {
+          expect(Math.abs(segment[index]!.longitude - segment[index - 1]!.longitude)).toBeLessThan(Math.PI);
+        }
+      }
+      expect(splitAtAntimeridian([])).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * Ground tracks: the path of the sub-satellite point over the rotating Earth.
+ * Samples are propagated with the agent's own propagator and rotated into the
+ * Earth-fixed frame with the sidereal time of each sample.
+ */
+
+import { CartesianState, GeodeticCoordinates, PropagatorType } from './types';
+import { cartesianToElements, ecefToGeodetic, eciToEcef } from './conversions';
+import { EARTH_MU } from './constants';
+import { propagate, PropagateOptions } from './propagator';
+import { greenwichMeanSiderealTime, SECONDS_PER_DAY } from './time';
+
+/**
+ * Default number of samples per revolution (4° of mean anomaly apart).
+ */
+export const DEFAULT_GROUND_TRACK_SAMPLES = 90;
+
+/**
+ * Point on a ground track.
+ */
+export interface GroundTrackPoint extends GeodeticCoordinates {
+  /** Simulation time of the sample in seconds */
+  time: number;
+}
+
+/**
+ * Options for computeGroundTrack().
+ */
+export interface GroundTrackOptions {
+  /** Revolutions drawn before the current time */
+  pastRevolutions: number;
+  /** Revolutions drawn after the current time */
+  futureRevolutions: number;
+  /** Samples per revolution (defaults to DEFAULT_GROUND_TRACK_SAMPLES) */
+  samplesPerRevolution?: number;
+  /** Propagation model (defaults to 'kepler') */
+  propagator?: PropagatorType;
+  /** Options passed to propagate() (startTime is set per sample) */
+  propagateOptions?: PropagateOptions;
+}
+
+/**
+ * Sub-satellite point (geodetic latitude, longitude and altitude) of an ECI position.
+ * @param position Position in ECI frame (meters)
+ * @param jd Julian date of the position, used for the Earth's rotation angle
+ * @returns Geodetic coordinates (radians, meters)
+ */
+export function subSatellitePoint(
+  position: [number, number, number],
+  jd: number
+): GeodeticCoordinates {
+  return ecefToGeodetic(eciToEcef(position, greenwichMeanSiderealTime(jd)));
+}
+
+/**
+ * Two-body orbital period of a state.
+ * @param state Cartesian state in ECI frame
+ * @returns Period in seconds (Infinity for escape trajectories)
+ */
+export function orbitalPeriod(state: CartesianState): number {
+  const { a, e } = cartesianToElements(state);
+  if (e >= 1 || !(a > 0) || !isFinite(a)) {
+    return Infinity;
+  }
+  return 2 * Math.PI * Math.sqrt((a * a * a) / EARTH_MU);
+}
+
+/**
+ * Propagate samples from a state, chaining each from the previous one so
+ * numerical propagators integrate the span once.
+ */
+function sampleStates(
+  state: CartesianState,
+  time: number,
+  step: number,
+  count: number,
+  propagator: PropagatorType,
+  propagateOptions: PropagateOptions | undefined
+): { time: number; state: CartesianState }[] {
+  const samples: { time: number; state: CartesianState }[] = [];
+  let current = state;
+  for (let index = 1; index <= count; index++) {
+    const startTime = time + (index - 1) * step;
+    current = propagate(current, step, propagator, { ...propagateOptions, startTime });
+    samples.push({ time: startTime + step, state: current });
+  }
+  return samples;
+}
+
+/**
+ * Ground track of a state over whole revolutions before and after the current time.
+ * Escape trajectories have no period and produce an empty track.
+ *
+ * @param state Cartesian state in ECI frame at the current time
+ * @param time Current simulation time in seconds
+ * @param epochJd Julian date of simulation time 0
+ * @param options Revolutions, sampling and propagation model
+ * @returns Points ordered by time, including the current sub-satellite point
+ */
+export function computeGroundTrack(
+  state: CartesianState,
+  time: number,
+  epochJd: number,
+  options: GroundTrackOptions
+): GroundTrackPoint[] {
+  const period = orbitalPeriod(state);
+  if (!isFinite(period)) {
+    return [];
+  }
+
+  const samplesPerRevolution = options.samplesPerRevolution ?? DEFAULT_GROUND_TRACK_SAMPLES;
+  const step = period / samplesPerRevolution;
+  const propagator = options.propagator ?? 'kepler';
+
+  const past = sampleStates(
+    state,
+    time,
+    -step,
+    Math.round(options.pastRevolutions * samplesPerRevolution),
+    propagator,
+    options.propagateOptions
+  ).reverse();
+  const future = sampleStates(
+    state,
+    time,
+    step,
+    Math.round(options.futureRevolutions * samplesPerRevolution),
+    propagator,
+    options.propagateOptions
+  );
+
+  return [...past, { time, state }, ...future].map((sample) => ({
+    ...subSatellitePoint(sample.state.position, epochJd + sample.time / SECONDS_PER_DAY),
+    time: sample.time,
+  }));
+}
+
+/**
+ * Split a ground track where it crosses the ±180° meridian, so each segment
+ * can be drawn without a line wrapping back across the map. The crossing is
+ * interpolated and ends one segment at +π (or -π) and starts the next at -π (or +π).
+ * @param points Ground track points ordered by time
+ * @returns Segments with longitudes in [-π, π] and no jumps larger than π
+ */
+export function splitAtAntimeridian(points: GroundTrackPoint[]): GroundTrackPoint[][] {
+  const segments: GroundTrackPoint[][] = [];
+  let segment: GroundTrackPoint[] = [];
+
+  for (const point of points) {
+    const previous = segment[segment.length - 1];
+    if (previous && Math.abs(point.longitude - previous.longitude) > Math.PI) {
+      // Eastward crossings leave at +π and come back in at -π; westward the reverse
+      const edge = point.longitude < previous.longitude ? Math.PI : -Math.PI;
+      const unwrapped = point.longitude + 2 * edge;
+      const fraction = (edge - previous.longitude) / (unwrapped - previous.longitude);
+      const interpolate = (from: number, to: number) => from + fraction * (to - from);
+      const crossing = {
+        latitude: interpolate(previous.latitude, point.latitude),
+        altitude: interpolate(previous.altitude, point.altitude),
+        time: interpolate(previous.time, point.time),
+      };
+
+      segment.push({ ...crossing, longitude: edge });
+      segments.push(segment);
+      segment = [{ ...crossing, longitude: -edge }];
+    }
+    segment.push(point);
+  }
+
+  if (segment.length > 0) {
+    segments.push(segment);
+  }
+  return segments;
+}
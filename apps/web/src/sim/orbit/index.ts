@@ -6,6 +6,25 @@
 
 export * from './types';
 export * from './constants';
+export * from './centralBody';
 export * from './conversions';
+export * from './vector';
 export * from './propagator';
+export * from './universal';
+export * from './forces';
+export * from './integrators';
+export * from './numerical';
 
+export * from './atmosphere';
+export * from './decay';
+export * from './batch';
+
+export * from './time';
+export * from './tle';
+export * from './sgp4';
+export * from './ephemeris';
+export * from './ephemerisCache';
+export * from './groundTrack';
+export * from './sun';
+export * from './moon';
+export * from './eclipse';
@@ -0,0 +1,210 @@
+/**
+ * Runge-Kutta integrators for ordinary differential equations.
+ * Used by the numerical orbit propagator. State vectors are plain number
+ * arrays; for orbits this is [x, y, z, vx, vy, vz] in meters and m/s.
+ */
+
+/**
+ * Time derivative of a state vector: dy/dt = f(t, y).
+ */
+export type Derivative = (t: number, y: number[]) => number[];
+
+/**
+ * Available integration schemes.
+ * - 'rk4': classic fixed-step fourth-order Runge-Kutta
+ * - 'rk45': adaptive Dormand-Prince 5(4) embedded Runge-Kutta
+ */
+export type IntegratorType = 'rk4' | 'rk45';
+
+/**
+ * Options for the adaptive Dormand-Prince integrator.
+ */
+export interface AdaptiveStepOptions {
+  /** Relative error tolerance per step */
+  relTol: number;
+  /** Absolute error tolerance per step (state units) */
+  absTol: number;
+  /** First trial step size in seconds (defaults to min(span, maxStep)) */
+  initialStep?: number;
+  /** Largest allowed step size in seconds */
+  maxStep: number;
+  /** Maximum number of accepted + rejected steps before giving up */
+  maxSteps: number;
+}
+
+/**
+ * Default adaptive integration options (tuned for Earth orbits).
+ */
+export const DEFAULT_ADAPTIVE_OPTIONS: AdaptiveStepOptions = {
+  relTol: 1e-10,
+  absTol: 1e-6,
+  maxStep: 300,
+  maxSteps: 100000,
+};
+
+/**
+ * Compute y + h * Σ(bᵢ · kᵢ).
+ */
+function combine(y: number[], h: number, ks: number[][], bs: number[]): number[] {
+  const out = new Array<number>(y.length);
+  for (let j = 0; j < y.length; j++) {
+    let sum = 0;
+    for (let s = 0; s < bs.length; s++) {
+      const b = bs[s]!;
+      if (b !== 0) {
+        sum += b * ks[s]![j]!;
+      }
+    }
+    out[j] = y[j]! + h * sum;
+  }
+  return out;
+}
+
+/**
+ * Take one classic fourth-order Runge-Kutta step.
+ * @param f Derivative function
+ * @param t Current time (s)
+ * @param y Current state
+ * @param h Step size (s, may be negative)
+ * @returns State at t + h
+ */
+export function rk4Step(f: Derivative, t: number, y: number[], h: number): number[] {
+  const k1 = f(t, y);
+  const k2 = f(t + h / 2, combine(y, h / 2, [k1], [1]));
+  const k3 = f(t + h / 2, combine(y, h / 2, [k2], [1]));
+  const k4 = f(t + h, combine(y, h, [k3], [1]));
+  return combine(y, h, [k1, k2, k3, k4], [1 / 6, 1 / 3, 1 / 3, 1 / 6]);
+}
+
+/**
+ * Integrate from t0 to t1 with fixed-size RK4 steps.
+ * The span is divided into equal steps no larger than maxStep.
+ *
+ * @param f Derivative function
+ * @param t0 Start time (s)
+ * @param y0 Initial state
+ * @param t1 End time (s)
+ * @param maxStep Largest step size in seconds
+ * @returns State at t1
+ */
+export function integrateRk4(
+  f: Derivative,
+  t0: number,
+  y0: number[],
+  t1: number,
+  maxStep: number
+): number[] {
+  const span = t1 - t0;
+  if (span === 0) {
+    return [...y0];
+  }
+
+  const numSteps = Math.max(1, Math.ceil(Math.abs(span) / maxStep));
+  const h = span / numSteps;
+
+  let y = y0;
+  for (let i = 0; i < numSteps; i++) {
+    y = rk4Step(f, t0 + i * h, y, h);
+  }
+  return y;
+}
+
+// Dormand-Prince 5(4) Butcher tableau
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1];
+const DP_A: number[][] = [
+  [],
+  [1 / 5],
+  [3 / 40, 9 / 40],
+  [44 / 45, -56 / 15, 32 / 9],
+  [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+  [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+  [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+];
+// 5th-order weights (identical to the last row of A: first-same-as-last)
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0];
+// Difference between 5th- and 4th-order weights (error estimate)
+const DP_E = [
+  35 / 384 - 5179 / 57600,
+  0,
+  500 / 1113 - 7571 / 16695,
+  125 / 192 - 393 / 640,
+  -2187 / 6784 + 92097 / 339200,
+  11 / 84 - 187 / 2100,
+  -1 / 40,
+];
+
+/**
+ * Integrate from t0 to t1 with the adaptive Dormand-Prince 5(4) method.
+ * Step size is controlled so the local error estimate stays within
+ * absTol + relTol·|y| for every component. The final step is shortened to
+ * land exactly on t1, so results are deterministic for a given input.
+ *
+ * @param f Derivative function
+ * @param t0 Start time (s)
+ * @param y0 Initial state
+ * @param t1 End time (s)
+ * @param options Tolerances and step limits
+ * @returns State at t1
+ * @throws Error if the step budget is exhausted
+ */
+export function integrateDormandPrince(
+  f: Derivative,
+  t0: number,
+  y0: number[],
+  t1: number,
+  options: AdaptiveStepOptions = DEFAULT_ADAPTIVE_OPTIONS
+): number[] {
+  const span = t1 - t0;
+  if (span === 0) {
+    return [...y0];
+  }
+
+  const direction = Math.sign(span);
+  let h = direction * Math.min(Math.abs(span), options.initialStep ?? options.maxStep, options.maxStep);
+  let t = t0;
+  let y = y0;
+  let k1 = f(t, y);
+
+  for (let step = 0; step < options.maxSteps; step++) {
+    // Clamp the last step so we finish exactly at t1
+    const remaining = t1 - t;
+    if (remaining === 0) {
+      return y;
+    }
+    if (Math.abs(h) > Math.abs(remaining)) {
+      h = remaining;
+    }
+
+    const ks: number[][] = [k1];
+    for (let s = 1; s < 7; s++) {
+      ks.push(f(t + DP_C[s]! * h, combine(y, h, ks, DP_A[s]!)));
+    }
+    const yNew = combine(y, h, ks, DP_B5);
+
+    // Scaled RMS norm of the embedded error estimate
+    let errSum = 0;
+    for (let j = 0; j < y.length; j++) {
+      let e = 0;
+      for (let s = 0; s < 7; s++) {
+        e += DP_E[s]! * ks[s]![j]!;
+      }
+      e *= h;
+      const scale = options.absTol + options.relTol * Math.max(Math.abs(y[j]!), Math.abs(yNew[j]!));
+      errSum += (e / scale) * (e / scale);
+    }
+    const err = Math.sqrt(errSum / y.length);
+
+    if (err <= 1) {
+      // Accept step
+      t = h === remaining ? t1 : t + h;
+      y = yNew;
+      k1 = ks[6]!; // First-same-as-last
+    }
+
+    // Adjust step size (safety factor 0.9, growth limited to [0.2, 5])
+    const factor = err === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(err, -0.2)));
+    h = direction * Math.min(Math.abs(h * factor), options.maxStep);
+  }
+
+  throw new Error(`Adaptive integration did not converge within ${options.maxSteps} steps`);
+}
@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { moonPosition } from './moon';
+import { julianDateFromIso } from './time';
+import { dot, magnitude } from './vector';
+
+describe('moon', () => {
+  it('matches Vallado Example 5-3 (1994-04-28 00:00)', () => {
+    const moon = moonPosition(2449470.5).map((value) => value / 1000);
+
+    expect(moon[0]).toBeCloseTo(-134240.626, 2);
+    expect(moon[1]).toBeCloseTo(-311571.59, 2);
+    expect(moon[2]).toBeCloseTo(-126693.785, 2);
+  });
+
+  it('stays between perigee and apogee distances over a month', () => {
+    const start = julianDateFromIso('2024-01-01T00:00:00Z');
+    const distances = Array.from({ length: 60 }, (_, day) => magnitude(moonPosition(start + day / 2)));
+
+    expect(Math.min(...distances)).toBeGreaterThan(356000e3);
+    expect(Math.max(...distances)).toBeLessThan(407000e3);
+  });
+
+  it('completes a sidereal month in about 27.3 days', () => {
+    const start = julianDateFromIso('2024-01-01T00:00:00Z');
+    const a = moonPosition(start);
+    const b = moonPosition(start + 27.32);
+    const cosAngle = dot(a, b) / (magnitude(a) * magnitude(b));
+
+    // Within about 3° of the starting direction (perturbations shift it a little)
+    expect(Math.acos(Math.min(1, cosAngle)) * 180 / Math.PI).toBeLessThan(3);
+  });
+});
@@ -0,0 +1,323 @@
+import { describe, it, expect } from 'vitest';
+import { propagateNumerical, propagateNumericalBatch } from './numerical';
+import { propagateKepler, propagateKeplerBatch, computeJ2SecularRates } from './propagator';
+import {
+  registerForceModel,
+  getForceModel,
+  computeAcceleration,
+  thirdBodyAcceleration,
+  DEFAULT_REFLECTIVITY_COEFFICIENT,
+  DEFAULT_AREA_TO_MASS,
+  ThrustArc,
+} from './forces';
+import { elementsToCartesian, cartesianToElements } from './conversions';
+import { OrbitalElements, CartesianState } from './types';
+import { EARTH_MU, MOON_MU, ASTRONOMICAL_UNIT, SOLAR_RADIATION_PRESSURE } from './constants';
+import { moonPosition } from './moon';
+import { sunPosition } from './sun';
+import { J2000_JD, julianDateFromIso } from './time';
+import { distance } from './vector';
+
+describe('numerical propagator', () => {
+  const elements: OrbitalElements = {
+    a: 7000e3,
+    e: 0.1,
+    i: Math.PI / 6,
+    Ω: Math.PI / 4,
+    ω: Math.PI / 3,
+    ν: 0,
+  };
+  const initialState = elementsToCartesian(elements);
+  const period = 2 * Math.PI * Math.sqrt(elements.a ** 3 / EARTH_MU);
+
+  describe('propagateNumerical', () => {
+    it('matches Kepler propagation over one orbit with adaptive RK45', () => {
+      const numerical = propagateNumerical(initialState, period);
+      const kepler = propagateKepler(initialState, period);
+
+      expect(distance(numerical.position, kepler.position)).toBeLessThan(1);
+      expect(distance(numerical.velocity, kepler.velocity)).toBeLessThan(1e-3);
+    });
+
+    it('matches Kepler propagation over one orbit with fixed-step RK4', () => {
+      const numerical = propagateNumerical(initialState, period, {
+        integrator: 'rk4',
+        maxStep: 10,
+      });
+      const kepler = propagateKepler(initialState, period);
+
+      expect(distance(numerical.position, kepler.position)).toBeLessThan(1);
+    });
+
+    it('propagates backwards in time', () => {
+      const forward = propagateNumerical(initialState, 1800);
+      const back = propagateNumerical(forward, -1800);
+
+      expect(distance(back.position, initialState.position)).toBeLessThan(0.01);
+    });
+
+    it('returns the initial state for a zero time step', () => {
+      const result = propagateNumerical(initialState, 0);
+      expect(result).toEqual(initialState);
+    });
+
+    it('handles hyperbolic states', () => {
+      const r = 7000e3;
+      const escape = Math.sqrt((2 * EARTH_MU) / r);
+      const state: CartesianState = {
+        position: [r, 0, 0],
+        velocity: [0, escape * 1.2, 0],
+      };
+
+      const result = propagateNumerical(state, 3600);
+      const rFinal = Math.sqrt(result.position[0] ** 2 + result.position[1] ** 2 + result.position[2] ** 2);
+      const vFinal = Math.sqrt(result.velocity[0] ** 2 + result.velocity[1] ** 2 + result.velocity[2] ** 2);
+      const energy0 = (escape * 1.2) ** 2 / 2 - EARTH_MU / r;
+      const energy1 = vFinal ** 2 / 2 - EARTH_MU / rFinal;
+
+      expect(rFinal).toBeGreaterThan(r);
+      expect(energy1).toBeCloseTo(energy0, 2);
+    });
+
+    it('reproduces J2 nodal regression with the j2 force model', () => {
+      const leo: OrbitalElements = {
+        a: 6778e3,
+        e: 0.001,
+        i: (51.6 * Math.PI) / 180,
+        Ω: 1.0,
+        ω: 0,
+        ν: 0,
+      };
+      const state = elementsToCartesian(leo);
+      const leoPeriod = 2 * Math.PI * Math.sqrt(leo.a ** 3 / EARTH_MU);
+
+      // Compare after whole revolutions so short-period terms mostly cancel
+      const duration = 10 * leoPeriod;
+      const result = propagateNumerical(state, duration, {
+        forces: ['central_gravity', 'j2'],
+      });
+      const drift = cartesianToElements(result).Ω - leo.Ω;
+      const expected = computeJ2SecularRates(leo).raanRate * duration;
+
+      expect(drift).toBeLessThan(0);
+      expect(Math.abs(drift - expected)).toBeLessThan(Math.abs(expected) * 0.05);
+    });
+  });
+
+  describe('force model registry', () => {
+    it('sums contributions from registered force models', () => {
+      registerForceModel({
+        name: 'test_constant_push',
+        acceleration: () => [0.001, 0, 0],
+      });
+
+      const gravityOnly = computeAcceleration(initialState, { time: 0 }, ['central_gravity']);
+      const total = computeAcceleration(initialState, { time: 0 }, ['central_gravity', 'test_constant_push']);
+
+      expect(total[0]).toBeCloseTo(gravityOnly[0] + 0.001, 12);
+      expect(total[1]).toBeCloseTo(gravityOnly[1], 12);
+      expect(total[2]).toBeCloseTo(gravityOnly[2], 12);
+    });
+
+    it('throws for unknown force models', () => {
+      expect(() => getForceModel('does_not_exist')).toThrow('Unknown force model');
+      expect(() => propagateNumerical(initialState, 10, { forces: ['does_not_exist'] })).toThrow();
+    });
+
+    it('passes the simulation time to force models', () => {
+      const times: number[] = [];
+      registerForceModel({
+        name: 'test_time_probe',
+        acceleration: (_state, context) => {
+          times.push(context.time);
+          return [0, 0, 0];
+        },
+      });
+
+      propagateNumerical(initialState, 10, {
+        forces: ['central_gravity', 'test_time_probe'],
+        integrator: 'rk4',
+        maxStep: 10,
+        startTime: 500,
+      });
+
+      expect(Math.min(...times)).toBe(500);
+      expect(Math.max(...times)).toBe(510);
+    });
+
+    it('passes the epoch to force models', () => {
+      const epochs: (number | undefined)[] = [];
+      registerForceModel({
+        name: 'test_epoch_probe',
+        acceleration: (_state, context) => {
+          epochs.push(context.epochJd);
+          return [0, 0, 0];
+        },
+      });
+
+      propagateNumerical(initialState, 10, { forces: ['test_epoch_probe'], epochJd: 2460310.5 });
+
+      expect(epochs.length).toBeGreaterThan(0);
+      expect(epochs.every((epoch) => epoch === 2460310.5)).toBe(true);
+    });
+  });
+
+  describe('third-body gravity', () => {
+    const geoRadius = 42164e3;
+
+    it('stretches orbits along the line to the third body and squeezes them across it', () => {
+      const d = 384400e3;
+      const body: [number, number, number] = [d, 0, 0];
+      const tidal = (MOON_MU * geoRadius) / d ** 3;
+
+      // Between the Earth and the Moon the spacecraft is pulled toward the Moon
+      // harder than the Earth is
+      const toward = thirdBodyAcceleration([geoRadius, 0, 0], body, MOON_MU);
+      expect(toward[0]).toBeCloseTo(MOON_MU / (d - geoRadius) ** 2 - MOON_MU / d ** 2, 15);
+      expect(toward[0] / (2 * tidal)).toBeGreaterThan(1);
+
+      // At quadrature the net pull is back toward the Earth
+      const across = thirdBodyAcceleration([0, geoRadius, 0], body, MOON_MU);
+      expect(across[1]).toBeCloseTo((-MOON_MU * geoRadius) / (d * d + geoRadius * geoRadius) ** 1.5, 15);
+      expect(across[1] / -tidal).toBeCloseTo(1, 1);
+
+      // No perturbation at the Earth's center
+      expect(thirdBodyAcceleration([0, 0, 0], body, MOON_MU)).toEqual([0, 0, 0]);
+    });
+
+    it('evaluates the Moon at the epoch plus the simulation time', () => {
+      const state: CartesianState = { position: [geoRadius, 0, 0], velocity: [0, 3075, 0] };
+      const epochJd = julianDateFromIso('2024-01-01T00:00:00Z');
+
+      const acceleration = computeAcceleration(state, { time: 43200, epochJd }, ['moon_gravity']);
+      const expected = thirdBodyAcceleration(state.position, moonPosition(epochJd + 0.5), MOON_MU);
+      expect(acceleration).toEqual(expected);
+
+      // Without an epoch the sim time counts from J2000
+      const atJ2000 = computeAcceleration(state, { time: 0 }, ['moon_gravity']);
+      expect(atJ2000).toEqual(thirdBodyAcceleration(state.position, moonPosition(J2000_JD), MOON_MU));
+    });
+
+    it('tilts a GEO orbit by the lunisolar rate of about 0.9° per year', () => {
+      const geo = elementsToCartesian({ a: geoRadius, e: 0, i: 0, Ω: 0, ω: 0, ν: 0 });
+      const epochJd = julianDateFromIso('2024-01-01T00:00:00Z');
+      const month = 30 * 86400;
+
+      const twoBody = cartesianToElements(propagateNumerical(geo, month, { epochJd }));
+      const perturbed = cartesianToElements(
+        propagateNumerical(geo, month, { forces: ['central_gravity', 'moon_gravity', 'sun_gravity'], epochJd })
+      );
+      const degrees = (radians: number) => (radians * 180) / Math.PI;
+
+      expect(degrees(twoBody.i)).toBeLessThan(1e-6);
+      expect(degrees(perturbed.i)).toBeGreaterThan(0.05);
+      expect(degrees(perturbed.i)).toBeLessThan(0.12);
+    });
+  });
+
+  describe('solar radiation pressure', () => {
+    const epochJd = julianDateFromIso('2024-03-20T03:06:00Z');
+    const sun = sunPosition(epochJd);
+    const sunDistance = Math.sqrt(sun[0] ** 2 + sun[1] ** 2 + sun[2] ** 2);
+    const sunDirection = sun.map((component) => component / sunDistance) as [number, number, number];
+    const at = (radius: number): CartesianState => ({
+      position: [radius * sunDirection[0], radius * sunDirection[1], radius * sunDirection[2]],
+      velocity: [0, 0, 0],
+    });
+
+    it('pushes a sunlit spacecraft directly away from the Sun', () => {
+      const radius = 42164e3;
+      const acceleration = computeAcceleration(
+        at(radius),
+        { time: 0, epochJd, reflectivityCoefficient: 1.5, areaToMass: 0.02 },
+        ['srp']
+      );
+      const magnitude = SOLAR_RADIATION_PRESSURE * 1.5 * 0.02 * (ASTRONOMICAL_UNIT / (sunDistance - radius)) ** 2;
+
+      acceleration.forEach((component, index) => {
+        expect(component).toBeCloseTo(-magnitude * sunDirection[index]!, 15);
+      });
+    });
+
+    it('uses the default reflectivity and area-to-mass ratio', () => {
+      const [ax, ay, az] = computeAcceleration(at(7000e3), { time: 0, epochJd }, ['srp']);
+      const magnitude = Math.sqrt(ax * ax + ay * ay + az * az);
+      const expected =
+        SOLAR_RADIATION_PRESSURE *
+        DEFAULT_REFLECTIVITY_COEFFICIENT *
+        DEFAULT_AREA_TO_MASS *
+        (ASTRONOMICAL_UNIT / (sunDistance - 7000e3)) ** 2;
+
+      expect(magnitude).toBeCloseTo(expected, 15);
+    });
+
+    it('switches off in the Earth\'s shadow', () => {
+      expect(computeAcceleration(at(-7000e3), { time: 0, epochJd }, ['srp'])).toEqual([0, 0, 0]);
+    });
+
+    it('raises the eccentricity of a GEO orbit with a large area-to-mass ratio', () => {
+      const geo = elementsToCartesian({ a: 42164e3, e: 0, i: 0, Ω: 0, ω: 0, ν: 0 });
+      const tenDays = 10 * 86400;
+      const options = { epochJd, reflectivityCoefficient: 1.3, areaToMass: 0.02 };
+
+      const twoBody = cartesianToElements(propagateNumerical(geo, tenDays, options));
+      const perturbed = cartesianToElements(
+        propagateNumerical(geo, tenDays, { ...options, forces: ['central_gravity', 'srp'] })
+      );
+
+      expect(twoBody.e).toBeLessThan(1e-7);
+      expect(perturbed.e).toBeGreaterThan(2e-5);
+    });
+  });
+
+  describe('thrust', () => {
+    const circular = elementsToCartesian({ a: 7000e3, e: 0, i: 0.5, Ω: 0.2, ω: 0, ν: 0 });
+    const arc: ThrustArc = {
+      startTime: 100,
+      endTime: 110,
+      direction: [0, 1, 0],
+      thrust: 1000,
+      mass: 500,
+      massFlow: 0.5,
+    };
+    const options = { forces: ['central_gravity', 'thrust'], integrator: 'rk4' as const, maxStep: 1, thrustArc: arc };
+
+    it('pushes along the arc\'s RTN direction with the mass falling', () => {
+      const speed = Math.hypot(...circular.velocity);
+      const [ax, ay, az] = computeAcceleration(circular, { time: 104, thrustArc: arc }, ['thrust']);
+      const along = (ax * circular.velocity[0] + ay * circular.velocity[1] + az * circular.velocity[2]) / speed;
+
+      expect(along).toBeCloseTo(1000 / (500 - 0.5 * 4), 12);
+      expect(Math.hypot(ax, ay, az)).toBeCloseTo(along, 12);
+      expect(computeAcceleration(circular, { time: 99, thrustArc: arc }, ['thrust'])).toEqual([0, 0, 0]);
+      expect(computeAcceleration(circular, { time: 111, thrustArc: arc }, ['thrust'])).toEqual([0, 0, 0]);
+      expect(computeAcceleration(circular, { time: 104 }, ['thrust'])).toEqual([0, 0, 0]);
+    });
+
+    it('delivers the rocket equation delta-v over the arc', () => {
+      const burned = propagateNumerical(circular, 10, { ...options, startTime: 100 });
+      const coasted = propagateNumerical(circular, 10, { ...options, forces: ['central_gravity'], startTime: 100 });
+
+      // Δv = (F / ṁ) ln(m₀ / m₁)
+      expect(distance(burned.velocity, coasted.velocity)).toBeCloseTo((1000 / 0.5) * Math.log(500 / 495), 2);
+
+      // Outside the arc the spacecraft coasts
+      const early = propagateNumerical(circular, 10, { ...options, startTime: 0 });
+      expect(distance(early.position, propagateKepler(circular, 10).position)).toBeLessThan(1e-3);
+    });
+  });
+
+  describe('propagateNumericalBatch', () => {
+    it('can be swapped in for propagateKeplerBatch', () => {
+      const states = [initialState, elementsToCartesian({ ...elements, a: 8000e3, ν: 1 })];
+
+      const numerical = propagateNumericalBatch(states, 600);
+      const kepler = propagateKeplerBatch(states, 600);
+
+      expect(numerical).toHaveLength(2);
+      numerical.forEach((state, index) => {
+        expect(distance(state.position, kepler[index]!.position)).toBeLessThan(0.1);
+      });
+    });
+  });
+});
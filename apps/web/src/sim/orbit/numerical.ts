@@ -0,0 +1,127 @@
+/**
+ * Numerical orbit propagator (Cowell's method).
+ * Integrates the Cartesian equations of motion r'' = Σ aᵢ(r, v, t) where the
+ * accelerations come from the force model registry. Unlike the analytical
+ * propagators this handles any non-Keplerian acceleration.
+ */
+
+import { CartesianState } from './types';
+import { computeAcceleration, DEFAULT_FORCE_MODELS, ForceContext, ThrustArc } from './forces';
+import { CentralBody } from './centralBody';
+import {
+  IntegratorType,
+  Derivative,
+  integrateRk4,
+  integrateDormandPrince,
+  DEFAULT_ADAPTIVE_OPTIONS,
+} from './integrators';
+
+/**
+ * Options for numerical propagation.
+ */
+export interface NumericalPropagatorOptions {
+  /** Integration scheme (defaults to adaptive 'rk45') */
+  integrator?: IntegratorType;
+  /** Force models to include (defaults to central gravity only) */
+  forces?: string[];
+  /** Simulation time at the start of the step in seconds (defaults to 0) */
+  startTime?: number;
+  /** Largest step size in seconds (RK4 fixed step / RK45 step limit) */
+  maxStep?: number;
+  /** Relative error tolerance for 'rk45' */
+  relTol?: number;
+  /** Absolute error tolerance for 'rk45' */
+  absTol?: number;
+  /** Spacecraft ballistic coefficient in kg/m² (used by the 'drag' force model) */
+  ballisticCoefficient?: number;
+  /** Spacecraft reflectivity coefficient Cr (used by the 'srp' force model) */
+  reflectivityCoefficient?: number;
+  /** Spacecraft area-to-mass ratio in m²/kg (used by the 'srp' force model) */
+  areaToMass?: number;
+  /** Julian date of simulation time 0 (used by the third-body and 'srp' force models) */
+  epochJd?: number;
+  /** Body the orbit is propagated around (defaults to the Earth) */
+  centralBody?: CentralBody;
+  /** Engine burn (used by the 'thrust' force model) */
+  thrustArc?: ThrustArc;
+}
+
+/**
+ * Default largest RK4 step in seconds.
+ */
+const DEFAULT_RK4_STEP = 10;
+
+/**
+ * Build the derivative function for the selected force models.
+ * @param context Spacecraft and epoch fields of the force context (the time is set per evaluation)
+ */
+function createDerivative(forces: string[], context: Omit<ForceContext, 'time'>): Derivative {
+  return (t, y) => {
+    const state: CartesianState = {
+      position: [y[0]!, y[1]!, y[2]!],
+      velocity: [y[3]!, y[4]!, y[5]!],
+    };
+    const [ax, ay, az] = computeAcceleration(state, { ...context, time: t }, forces);
+    return [y[3]!, y[4]!, y[5]!, ax, ay, az];
+  };
+}
+
+/**
+ * Propagate a state by numerically integrating the equations of motion.
+ *
+ * @param state Initial Cartesian state in ECI frame
+ * @param deltaTime Time step in seconds (may be negative)
+ * @param options Integrator and force model selection
+ * @returns New Cartesian state after propagation
+ */
+export function propagateNumerical(
+  state: CartesianState,
+  deltaTime: number,
+  options: NumericalPropagatorOptions = {}
+): CartesianState {
+  const forces = options.forces ?? DEFAULT_FORCE_MODELS;
+  const t0 = options.startTime ?? 0;
+  const t1 = t0 + deltaTime;
+  const f = createDerivative(forces, {
+    ballisticCoefficient: options.ballisticCoefficient,
+    reflectivityCoefficient: options.reflectivityCoefficient,
+    areaToMass: options.areaToMass,
+    epochJd: options.epochJd,
+    centralBody: options.centralBody,
+    thrustArc: options.thrustArc,
+  });
+  const y0 = [...state.position, ...state.velocity];
+
+  let y: number[];
+  if (options.integrator === 'rk4') {
+    y = integrateRk4(f, t0, y0, t1, options.maxStep ?? DEFAULT_RK4_STEP);
+  } else {
+    y = integrateDormandPrince(f, t0, y0, t1, {
+      ...DEFAULT_ADAPTIVE_OPTIONS,
+      relTol: options.relTol ?? DEFAULT_ADAPTIVE_OPTIONS.relTol,
+      absTol: options.absTol ?? DEFAULT_ADAPTIVE_OPTIONS.absTol,
+      maxStep: options.maxStep ?? DEFAULT_ADAPTIVE_OPTIONS.maxStep,
+    });
+  }
+
+  return {
+    position: [y[0]!, y[1]!, y[2]!],
+    velocity: [y[3]!, y[4]!, y[5]!],
+  };
+}
+
+/**
+ * Propagate multiple states numerically.
+ * Drop-in replacement for propagateKeplerBatch.
+ * @param states Array of Cartesian states
+ * @param deltaTime Time step in seconds
+ * @param options Integrator and force model selection (shared by all states)
+ * @returns Array of new Cartesian states
+ */
+export function propagateNumericalBatch(
+  states: CartesianState[],
+  deltaTime: number,
+  options: NumericalPropagatorOptions = {}
+): CartesianState[] {
+  return states.map((state) => propagateNumerical(state, deltaTime, options));
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { propagateKeplerBatch } from './propagator';
+import { packStates, propagateKeplerBuffer } from './batch';
 import { elementsToCartesian } from './conversions';
 import { OrbitalElements, CartesianState } from './types';
 import { EARTH_RADIUS } from './constants';
@@ -141,5 +142,63 @@ describe('propagator performance', () => {
 
     expect(elapsedMs).toBeLessThan(16);
   });
-});
 
+  describe('Float64Array state buffers', () => {
+    /**
+     * Pack numAgents random orbits into a state buffer.
+     */
+    function randomBuffer(numAgents: number) {
+      const states: CartesianState[] = [];
+      for (let i = 0; i < numAgents; i++) {
+        states.push(elementsToCartesian(generateRandomOrbit()));
+      }
+      return packStates(states);
+    }
+
+    it('propagates 5,000 agents in less than 16ms', () => {
+      const buffer = randomBuffer(5000);
+      const deltaTime = 1.0;
+
+      // Warm up
+      propagateKeplerBuffer(buffer, deltaTime);
+
+      const startTime = performance.now();
+      propagateKeplerBuffer(buffer, deltaTime);
+      const endTime = performance.now();
+
+      // README budget is 30 FPS at 5,000 agents; leave most of the frame for rendering
+      expect(endTime - startTime).toBeLessThan(16);
+    });
+
+    it('propagates 20,000 agents within a 30 FPS frame', () => {
+      const buffer = randomBuffer(20000);
+      const deltaTime = 1.0;
+
+      // Warm up
+      propagateKeplerBuffer(buffer, deltaTime);
+
+      const startTime = performance.now();
+      propagateKeplerBuffer(buffer, deltaTime);
+      const endTime = performance.now();
+
+      expect(endTime - startTime).toBeLessThan(33);
+    });
+
+    it('maintains performance over multiple steps at 5,000 agents', () => {
+      const buffer = randomBuffer(5000);
+      const deltaTime = 1.0;
+      const numSteps = 10;
+
+      // Warm up
+      propagateKeplerBuffer(buffer, deltaTime);
+
+      const startTime = performance.now();
+      for (let step = 0; step < numSteps; step++) {
+        propagateKeplerBuffer(buffer, deltaTime);
+      }
+      const endTime = performance.now();
+
+      expect((endTime - startTime) / numSteps).toBeLessThan(16);
+    });
+  });
+});
@@ -1,6 +1,16 @@
 import { describe, it, expect } from 'vitest';
-import { propagateKepler, propagateKeplerBatch } from './propagator';
-import { elementsToCartesian, cartesianToElements } from './conversions';
+import {
+  propagateKepler,
+  propagateKeplerBatch,
+  propagateJ2,
+  propagate,
+  propagateBatch,
+  computeJ2SecularRates,
+  propagateEquinoctial,
+  propagateEquinoctialJ2,
+} from './propagator';
+import { elementsToCartesian, cartesianToElements, cartesianToEquinoctial, elementsToEquinoctial } from './conversions';
+import { propagateUniversal } from './universal';
 import { OrbitalElements, CartesianState } from './types';
 import { EARTH_RADIUS, EARTH_MU } from './constants';
 
@@ -214,6 +224,21 @@ describe('propagator', () => {
       // Energy should be conserved (within numerical precision)
       expect(energy1).toBeCloseTo(energy0, 0.1);
     });
+
+    it('propagates escape trajectories instead of throwing', () => {
+      const r = EARTH_RADIUS + 400e3;
+      const state: CartesianState = {
+        position: [r, 0, 0],
+        velocity: [0, 1.1 * Math.sqrt((2 * EARTH_MU) / r), 0],
+      };
+
+      const result = propagateKepler(state, 3600);
+      const j2Result = propagateJ2(state, 3600);
+
+      const r1 = Math.sqrt(result.position[0] ** 2 + result.position[1] ** 2 + result.position[2] ** 2);
+      expect(r1).toBeGreaterThan(2 * r);
+      expect(j2Result).toEqual(result);
+    });
   });
 
   describe('propagateKeplerBatch', () => {
@@ -293,5 +318,161 @@ describe('propagator', () => {
       expect(batchState.position[2]).toBeCloseTo(individual.position[2], 1);
     });
   });
-});
 
+  describe('equinoctial propagation', () => {
+    it('matches the universal-variable solver through circular and equatorial orbits', () => {
+      const orbits: OrbitalElements[] = [
+        { a: 7000e3, e: 0, i: 0, Ω: 0, ω: 0, ν: 0.3 },
+        { a: 7000e3, e: 1e-9, i: 1e-9, Ω: 2.0, ω: 3.0, ν: 0.3 },
+        { a: 42164e3, e: 0, i: Math.PI, Ω: 0, ω: 0, ν: 1.0 },
+        { a: 10000e3, e: 0.3, i: 0, Ω: 0, ω: 1.0, ν: 2.0 },
+      ];
+
+      for (const elements of orbits) {
+        const state = elementsToCartesian(elements);
+        const kepler = propagateKepler(state, 2000);
+        const reference = propagateUniversal(state, 2000);
+        for (let axis = 0; axis < 3; axis++) {
+          expect(kepler.position[axis]).toBeCloseTo(reference.position[axis]!, 2);
+          expect(kepler.velocity[axis]).toBeCloseTo(reference.velocity[axis]!, 5);
+        }
+      }
+    });
+
+    it('only advances the true longitude in two-body motion', () => {
+      const elements = elementsToEquinoctial({ a: 7000e3, e: 0.05, i: 0.2, Ω: 1.0, ω: 2.0, ν: 0.5 });
+      const period = 2 * Math.PI * Math.sqrt(7000e3 ** 3 / EARTH_MU);
+
+      const half = propagateEquinoctial(elements, period / 2);
+      expect(half.p).toBe(elements.p);
+      expect(half.f).toBeCloseTo(elements.f, 15);
+      expect(half.h).toBeCloseTo(elements.h, 15);
+      expect(half.L).not.toBeCloseTo(elements.L, 1);
+
+      expect(propagateEquinoctial(elements, period).L).toBeCloseTo(elements.L, 9);
+    });
+
+    it('advances circular equatorial orbits at the J2-perturbed rate', () => {
+      const a = EARTH_RADIUS + 500e3;
+      const state = elementsToCartesian({ a, e: 0, i: 0, Ω: 0, ω: 0, ν: 0 });
+      const rates = computeJ2SecularRates({ a, e: 0, i: 0, Ω: 0, ω: 0 });
+      const dt = 600;
+
+      const elements = propagateEquinoctialJ2(cartesianToEquinoctial(state), dt);
+      const expected = (rates.meanMotion + rates.argPeriapsisRate + rates.raanRate) * dt;
+      expect(elements.L).toBeCloseTo(expected, 9);
+      expect(cartesianToEquinoctial(propagateJ2(state, dt)).L).toBeCloseTo(expected, 9);
+    });
+
+    it('rejects open orbits', () => {
+      const elements = elementsToEquinoctial({ a: -20000e3, e: 1.5, i: 0, Ω: 0, ω: 0, ν: 0 });
+
+      expect(() => propagateEquinoctial(elements, 60)).toThrow('closed (elliptical) orbit');
+    });
+  });
+
+  describe('J2 propagation', () => {
+    it('regresses the node of a sun-synchronous orbit by ~0.9856°/day', () => {
+      // 800 km sun-synchronous orbit (i ≈ 98.6°)
+      const elements: OrbitalElements = {
+        a: 6378137 + 800e3,
+        e: 0.001,
+        i: (98.6 * Math.PI) / 180,
+        Ω: 0,
+        ω: 0,
+        ν: 0,
+      };
+
+      const rates = computeJ2SecularRates(elements);
+      const degPerDay = (rates.raanRate * 86400 * 180) / Math.PI;
+
+      expect(degPerDay).toBeCloseTo(0.9856, 1);
+    });
+
+    it('regresses the node westward for prograde orbits', () => {
+      const elements: OrbitalElements = {
+        a: EARTH_RADIUS + 400e3,
+        e: 0.01,
+        i: (51.6 * Math.PI) / 180,
+        Ω: Math.PI / 2,
+        ω: 0,
+        ν: 0,
+      };
+
+      const initialState = elementsToCartesian(elements);
+      const oneDay = 86400;
+
+      // Propagate one day in 60 s steps (as the render loop would)
+      let state = initialState;
+      for (let t = 0; t < oneDay; t += 60) {
+        state = propagateJ2(state, 60);
+      }
+
+      const finalElements = cartesianToElements(state);
+      const expectedDrift = computeJ2SecularRates(elements).raanRate * oneDay;
+
+      // ISS-like orbit regresses roughly 5° per day
+      expect(expectedDrift).toBeLessThan(0);
+      expect(finalElements.Ω - elements.Ω).toBeCloseTo(expectedDrift, 3);
+      // Shape of the orbit is unaffected by secular J2
+      expect(finalElements.a).toBeCloseTo(elements.a, 0);
+      expect(finalElements.i).toBeCloseTo(elements.i, 8);
+    });
+
+    it('holds the line of apsides fixed at the critical inclination', () => {
+      const elements: OrbitalElements = {
+        a: 26562e3,
+        e: 0.74,
+        i: Math.acos(Math.sqrt(1 / 5)), // ≈ 63.4°
+        Ω: 0,
+        ω: (270 * Math.PI) / 180,
+        ν: 0,
+      };
+
+      const rates = computeJ2SecularRates(elements);
+      expect(Math.abs(rates.argPeriapsisRate)).toBeLessThan(1e-15);
+    });
+
+    it('propagates deterministically', () => {
+      const state = elementsToCartesian({
+        a: 7000e3,
+        e: 0.05,
+        i: 1.0,
+        Ω: 0.3,
+        ω: 0.7,
+        ν: 1.1,
+      });
+
+      const state1 = propagateJ2(state, 5400);
+      const state2 = propagateJ2(state, 5400);
+
+      expect(state1).toEqual(state2);
+    });
+  });
+
+  describe('propagate', () => {
+    const state = elementsToCartesian({
+      a: 7000e3,
+      e: 0.1,
+      i: 0.5,
+      Ω: 0.2,
+      ω: 0.4,
+      ν: 0,
+    });
+
+    it('defaults to Kepler propagation', () => {
+      expect(propagate(state, 600)).toEqual(propagateKepler(state, 600));
+    });
+
+    it('dispatches to the selected propagator', () => {
+      expect(propagate(state, 600, 'j2')).toEqual(propagateJ2(state, 600));
+    });
+
+    it('propagates each state in a batch with its own propagator', () => {
+      const results = propagateBatch([state, state], 600, ['kepler', 'j2']);
+
+      expect(results[0]).toEqual(propagateKepler(state, 600));
+      expect(results[1]).toEqual(propagateJ2(state, 600));
+    });
+  });
+});
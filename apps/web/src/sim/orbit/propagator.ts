@@ -1,99 +1,358 @@
 /**
  * Orbit propagator using Kepler solver (analytical two-body problem).
- * Provides deterministic, stable propagation for elliptical orbits.
+ * Provides deterministic, stable propagation for elliptical orbits,
+ * with an optional J2 secular perturbation mode. Parabolic and hyperbolic
+ * (escape) trajectories are handed to the universal-variable solver.
  */
 
-import { CartesianState, OrbitalElements } from './types';
-import { cartesianToElements, elementsToCartesian } from './conversions';
+import { CartesianState, OrbitalElements, EquinoctialElements, PropagatorType } from './types';
+import { cartesianToEquinoctial, equinoctialToCartesian, equinoctialToElements, normalizeAngle } from './conversions';
 import { EARTH_MU } from './constants';
+import { CentralBody, EARTH_BODY } from './centralBody';
+import { propagateNumerical, NumericalPropagatorOptions } from './numerical';
+import { DEFAULT_FORCE_MODELS } from './forces';
+import { propagateUniversal } from './universal';
+import { TwoLineElement } from './tle';
+import { propagateTle } from './sgp4';
+import { Ephemeris, interpolateEphemeris } from './ephemeris';
 
 /**
  * Propagate orbit using Kepler solver.
- * Converts state to orbital elements, advances mean anomaly, converts back.
+ * Converts state to modified equinoctial elements, advances the mean longitude
+ * and converts back, so circular and equatorial orbits propagate as smoothly as
+ * any other. Non-elliptical states (e ≥ 1) are propagated with the
+ * universal-variable solver.
  * 
  * @param state Initial Cartesian state in ECI frame
  * @param deltaTime Time step in seconds
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
  * @returns New Cartesian state after propagation
  */
 export function propagateKepler(
   state: CartesianState,
-  deltaTime: number
+  deltaTime: number,
+  mu: number = EARTH_MU
 ): CartesianState {
-  // Convert to orbital elements
-  const elements = cartesianToElements(state);
-
-  // Calculate mean motion and period
-  const n = Math.sqrt(EARTH_MU / (elements.a * elements.a * elements.a)); // Mean motion (rad/s)
-  const period = (2 * Math.PI) / n; // Orbital period (s)
-
-  // Get current mean anomaly from true anomaly
-  const M0 = meanAnomalyFromTrue(elements.ν!, elements.e);
-
-  // Advance mean anomaly
-  const deltaM = n * deltaTime;
-  let M1 = M0 + deltaM;
-
-  // Normalize mean anomaly to [0, 2π) to prevent unbounded growth
-  // This is necessary for long-duration simulations to maintain numerical stability
-  // Normalization is deterministic and doesn't affect orbit accuracy
-  M1 = normalizeAngle(M1);
-
-  // Create new orbital elements with updated mean anomaly
-  const newElements: OrbitalElements = {
-    ...elements,
-    M: M1,
-    ν: undefined, // Clear true anomaly, will be computed from M
-  };
+  const elements = cartesianToEquinoctial(state, mu);
+
+  // Mean longitude is only defined for closed orbits
+  if (!isElliptical(elements)) {
+    return propagateUniversal(state, deltaTime, mu);
+  }
 
-  // Convert back to Cartesian state
-  return elementsToCartesian(newElements);
+  return equinoctialToCartesian(propagateEquinoctial(elements, deltaTime, mu), mu);
 }
 
 /**
- * Convert true anomaly to mean anomaly.
- * @param ν True anomaly (radians)
- * @param e Eccentricity
- * @returns Mean anomaly (radians)
+ * Propagate modified equinoctial elements with two-body motion.
+ * Only the true longitude changes; it is advanced through the mean longitude.
+ *
+ * @param elements Modified equinoctial elements of a closed orbit
+ * @param deltaTime Time step in seconds
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Elements after propagation
+ * @throws Error if the orbit is not elliptical
  */
-function meanAnomalyFromTrue(ν: number, e: number): number {
-  // Convert true anomaly to eccentric anomaly
-  const cosν = Math.cos(ν);
-  const sinν = Math.sin(ν);
+export function propagateEquinoctial(
+  elements: EquinoctialElements,
+  deltaTime: number,
+  mu: number = EARTH_MU
+): EquinoctialElements {
+  const a = elements.p / (1 - elements.f * elements.f - elements.g * elements.g);
+  const n = Math.sqrt(mu / (a * a * a)); // Mean motion (rad/s)
+  return advanceEquinoctial(elements, deltaTime, { raanRate: 0, argPeriapsisRate: 0, meanMotion: n });
+}
 
-  const cosE = (e + cosν) / (1 + e * cosν);
-  const sinE = (Math.sqrt(1 - e * e) * sinν) / (1 + e * cosν);
+/**
+ * Check whether equinoctial elements describe a closed (elliptical) orbit.
+ * @param elements Modified equinoctial elements
+ * @returns True if e = √(f² + g²) < 1 and p is positive and finite
+ */
+function isElliptical(elements: EquinoctialElements): boolean {
+  return elements.f * elements.f + elements.g * elements.g < 1 && elements.p > 0 && isFinite(elements.p);
+}
 
-  const E = Math.atan2(sinE, cosE);
+/**
+ * Advance equinoctial elements at constant secular rates: the eccentricity
+ * vector (f, g) turns with the longitude of periapsis, (h, k) with the node,
+ * and the mean longitude advances at the mean motion plus the periapsis drift.
+ *
+ * @param elements Modified equinoctial elements of a closed orbit
+ * @param deltaTime Time step in seconds
+ * @param rates Secular rates of Ω, ω and M in rad/s
+ * @returns Elements after propagation
+ * @throws Error if the orbit is not elliptical
+ */
+function advanceEquinoctial(
+  elements: EquinoctialElements,
+  deltaTime: number,
+  rates: J2SecularRates
+): EquinoctialElements {
+  if (!isElliptical(elements)) {
+    throw new Error('Equinoctial propagation requires a closed (elliptical) orbit');
+  }
+  const I = elements.retrograde ? -1 : 1;
+  const periapsisRate = rates.argPeriapsisRate + I * rates.raanRate;
+
+  const [f, g] = rotate(elements.f, elements.g, periapsisRate * deltaTime);
+  const [h, k] = rotate(elements.h, elements.k, rates.raanRate * deltaTime);
 
-  // Convert eccentric anomaly to mean anomaly: M = E - e*sin(E)
-  const M = E - e * Math.sin(E);
+  // Normalize the mean longitude to prevent unbounded growth over long simulations
+  const λ0 = meanLongitudeFromTrue(elements);
+  const λ1 = normalizeAngle(λ0 + (rates.meanMotion + periapsisRate) * deltaTime);
 
-  return normalizeAngle(M);
+  return { ...elements, f, g, h, k, L: trueLongitudeFromMean(λ1, f, g) };
+}
+
+/**
+ * Rotate a 2D vector by an angle.
+ */
+function rotate(x: number, y: number, angle: number): [number, number] {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [x * cos - y * sin, x * sin + y * cos];
 }
 
 /**
- * Normalize angle to [0, 2π).
- * @param angle Angle in radians
- * @returns Normalized angle
+ * Convert true longitude to mean longitude λ = M + ω + IΩ.
+ * Goes through the eccentric longitude F = E + ω + IΩ without forming ω or ν,
+ * so it stays smooth as e → 0.
+ * @param elements Modified equinoctial elements of a closed orbit
+ * @returns Mean longitude (radians)
  */
-function normalizeAngle(angle: number): number {
-  angle = angle % (2 * Math.PI);
-  if (angle < 0) {
-    angle += 2 * Math.PI;
+function meanLongitudeFromTrue(elements: EquinoctialElements): number {
+  const { f, g, L } = elements;
+  const b = 1 / (1 + Math.sqrt(1 - f * f - g * g));
+  const cosL = Math.cos(L);
+  const sinL = Math.sin(L);
+
+  // E - ν = -2·atan(β·sin ν / (1 + β·cos ν)), β = e / (1 + √(1 - e²))
+  const F = L - 2 * Math.atan2(b * (f * sinL - g * cosL), 1 + b * (f * cosL + g * sinL));
+
+  // Kepler's equation in equinoctial form: λ = F - f·sin F + g·cos F
+  return F - f * Math.sin(F) + g * Math.cos(F);
+}
+
+/**
+ * Convert mean longitude to true longitude by solving Kepler's equation
+ * λ = F - f·sin F + g·cos F for the eccentric longitude F.
+ * Uses Newton-Raphson iteration.
+ * @param λ Mean longitude (radians)
+ * @param f Equinoctial f
+ * @param g Equinoctial g
+ * @returns True longitude (radians, normalized to [0, 2π))
+ */
+function trueLongitudeFromMean(λ: number, f: number, g: number): number {
+  // Initial guess F ≈ λ, or apoapsis (E = π) for high eccentricity
+  let F = f * f + g * g > 0.64 ? Math.atan2(g, f) + Math.PI : λ;
+
+  const maxIterations = 50;
+  const tolerance = 1e-12;
+
+  for (let i = 0; i < maxIterations; i++) {
+    const sinF = Math.sin(F);
+    const cosF = Math.cos(F);
+    const residual = F - f * sinF + g * cosF - λ;
+    if (Math.abs(residual) < tolerance) {
+      break;
+    }
+    F -= residual / (1 - f * cosF - g * sinF);
   }
-  return angle;
+
+  // ν - E = 2·atan(β·sin E / (1 - β·cos E))
+  const b = 1 / (1 + Math.sqrt(1 - f * f - g * g));
+  const sinF = Math.sin(F);
+  const cosF = Math.cos(F);
+  return normalizeAngle(F + 2 * Math.atan2(b * (f * sinF - g * cosF), 1 - b * (f * cosF + g * sinF)));
 }
 
 /**
  * Propagate multiple states in batch (optimized for performance).
  * @param states Array of Cartesian states
  * @param deltaTime Time step in seconds
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
  * @returns Array of new Cartesian states
  */
 export function propagateKeplerBatch(
   states: CartesianState[],
-  deltaTime: number
+  deltaTime: number,
+  mu: number = EARTH_MU
 ): CartesianState[] {
-  return states.map((state) => propagateKepler(state, deltaTime));
+  return states.map((state) => propagateKepler(state, deltaTime, mu));
+}
+
+
+/**
+ * Secular rates of change caused by the J2 zonal harmonic.
+ * All rates in radians per second.
+ */
+export interface J2SecularRates {
+  /** Nodal regression rate dΩ/dt */
+  raanRate: number;
+  /** Apsidal precession rate dω/dt */
+  argPeriapsisRate: number;
+  /** Perturbed mean motion dM/dt (includes the two-body mean motion) */
+  meanMotion: number;
 }
 
+/**
+ * Compute first-order J2 secular rates for a set of orbital elements.
+ * Short-period oscillations average out over an orbit and are not modeled;
+ * the elements are treated as mean elements.
+ *
+ * @param elements Orbital elements (a in meters, angles in radians)
+ * @param body Central body (defaults to the Earth)
+ * @returns Secular rates of Ω, ω and M in rad/s
+ */
+export function computeJ2SecularRates(elements: OrbitalElements, body: CentralBody = EARTH_BODY): J2SecularRates {
+  const { a, e, i } = elements;
+
+  const n = Math.sqrt(body.mu / (a * a * a)); // Two-body mean motion (rad/s)
+  const p = a * (1 - e * e); // Semi-latus rectum
+  const ratio = body.equatorialRadius / p;
+  const factor = 1.5 * body.j2 * ratio * ratio * n;
+
+  const cosI = Math.cos(i);
+  const cos2I = cosI * cosI;
+
+  return {
+    raanRate: -factor * cosI,
+    argPeriapsisRate: 0.5 * factor * (5 * cos2I - 1),
+    meanMotion: n + 0.5 * factor * Math.sqrt(1 - e * e) * (3 * cos2I - 1),
+  };
+}
+
+/**
+ * Propagate orbit with J2 secular perturbations.
+ * Same approach as propagateKepler, but the node and periapsis drift at their
+ * secular rates and the mean longitude advances at the J2-perturbed mean
+ * motion. This captures nodal regression and apsidal precession (e.g.
+ * sun-synchronous orbits). Secular rates are undefined for escape
+ * trajectories, which fall back to two-body universal-variable propagation.
+ *
+ * @param state Initial Cartesian state in ECI frame
+ * @param deltaTime Time step in seconds
+ * @param body Central body (defaults to the Earth)
+ * @returns New Cartesian state after propagation
+ */
+export function propagateJ2(
+  state: CartesianState,
+  deltaTime: number,
+  body: CentralBody = EARTH_BODY
+): CartesianState {
+  const elements = cartesianToEquinoctial(state, body.mu);
+  if (!isElliptical(elements)) {
+    return propagateUniversal(state, deltaTime, body.mu);
+  }
+  return equinoctialToCartesian(propagateEquinoctialJ2(elements, deltaTime, body), body.mu);
+}
+
+/**
+ * Propagate modified equinoctial elements with J2 secular perturbations.
+ *
+ * @param elements Modified equinoctial elements of a closed orbit
+ * @param deltaTime Time step in seconds
+ * @param body Central body (defaults to the Earth)
+ * @returns Elements after propagation
+ * @throws Error if the orbit is not elliptical
+ */
+export function propagateEquinoctialJ2(
+  elements: EquinoctialElements,
+  deltaTime: number,
+  body: CentralBody = EARTH_BODY
+): EquinoctialElements {
+  const rates = computeJ2SecularRates(equinoctialToElements(elements), body);
+  return advanceEquinoctial(elements, deltaTime, rates);
+}
+
+/**
+ * Options for propagate(): numerical options plus the element set used by 'sgp4'
+ * and the tabulated states used by 'ephemeris'.
+ */
+export interface PropagateOptions extends NumericalPropagatorOptions {
+  /** Element set propagated by 'sgp4' */
+  tle?: TwoLineElement;
+  /** Seconds from the element set epoch to sim time 0 (used by 'sgp4') */
+  tleEpochOffset?: number;
+  /** Tabulated states interpolated by 'ephemeris' */
+  ephemeris?: Ephemeris;
+}
+
+/**
+ * Force models that reproduce a propagator's dynamics under numerical
+ * integration, for integrating extra forces (such as thrust) alongside them.
+ *
+ * @param propagator Propagation model ('sgp4' and 'ephemeris' count as two-body)
+ * @param forces Force models of the 'numerical' propagator
+ * @returns Force model names
+ */
+export function propagatorForceModels(propagator: PropagatorType, forces?: string[]): string[] {
+  switch (propagator) {
+    case 'j2':
+      return ['central_gravity', 'j2'];
+    case 'numerical':
+      return forces ?? DEFAULT_FORCE_MODELS;
+    default:
+      return DEFAULT_FORCE_MODELS;
+  }
+}
+
+/**
+ * Propagate a state with the selected propagation model.
+ * 'sgp4' and 'ephemeris' ignore the input state and evaluate the element set
+ * or ephemeris at startTime + deltaTime, so velocity changes do not persist.
+ *
+ * @param state Initial Cartesian state in ECI frame
+ * @param deltaTime Time step in seconds
+ * @param propagator Propagation model (defaults to 'kepler')
+ * @param options Central body, numerical propagation options, the element set for 'sgp4' or the ephemeris for 'ephemeris'
+ * @returns New Cartesian state after propagation
+ */
+export function propagate(
+  state: CartesianState,
+  deltaTime: number,
+  propagator: PropagatorType = 'kepler',
+  options?: PropagateOptions
+): CartesianState {
+  switch (propagator) {
+    case 'j2':
+      return propagateJ2(state, deltaTime, options?.centralBody);
+    case 'numerical':
+      return propagateNumerical(state, deltaTime, options);
+    case 'sgp4': {
+      if (!options?.tle) {
+        throw new Error('The sgp4 propagator requires a TLE');
+      }
+      const time = (options.startTime ?? 0) + deltaTime;
+      return propagateTle(options.tle, time + (options.tleEpochOffset ?? 0));
+    }
+    case 'ephemeris': {
+      if (!options?.ephemeris) {
+        throw new Error('The ephemeris propagator requires an ephemeris');
+      }
+      return interpolateEphemeris(options.ephemeris, (options.startTime ?? 0) + deltaTime);
+    }
+    case 'kepler':
+    default:
+      return propagateKepler(state, deltaTime, options?.centralBody?.mu);
+  }
+}
+
+/**
+ * Propagate multiple states, each with its own propagation model.
+ * @param states Array of Cartesian states
+ * @param deltaTime Time step in seconds
+ * @param propagators Propagation model per state (missing entries default to 'kepler')
+ * @param options Propagation options per state
+ * @returns Array of new Cartesian states
+ */
+export function propagateBatch(
+  states: CartesianState[],
+  deltaTime: number,
+  propagators: PropagatorType[] = [],
+  options: (PropagateOptions | undefined)[] = []
+): CartesianState[] {
+  return states.map((state, index) =>
+    propagate(state, deltaTime, propagators[index], options[index])
+  );
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { initSgp4, sgp4, propagateTle, Sgp4Error } from './sgp4';
+import { parseTLE } from './tle';
+import verification from './fixtures/sgp4-verification.json';
+
+/** Position tolerance in km (the fixture is rounded to 1e-8 km) */
+const POSITION_TOLERANCE = 1e-6;
+/** Velocity tolerance in km/s (the fixture is rounded to 1e-9 km/s) */
+const VELOCITY_TOLERANCE = 1e-8;
+
+describe('sgp4', () => {
+  describe('verification vectors', () => {
+    for (const satellite of verification.satellites) {
+      it(`reproduces ${satellite.satnum} (${satellite.description})`, () => {
+        const record = initSgp4(parseTLE(`${satellite.line1}\n${satellite.line2}`));
+
+        for (const [tsince, x, y, z, vx, vy, vz] of satellite.states as number[][]) {
+          const { position, velocity } = sgp4(record, tsince!);
+
+          expect(Math.abs(position[0] - x!)).toBeLessThan(POSITION_TOLERANCE);
+          expect(Math.abs(position[1] - y!)).toBeLessThan(POSITION_TOLERANCE);
+          expect(Math.abs(position[2] - z!)).toBeLessThan(POSITION_TOLERANCE);
+          expect(Math.abs(velocity[0] - vx!)).toBeLessThan(VELOCITY_TOLERANCE);
+          expect(Math.abs(velocity[1] - vy!)).toBeLessThan(VELOCITY_TOLERANCE);
+          expect(Math.abs(velocity[2] - vz!)).toBeLessThan(VELOCITY_TOLERANCE);
+        }
+      });
+    }
+
+    it('reports the verification error cases', () => {
+      for (const satellite of verification.satellites) {
+        if (!('error' in satellite) || !satellite.error) continue;
+        const record = initSgp4(parseTLE(`${satellite.line1}\n${satellite.line2}`));
+
+        expect(() => sgp4(record, satellite.error.tsince)).toThrow(Sgp4Error);
+        try {
+          sgp4(record, satellite.error.tsince);
+        } catch (error) {
+          expect((error as Sgp4Error).code).toBe(satellite.error.code);
+        }
+      }
+    });
+  });
+
+  it('selects the deep-space terms for periods of 225 minutes or more', () => {
+    const [near, deep] = ['00005', '28129'].map((satnum) => {
+      const satellite = verification.satellites.find((s) => s.satnum === satnum)!;
+      return initSgp4(parseTLE(`${satellite.line1}\n${satellite.line2}`));
+    });
+
+    expect(near!.deepSpace).toBeNull();
+    expect(deep!.deepSpace).not.toBeNull();
+  });
+
+  it('gives the same deep-space state regardless of request order', () => {
+    const satellite = verification.satellites.find((s) => s.satnum === '14128')!;
+    const record = initSgp4(parseTLE(`${satellite.line1}\n${satellite.line2}`));
+
+    const direct = sgp4(record, 2000);
+    sgp4(record, 5000);
+    sgp4(record, -3000);
+
+    expect(sgp4(record, 2000)).toEqual(direct);
+  });
+
+  describe('propagateTle', () => {
+    it('returns SI units in the TEME frame', () => {
+      const satellite = verification.satellites[0]!;
+      const tle = parseTLE(`${satellite.line1}\n${satellite.line2}`);
+      const [, x, y, z, vx] = satellite.states[1]!;
+
+      const state = propagateTle(tle, 360 * 60);
+
+      expect(state.position[0]).toBeCloseTo(x! * 1000, 2);
+      expect(state.position[1]).toBeCloseTo(y! * 1000, 2);
+      expect(state.position[2]).toBeCloseTo(z! * 1000, 2);
+      expect(state.velocity[0]).toBeCloseTo(vx! * 1000, 4);
+    });
+  });
+});
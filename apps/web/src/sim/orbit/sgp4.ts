@@ -0,0 +1,514 @@
+/**
+ * SGP4/SDP4 analytical propagator for Two-Line Element sets.
+ * A port of the reference implementation in Vallado, Crawford, Hujsak and
+ * Kelso, "Revisiting Spacetrack Report #3" (AIAA 2006-6753), using WGS-72
+ * constants and the "improved" operation mode. Element sets with periods of
+ * 225 minutes or more get the deep-space terms from sgp4DeepSpace.
+ *
+ * SGP4 outputs position and velocity in the TEME (True Equator, Mean
+ * Equinox) frame, which is used here directly as the simulation's ECI frame.
+ * TLE mean elements are only meaningful when propagated with SGP4.
+ */
+
+import { CartesianState } from './types';
+import { TwoLineElement } from './tle';
+import { greenwichMeanSiderealTime } from './time';
+import { DeepSpaceRecord, initDeepSpace, deepSpaceSecular, deepSpacePeriodics } from './sgp4DeepSpace';
+
+/** WGS-72 gravitational parameter (km³/s²) */
+const MU = 398600.8;
+/** WGS-72 equatorial radius (km) */
+const RADIUS_EARTH_KM = 6378.135;
+/** √(μ/R³) in earth radii and minutes */
+const XKE = 60.0 / Math.sqrt((RADIUS_EARTH_KM * RADIUS_EARTH_KM * RADIUS_EARTH_KM) / MU);
+/** Earth radii per minute to km/s */
+const VKMPERSEC = (RADIUS_EARTH_KM * XKE) / 60.0;
+/** WGS-72 zonal harmonics */
+const J2 = 0.001082616;
+const J3 = -0.00000253881;
+const J4 = -0.00000165597;
+const J3OJ2 = J3 / J2;
+const X2O3 = 2.0 / 3.0;
+const TWO_PI = 2 * Math.PI;
+
+/** Julian date of the SGP4 time origin, 1950 Jan 0.0 */
+const SGP4_EPOCH_JD = 2433281.5;
+
+/** Orbital period (min) at or above which the deep-space terms apply */
+const DEEP_SPACE_PERIOD = 225.0;
+
+/**
+ * Initialized SGP4 element set.
+ */
+export interface Sgp4Record {
+  /** Satellite catalog number */
+  satnum: string;
+  /** Whether the deep-space (SDP4) terms are used */
+  deepSpace: DeepSpaceRecord | null;
+  /** Simplified drag model (low perigee or deep space) */
+  isimp: boolean;
+
+  /** Mean elements at epoch (radians, rad/min with the Kozai correction removed) */
+  bstar: number;
+  ecco: number;
+  argpo: number;
+  inclo: number;
+  mo: number;
+  no: number;
+  nodeo: number;
+
+  /** Secular rates (rad/min) */
+  mdot: number;
+  argpdot: number;
+  nodedot: number;
+
+  /** Near-earth drag and periodic coefficients */
+  aycof: number;
+  con41: number;
+  cc1: number;
+  cc4: number;
+  cc5: number;
+  d2: number;
+  d3: number;
+  d4: number;
+  delmo: number;
+  eta: number;
+  omgcof: number;
+  sinmao: number;
+  t2cof: number;
+  t3cof: number;
+  t4cof: number;
+  t5cof: number;
+  x1mth2: number;
+  x7thm1: number;
+  xlcof: number;
+  xmcof: number;
+  nodecf: number;
+}
+
+/**
+ * State returned by sgp4() in the reference units.
+ */
+export interface Sgp4State {
+  /** TEME position (km) */
+  position: [number, number, number];
+  /** TEME velocity (km/s) */
+  velocity: [number, number, number];
+}
+
+/**
+ * Raised when an element set cannot be propagated to the requested time.
+ * Codes follow the reference implementation: 1 mean eccentricity out of
+ * range, 2 mean motion not positive, 3 perturbed eccentricity out of range,
+ * 4 negative semi-latus rectum, 6 the satellite has decayed.
+ */
+export class Sgp4Error extends Error {
+  constructor(message: string, readonly code: number) {
+    super(message);
+    this.name = 'Sgp4Error';
+  }
+}
+
+/**
+ * Initialize SGP4 for an element set (sgp4init).
+ * @param tle Parsed element set
+ * @returns Record to pass to sgp4()
+ */
+export function initSgp4(tle: TwoLineElement): Sgp4Record {
+  const ecco = tle.eccentricity;
+  const inclo = tle.inclination;
+  const argpo = tle.argPerigee;
+  const nodeo = tle.raan;
+  const mo = tle.meanAnomaly;
+  const bstar = tle.bstar;
+  const epoch = tle.epochJd - SGP4_EPOCH_JD;
+
+  // ---- initl: recover the original (un-Kozai) mean motion ----
+  const noKozai = tle.meanMotion / (1440.0 / TWO_PI);
+  const eccsq = ecco * ecco;
+  const omeosq = 1.0 - eccsq;
+  const rteosq = Math.sqrt(omeosq);
+  const cosio = Math.cos(inclo);
+  const cosio2 = cosio * cosio;
+
+  const ak = (XKE / noKozai) ** X2O3;
+  const d1 = (0.75 * J2 * (3.0 * cosio2 - 1.0)) / (rteosq * omeosq);
+  let delPrime = d1 / (ak * ak);
+  const adel = ak * (1.0 - delPrime * delPrime - delPrime * (1.0 / 3.0 + (134.0 * delPrime * delPrime) / 81.0));
+  delPrime = d1 / (adel * adel);
+  const no = noKozai / (1.0 + delPrime);
+
+  const ao = (XKE / no) ** X2O3;
+  const sinio = Math.sin(inclo);
+  const po = ao * omeosq;
+  const con42 = 1.0 - 5.0 * cosio2;
+  const con41 = -con42 - cosio2 - cosio2;
+  const posq = po * po;
+  const rp = ao * (1.0 - ecco);
+  const gsto = greenwichMeanSiderealTime(epoch + SGP4_EPOCH_JD);
+
+  // ---- atmospheric density parameters (s and q0 - s)^4 ----
+  const ss = 78.0 / RADIUS_EARTH_KM + 1.0;
+  const qzms2ttemp = (120.0 - 78.0) / RADIUS_EARTH_KM;
+  const qzms2t = qzms2ttemp * qzms2ttemp * qzms2ttemp * qzms2ttemp;
+
+  let isimp = rp < 220.0 / RADIUS_EARTH_KM + 1.0;
+  let sfour = ss;
+  let qzms24 = qzms2t;
+  const perige = (rp - 1.0) * RADIUS_EARTH_KM;
+
+  // For perigees below 156 km, s and q0 are altered
+  if (perige < 156.0) {
+    sfour = perige < 98.0 ? 20.0 : perige - 78.0;
+    const qzms24temp = (120.0 - sfour) / RADIUS_EARTH_KM;
+    qzms24 = qzms24temp * qzms24temp * qzms24temp * qzms24temp;
+    sfour = sfour / RADIUS_EARTH_KM + 1.0;
+  }
+
+  const pinvsq = 1.0 / posq;
+  const tsi = 1.0 / (ao - sfour);
+  const eta = ao * ecco * tsi;
+  const etasq = eta * eta;
+  const eeta = ecco * eta;
+  const psisq = Math.abs(1.0 - etasq);
+  const coef = qzms24 * tsi ** 4.0;
+  const coef1 = coef / psisq ** 3.5;
+  const cc2 =
+    coef1 *
+    no *
+    (ao * (1.0 + 1.5 * etasq + eeta * (4.0 + etasq)) +
+      ((0.375 * J2 * tsi) / psisq) * con41 * (8.0 + 3.0 * etasq * (8.0 + etasq)));
+  const cc1 = bstar * cc2;
+  const cc3 = ecco > 1.0e-4 ? (-2.0 * coef * tsi * J3OJ2 * no * sinio) / ecco : 0.0;
+  const x1mth2 = 1.0 - cosio2;
+  const cc4 =
+    2.0 *
+    no *
+    coef1 *
+    ao *
+    omeosq *
+    (eta * (2.0 + 0.5 * etasq) +
+      ecco * (0.5 + 2.0 * etasq) -
+      ((J2 * tsi) / (ao * psisq)) *
+        (-3.0 * con41 * (1.0 - 2.0 * eeta + etasq * (1.5 - 0.5 * eeta)) +
+          0.75 * x1mth2 * (2.0 * etasq - eeta * (1.0 + etasq)) * Math.cos(2.0 * argpo)));
+  const cc5 = 2.0 * coef1 * ao * omeosq * (1.0 + 2.75 * (etasq + eeta) + eeta * etasq);
+
+  // ---- secular rates from J2 and J4 ----
+  const cosio4 = cosio2 * cosio2;
+  const temp1 = 1.5 * J2 * pinvsq * no;
+  const temp2 = 0.5 * temp1 * J2 * pinvsq;
+  const temp3 = -0.46875 * J4 * pinvsq * pinvsq * no;
+  const mdot =
+    no + 0.5 * temp1 * rteosq * con41 + 0.0625 * temp2 * rteosq * (13.0 - 78.0 * cosio2 + 137.0 * cosio4);
+  const argpdot =
+    -0.5 * temp1 * con42 +
+    0.0625 * temp2 * (7.0 - 114.0 * cosio2 + 395.0 * cosio4) +
+    temp3 * (3.0 - 36.0 * cosio2 + 49.0 * cosio4);
+  const xhdot1 = -temp1 * cosio;
+  const nodedot = xhdot1 + (0.5 * temp2 * (4.0 - 19.0 * cosio2) + 2.0 * temp3 * (3.0 - 7.0 * cosio2)) * cosio;
+
+  // Avoid the division by zero at 180° inclination
+  const xlcofDivisor = Math.abs(cosio + 1.0) > 1.5e-12 ? 1.0 + cosio : 1.5e-12;
+  const delmotemp = 1.0 + eta * Math.cos(mo);
+
+  const record: Sgp4Record = {
+    satnum: tle.satnum,
+    deepSpace: null,
+    isimp,
+    bstar,
+    ecco,
+    argpo,
+    inclo,
+    mo,
+    no,
+    nodeo,
+    mdot,
+    argpdot,
+    nodedot,
+    aycof: -0.5 * J3OJ2 * sinio,
+    con41,
+    cc1,
+    cc4,
+    cc5,
+    d2: 0,
+    d3: 0,
+    d4: 0,
+    delmo: delmotemp * delmotemp * delmotemp,
+    eta,
+    omgcof: bstar * cc3 * Math.cos(argpo),
+    sinmao: Math.sin(mo),
+    t2cof: 1.5 * cc1,
+    t3cof: 0,
+    t4cof: 0,
+    t5cof: 0,
+    x1mth2,
+    x7thm1: 7.0 * cosio2 - 1.0,
+    xlcof: (-0.25 * J3OJ2 * sinio * (3.0 + 5.0 * cosio)) / xlcofDivisor,
+    xmcof: ecco > 1.0e-4 ? (-X2O3 * coef * bstar) / eeta : 0.0,
+    nodecf: 3.5 * omeosq * xhdot1 * cc1,
+  };
+
+  if (TWO_PI / no >= DEEP_SPACE_PERIOD) {
+    isimp = true;
+    record.isimp = true;
+    record.deepSpace = initDeepSpace({
+      epoch,
+      ecco,
+      argpo,
+      inclo,
+      nodeo,
+      mo,
+      no,
+      mdot,
+      argpdot,
+      nodedot,
+      gsto,
+      xke: XKE,
+    });
+  }
+
+  if (!isimp) {
+    // Higher-order drag terms
+    const cc1sq = cc1 * cc1;
+    const d2 = 4.0 * ao * tsi * cc1sq;
+    const temp = (d2 * tsi * cc1) / 3.0;
+    const d3 = (17.0 * ao + sfour) * temp;
+    const d4 = 0.5 * temp * ao * tsi * (221.0 * ao + 31.0 * sfour) * cc1;
+    record.d2 = d2;
+    record.d3 = d3;
+    record.d4 = d4;
+    record.t3cof = d2 + 2.0 * cc1sq;
+    record.t4cof = 0.25 * (3.0 * d3 + cc1 * (12.0 * d2 + 10.0 * cc1sq));
+    record.t5cof = 0.2 * (3.0 * d4 + 12.0 * cc1 * d3 + 6.0 * d2 * d2 + 15.0 * cc1sq * (2.0 * d2 + cc1sq));
+  }
+
+  return record;
+}
+
+/**
+ * Propagate an initialized element set (sgp4).
+ * @param record Record from initSgp4()
+ * @param tsince Minutes since the element set epoch (may be negative)
+ * @returns TEME position (km) and velocity (km/s)
+ * @throws Sgp4Error if the elements cannot be propagated to this time
+ */
+export function sgp4(record: Sgp4Record, tsince: number): Sgp4State {
+  const t = tsince;
+
+  // ---- secular gravity and atmospheric drag ----
+  const xmdf = record.mo + record.mdot * t;
+  const argpdf = record.argpo + record.argpdot * t;
+  const nodedf = record.nodeo + record.nodedot * t;
+  let argpm = argpdf;
+  let mm = xmdf;
+  const t2 = t * t;
+  let nodem = nodedf + record.nodecf * t2;
+  let tempa = 1.0 - record.cc1 * t;
+  let tempe = record.bstar * record.cc4 * t;
+  let templ = record.t2cof * t2;
+
+  if (!record.isimp) {
+    const delomg = record.omgcof * t;
+    const delmtemp = 1.0 + record.eta * Math.cos(xmdf);
+    const delm = record.xmcof * (delmtemp * delmtemp * delmtemp - record.delmo);
+    const temp = delomg + delm;
+    mm = xmdf + temp;
+    argpm = argpdf - temp;
+    const t3 = t2 * t;
+    const t4 = t3 * t;
+    tempa = tempa - record.d2 * t2 - record.d3 * t3 - record.d4 * t4;
+    tempe += record.bstar * record.cc5 * (Math.sin(mm) - record.sinmao);
+    templ = templ + record.t3cof * t3 + t4 * (record.t4cof + t * record.t5cof);
+  }
+
+  let nm = record.no;
+  let em = record.ecco;
+  let inclm = record.inclo;
+
+  const ds = record.deepSpace;
+  if (ds) {
+    ({ em, argpm, inclm, mm, nodem, nm } = deepSpaceSecular(ds, t, { em, argpm, inclm, mm, nodem, nm }));
+  }
+
+  if (nm <= 0.0) {
+    throw new Sgp4Error(`Satellite ${record.satnum}: mean motion is not positive at t = ${tsince} min`, 2);
+  }
+
+  const am = (XKE / nm) ** X2O3 * tempa * tempa;
+  nm = XKE / am ** 1.5;
+  em -= tempe;
+
+  if (em >= 1.0 || em < -0.001) {
+    throw new Sgp4Error(`Satellite ${record.satnum}: mean eccentricity out of range at t = ${tsince} min`, 1);
+  }
+  // Avoid a division by zero for circular orbits
+  if (em < 1.0e-6) {
+    em = 1.0e-6;
+  }
+
+  mm += record.no * templ;
+  let xlm = mm + argpm + nodem;
+  nodem %= TWO_PI;
+  argpm %= TWO_PI;
+  xlm %= TWO_PI;
+  mm = (xlm - argpm - nodem) % TWO_PI;
+
+  // ---- lunar-solar periodics ----
+  let ep = em;
+  let xincp = inclm;
+  let argpp = argpm;
+  let nodep = nodem;
+  let mp = mm;
+  let sinip = Math.sin(inclm);
+  let cosip = Math.cos(inclm);
+
+  let aycof = record.aycof;
+  let xlcof = record.xlcof;
+  let con41 = record.con41;
+  let x1mth2 = record.x1mth2;
+  let x7thm1 = record.x7thm1;
+
+  if (ds) {
+    ({ ep, inclp: xincp, nodep, argpp, mp } = deepSpacePeriodics(ds, t, {
+      ep,
+      inclp: xincp,
+      nodep,
+      argpp,
+      mp,
+    }));
+    if (xincp < 0.0) {
+      xincp = -xincp;
+      nodep += Math.PI;
+      argpp -= Math.PI;
+    }
+    if (ep < 0.0 || ep > 1.0) {
+      throw new Sgp4Error(`Satellite ${record.satnum}: perturbed eccentricity out of range at t = ${tsince} min`, 3);
+    }
+
+    // Long-period coefficients from the perturbed inclination
+    sinip = Math.sin(xincp);
+    cosip = Math.cos(xincp);
+    aycof = -0.5 * J3OJ2 * sinip;
+    const divisor = Math.abs(cosip + 1.0) > 1.5e-12 ? 1.0 + cosip : 1.5e-12;
+    xlcof = (-0.25 * J3OJ2 * sinip * (3.0 + 5.0 * cosip)) / divisor;
+  }
+
+  // ---- long-period periodics ----
+  const axnl = ep * Math.cos(argpp);
+  let temp = 1.0 / (am * (1.0 - ep * ep));
+  const aynl = ep * Math.sin(argpp) + temp * aycof;
+  const xl = mp + argpp + nodep + temp * xlcof * axnl;
+
+  // ---- solve Kepler's equation for the eccentric longitude ----
+  const u = (xl - nodep) % TWO_PI;
+  let eo1 = u;
+  let tem5 = 9999.9;
+  let sineo1 = 0;
+  let coseo1 = 0;
+  for (let iteration = 1; Math.abs(tem5) >= 1.0e-12 && iteration <= 10; iteration++) {
+    sineo1 = Math.sin(eo1);
+    coseo1 = Math.cos(eo1);
+    tem5 = 1.0 - coseo1 * axnl - sineo1 * aynl;
+    tem5 = (u - aynl * coseo1 + axnl * sineo1 - eo1) / tem5;
+    // Limit the correction so the iteration cannot diverge
+    if (Math.abs(tem5) >= 0.95) {
+      tem5 = tem5 > 0.0 ? 0.95 : -0.95;
+    }
+    eo1 += tem5;
+  }
+
+  // ---- short-period preliminary quantities ----
+  const ecose = axnl * coseo1 + aynl * sineo1;
+  const esine = axnl * sineo1 - aynl * coseo1;
+  const el2 = axnl * axnl + aynl * aynl;
+  const pl = am * (1.0 - el2);
+  if (pl < 0.0) {
+    throw new Sgp4Error(`Satellite ${record.satnum}: semi-latus rectum is negative at t = ${tsince} min`, 4);
+  }
+
+  const rl = am * (1.0 - ecose);
+  const rdotl = (Math.sqrt(am) * esine) / rl;
+  const rvdotl = Math.sqrt(pl) / rl;
+  const betal = Math.sqrt(1.0 - el2);
+  temp = esine / (1.0 + betal);
+  const sinu = (am / rl) * (sineo1 - aynl - axnl * temp);
+  const cosu = (am / rl) * (coseo1 - axnl + aynl * temp);
+  let su = Math.atan2(sinu, cosu);
+  const sin2u = (cosu + cosu) * sinu;
+  const cos2u = 1.0 - 2.0 * sinu * sinu;
+  temp = 1.0 / pl;
+  const temp1 = 0.5 * J2 * temp;
+  const temp2 = temp1 * temp;
+
+  if (ds) {
+    const cosisq = cosip * cosip;
+    con41 = 3.0 * cosisq - 1.0;
+    x1mth2 = 1.0 - cosisq;
+    x7thm1 = 7.0 * cosisq - 1.0;
+  }
+
+  // ---- short-period periodics ----
+  const mrt = rl * (1.0 - 1.5 * temp2 * betal * con41) + 0.5 * temp1 * x1mth2 * cos2u;
+  if (mrt < 1.0) {
+    throw new Sgp4Error(`Satellite ${record.satnum}: decayed at t = ${tsince} min`, 6);
+  }
+
+  su -= 0.25 * temp2 * x7thm1 * sin2u;
+  const xnode = nodep + 1.5 * temp2 * cosip * sin2u;
+  const xinc = xincp + 1.5 * temp2 * cosip * sinip * cos2u;
+  const mvt = rdotl - (nm * temp1 * x1mth2 * sin2u) / XKE;
+  const rvdot = rvdotl + (nm * temp1 * (x1mth2 * cos2u + 1.5 * con41)) / XKE;
+
+  // ---- orientation vectors ----
+  const sinsu = Math.sin(su);
+  const cossu = Math.cos(su);
+  const snod = Math.sin(xnode);
+  const cnod = Math.cos(xnode);
+  const sini = Math.sin(xinc);
+  const cosi = Math.cos(xinc);
+  const xmx = -snod * cosi;
+  const xmy = cnod * cosi;
+  const ux = xmx * sinsu + cnod * cossu;
+  const uy = xmy * sinsu + snod * cossu;
+  const uz = sini * sinsu;
+  const vx = xmx * cossu - cnod * sinsu;
+  const vy = xmy * cossu - snod * sinsu;
+  const vz = sini * cossu;
+
+  return {
+    position: [mrt * ux * RADIUS_EARTH_KM, mrt * uy * RADIUS_EARTH_KM, mrt * uz * RADIUS_EARTH_KM],
+    velocity: [
+      (mvt * ux + rvdot * vx) * VKMPERSEC,
+      (mvt * uy + rvdot * vy) * VKMPERSEC,
+      (mvt * uz + rvdot * vz) * VKMPERSEC,
+    ],
+  };
+}
+
+/**
+ * Initialized records by element set text, so each TLE is initialized once per thread.
+ */
+const recordCache = new Map<string, Sgp4Record>();
+
+/**
+ * Propagate an element set to a time after its epoch.
+ * @param tle Parsed element set
+ * @param secondsSinceEpoch Seconds since the element set epoch (may be negative)
+ * @returns Cartesian state in the TEME frame (meters, m/s)
+ * @throws Sgp4Error if the elements cannot be propagated to this time
+ */
+export function propagateTle(tle: TwoLineElement, secondsSinceEpoch: number): CartesianState {
+  const key = `${tle.line1}\n${tle.line2}`;
+  let record = recordCache.get(key);
+  if (!record) {
+    record = initSgp4(tle);
+    recordCache.set(key, record);
+  }
+
+  const { position, velocity } = sgp4(record, secondsSinceEpoch / 60);
+  return {
+    position: [position[0] * 1000, position[1] * 1000, position[2] * 1000],
+    velocity: [velocity[0] * 1000, velocity[1] * 1000, velocity[2] * 1000],
+  };
+}
@@ -0,0 +1,691 @@
+/**
+ * SDP4 deep-space terms for SGP4 (orbital periods of 225 minutes or more).
+ * Lunar-solar secular and long-period perturbations plus the 12-hour and
+ * 24-hour geopotential resonance integrator, following the dscom, dsinit,
+ * dspace and dpper routines of Vallado, Crawford, Hujsak and Kelso,
+ * "Revisiting Spacetrack Report #3" (AIAA 2006-6753), "improved" mode.
+ *
+ * Units are SGP4's internal ones: earth radii, minutes and radians.
+ * The resonance integration restarts from epoch on every call, so results
+ * do not depend on the order in which times are requested.
+ */
+
+/**
+ * Earth rotation rate in rad/min.
+ */
+const RPTIM = 4.3752690880113e-3;
+
+/** Solar and lunar mean motions (rad/min) */
+const ZNS = 1.19459e-5;
+const ZNL = 1.5835218e-4;
+
+/** Solar and lunar orbit eccentricities */
+const ZES = 0.01675;
+const ZEL = 0.0549;
+
+/** Resonance integrator step (min) */
+const STEP = 720;
+const STEP2 = 259200;
+
+/**
+ * Mean elements evolved by the deep-space terms.
+ */
+export interface DeepSpaceElements {
+  /** Eccentricity */
+  em: number;
+  /** Argument of perigee (rad) */
+  argpm: number;
+  /** Inclination (rad) */
+  inclm: number;
+  /** Mean anomaly (rad) */
+  mm: number;
+  /** Right ascension of ascending node (rad) */
+  nodem: number;
+  /** Mean motion (rad/min) */
+  nm: number;
+}
+
+/**
+ * Osculating-to-mean inputs to the lunar-solar periodics.
+ */
+export interface PeriodicElements {
+  /** Eccentricity */
+  ep: number;
+  /** Inclination (rad) */
+  inclp: number;
+  /** Right ascension of ascending node (rad) */
+  nodep: number;
+  /** Argument of perigee (rad) */
+  argpp: number;
+  /** Mean anomaly (rad) */
+  mp: number;
+}
+
+/**
+ * Lunar-solar periodic coefficients.
+ */
+interface PeriodicCoefficients {
+  e3: number;
+  ee2: number;
+  se2: number;
+  se3: number;
+  sgh2: number;
+  sgh3: number;
+  sgh4: number;
+  sh2: number;
+  sh3: number;
+  si2: number;
+  si3: number;
+  sl2: number;
+  sl3: number;
+  sl4: number;
+  xgh2: number;
+  xgh3: number;
+  xgh4: number;
+  xh2: number;
+  xh3: number;
+  xi2: number;
+  xi3: number;
+  xl2: number;
+  xl3: number;
+  xl4: number;
+  /** Lunar mean anomaly at epoch (rad) */
+  zmol: number;
+  /** Solar mean anomaly at epoch (rad) */
+  zmos: number;
+}
+
+/**
+ * Deep-space part of an initialized SGP4 record.
+ */
+export interface DeepSpaceRecord extends PeriodicCoefficients {
+  /** Resonance: 0 none, 1 synchronous (24 h), 2 half-day (12 h) */
+  irez: 0 | 1 | 2;
+  /** Half-day resonance coefficients */
+  d2201: number;
+  d2211: number;
+  d3210: number;
+  d3222: number;
+  d4410: number;
+  d4422: number;
+  d5220: number;
+  d5232: number;
+  d5421: number;
+  d5433: number;
+  /** Synchronous resonance coefficients */
+  del1: number;
+  del2: number;
+  del3: number;
+  /** Lunar-solar secular rates (per minute) */
+  dedt: number;
+  didt: number;
+  dmdt: number;
+  dnodt: number;
+  domdt: number;
+  /** Resonance integrator constants */
+  xfact: number;
+  xlamo: number;
+  /** Greenwich sidereal time at epoch (rad) */
+  gsto: number;
+  /** Kozai-free mean motion at epoch (rad/min) */
+  no: number;
+  /** Argument of perigee at epoch and its secular rate */
+  argpo: number;
+  argpdot: number;
+}
+
+/**
+ * Epoch quantities needed to initialize the deep-space terms.
+ */
+export interface DeepSpaceInitInput {
+  /** Epoch in days since 1950 Jan 0.0 UTC */
+  epoch: number;
+  ecco: number;
+  argpo: number;
+  inclo: number;
+  nodeo: number;
+  mo: number;
+  /** Kozai-free mean motion (rad/min) */
+  no: number;
+  /** Near-earth secular rates (rad/min) */
+  mdot: number;
+  argpdot: number;
+  nodedot: number;
+  /** Greenwich sidereal time at epoch (rad) */
+  gsto: number;
+  /** Gravity constant √(μ/R³) in earth radii and minutes */
+  xke: number;
+}
+
+/**
+ * Lunar-solar geometry terms shared by the secular rates and the periodics (dscom).
+ */
+interface LunarSolarTerms {
+  coefficients: PeriodicCoefficients;
+  s1: number; s2: number; s3: number; s4: number; s5: number;
+  ss1: number; ss2: number; ss3: number; ss4: number; ss5: number;
+  z1: number; z3: number; z11: number; z13: number; z21: number; z23: number; z31: number; z33: number;
+  sz1: number; sz3: number; sz11: number; sz13: number; sz21: number; sz23: number; sz31: number; sz33: number;
+}
+
+/**
+ * Solar or lunar coupling terms for one perturbing body.
+ */
+interface BodyTerms {
+  s1: number; s2: number; s3: number; s4: number; s5: number; s6: number; s7: number;
+  z1: number; z2: number; z3: number;
+  z11: number; z12: number; z13: number;
+  z21: number; z22: number; z23: number;
+  z31: number; z32: number; z33: number;
+}
+
+/**
+ * Coupling terms between the satellite orbit and a perturbing body's orbit.
+ * @param zcosg, zsing Perturbing body argument of perigee
+ * @param zcosi, zsini Perturbing body inclination
+ * @param zcosh, zsinh Node of the satellite relative to the perturbing body
+ * @param cc Perturbing body strength
+ */
+function bodyTerms(
+  zcosg: number, zsing: number,
+  zcosi: number, zsini: number,
+  zcosh: number, zsinh: number,
+  cc: number,
+  sat: { em: number; emsq: number; betasq: number; rtemsq: number; xnoi: number; sinim: number; cosim: number; sinomm: number; cosomm: number }
+): BodyTerms {
+  const { em, emsq, betasq, rtemsq, xnoi, sinim, cosim, sinomm, cosomm } = sat;
+
+  const a1 = zcosg * zcosh + zsing * zcosi * zsinh;
+  const a3 = -zsing * zcosh + zcosg * zcosi * zsinh;
+  const a7 = -zcosg * zsinh + zsing * zcosi * zcosh;
+  const a8 = zsing * zsini;
+  const a9 = zsing * zsinh + zcosg * zcosi * zcosh;
+  const a10 = zcosg * zsini;
+  const a2 = cosim * a7 + sinim * a8;
+  const a4 = cosim * a9 + sinim * a10;
+  const a5 = -sinim * a7 + cosim * a8;
+  const a6 = -sinim * a9 + cosim * a10;
+
+  const x1 = a1 * cosomm + a2 * sinomm;
+  const x2 = a3 * cosomm + a4 * sinomm;
+  const x3 = -a1 * sinomm + a2 * cosomm;
+  const x4 = -a3 * sinomm + a4 * cosomm;
+  const x5 = a5 * sinomm;
+  const x6 = a6 * sinomm;
+  const x7 = a5 * cosomm;
+  const x8 = a6 * cosomm;
+
+  const z31 = 12.0 * x1 * x1 - 3.0 * x3 * x3;
+  const z32 = 24.0 * x1 * x2 - 6.0 * x3 * x4;
+  const z33 = 12.0 * x2 * x2 - 3.0 * x4 * x4;
+  let z1 = 3.0 * (a1 * a1 + a2 * a2) + z31 * emsq;
+  let z2 = 6.0 * (a1 * a3 + a2 * a4) + z32 * emsq;
+  let z3 = 3.0 * (a3 * a3 + a4 * a4) + z33 * emsq;
+  const z11 = -6.0 * a1 * a5 + emsq * (-24.0 * x1 * x7 - 6.0 * x3 * x5);
+  const z12 = -6.0 * (a1 * a6 + a3 * a5) + emsq * (-24.0 * (x2 * x7 + x1 * x8) + -6.0 * (x3 * x6 + x4 * x5));
+  const z13 = -6.0 * a3 * a6 + emsq * (-24.0 * x2 * x8 - 6.0 * x4 * x6);
+  const z21 = 6.0 * a2 * a5 + emsq * (24.0 * x1 * x5 - 6.0 * x3 * x7);
+  const z22 = 6.0 * (a4 * a5 + a2 * a6) + emsq * (24.0 * (x2 * x5 + x1 * x6) - 6.0 * (x4 * x7 + x3 * x8));
+  const z23 = 6.0 * a4 * a6 + emsq * (24.0 * x2 * x6 - 6.0 * x4 * x8);
+  z1 = z1 + z1 + betasq * z31;
+  z2 = z2 + z2 + betasq * z32;
+  z3 = z3 + z3 + betasq * z33;
+
+  const s3 = cc * xnoi;
+  const s2 = (-0.5 * s3) / rtemsq;
+  const s4 = s3 * rtemsq;
+  const s1 = -15.0 * em * s4;
+  const s5 = x1 * x3 + x2 * x4;
+  const s6 = x2 * x3 + x1 * x4;
+  const s7 = x2 * x4 - x1 * x3;
+
+  return { s1, s2, s3, s4, s5, s6, s7, z1, z2, z3, z11, z12, z13, z21, z22, z23, z31, z32, z33 };
+}
+
+/**
+ * Lunar-solar terms at epoch (dscom).
+ */
+function lunarSolarTerms(epoch: number, ep: number, argpp: number, inclp: number, nodep: number, np: number): LunarSolarTerms {
+  const c1ss = 2.9864797e-6;
+  const c1l = 4.7968065e-7;
+  const zsinis = 0.39785416;
+  const zcosis = 0.91744867;
+  const zcosgs = 0.1945905;
+  const zsings = -0.98088458;
+
+  const snodm = Math.sin(nodep);
+  const cnodm = Math.cos(nodep);
+  const emsq = ep * ep;
+  const betasq = 1.0 - emsq;
+  const sat = {
+    em: ep,
+    emsq,
+    betasq,
+    rtemsq: Math.sqrt(betasq),
+    xnoi: 1.0 / np,
+    sinim: Math.sin(inclp),
+    cosim: Math.cos(inclp),
+    sinomm: Math.sin(argpp),
+    cosomm: Math.cos(argpp),
+  };
+
+  // Lunar orbit orientation at epoch
+  const day = epoch + 18261.5;
+  const xnodce = (4.523602 - 9.2422029e-4 * day) % (2 * Math.PI);
+  const stem = Math.sin(xnodce);
+  const ctem = Math.cos(xnodce);
+  const zcosil = 0.91375164 - 0.03568096 * ctem;
+  const zsinil = Math.sqrt(1.0 - zcosil * zcosil);
+  const zsinhl = (0.089683511 * stem) / zsinil;
+  const zcoshl = Math.sqrt(1.0 - zsinhl * zsinhl);
+  const gam = 5.8351514 + 0.001944368 * day;
+  let zx = (0.39785416 * stem) / zsinil;
+  const zy = zcoshl * ctem + 0.91744867 * zsinhl * stem;
+  zx = Math.atan2(zx, zy);
+  zx += gam - xnodce;
+  const zcosgl = Math.cos(zx);
+  const zsingl = Math.sin(zx);
+
+  const sun = bodyTerms(zcosgs, zsings, zcosis, zsinis, cnodm, snodm, c1ss, sat);
+  const moon = bodyTerms(
+    zcosgl, zsingl,
+    zcosil, zsinil,
+    zcoshl * cnodm + zsinhl * snodm, snodm * zcoshl - cnodm * zsinhl,
+    c1l, sat
+  );
+
+  const coefficients: PeriodicCoefficients = {
+    // Solar terms
+    se2: 2.0 * sun.s1 * sun.s6,
+    se3: 2.0 * sun.s1 * sun.s7,
+    si2: 2.0 * sun.s2 * sun.z12,
+    si3: 2.0 * sun.s2 * (sun.z13 - sun.z11),
+    sl2: -2.0 * sun.s3 * sun.z2,
+    sl3: -2.0 * sun.s3 * (sun.z3 - sun.z1),
+    sl4: -2.0 * sun.s3 * (-21.0 - 9.0 * emsq) * ZES,
+    sgh2: 2.0 * sun.s4 * sun.z32,
+    sgh3: 2.0 * sun.s4 * (sun.z33 - sun.z31),
+    sgh4: -18.0 * sun.s4 * ZES,
+    sh2: -2.0 * sun.s2 * sun.z22,
+    sh3: -2.0 * sun.s2 * (sun.z23 - sun.z21),
+    // Lunar terms
+    ee2: 2.0 * moon.s1 * moon.s6,
+    e3: 2.0 * moon.s1 * moon.s7,
+    xi2: 2.0 * moon.s2 * moon.z12,
+    xi3: 2.0 * moon.s2 * (moon.z13 - moon.z11),
+    xl2: -2.0 * moon.s3 * moon.z2,
+    xl3: -2.0 * moon.s3 * (moon.z3 - moon.z1),
+    xl4: -2.0 * moon.s3 * (-21.0 - 9.0 * emsq) * ZEL,
+    xgh2: 2.0 * moon.s4 * moon.z32,
+    xgh3: 2.0 * moon.s4 * (moon.z33 - moon.z31),
+    xgh4: -18.0 * moon.s4 * ZEL,
+    xh2: -2.0 * moon.s2 * moon.z22,
+    xh3: -2.0 * moon.s2 * (moon.z23 - moon.z21),
+    zmol: (4.7199672 + (0.2299715 * day - gam)) % (2 * Math.PI),
+    zmos: (6.2565837 + 0.017201977 * day) % (2 * Math.PI),
+  };
+
+  return {
+    coefficients,
+    s1: moon.s1, s2: moon.s2, s3: moon.s3, s4: moon.s4, s5: moon.s5,
+    ss1: sun.s1, ss2: sun.s2, ss3: sun.s3, ss4: sun.s4, ss5: sun.s5,
+    z1: moon.z1, z3: moon.z3, z11: moon.z11, z13: moon.z13, z21: moon.z21, z23: moon.z23, z31: moon.z31, z33: moon.z33,
+    sz1: sun.z1, sz3: sun.z3, sz11: sun.z11, sz13: sun.z13, sz21: sun.z21, sz23: sun.z23, sz31: sun.z31, sz33: sun.z33,
+  };
+}
+
+/**
+ * Half-day (12 h) resonance coefficients for eccentric orbits (dsinit, irez = 2).
+ */
+function halfDayResonance(
+  em: number, sinim: number, cosim: number, nm: number, aonv: number
+): Pick<DeepSpaceRecord, 'd2201' | 'd2211' | 'd3210' | 'd3222' | 'd4410' | 'd4422' | 'd5220' | 'd5232' | 'd5421' | 'd5433'> {
+  const cosisq = cosim * cosim;
+  const emsq = em * em;
+  const eoc = em * emsq;
+
+  const g201 = -0.306 - (em - 0.64) * 0.44;
+  let g211: number, g310: number, g322: number, g410: number, g422: number, g520: number;
+  if (em <= 0.65) {
+    g211 = 3.616 - 13.247 * em + 16.29 * emsq;
+    g310 = -19.302 + 117.39 * em - 228.419 * emsq + 156.591 * eoc;
+    g322 = -18.9068 + 109.7927 * em - 214.6334 * emsq + 146.5816 * eoc;
+    g410 = -41.122 + 242.694 * em - 471.094 * emsq + 313.953 * eoc;
+    g422 = -146.407 + 841.88 * em - 1629.014 * emsq + 1083.435 * eoc;
+    g520 = -532.114 + 3017.977 * em - 5740.032 * emsq + 3708.276 * eoc;
+  } else {
+    g211 = -72.099 + 331.819 * em - 508.738 * emsq + 266.724 * eoc;
+    g310 = -346.844 + 1582.851 * em - 2415.925 * emsq + 1246.113 * eoc;
+    g322 = -342.585 + 1554.908 * em - 2366.899 * emsq + 1215.972 * eoc;
+    g410 = -1052.797 + 4758.686 * em - 7193.992 * emsq + 3651.957 * eoc;
+    g422 = -3581.69 + 16178.11 * em - 24462.77 * emsq + 12422.52 * eoc;
+    g520 = em > 0.715
+      ? -5149.66 + 29936.92 * em - 54087.36 * emsq + 31324.56 * eoc
+      : 1464.74 - 4664.75 * em + 3763.64 * emsq;
+  }
+
+  let g533: number, g521: number, g532: number;
+  if (em < 0.7) {
+    g533 = -919.2277 + 4988.61 * em - 9064.77 * emsq + 5542.21 * eoc;
+    g521 = -822.71072 + 4568.6173 * em - 8491.4146 * emsq + 5337.524 * eoc;
+    g532 = -853.666 + 4690.25 * em - 8624.77 * emsq + 5341.4 * eoc;
+  } else {
+    g533 = -37995.78 + 161616.52 * em - 229838.2 * emsq + 109377.94 * eoc;
+    g521 = -51752.104 + 218913.95 * em - 309468.16 * emsq + 146349.42 * eoc;
+    g532 = -40023.88 + 170470.89 * em - 242699.48 * emsq + 115605.82 * eoc;
+  }
+
+  const sini2 = sinim * sinim;
+  const f220 = 0.75 * (1.0 + 2.0 * cosim + cosisq);
+  const f221 = 1.5 * sini2;
+  const f321 = 1.875 * sinim * (1.0 - 2.0 * cosim - 3.0 * cosisq);
+  const f322 = -1.875 * sinim * (1.0 + 2.0 * cosim - 3.0 * cosisq);
+  const f441 = 35.0 * sini2 * f220;
+  const f442 = 39.375 * sini2 * sini2;
+  const f522 = 9.84375 * sinim * (sini2 * (1.0 - 2.0 * cosim - 5.0 * cosisq) + 0.33333333 * (-2.0 + 4.0 * cosim + 6.0 * cosisq));
+  const f523 = sinim * (4.92187512 * sini2 * (-2.0 - 4.0 * cosim + 10.0 * cosisq) + 6.56250012 * (1.0 + 2.0 * cosim - 3.0 * cosisq));
+  const f542 = 29.53125 * sinim * (2.0 - 8.0 * cosim + cosisq * (-12.0 + 8.0 * cosim + 10.0 * cosisq));
+  const f543 = 29.53125 * sinim * (-2.0 - 8.0 * cosim + cosisq * (12.0 + 8.0 * cosim - 10.0 * cosisq));
+
+  const root22 = 1.7891679e-6;
+  const root32 = 3.7393792e-7;
+  const root44 = 7.3636953e-9;
+  const root52 = 1.1428639e-7;
+  const root54 = 2.1765803e-9;
+
+  let temp1 = 3.0 * nm * nm * aonv * aonv;
+  let temp = temp1 * root22;
+  const d2201 = temp * f220 * g201;
+  const d2211 = temp * f221 * g211;
+  temp1 *= aonv;
+  temp = temp1 * root32;
+  const d3210 = temp * f321 * g310;
+  const d3222 = temp * f322 * g322;
+  temp1 *= aonv;
+  temp = 2.0 * temp1 * root44;
+  const d4410 = temp * f441 * g410;
+  const d4422 = temp * f442 * g422;
+  temp1 *= aonv;
+  temp = temp1 * root52;
+  const d5220 = temp * f522 * g520;
+  const d5232 = temp * f523 * g532;
+  temp = 2.0 * temp1 * root54;
+  const d5421 = temp * f542 * g521;
+  const d5433 = temp * f543 * g533;
+
+  return { d2201, d2211, d3210, d3222, d4410, d4422, d5220, d5232, d5421, d5433 };
+}
+
+/**
+ * Initialize the deep-space terms at epoch (dscom and dsinit).
+ * @param input Epoch mean elements and near-earth secular rates
+ * @returns Deep-space record
+ */
+export function initDeepSpace(input: DeepSpaceInitInput): DeepSpaceRecord {
+  const { epoch, ecco, argpo, inclo, nodeo, mo, no, mdot, argpdot, nodedot, gsto, xke } = input;
+  const terms = lunarSolarTerms(epoch, ecco, argpo, inclo, nodeo, no);
+  const { s1, s2, s3, s4, s5, ss1, ss2, ss3, ss4, ss5 } = terms;
+  const { z1, z3, z11, z13, z21, z23, z31, z33 } = terms;
+  const { sz1, sz3, sz11, sz13, sz21, sz23, sz31, sz33 } = terms;
+  const sinim = Math.sin(inclo);
+  const cosim = Math.cos(inclo);
+  const emsq = ecco * ecco;
+
+  // Resonance class from the mean motion (rad/min)
+  let irez: 0 | 1 | 2 = 0;
+  if (no < 0.0052359877 && no > 0.0034906585) {
+    irez = 1;
+  }
+  if (no >= 8.26e-3 && no <= 9.24e-3 && ecco >= 0.5) {
+    irez = 2;
+  }
+
+  // Node terms are dropped within 3° of equatorial orbits
+  const nearEquatorial = inclo < 5.2359877e-2 || inclo > Math.PI - 5.2359877e-2;
+
+  // Solar secular rates
+  const ses = ss1 * ZNS * ss5;
+  const sis = ss2 * ZNS * (sz11 + sz13);
+  const sls = -ZNS * ss3 * (sz1 + sz3 - 14.0 - 6.0 * emsq);
+  const sghs = ss4 * ZNS * (sz31 + sz33 - 6.0);
+  let shs = nearEquatorial ? 0.0 : -ZNS * ss2 * (sz21 + sz23);
+  if (sinim !== 0.0) {
+    shs /= sinim;
+  }
+  const sgs = sghs - cosim * shs;
+
+  // Lunar secular rates
+  const dedt = ses + s1 * ZNL * s5;
+  const didt = sis + s2 * ZNL * (z11 + z13);
+  const dmdt = sls - ZNL * s3 * (z1 + z3 - 14.0 - 6.0 * emsq);
+  const sghl = s4 * ZNL * (z31 + z33 - 6.0);
+  const shll = nearEquatorial ? 0.0 : -ZNL * s2 * (z21 + z23);
+  let domdt = sgs + sghl;
+  let dnodt = shs;
+  if (sinim !== 0.0) {
+    domdt -= (cosim / sinim) * shll;
+    dnodt += shll / sinim;
+  }
+
+  const record: DeepSpaceRecord = {
+    ...terms.coefficients,
+    irez,
+    d2201: 0, d2211: 0, d3210: 0, d3222: 0, d4410: 0, d4422: 0, d5220: 0, d5232: 0, d5421: 0, d5433: 0,
+    del1: 0, del2: 0, del3: 0,
+    dedt, didt, dmdt, dnodt, domdt,
+    xfact: 0,
+    xlamo: 0,
+    gsto,
+    no,
+    argpo,
+    argpdot,
+  };
+
+  const theta = gsto % (2 * Math.PI);
+  const aonv = (no / xke) ** (2 / 3);
+
+  if (irez === 2) {
+    Object.assign(record, halfDayResonance(ecco, sinim, cosim, no, aonv));
+    record.xlamo = (mo + nodeo + nodeo - (theta + theta)) % (2 * Math.PI);
+    record.xfact = mdot + dmdt + 2.0 * (nodedot + dnodt - RPTIM) - no;
+  } else if (irez === 1) {
+    const g200 = 1.0 + emsq * (-2.5 + 0.8125 * emsq);
+    const g310 = 1.0 + 2.0 * emsq;
+    const g300 = 1.0 + emsq * (-6.0 + 6.60937 * emsq);
+    const f220 = 0.75 * (1.0 + cosim) * (1.0 + cosim);
+    const f311 = 0.9375 * sinim * sinim * (1.0 + 3.0 * cosim) - 0.75 * (1.0 + cosim);
+    let f330 = 1.0 + cosim;
+    f330 *= 1.875 * f330 * f330;
+    const q22 = 1.7891679e-6;
+    const q31 = 2.1460748e-6;
+    const q33 = 2.2123015e-7;
+    const del = 3.0 * no * no * aonv * aonv;
+    record.del2 = 2.0 * del * f220 * g200 * q22;
+    record.del3 = 3.0 * del * f330 * g300 * q33 * aonv;
+    record.del1 = del * f311 * g310 * q31 * aonv;
+    record.xlamo = (mo + nodeo + argpo - theta) % (2 * Math.PI);
+    record.xfact = mdot + (argpdot + nodedot) + dmdt + domdt + dnodt - (no + RPTIM);
+  }
+
+  return record;
+}
+
+/**
+ * Apply the lunar-solar secular rates and integrate the geopotential
+ * resonances from epoch (dspace).
+ * @param ds Deep-space record
+ * @param t Minutes since epoch
+ * @param elements Mean elements after the near-earth secular update
+ * @returns Mean elements including the deep-space secular effects
+ */
+export function deepSpaceSecular(ds: DeepSpaceRecord, t: number, elements: DeepSpaceElements): DeepSpaceElements {
+  const fasx2 = 0.13130908;
+  const fasx4 = 2.8843198;
+  const fasx6 = 0.37448087;
+  const g22 = 5.7686396;
+  const g32 = 0.95240898;
+  const g44 = 1.8014998;
+  const g52 = 1.050833;
+  const g54 = 4.4108898;
+
+  const theta = (ds.gsto + t * RPTIM) % (2 * Math.PI);
+  const em = elements.em + ds.dedt * t;
+  const inclm = elements.inclm + ds.didt * t;
+  const argpm = elements.argpm + ds.domdt * t;
+  const nodem = elements.nodem + ds.dnodt * t;
+  let mm = elements.mm + ds.dmdt * t;
+  let nm = elements.nm;
+
+  if (ds.irez !== 0) {
+    // Euler-Maclaurin integration of the resonance terms from epoch
+    const delt = t > 0 ? STEP : -STEP;
+    let atime = 0;
+    let xni = ds.no;
+    let xli = ds.xlamo;
+    let xndt = 0;
+    let xldot = 0;
+    let xnddt = 0;
+    let ft = 0;
+
+    for (;;) {
+      if (ds.irez !== 2) {
+        // Synchronous resonance terms
+        xndt =
+          ds.del1 * Math.sin(xli - fasx2) +
+          ds.del2 * Math.sin(2.0 * (xli - fasx4)) +
+          ds.del3 * Math.sin(3.0 * (xli - fasx6));
+        xldot = xni + ds.xfact;
+        xnddt =
+          ds.del1 * Math.cos(xli - fasx2) +
+          2.0 * ds.del2 * Math.cos(2.0 * (xli - fasx4)) +
+          3.0 * ds.del3 * Math.cos(3.0 * (xli - fasx6));
+        xnddt *= xldot;
+      } else {
+        // Half-day resonance terms
+        const xomi = ds.argpo + ds.argpdot * atime;
+        const x2omi = xomi + xomi;
+        const x2li = xli + xli;
+        xndt =
+          ds.d2201 * Math.sin(x2omi + xli - g22) +
+          ds.d2211 * Math.sin(xli - g22) +
+          ds.d3210 * Math.sin(xomi + xli - g32) +
+          ds.d3222 * Math.sin(-xomi + xli - g32) +
+          ds.d4410 * Math.sin(x2omi + x2li - g44) +
+          ds.d4422 * Math.sin(x2li - g44) +
+          ds.d5220 * Math.sin(xomi + xli - g52) +
+          ds.d5232 * Math.sin(-xomi + xli - g52) +
+          ds.d5421 * Math.sin(xomi + x2li - g54) +
+          ds.d5433 * Math.sin(-xomi + x2li - g54);
+        xldot = xni + ds.xfact;
+        xnddt =
+          ds.d2201 * Math.cos(x2omi + xli - g22) +
+          ds.d2211 * Math.cos(xli - g22) +
+          ds.d3210 * Math.cos(xomi + xli - g32) +
+          ds.d3222 * Math.cos(-xomi + xli - g32) +
+          ds.d5220 * Math.cos(xomi + xli - g52) +
+          ds.d5232 * Math.cos(-xomi + xli - g52) +
+          2.0 *
+            (ds.d4410 * Math.cos(x2omi + x2li - g44) +
+              ds.d4422 * Math.cos(x2li - g44) +
+              ds.d5421 * Math.cos(xomi + x2li - g54) +
+              ds.d5433 * Math.cos(-xomi + x2li - g54));
+        xnddt *= xldot;
+      }
+
+      if (Math.abs(t - atime) < STEP) {
+        ft = t - atime;
+        break;
+      }
+      xli += xldot * delt + xndt * STEP2;
+      xni += xndt * delt + xnddt * STEP2;
+      atime += delt;
+    }
+
+    nm = xni + xndt * ft + xnddt * ft * ft * 0.5;
+    const xl = xli + xldot * ft + xndt * ft * ft * 0.5;
+    mm = ds.irez !== 1
+      ? xl - 2.0 * nodem + 2.0 * theta
+      : xl - nodem - argpm + theta;
+    nm = ds.no + (nm - ds.no);
+  }
+
+  return { em, argpm, inclm, mm, nodem, nm };
+}
+
+/**
+ * Add the lunar-solar long-period periodics (dpper, with the Lyddane
+ * modification for inclinations below 0.2 rad).
+ * @param ds Deep-space record
+ * @param t Minutes since epoch
+ * @param elements Mean elements
+ * @returns Elements including the periodic perturbations
+ */
+export function deepSpacePeriodics(ds: DeepSpaceRecord, t: number, elements: PeriodicElements): PeriodicElements {
+  // Solar periodics
+  let zm = ds.zmos + ZNS * t;
+  let zf = zm + 2.0 * ZES * Math.sin(zm);
+  let sinzf = Math.sin(zf);
+  let f2 = 0.5 * sinzf * sinzf - 0.25;
+  let f3 = -0.5 * sinzf * Math.cos(zf);
+  const ses = ds.se2 * f2 + ds.se3 * f3;
+  const sis = ds.si2 * f2 + ds.si3 * f3;
+  const sls = ds.sl2 * f2 + ds.sl3 * f3 + ds.sl4 * sinzf;
+  const sghs = ds.sgh2 * f2 + ds.sgh3 * f3 + ds.sgh4 * sinzf;
+  const shs = ds.sh2 * f2 + ds.sh3 * f3;
+
+  // Lunar periodics
+  zm = ds.zmol + ZNL * t;
+  zf = zm + 2.0 * ZEL * Math.sin(zm);
+  sinzf = Math.sin(zf);
+  f2 = 0.5 * sinzf * sinzf - 0.25;
+  f3 = -0.5 * sinzf * Math.cos(zf);
+  const sel = ds.ee2 * f2 + ds.e3 * f3;
+  const sil = ds.xi2 * f2 + ds.xi3 * f3;
+  const sll = ds.xl2 * f2 + ds.xl3 * f3 + ds.xl4 * sinzf;
+  const sghl = ds.xgh2 * f2 + ds.xgh3 * f3 + ds.xgh4 * sinzf;
+  const shll = ds.xh2 * f2 + ds.xh3 * f3;
+
+  const pe = ses + sel;
+  const pinc = sis + sil;
+  const pl = sls + sll;
+  let pgh = sghs + sghl;
+  let ph = shs + shll;
+
+  const inclp = elements.inclp + pinc;
+  const ep = elements.ep + pe;
+  let { nodep, argpp, mp } = elements;
+  const sinip = Math.sin(inclp);
+  const cosip = Math.cos(inclp);
+
+  if (inclp >= 0.2) {
+    // Apply periodics directly
+    ph /= sinip;
+    pgh -= cosip * ph;
+    argpp += pgh;
+    nodep += ph;
+    mp += pl;
+  } else {
+    // Lyddane modification avoids the singularity at zero inclination
+    const sinop = Math.sin(nodep);
+    const cosop = Math.cos(nodep);
+    let alfdp = sinip * sinop;
+    let betdp = sinip * cosop;
+    const dalf = ph * cosop + pinc * cosip * sinop;
+    const dbet = -ph * sinop + pinc * cosip * cosop;
+    alfdp += dalf;
+    betdp += dbet;
+    nodep %= 2 * Math.PI;
+    let xls = mp + argpp + cosip * nodep;
+    const dls = pl + pgh - pinc * nodep * sinip;
+    xls += dls;
+    const xnoh = nodep;
+    nodep = Math.atan2(alfdp, betdp);
+    if (Math.abs(xnoh - nodep) > Math.PI) {
+      nodep += nodep < xnoh ? 2 * Math.PI : -2 * Math.PI;
+    }
+    mp += pl;
+    argpp = xls - mp - cosip * nodep;
+  }
+
+  return { ep, inclp, nodep, argpp, mp };
+}
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { sunPosition } from './sun';
+import { ASTRONOMICAL_UNIT } from './constants';
+import { julianDateFromIso } from './time';
+import { magnitude } from './vector';
+
+describe('sun', () => {
+  it('matches Vallado Example 5-1 (2006-04-02 00:00 UTC)', () => {
+    const sun = sunPosition(2453827.5).map((value) => value / ASTRONOMICAL_UNIT);
+
+    expect(sun[0]).toBeCloseTo(0.9771945, 5);
+    expect(sun[1]).toBeCloseTo(0.1924424, 5);
+    expect(sun[2]).toBeCloseTo(0.0834308, 5);
+  });
+
+  it('lies on the equinox and solstice directions through the year', () => {
+    // March equinox: Sun crosses the equator heading north along +X
+    const march = sunPosition(julianDateFromIso('2024-03-20T03:06:00Z'));
+    expect(march[2] / magnitude(march)).toBeCloseTo(0, 3);
+    expect(march[0]).toBeGreaterThan(0);
+
+    // June solstice: Sun at its northernmost declination (the obliquity)
+    const june = sunPosition(julianDateFromIso('2024-06-20T20:51:00Z'));
+    expect(Math.asin(june[2] / magnitude(june)) * 180 / Math.PI).toBeCloseTo(23.44, 1);
+  });
+
+  it('is closest in January and farthest in July', () => {
+    const perihelion = magnitude(sunPosition(julianDateFromIso('2024-01-03T00:00:00Z')));
+    const aphelion = magnitude(sunPosition(julianDateFromIso('2024-07-05T00:00:00Z')));
+
+    expect(perihelion / ASTRONOMICAL_UNIT).toBeCloseTo(0.9833, 3);
+    expect(aphelion / ASTRONOMICAL_UNIT).toBeCloseTo(1.0167, 3);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Low-precision solar ephemeris (Astronomical Almanac / Vallado Algorithm 29).
+ * Accurate to about 0.01° in direction between 1950 and 2050, which is plenty
+ * for lighting, eclipses and solar radiation pressure.
+ */
+
+import { ASTRONOMICAL_UNIT } from './constants';
+import { J2000_JD } from './time';
+
+const DEG = Math.PI / 180;
+
+/**
+ * Position of the Sun relative to the Earth's center.
+ * The frame is the mean equator and equinox of date, which differs from the
+ * sim's ECI frame by precession only (under 0.5° this century).
+ * @param jd Julian date (UT1; UTC is close enough)
+ * @returns Sun position in meters
+ */
+export function sunPosition(jd: number): [number, number, number] {
+  const t = (jd - J2000_JD) / 36525; // Julian centuries since J2000
+
+  const meanLongitude = 280.46 + 36000.771 * t; // degrees
+  const meanAnomaly = (357.5291092 + 35999.05034 * t) * DEG;
+  const eclipticLongitude =
+    (meanLongitude + 1.914666471 * Math.sin(meanAnomaly) + 0.019994643 * Math.sin(2 * meanAnomaly)) * DEG;
+  const obliquity = (23.439291 - 0.0130042 * t) * DEG;
+
+  const distance =
+    (1.000140612 - 0.016708617 * Math.cos(meanAnomaly) - 0.000139589 * Math.cos(2 * meanAnomaly)) *
+    ASTRONOMICAL_UNIT;
+
+  return [
+    distance * Math.cos(eclipticLongitude),
+    distance * Math.cos(obliquity) * Math.sin(eclipticLongitude),
+    distance * Math.sin(obliquity) * Math.sin(eclipticLongitude),
+  ];
+}
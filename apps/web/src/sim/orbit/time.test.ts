@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import {
+  julianDateFromYearDay,
+  julianDateFromIso,
+  isoFromJulianDate,
+  formatUtc,
+  greenwichMeanSiderealTime,
+  J2000_JD,
+} from './time';
+
+const DEG = Math.PI / 180;
+
+describe('time', () => {
+  it('converts ISO 8601 dates to Julian dates and back', () => {
+    expect(julianDateFromIso('2000-01-01T12:00:00Z')).toBe(J2000_JD);
+    expect(julianDateFromIso('2024-01-01T00:00:00Z')).toBe(2460310.5);
+    expect(isoFromJulianDate(2460310.5 + 0.25)).toBe('2024-01-01T06:00:00.000Z');
+    expect(() => julianDateFromIso('yesterday')).toThrow('Invalid date-time');
+  });
+
+  it('converts TLE year and day of year to Julian dates', () => {
+    expect(julianDateFromYearDay(2000, 1.5)).toBe(J2000_JD);
+    expect(julianDateFromYearDay(2024, 1)).toBe(2460310.5);
+  });
+
+  it('formats calendar dates to the second', () => {
+    expect(formatUtc(J2000_JD)).toBe('2000-01-01 12:00:00 UTC');
+    expect(formatUtc(2460310.5 + 59.9 / 86400)).toBe('2024-01-01 00:00:59 UTC');
+  });
+
+  it('computes Greenwich mean sidereal time', () => {
+    // Vallado, Fundamentals of Astrodynamics, Example 3-5: 1992-08-20 12:14 UT1
+    const jd = julianDateFromIso('1992-08-20T12:14:00Z');
+    expect(greenwichMeanSiderealTime(jd) / DEG).toBeCloseTo(152.578788, 5);
+    expect(greenwichMeanSiderealTime(J2000_JD) / DEG).toBeCloseTo(280.46062, 5);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Time scale helpers: Julian dates, ISO 8601 UTC strings and sidereal time.
+ * Dates are UTC; the difference between UTC and UT1 (under a second) is ignored.
+ */
+
+/**
+ * Seconds per day.
+ */
+export const SECONDS_PER_DAY = 86400;
+
+/**
+ * Julian date of the Unix epoch (1970-01-01T00:00:00Z).
+ */
+export const UNIX_EPOCH_JD = 2440587.5;
+
+/**
+ * Julian date of the J2000 epoch (2000-01-01T12:00:00 TT, used here as UT1).
+ */
+export const J2000_JD = 2451545.0;
+
+/**
+ * Julian date from a year and fractional day of year, as written in TLE epochs.
+ * Valid for years 1901-2099.
+ * @param year Four-digit year
+ * @param dayOfYear Day of year including fraction (1.0 = Jan 1 00:00 UTC)
+ * @returns Julian date
+ */
+export function julianDateFromYearDay(year: number, dayOfYear: number): number {
+  // Julian date of Jan 0 (Dec 31 of the previous year) at 00:00
+  const jan0 = 367 * year - Math.floor((7 * year) / 4) + 30 + 1721013.5;
+  return jan0 + dayOfYear;
+}
+
+/**
+ * Julian date from an ISO 8601 date-time string.
+ * @param iso Date-time such as '2006-06-25T00:00:00Z'
+ * @returns Julian date
+ */
+export function julianDateFromIso(iso: string): number {
+  const ms = Date.parse(iso);
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid date-time "${iso}"`);
+  }
+  return ms / (SECONDS_PER_DAY * 1000) + UNIX_EPOCH_JD;
+}
+
+/**
+ * ISO 8601 UTC date-time string from a Julian date (millisecond precision).
+ * @param jd Julian date
+ * @returns Date-time such as '2006-06-25T00:00:00.000Z'
+ */
+export function isoFromJulianDate(jd: number): string {
+  return new Date(Math.round((jd - UNIX_EPOCH_JD) * SECONDS_PER_DAY * 1000)).toISOString();
+}
+
+/**
+ * Calendar date and time in UTC, rounded down to the second.
+ * @param jd Julian date
+ * @returns Date-time such as '2006-06-25 00:00:00 UTC'
+ */
+export function formatUtc(jd: number): string {
+  const ms = (jd - UNIX_EPOCH_JD) * SECONDS_PER_DAY * 1000;
+  // Round to the millisecond first so 12:00:00 is not shown as 11:59:59
+  const iso = new Date(Math.floor(Math.round(ms) / 1000) * 1000).toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, 19)} UTC`;
+}
+
+/**
+ * Greenwich mean sidereal time (IAU 1982 model, as used by SGP4).
+ * @param jd Julian date (UT1)
+ * @returns GMST in radians, 0 to 2π
+ */
+export function greenwichMeanSiderealTime(jd: number): number {
+  const t = (jd - J2000_JD) / 36525;
+  // Seconds of time
+  const seconds =
+    -6.2e-6 * t * t * t + 0.093104 * t * t + (876600 * 3600 + 8640184.812866) * t + 67310.54841;
+  // 1 second of time = 1/240 degree
+  const gmst = ((seconds / 240) * Math.PI / 180) % (2 * Math.PI);
+  return gmst < 0 ? gmst + 2 * Math.PI : gmst;
+}
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { parseTLE, parseTLEs, formatTLE, tleChecksum } from './tle';
+
+const LINE1 = '1 00005U 58002B   00179.78495062  .00000023  00000-0  28098-4 0  4753';
+const LINE2 = '2 00005  34.2682 348.7242 1859667 331.7664  19.3264 10.82419157413667';
+const GPS_LINE1 = '1 28129U 03058A   06175.57071136 -.00000104  00000-0  10000-3 0   459';
+const GPS_LINE2 = '2 28129  54.7298 324.8098 0048506 266.2640  93.1663  2.00562768 18443';
+
+const DEG = Math.PI / 180;
+
+describe('tle', () => {
+  describe('parseTLE', () => {
+    it('parses the fixed-column fields', () => {
+      const tle = parseTLE(`${LINE1}\n${LINE2}`);
+
+      expect(tle.satnum).toBe('00005');
+      expect(tle.name).toBeUndefined();
+      expect(tle.epochYear).toBe(2000);
+      expect(tle.epochDay).toBeCloseTo(179.78495062, 10);
+      expect(tle.epochJd).toBeCloseTo(2451723.28495062, 8);
+      expect(tle.meanMotionDot).toBeCloseTo(0.00000023, 12);
+      expect(tle.meanMotionDdot).toBe(0);
+      expect(tle.bstar).toBeCloseTo(0.28098e-4, 12);
+      expect(tle.inclination).toBeCloseTo(34.2682 * DEG, 12);
+      expect(tle.raan).toBeCloseTo(348.7242 * DEG, 12);
+      expect(tle.eccentricity).toBeCloseTo(0.1859667, 12);
+      expect(tle.argPerigee).toBeCloseTo(331.7664 * DEG, 12);
+      expect(tle.meanAnomaly).toBeCloseTo(19.3264 * DEG, 12);
+      expect(tle.meanMotion).toBeCloseTo(10.82419157, 10);
+      expect(tle.revolutionNumber).toBe(41366);
+    });
+
+    it('parses negative exponent fields and twentieth-century epochs', () => {
+      const tle = parseTLE(
+        '1 16925U 86065D   06151.67415771  .02550794 -30915-6  18784-3 0  4486\n' +
+        '2 16925  62.0906 295.0239 5596327 245.1593  47.9690  4.88511875148616'
+      );
+
+      expect(tle.meanMotionDdot).toBeCloseTo(-0.30915e-6, 14);
+      expect(tle.bstar).toBeCloseTo(0.18784e-3, 12);
+      expect(parseTLE(`${LINE1}\n${LINE2}`).epochYear).toBe(2000);
+      expect(
+        parseTLE(
+          '1 08195U 75081A   06176.33215444  .00000099  00000-0  11873-3 0   813\n' +
+          '2 08195  64.1586 279.0717 6877146 264.7651  20.2257  2.00491383225656'
+        ).epochYear
+      ).toBe(2006);
+    });
+
+    it('reads the title line of a three-line set', () => {
+      const tle = parseTLE(`0 VANGUARD 1\n${LINE1}\n${LINE2}\n`);
+      expect(tle.name).toBe('VANGUARD 1');
+      expect(tle.satnum).toBe('00005');
+    });
+
+    it('rejects a checksum mismatch', () => {
+      const corrupted = LINE2.slice(0, 10) + '5' + LINE2.slice(11);
+      expect(() => parseTLE(`${LINE1}\n${corrupted}`)).toThrow('checksum');
+    });
+
+    it('rejects truncated lines and mismatched satellites', () => {
+      expect(() => parseTLE(`${LINE1.slice(0, 60)}\n${LINE2}`)).toThrow('69 characters');
+      expect(() => parseTLE(`${LINE1}\n${GPS_LINE2}`)).toThrow('different satellites');
+      expect(() => parseTLE(LINE1)).toThrow('2 or 3 lines');
+    });
+  });
+
+  describe('tleChecksum', () => {
+    it('counts digits and minus signs', () => {
+      expect(tleChecksum(LINE1)).toBe(3);
+      expect(tleChecksum(GPS_LINE1)).toBe(9);
+    });
+  });
+
+  describe('parseTLEs', () => {
+    it('parses a mix of named and unnamed sets', () => {
+      const tles = parseTLEs(`VANGUARD 1\n${LINE1}\n${LINE2}\n${GPS_LINE1}\n${GPS_LINE2}\n`);
+
+      expect(tles.map((tle) => tle.satnum)).toEqual(['00005', '28129']);
+      expect(tles[0]!.name).toBe('VANGUARD 1');
+      expect(tles[1]!.name).toBeUndefined();
+    });
+
+    it('throws when no set is present', () => {
+      expect(() => parseTLEs('just a name')).toThrow('No TLE found');
+    });
+  });
+
+  it('formats a set back to text', () => {
+    const text = `VANGUARD 1\n${LINE1}\n${LINE2}`;
+    expect(formatTLE(parseTLE(text))).toBe(text);
+  });
+});
@@ -0,0 +1,220 @@
+/**
+ * Two-Line Element (TLE) set parser.
+ * Reads the fixed-column NORAD format (optionally preceded by a title line)
+ * and validates the modulo-10 checksum of both lines.
+ * Reference: CelesTrak, "NORAD Two-Line Element Set Format".
+ */
+
+import { julianDateFromYearDay } from './time';
+
+/**
+ * Parsed Two-Line Element set.
+ * Angles are converted to radians; rates keep their TLE units.
+ */
+export interface TwoLineElement {
+  /** Object name from the title line, if present */
+  name?: string;
+  /** Line 1 as written (69 characters) */
+  line1: string;
+  /** Line 2 as written (69 characters) */
+  line2: string;
+  /** Satellite catalog number */
+  satnum: string;
+  /** Epoch year (four digits) */
+  epochYear: number;
+  /** Epoch day of year including fraction (1.0 = Jan 1 00:00 UTC) */
+  epochDay: number;
+  /** Epoch as a Julian date (UTC) */
+  epochJd: number;
+  /** First derivative of mean motion divided by 2 (rev/day²) */
+  meanMotionDot: number;
+  /** Second derivative of mean motion divided by 6 (rev/day³) */
+  meanMotionDdot: number;
+  /** SGP4 drag term B* (1/earth radii) */
+  bstar: number;
+  /** Inclination (radians) */
+  inclination: number;
+  /** Right ascension of ascending node (radians) */
+  raan: number;
+  /** Eccentricity */
+  eccentricity: number;
+  /** Argument of perigee (radians) */
+  argPerigee: number;
+  /** Mean anomaly (radians) */
+  meanAnomaly: number;
+  /** Mean motion (rev/day) */
+  meanMotion: number;
+  /** Revolution number at epoch */
+  revolutionNumber: number;
+}
+
+/**
+ * Length of a TLE data line including the checksum digit.
+ */
+const TLE_LINE_LENGTH = 69;
+
+const DEG_TO_RAD = Math.PI / 180;
+
+/**
+ * Compute the TLE checksum of a line: the sum of its digits, counting each
+ * minus sign as 1, modulo 10. The checksum column itself is excluded.
+ * @param line TLE data line
+ * @returns Checksum digit
+ */
+export function tleChecksum(line: string): number {
+  let sum = 0;
+  for (const char of line.slice(0, TLE_LINE_LENGTH - 1)) {
+    if (char >= '0' && char <= '9') {
+      sum += char.charCodeAt(0) - 48;
+    } else if (char === '-') {
+      sum += 1;
+    }
+  }
+  return sum % 10;
+}
+
+/**
+ * Parse a numeric column, rejecting blank or malformed fields.
+ */
+function parseField(line: string, start: number, end: number, field: string): number {
+  const text = line.slice(start, end).trim();
+  const value = Number(text);
+  if (text === '' || !Number.isFinite(value)) {
+    throw new Error(`Invalid TLE ${field} "${text}"`);
+  }
+  return value;
+}
+
+/**
+ * Parse an assumed-decimal field with exponent, e.g. ' 28098-4' = 0.28098e-4.
+ */
+function parseExponentField(line: string, start: number, field: string): number {
+  const text = line.slice(start, start + 8);
+  const match = /^([ +-])(\d{5})([ +-]\d)$/.exec(text);
+  if (!match) {
+    throw new Error(`Invalid TLE ${field} "${text.trim()}"`);
+  }
+  const sign = match[1] === '-' ? -1 : 1;
+  return sign * Number(`0.${match[2]}`) * 10 ** Number(match[3]!.replace(' ', ''));
+}
+
+/**
+ * Check that a line is a well-formed TLE data line with a valid checksum.
+ */
+function validateLine(line: string, lineNumber: 1 | 2): void {
+  if (line.length !== TLE_LINE_LENGTH) {
+    throw new Error(`TLE line ${lineNumber} must be ${TLE_LINE_LENGTH} characters (got ${line.length})`);
+  }
+  if (line[0] !== String(lineNumber)) {
+    throw new Error(`TLE line ${lineNumber} must start with "${lineNumber}"`);
+  }
+  const expected = tleChecksum(line);
+  const actual = Number(line[TLE_LINE_LENGTH - 1]);
+  if (actual !== expected) {
+    throw new Error(`TLE line ${lineNumber} checksum mismatch (expected ${expected}, got ${line[TLE_LINE_LENGTH - 1]})`);
+  }
+}
+
+/**
+ * Parse one element set.
+ * @param text Two data lines, optionally preceded by a title line
+ * @returns Parsed element set
+ * @throws Error if the lines are malformed or fail the checksum
+ */
+export function parseTLE(text: string): TwoLineElement {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim() !== '');
+
+  if (lines.length !== 2 && lines.length !== 3) {
+    throw new Error(`A TLE must have 2 or 3 lines (got ${lines.length})`);
+  }
+
+  const [line1, line2] = lines.slice(-2) as [string, string];
+  // Title lines in 3LE files may carry a '0 ' prefix
+  const name = lines.length === 3 ? lines[0]!.replace(/^0 /, '').trim() : undefined;
+
+  validateLine(line1, 1);
+  validateLine(line2, 2);
+
+  const satnum = line1.slice(2, 7).trim();
+  if (line2.slice(2, 7).trim() !== satnum) {
+    throw new Error(`TLE lines belong to different satellites (${satnum} and ${line2.slice(2, 7).trim()})`);
+  }
+
+  // Two-digit years: 57-99 are 1957-1999, 00-56 are 2000-2056
+  const twoDigitYear = parseField(line1, 18, 20, 'epoch year');
+  const epochYear = twoDigitYear < 57 ? 2000 + twoDigitYear : 1900 + twoDigitYear;
+  const epochDay = parseField(line1, 20, 32, 'epoch day');
+
+  const eccentricity = Number(`0.${line2.slice(26, 33).replace(/ /g, '0')}`);
+  if (!Number.isFinite(eccentricity)) {
+    throw new Error(`Invalid TLE eccentricity "${line2.slice(26, 33)}"`);
+  }
+
+  return {
+    name: name || undefined,
+    line1,
+    line2,
+    satnum,
+    epochYear,
+    epochDay,
+    epochJd: julianDateFromYearDay(epochYear, epochDay),
+    meanMotionDot: parseField(line1, 33, 43, 'mean motion derivative'),
+    meanMotionDdot: parseExponentField(line1, 44, 'mean motion second derivative'),
+    bstar: parseExponentField(line1, 53, 'B*'),
+    inclination: parseField(line2, 8, 16, 'inclination') * DEG_TO_RAD,
+    raan: parseField(line2, 17, 25, 'right ascension of ascending node') * DEG_TO_RAD,
+    eccentricity,
+    argPerigee: parseField(line2, 34, 42, 'argument of perigee') * DEG_TO_RAD,
+    meanAnomaly: parseField(line2, 43, 51, 'mean anomaly') * DEG_TO_RAD,
+    meanMotion: parseField(line2, 52, 63, 'mean motion'),
+    revolutionNumber: Number(line2.slice(63, 68).trim() || '0'),
+  };
+}
+
+/**
+ * Parse every element set in a block of text (e.g. a CelesTrak 3LE file).
+ * Each pair of lines starting with '1 ' and '2 ' is one set; a preceding
+ * non-data line is taken as its name.
+ * @param text TLE text
+ * @returns Parsed element sets in file order
+ * @throws Error if any set is malformed, or if no set is found
+ */
+export function parseTLEs(text: string): TwoLineElement[] {
+  const lines = text
+    .split(/\r?\n/)
+    .map((line) => line.trimEnd())
+    .filter((line) => line.trim() !== '');
+
+  const tles: TwoLineElement[] = [];
+  let name: string | undefined;
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index]!;
+    if (line.startsWith('1 ') && lines[index + 1]?.startsWith('2 ')) {
+      const set = [name, line, lines[index + 1]!].filter((l) => l !== undefined).join('\n');
+      tles.push(parseTLE(set));
+      name = undefined;
+      index++;
+    } else if (name === undefined) {
+      name = line;
+    } else {
+      throw new Error(`Unexpected line in TLE text: "${line}"`);
+    }
+  }
+
+  if (tles.length === 0) {
+    throw new Error('No TLE found');
+  }
+  return tles;
+}
+
+/**
+ * Write an element set back to text.
+ * @param tle Element set
+ * @returns Title line (if named) and the two data lines, separated by newlines
+ */
+export function formatTLE(tle: TwoLineElement): string {
+  return [tle.name, tle.line1, tle.line2].filter((line) => line !== undefined).join('\n');
+}
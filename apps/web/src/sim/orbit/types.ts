@@ -8,9 +8,9 @@
  * All angles in radians.
  */
 export interface OrbitalElements {
-  /** Semi-major axis (meters) */
+  /** Semi-major axis (meters, negative for hyperbolic orbits) */
   a: number;
-  /** Eccentricity (dimensionless, 0-1 for elliptical orbits) */
+  /** Eccentricity (dimensionless, 0-1 for elliptical orbits, > 1 for hyperbolic) */
   e: number;
   /** Inclination (radians, 0 to π) */
   i: number;
@@ -23,6 +23,31 @@ export interface OrbitalElements {
   M?: number;
 }
 
+/**
+ * Modified equinoctial elements (Walker, Ireland & Owens, 1985).
+ * Unlike the classical elements they stay defined for circular (e = 0) and
+ * equatorial (i = 0) orbits. The retrograde set (retrograde factor I = -1)
+ * moves the remaining singularity from i = 180° to i = 0°, so it is used for
+ * orbits inclined more than 90°.
+ * All angles in radians.
+ */
+export interface EquinoctialElements {
+  /** Semi-latus rectum p = a(1 - e²) (meters) */
+  p: number;
+  /** Eccentricity vector along the equinoctial x-axis, e·cos(ω + IΩ) */
+  f: number;
+  /** Eccentricity vector along the equinoctial y-axis, e·sin(ω + IΩ) */
+  g: number;
+  /** tan(i/2)·cos(Ω), or cot(i/2)·cos(Ω) for the retrograde set */
+  h: number;
+  /** tan(i/2)·sin(Ω), or cot(i/2)·sin(Ω) for the retrograde set */
+  k: number;
+  /** True longitude L = ω + IΩ + ν (radians) */
+  L: number;
+  /** Retrograde set (I = -1); defaults to false */
+  retrograde?: boolean;
+}
+
 /**
  * Cartesian state vector in ECI (Earth-Centered Inertial) frame.
  * Position and velocity in meters and m/s respectively.
@@ -34,8 +59,30 @@ export interface CartesianState {
   velocity: [number, number, number];
 }
 
+/**
+ * Geodetic coordinates on the WGS84 ellipsoid.
+ */
+export interface GeodeticCoordinates {
+  /** Geodetic latitude (radians, -π/2 to π/2, positive north) */
+  latitude: number;
+  /** Longitude (radians, -π to π, positive east of Greenwich) */
+  longitude: number;
+  /** Height above the ellipsoid (meters) */
+  altitude: number;
+}
+
 /**
  * Union type for flexible orbit state input.
  */
-export type OrbitState = OrbitalElements | CartesianState;
+export type OrbitState = OrbitalElements | CartesianState | EquinoctialElements;
 
+
+/**
+ * Propagation model used to advance an agent's orbit.
+ * - 'kepler': analytical two-body motion (Kepler solver)
+ * - 'j2': two-body motion plus J2 secular drift of Ω, ω and M
+ * - 'numerical': numerical integration of the agent's force models
+ * - 'sgp4': SGP4/SDP4 propagation of the agent's Two-Line Element set
+ * - 'ephemeris': interpolation of the agent's tabulated ephemeris (e.g. an imported OEM)
+ */
+export type PropagatorType = 'kepler' | 'j2' | 'numerical' | 'sgp4' | 'ephemeris';
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { stumpffC, stumpffS, propagateUniversal } from './universal';
+import { propagateKepler } from './propagator';
+import { propagateNumerical } from './numerical';
+import { elementsToCartesian } from './conversions';
+import { CartesianState, OrbitalElements } from './types';
+import { EARTH_MU, EARTH_RADIUS } from './constants';
+import { distance } from './vector';
+
+function specificEnergy(state: CartesianState): number {
+  const [x, y, z] = state.position;
+  const [vx, vy, vz] = state.velocity;
+  return (vx * vx + vy * vy + vz * vz) / 2 - EARTH_MU / Math.sqrt(x * x + y * y + z * z);
+}
+
+describe('universal variable propagator', () => {
+  describe('Stumpff functions', () => {
+    it('are continuous across the series threshold', () => {
+      for (const z of [-1e-2, 1e-2]) {
+        expect(stumpffC(z * (1 + 1e-9))).toBeCloseTo(stumpffC(z * (1 - 1e-9)), 11);
+        expect(stumpffS(z * (1 + 1e-9))).toBeCloseTo(stumpffS(z * (1 - 1e-9)), 11);
+      }
+      expect(stumpffC(0)).toBe(1 / 2);
+      expect(stumpffS(0)).toBe(1 / 6);
+    });
+
+    it('match closed forms for elliptic and hyperbolic arguments', () => {
+      expect(stumpffC(Math.PI ** 2)).toBeCloseTo(2 / Math.PI ** 2, 14);
+      expect(stumpffS(Math.PI ** 2)).toBeCloseTo(1 / Math.PI ** 2, 14);
+      expect(stumpffC(-1)).toBeCloseTo(Math.cosh(1) - 1, 14);
+      expect(stumpffS(-1)).toBeCloseTo(Math.sinh(1) - 1, 14);
+    });
+  });
+
+  describe('propagateUniversal', () => {
+    it('matches the Kepler solver for an elliptical orbit', () => {
+      const elements: OrbitalElements = {
+        a: 8000e3,
+        e: 0.2,
+        i: Math.PI / 5,
+        Ω: 1.0,
+        ω: 2.0,
+        ν: 0.5,
+      };
+      const state = elementsToCartesian(elements);
+
+      for (const dt of [60, 1800, 20000, -5000]) {
+        const universal = propagateUniversal(state, dt);
+        const kepler = propagateKepler(state, dt);
+        expect(distance(universal.position, kepler.position)).toBeLessThan(1e-3);
+        expect(distance(universal.velocity, kepler.velocity)).toBeLessThan(1e-6);
+      }
+    });
+
+    it('propagates a hyperbolic escape trajectory', () => {
+      const r = EARTH_RADIUS + 500e3;
+      const state: CartesianState = {
+        position: [r, 0, 0],
+        velocity: [0, 1.3 * Math.sqrt((2 * EARTH_MU) / r), 500],
+      };
+
+      const universal = propagateUniversal(state, 3600);
+      const numerical = propagateNumerical(state, 3600);
+
+      expect(distance(universal.position, numerical.position)).toBeLessThan(1);
+      expect(specificEnergy(universal)).toBeCloseTo(specificEnergy(state), 3);
+    });
+
+    it('propagates a parabolic trajectory', () => {
+      const r = EARTH_RADIUS + 500e3;
+      const state: CartesianState = {
+        position: [r, 0, 0],
+        velocity: [0, Math.sqrt((2 * EARTH_MU) / r), 0],
+      };
+
+      const universal = propagateUniversal(state, 3600);
+      const numerical = propagateNumerical(state, 3600);
+
+      expect(distance(universal.position, numerical.position)).toBeLessThan(1);
+      expect(Math.abs(specificEnergy(universal))).toBeLessThan(1e-3);
+    });
+
+    it('returns to the initial state when propagated back', () => {
+      const state: CartesianState = {
+        position: [7000e3, 1000e3, -500e3],
+        velocity: [500, 11000, 2000],
+      };
+
+      const back = propagateUniversal(propagateUniversal(state, 5000), -5000);
+      expect(distance(back.position, state.position)).toBeLessThan(1e-3);
+      expect(distance(back.velocity, state.velocity)).toBeLessThan(1e-6);
+    });
+  });
+});
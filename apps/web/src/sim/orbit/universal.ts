@@ -0,0 +1,171 @@
+/**
+ * Universal-variable Kepler propagator.
+ * Solves the two-body problem with the universal anomaly χ and the Stumpff
+ * functions C(z) and S(z), so elliptic, parabolic and hyperbolic states are
+ * handled by the same equations (Curtis, "Orbital Mechanics for Engineering
+ * Students", Algorithms 3.3 and 3.4). No orbital elements are formed, so
+ * there is no singularity at e = 1.
+ */
+
+import { CartesianState } from './types';
+import { EARTH_MU } from './constants';
+
+/**
+ * Below this |z| the Stumpff functions are evaluated by their series to avoid cancellation.
+ */
+const STUMPFF_SERIES_THRESHOLD = 1e-2;
+
+/**
+ * Stumpff function C(z) = (1 - cos√z) / z (hyperbolic form for z < 0).
+ * @param z Universal variable argument αχ²
+ * @returns C(z)
+ */
+export function stumpffC(z: number): number {
+  // Half-angle forms avoid the cancellation in 1 - cos√z
+  if (z > STUMPFF_SERIES_THRESHOLD) {
+    const s = Math.sin(Math.sqrt(z) / 2);
+    return (2 * s * s) / z;
+  }
+  if (z < -STUMPFF_SERIES_THRESHOLD) {
+    const s = Math.sinh(Math.sqrt(-z) / 2);
+    return (2 * s * s) / -z;
+  }
+  return 1 / 2 - z / 24 + (z * z) / 720 - (z * z * z) / 40320;
+}
+
+/**
+ * Stumpff function S(z) = (√z - sin√z) / √z³ (hyperbolic form for z < 0).
+ * @param z Universal variable argument αχ²
+ * @returns S(z)
+ */
+export function stumpffS(z: number): number {
+  if (z > STUMPFF_SERIES_THRESHOLD) {
+    const sz = Math.sqrt(z);
+    return (sz - Math.sin(sz)) / (sz * sz * sz);
+  }
+  if (z < -STUMPFF_SERIES_THRESHOLD) {
+    const sz = Math.sqrt(-z);
+    return (Math.sinh(sz) - sz) / (sz * sz * sz);
+  }
+  return 1 / 6 - z / 120 + (z * z) / 5040 - (z * z * z) / 362880;
+}
+
+/**
+ * Solve the universal Kepler equation for the universal anomaly χ.
+ * Uses Newton-Raphson iteration.
+ *
+ * @param r0 Initial radius (m)
+ * @param vr0 Initial radial velocity (m/s)
+ * @param alpha Reciprocal semi-major axis 1/a (1/m; negative for hyperbolic, 0 for parabolic)
+ * @param deltaTime Time since the initial state (s, may be negative)
+ * @param mu Gravitational parameter (m³/s²)
+ * @returns Universal anomaly χ (√m)
+ */
+export function solveUniversalAnomaly(
+  r0: number,
+  vr0: number,
+  alpha: number,
+  deltaTime: number,
+  mu: number = EARTH_MU
+): number {
+  const sqrtMu = Math.sqrt(mu);
+
+  // Initial guess (Vallado, Algorithm 8)
+  let χ: number;
+  if (alpha > 1e-12) {
+    χ = sqrtMu * deltaTime * alpha;
+  } else if (alpha < -1e-12) {
+    const a = 1 / alpha;
+    const sign = Math.sign(deltaTime);
+    const guess =
+      sign *
+      Math.sqrt(-a) *
+      Math.log(
+        (-2 * mu * alpha * deltaTime) /
+          (r0 * vr0 + sign * Math.sqrt(-mu * a) * (1 - r0 * alpha))
+      );
+    χ = isFinite(guess) ? guess : (sqrtMu * deltaTime) / r0;
+  } else {
+    χ = (sqrtMu * deltaTime) / r0;
+  }
+
+  const maxIterations = 50;
+  const tolerance = 1e-12;
+
+  for (let i = 0; i < maxIterations; i++) {
+    const χ2 = χ * χ;
+    const z = alpha * χ2;
+    const C = stumpffC(z);
+    const S = stumpffS(z);
+
+    const f = ((r0 * vr0) / sqrtMu) * χ2 * C + (1 - alpha * r0) * χ2 * χ * S + r0 * χ - sqrtMu * deltaTime;
+    const fPrime = ((r0 * vr0) / sqrtMu) * χ * (1 - z * S) + (1 - alpha * r0) * χ2 * C + r0;
+
+    const deltaχ = f / fPrime;
+    χ -= deltaχ;
+
+    if (Math.abs(deltaχ) <= tolerance * Math.max(1, Math.abs(χ))) {
+      break;
+    }
+  }
+
+  return χ;
+}
+
+/**
+ * Propagate a two-body state with the universal-variable formulation.
+ * Valid for every conic section (elliptic, parabolic and hyperbolic).
+ *
+ * @param state Initial Cartesian state in ECI frame
+ * @param deltaTime Time step in seconds (may be negative)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns New Cartesian state after propagation
+ */
+export function propagateUniversal(
+  state: CartesianState,
+  deltaTime: number,
+  mu: number = EARTH_MU
+): CartesianState {
+  if (deltaTime === 0) {
+    return {
+      position: [...state.position],
+      velocity: [...state.velocity],
+    };
+  }
+
+  const [x, y, z] = state.position;
+  const [vx, vy, vz] = state.velocity;
+  const r0 = Math.sqrt(x * x + y * y + z * z);
+  const v0Sq = vx * vx + vy * vy + vz * vz;
+  const vr0 = (x * vx + y * vy + z * vz) / r0;
+  const alpha = 2 / r0 - v0Sq / mu;
+  const sqrtMu = Math.sqrt(mu);
+
+  const χ = solveUniversalAnomaly(r0, vr0, alpha, deltaTime, mu);
+  const χ2 = χ * χ;
+  const zχ = alpha * χ2;
+  const C = stumpffC(zχ);
+  const S = stumpffS(zχ);
+
+  // Lagrange coefficients
+  const f = 1 - (χ2 / r0) * C;
+  const g = deltaTime - ((χ2 * χ) / sqrtMu) * S;
+
+  const position: [number, number, number] = [
+    f * x + g * vx,
+    f * y + g * vy,
+    f * z + g * vz,
+  ];
+  const r = Math.sqrt(position[0] ** 2 + position[1] ** 2 + position[2] ** 2);
+
+  const fDot = (sqrtMu / (r * r0)) * (zχ * S - 1) * χ;
+  const gDot = 1 - (χ2 / r) * C;
+
+  const velocity: [number, number, number] = [
+    fDot * x + gDot * vx,
+    fDot * y + gDot * vy,
+    fDot * z + gDot * vz,
+  ];
+
+  return { position, velocity };
+}
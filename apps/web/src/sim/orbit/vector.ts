@@ -0,0 +1,46 @@
+/**
+ * 3-vector helpers shared by the orbit, maneuver and swarm modules.
+ * Vectors are [x, y, z] tuples in whatever frame and units the caller uses.
+ */
+
+/**
+ * Sum of two 3-vectors.
+ */
+export function add(a: [number, number, number], b: [number, number, number]): [number, number, number] {
+  return [a[0] + b[0], a[1] + b[1], a[2] + b[2]];
+}
+
+/**
+ * Difference a - b of two 3-vectors.
+ */
+export function subtract(a: [number, number, number], b: [number, number, number]): [number, number, number] {
+  return [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+}
+
+/**
+ * Dot product of two 3-vectors.
+ */
+export function dot(a: [number, number, number], b: [number, number, number]): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+/**
+ * Cross product a × b of two 3-vectors.
+ */
+export function cross(a: [number, number, number], b: [number, number, number]): [number, number, number] {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
+
+/**
+ * Length of a 3-vector.
+ */
+export function magnitude(v: [number, number, number]): number {
+  return Math.hypot(v[0], v[1], v[2]);
+}
+
+/**
+ * Distance between two points.
+ */
+export function distance(a: [number, number, number], b: [number, number, number]): number {
+  return Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+}
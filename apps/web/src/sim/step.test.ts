@@ -0,0 +1,295 @@
+/**
+ * Tests for the simulation step.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { runSimStep } from './step';
+import { Agent } from '@/render/Agents.types';
+import { propagateKepler } from '@/sim/orbit/propagator';
+import { propagateNumerical } from '@/sim/orbit/numerical';
+import { generateTestAgents } from '@/util/generateTestAgents';
+import { EARTH_MU, EARTH_RADIUS } from '@/sim/orbit/constants';
+import { elementsToCartesian } from '@/sim/orbit/conversions';
+import { executeBurn } from '@/sim/maneuvers/deltaV';
+import { burnDuration, executeFiniteBurn, Propulsion } from '@/sim/maneuvers/propulsion';
+import { applyExecutedManeuvers } from '@/sim/maneuvers/queue';
+import { timeToOrbitEvent } from '@/sim/maneuvers/orbitEvents';
+import { DEFAULT_REENTRY_ALTITUDE } from '@/sim/orbit/decay';
+import { parseTLE } from '@/sim/orbit/tle';
+import { propagateTle } from '@/sim/orbit/sgp4';
+import { setSeed } from '@/util/seed';
+
+describe('runSimStep', () => {
+  let agents: Agent[];
+
+  beforeEach(() => {
+    setSeed('step-test-seed');
+    agents = generateTestAgents(10).map((agent) => ({
+      ...agent,
+      propagator: 'kepler',
+      forceModels: undefined,
+      integrator: undefined,
+      maxStep: undefined,
+    }));
+  });
+
+  it('propagates agents without behaviors on their own orbit', () => {
+    const result = runSimStep({
+      agents,
+      objectives: [],
+      startTime: 0,
+      endTime: 60,
+      reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+    });
+
+    expect(result.updates).toHaveLength(agents.length);
+    for (const agent of agents) {
+      const update = result.updates.find((u) => u.id === agent.id)!;
+      expect(update.state).toEqual(propagateKepler(agent.state, 60));
+    }
+    expect(result.tasksUpdated).toBe(false);
+    expect(result.steeredIds).toEqual([]);
+  });
+
+  it('reports agents steered by swarm behaviors', () => {
+    const behaviors = { ...agents[0]!.behaviors, cohesion: true };
+    const swarm: Agent[] = [
+      { ...agents[0]!, id: 'a', behaviors, state: { position: [7000e3, 0, 0], velocity: [0, 7546, 0] } },
+      { ...agents[0]!, id: 'b', behaviors, state: { position: [7000e3, 10e3, 0], velocity: [0, 7546, 0] } },
+      { ...agents[0]!, id: 'c', state: { position: [-7000e3, 0, 0], velocity: [0, -7546, 0] } },
+    ];
+
+    const result = runSimStep({
+      agents: swarm,
+      objectives: [],
+      startTime: 0,
+      endTime: 1,
+      reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+    });
+
+    expect(result.steeredIds).toEqual(['a', 'b']);
+  });
+
+  it('charges steering against the delta-v budget until the agent runs dry', () => {
+    const behaviors = { ...agents[0]!.behaviors, cohesion: true };
+    const swarm: Agent[] = [
+      { ...agents[0]!, id: 'a', behaviors, dvRemaining: 1e-6, state: { position: [7000e3, 0, 0], velocity: [0, 7546, 0] } },
+      { ...agents[0]!, id: 'b', behaviors, dvRemaining: 0, state: { position: [7000e3, 10e3, 0], velocity: [0, 7546, 0] } },
+    ];
+
+    const result = runSimStep({
+      agents: swarm,
+      objectives: [],
+      startTime: 0,
+      endTime: 1,
+      reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+    });
+
+    // 'a' spends what it has left; 'b' is dry and coasts
+    expect(result.steeredIds).toEqual(['a']);
+    expect(result.budgetUpdates).toEqual([{ id: 'a', dvRemaining: 0, propulsion: undefined }]);
+    expect(result.charges).toEqual([{ agentId: 'a', category: 'steering', deltaV: 1e-6, propellant: 0 }]);
+    expect(result.updates.find((u) => u.id === 'b')!.state).toEqual(propagateKepler(swarm[1]!.state, 1));
+  });
+
+  it('does not steer or charge agents that follow a TLE', () => {
+    const tle = parseTLE(
+      '1 25544U 98067A   08264.51782528 -.00002182  00000-0 -11606-4 0  2927\n' +
+        '2 25544  51.6416 247.4627 0006703 130.5360 325.0288 15.72125391563537'
+    );
+    const behaviors = { ...agents[0]!.behaviors, cohesion: true };
+    const tleState = propagateTle(tle, 0);
+    const [x, y, z] = tleState.position;
+    const swarm: Agent[] = [
+      { ...agents[0]!, id: 'tle', behaviors, propagator: 'sgp4', tle, tleEpochOffset: 0, state: tleState },
+      { ...agents[0]!, id: 'b', behaviors, state: { position: [x + 10e3, y, z], velocity: tleState.velocity } },
+      { ...agents[0]!, id: 'c', behaviors, state: { position: [x, y + 10e3, z], velocity: tleState.velocity } },
+    ];
+
+    const result = runSimStep({
+      agents: swarm,
+      objectives: [],
+      startTime: 0,
+      endTime: 1,
+      reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+    });
+
+    // The TLE agent's budget is left alone and it flies its element set
+    expect(result.steeredIds).toEqual(['b', 'c']);
+    expect(result.budgetUpdates.map((update) => update.id)).toEqual(['b', 'c']);
+    expect(result.charges.map((charge) => charge.agentId)).toEqual(['b', 'c']);
+    expect(result.updates.find((u) => u.id === 'tle')!.state).toEqual(propagateTle(tle, 1));
+  });
+
+  it('retires agents below the re-entry altitude', () => {
+    const low: Agent = {
+      ...agents[0]!,
+      id: 'low',
+      state: { position: [EARTH_RADIUS + 50e3, 0, 0], velocity: [0, 7800, 0] },
+    };
+
+    const result = runSimStep({
+      agents: [...agents, low],
+      objectives: [],
+      startTime: 0,
+      endTime: 1,
+      reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+    });
+
+    expect(result.reenteredIds).toEqual(['low']);
+    expect(result.updates.some((u) => u.id === 'low')).toBe(false);
+  });
+
+  it('evaluates time-dependent force models at the scenario epoch', () => {
+    const geo: Agent = {
+      ...agents[0]!,
+      id: 'geo',
+      state: { position: [42164e3, 0, 0], velocity: [0, 3075, 0] },
+      propagator: 'numerical',
+      forceModels: ['central_gravity', 'moon_gravity'],
+    };
+    const step = (epochJd: number) =>
+      runSimStep({
+        agents: [geo],
+        objectives: [],
+        startTime: 600,
+        endTime: 4200,
+        reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+        epochJd,
+      }).updates[0]!.state;
+
+    const expected = propagateNumerical(geo.state, 3600, {
+      forces: geo.forceModels,
+      startTime: 600,
+      epochJd: 2460310.5,
+    });
+    expect(step(2460310.5)).toEqual(expected);
+    // Two weeks later the Moon is on the other side of the Earth
+    expect(step(2460324.5)).not.toEqual(expected);
+  });
+
+  it('executes a scheduled burn at its orbital event within a long step', () => {
+    const agent: Agent = {
+      ...agents[0]!,
+      id: 'sat',
+      state: elementsToCartesian({ a: EARTH_RADIUS + 800e3, e: 0.02, i: 0.5, Ω: 0, ω: 0, ν: 1 }),
+      dvRemaining: 100,
+      maneuvers: [{ id: 'm1', trigger: { type: 'apoapsis' }, rtn: [0, 20, 0] }],
+    };
+
+    // Three hours in one step, with the apoapsis somewhere inside it
+    const result = runSimStep({
+      agents: [agent],
+      objectives: [],
+      startTime: 1000,
+      endTime: 1000 + 3 * 3600,
+      reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+    });
+
+    const toApoapsis = timeToOrbitEvent(agent.state, 'apoapsis');
+    const burned = executeBurn(propagateKepler(agent.state, toApoapsis, EARTH_MU), [0, 20, 0], 100);
+    const expected = propagateKepler(burned.state, 3 * 3600 - toApoapsis, EARTH_MU);
+    const state = result.updates[0]!.state;
+    for (let k = 0; k < 3; k++) {
+      expect(state.position[k]).toBeCloseTo(expected.position[k]!, 3);
+      expect(state.velocity[k]).toBeCloseTo(expected.velocity[k]!, 6);
+    }
+    expect(result.executedManeuvers).toEqual([
+      { agentId: 'sat', maneuverId: 'm1', time: 1000 + toApoapsis, dvRemaining: 80, propulsion: undefined },
+    ]);
+    expect(result.maneuveredIds).toEqual(['sat']);
+  });
+
+  it('flies a finite burn through the steps it covers, centered on its time', () => {
+    const propulsion: Propulsion = { dryMass: 400, propellantMass: 100, thrust: 20, isp: 220 };
+    const duration = burnDuration(propulsion, 15);
+    const agent: Agent = {
+      ...agents[0]!,
+      id: 'sat',
+      dvRemaining: 100,
+      propulsion,
+      maneuvers: [{ id: 'm1', trigger: { type: 'time', time: 300 }, rtn: [0, 15, 0] }],
+    };
+    const ignition = 300 - duration / 2;
+    const burn = executeFiniteBurn(propagateKepler(agent.state, ignition), [0, 15, 0], propulsion, 'kepler', {
+      startTime: ignition,
+    });
+    const expected = propagateKepler(burn.state, 1200 - ignition - duration);
+
+    // One-minute steps, carrying the thrust arc from step to step
+    const energy = ({ position, velocity }: Agent['state']) =>
+      Math.hypot(...velocity) ** 2 / 2 - EARTH_MU / Math.hypot(...position);
+    let flown = [agent];
+    const energies: number[] = [];
+    for (let time = 0; time < 1200; time += 60) {
+      const result = runSimStep({
+        agents: flown,
+        objectives: [],
+        startTime: time,
+        endTime: time + 60,
+        reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+      });
+      flown = applyExecutedManeuvers(flown, result.executedManeuvers).map((a) => ({ ...a, state: result.updates[0]!.state }));
+      energies.push(energy(flown[0]!.state));
+    }
+
+    expect(duration).toBeGreaterThan(300);
+    expect(flown[0]!.thrustArc).toEqual(burn.thrustArc);
+    expect(flown[0]!.lastManeuverTime).toBeCloseTo(300, 9);
+    // The orbital energy builds up over the steps the burn covers instead of jumping
+    const steps = energies.map((value, step) => ({ value, start: step * 60, end: (step + 1) * 60 }));
+    const before = steps.filter((step) => step.end < ignition);
+    const during = steps.filter((step) => step.end > ignition && step.start < ignition + duration);
+    expect(before.length).toBe(Math.floor(ignition / 60));
+    expect(during.length).toBeGreaterThan(5);
+    before.forEach((step) => expect(step.value).toBeCloseTo(energy(agent.state), 3));
+    during.forEach((step, index) => expect(step.value).toBeGreaterThan(index > 0 ? during[index - 1]!.value : energy(agent.state)));
+    expect(energies[energies.length - 1]).toBeCloseTo(energy(burn.state), 3);
+
+    // A single long step flies the same burn
+    const single = runSimStep({
+      agents: [agent],
+      objectives: [],
+      startTime: 0,
+      endTime: 1200,
+      reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+    });
+    for (const state of [flown[0]!.state, single.updates[0]!.state]) {
+      expect(Math.hypot(...state.position.map((p, k) => p - expected.position[k]!))).toBeLessThan(0.01);
+      expect(Math.hypot(...state.velocity.map((v, k) => v - expected.velocity[k]!))).toBeLessThan(1e-5);
+    }
+  });
+
+  it('reports scheduled burns beyond the budget without flying them', () => {
+    const agent: Agent = {
+      ...agents[0]!,
+      dvRemaining: 5,
+      maneuvers: [{ id: 'm1', trigger: { type: 'time', time: 30 }, rtn: [0, 20, 0] }],
+    };
+
+    const result = runSimStep({
+      agents: [agent],
+      objectives: [],
+      startTime: 0,
+      endTime: 60,
+      reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+    });
+
+    expect(result.updates[0]!.state).toEqual(propagateKepler(propagateKepler(agent.state, 30), 30));
+    expect(result.executedManeuvers[0]!.error).toMatch(/exceeds available budget/);
+  });
+
+  it('does not mutate its inputs', () => {
+    const snapshot = JSON.stringify(agents);
+
+    runSimStep({
+      agents,
+      objectives: [],
+      startTime: 0,
+      endTime: 60,
+      reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+    });
+
+    expect(JSON.stringify(agents)).toBe(snapshot);
+  });
+});
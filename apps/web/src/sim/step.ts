@@ -0,0 +1,501 @@
+/**
+ * Simulation step: advances every agent by one interval of sim time.
+ * Pure function of its inputs (no store access, no RNG), so the same inputs
+ * produce bit-identical results on the main thread and in the sim worker.
+ *
+ * One step:
+ * 1. Retires agents that dropped below the re-entry altitude (or whose TLE decays)
+ * 2. Flies agents with a scheduled burn due or a finite burn under way during
+ *    the step: propagates each to the burn, executes it (integrating the
+ *    thrust arc of a finite burn up to its cutoff), and propagates on to the
+ *    end of the step
+ * 3. Allocates objectives to auto-navigated agents with delta-v left
+ * 4. Applies objective steering and swarm behaviors to auto-navigated agents,
+ *    charged against their delta-v budgets (agents that run dry coast)
+ * 5. Propagates every other active agent with its own propagator
+ * 6. Updates objective completion from the propagated states
+ */
+
+import { Agent } from '@/render/Agents.types';
+import { CartesianState } from '@/sim/orbit/types';
+import { propagate, propagateBatch, PropagateOptions } from '@/sim/orbit/propagator';
+import { EARTH_MU } from '@/sim/orbit/constants';
+import { CentralBody } from '@/sim/orbit/centralBody';
+import { hasReentered } from '@/sim/orbit/decay';
+import { propagateTle, Sgp4Error } from '@/sim/orbit/sgp4';
+import { computeSwarmForces, enforceMinimumSeparation, DEFAULT_BEHAVIOR_PARAMS } from '@/sim/swarm';
+import { VelocityAdjustment } from '@/sim/swarm/types';
+import { allocateTasks, updateObjectiveState } from '@/sim/tasks/allocation';
+import { computeObjectiveSteeringBatch } from '@/sim/tasks/steering';
+import { DEFAULT_OBJECTIVE_STEERING_PARAMS, Objective, ObjectiveType } from '@/sim/tasks/types';
+import { executeBurn, spendDeltaV } from '@/sim/maneuvers/deltaV';
+import { LedgerCharge } from '@/sim/maneuvers/ledger';
+import { burnDuration, propagateThrustArc, Propulsion } from '@/sim/maneuvers/propulsion';
+import { ExecutedManeuver, maneuverDueTime, ScheduledManeuver } from '@/sim/maneuvers/queue';
+
+/**
+ * Inputs to a simulation step.
+ */
+export interface SimStepInput {
+  /** All agents (selected agents are player-controlled and skip auto-navigation) */
+  agents: Agent[];
+  /** Current objectives (not mutated) */
+  objectives: Objective[];
+  /** Sim time at the start of the step in seconds */
+  startTime: number;
+  /** Sim time at the end of the step in seconds */
+  endTime: number;
+  /** Altitude above the central body's surface in meters below which agents re-enter */
+  reentryAltitude: number;
+  /** Julian date of sim time 0, for time-dependent force models (defaults to J2000) */
+  epochJd?: number;
+  /** Body the agents orbit (defaults to the Earth) */
+  centralBody?: CentralBody;
+}
+
+/**
+ * A change to apply to one objective.
+ */
+export interface ObjectiveUpdate {
+  id: string;
+  updates: Partial<Objective>;
+}
+
+/**
+ * Delta-v budget of an agent after it was charged for steering.
+ */
+export interface BudgetUpdate {
+  id: string;
+  /** Delta-v budget left in m/s */
+  dvRemaining: number;
+  /** Propulsion after steering (agents with propulsion) */
+  propulsion?: Propulsion;
+}
+
+/**
+ * Outputs of a simulation step.
+ */
+export interface SimStepResult {
+  /** New state of every propagated agent */
+  updates: Array<{ id: string; state: CartesianState }>;
+  /** Agents that re-entered at startTime (not propagated) */
+  reenteredIds: string[];
+  /** Agents whose velocity was changed by swarm behaviors or objective steering */
+  steeredIds: string[];
+  /** Agents that executed a scheduled burn or thrusted through a finite burn */
+  maneuveredIds: string[];
+  /** Scheduled burns executed (or failed) during this step, in order */
+  executedManeuvers: ExecutedManeuver[];
+  /** Budgets of the agents charged for steering */
+  budgetUpdates: BudgetUpdate[];
+  /** Delta-v spent on scheduled burns and steering, for the propellant ledger */
+  charges: LedgerCharge[];
+  /** Objective changes, in the order they should be applied */
+  objectiveUpdates: ObjectiveUpdate[];
+  /** Objectives completed during this step */
+  newlyCompleted: string[];
+  /** Whether task allocation ran (the game timer advances only then) */
+  tasksUpdated: boolean;
+}
+
+/**
+ * Propagation options for an agent (its force models, integrator, spacecraft parameters, TLE and ephemeris, evaluated from a start time and epoch around the central body).
+ * The sim step, drawn trajectories and exports all build them here, so they fly the same dynamics.
+ * @param agent Agent
+ * @param startTime Sim time of the agent's state in seconds
+ * @param epochJd Julian date of sim time 0
+ * @param centralBody Body the agent orbits (defaults to the Earth)
+ * @returns Options for propagate()
+ */
+export function agentPropagatorOptions(
+  agent: Agent,
+  startTime: number,
+  epochJd?: number,
+  centralBody?: CentralBody
+): PropagateOptions {
+  return {
+    forces: agent.forceModels,
+    integrator: agent.integrator,
+    maxStep: agent.maxStep,
+    ballisticCoefficient: agent.ballisticCoefficient,
+    reflectivityCoefficient: agent.reflectivityCoefficient,
+    areaToMass: agent.areaToMass,
+    tle: agent.tle,
+    tleEpochOffset: agent.tleEpochOffset,
+    ephemeris: agent.ephemeris,
+    startTime,
+    epochJd,
+    centralBody,
+  };
+}
+
+/**
+ * Propagation options for each agent, evaluated from the step start time.
+ */
+function propagatorOptions(
+  agents: Agent[],
+  startTime: number,
+  epochJd?: number,
+  centralBody?: CentralBody
+): PropagateOptions[] {
+  return agents.map((agent) => agentPropagatorOptions(agent, startTime, epochJd, centralBody));
+}
+
+/**
+ * Whether an agent's velocity can be changed. TLE and ephemeris agents follow
+ * their element set or tabulated states, so they neither burn nor steer.
+ */
+function canManeuver(agent: Agent): boolean {
+  return agent.propagator !== 'sgp4' && agent.propagator !== 'ephemeris';
+}
+
+/**
+ * Seconds a scheduled burn starts before its time: half the duration of a
+ * finite burn, so that the burn is centered on its time.
+ */
+function burnLead(maneuver: ScheduledManeuver, propulsion?: Propulsion): number {
+  return propulsion ? burnDuration(propulsion, Math.hypot(...maneuver.rtn)) / 2 : 0;
+}
+
+/**
+ * Whether an agent's first scheduled burn starts by the end of the step.
+ */
+function hasManeuverDue(agent: Agent, startTime: number, endTime: number, mu: number): boolean {
+  const next = agent.maneuvers?.[0];
+  if (!next || !canManeuver(agent)) return false;
+  const due = maneuverDueTime(next.trigger, agent.state, startTime, agent.lastManeuverTime, mu);
+  return due - burnLead(next, agent.propulsion) <= endTime;
+}
+
+/**
+ * Whether an agent's latest finite burn is still thrusting at the given time.
+ */
+function isThrusting(agent: Agent, time: number): boolean {
+  return agent.thrustArc !== undefined && agent.thrustArc.endTime > time && canManeuver(agent);
+}
+
+/**
+ * Fly an agent through the step, executing each scheduled burn at its time
+ * and thrusting through the arcs of finite burns. A burn starts once the
+ * previous one has cut off. Burns the budget cannot cover are reported as
+ * failed and skipped.
+ */
+function flyManeuvers(
+  agent: Agent,
+  startTime: number,
+  endTime: number,
+  mu: number,
+  epochJd?: number,
+  centralBody?: CentralBody
+): { state: CartesianState; executed: ExecutedManeuver[]; charges: LedgerCharge[] } {
+  const executed: ExecutedManeuver[] = [];
+  const charges: LedgerCharge[] = [];
+  let { state, dvRemaining, propulsion, lastManeuverTime, thrustArc } = agent;
+  let time = startTime;
+
+  // Thrust to the cutoff of the current arc (if it comes first), then coast
+  const flyTo = (until: number) => {
+    if (thrustArc && thrustArc.endTime > time) {
+      const cutoff = Math.min(until, thrustArc.endTime);
+      const options = agentPropagatorOptions(agent, time, epochJd, centralBody);
+      state = propagateThrustArc(state, cutoff - time, thrustArc, agent.propagator, options);
+      time = cutoff;
+    }
+    if (until > time) {
+      state = propagate(state, until - time, agent.propagator, agentPropagatorOptions(agent, time, epochJd, centralBody));
+      time = until;
+    }
+  };
+
+  for (const maneuver of agent.maneuvers ?? []) {
+    if (thrustArc && thrustArc.endTime > time) {
+      if (thrustArc.endTime >= endTime) break;
+      flyTo(thrustArc.endTime);
+    }
+    const due = maneuverDueTime(maneuver.trigger, state, time, lastManeuverTime, mu);
+    const lead = burnLead(maneuver, propulsion);
+    const ignition = Math.max(time, due - lead);
+    if (!(ignition <= endTime)) break;
+
+    flyTo(ignition);
+    const burnTime = time + lead;
+    try {
+      const burn = executeBurn(state, maneuver.rtn, dvRemaining, propulsion, time);
+      ({ state, dvRemaining, propulsion } = burn);
+      thrustArc = burn.thrustArc ?? thrustArc;
+      executed.push({
+        agentId: agent.id,
+        maneuverId: maneuver.id,
+        time: burnTime,
+        dvRemaining,
+        propulsion,
+        thrustArc: burn.thrustArc,
+      });
+      const deltaV = Math.hypot(...maneuver.rtn);
+      charges.push({ agentId: agent.id, category: 'scheduled', deltaV, propellant: burn.propellantUsed });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      executed.push({ agentId: agent.id, maneuverId: maneuver.id, time: burnTime, dvRemaining, propulsion, error: message });
+    }
+    lastManeuverTime = burnTime;
+  }
+
+  flyTo(endTime);
+  return { state, executed, charges };
+}
+
+/**
+ * Charge steering against each agent's delta-v budget. Adjustments an agent
+ * cannot afford are scaled down to what its budget covers (to nothing once it
+ * runs dry).
+ *
+ * @param agents Steered agents
+ * @param adjustments Velocity change rates (m/s²), in agent order
+ * @param deltaTime Step duration in seconds
+ * @returns Affordable adjustments, new budgets and ledger charges
+ */
+function chargeSteering(
+  agents: Agent[],
+  adjustments: VelocityAdjustment[],
+  deltaTime: number
+): { adjustments: VelocityAdjustment[]; budgets: BudgetUpdate[]; charges: LedgerCharge[] } {
+  const budgets: BudgetUpdate[] = [];
+  const charges: LedgerCharge[] = [];
+  const affordable = agents.map((agent, index): VelocityAdjustment => {
+    const adjustment = adjustments[index];
+    const requested = adjustment ? Math.hypot(...adjustment.delta) * deltaTime : 0;
+    if (!adjustment || !(requested > 0)) return { delta: [0, 0, 0] };
+
+    const spend = spendDeltaV(agent.dvRemaining, agent.propulsion, requested);
+    if (spend.deltaV > 0) {
+      budgets.push({ id: agent.id, dvRemaining: spend.dvRemaining, propulsion: spend.propulsion });
+      charges.push({ agentId: agent.id, category: 'steering', deltaV: spend.deltaV, propellant: spend.propellantUsed });
+    }
+    const scale = spend.deltaV / requested;
+    const [x, y, z] = adjustment.delta;
+    return { delta: [x * scale, y * scale, z * scale] };
+  });
+  return { adjustments: affordable, budgets, charges };
+}
+
+/**
+ * Whether SGP4 can no longer propagate an agent's element set to the given time
+ * (the satellite decayed or its mean elements left the valid range).
+ */
+function hasTleDecayed(agent: Agent, time: number): boolean {
+  if (agent.propagator !== 'sgp4' || !agent.tle) return false;
+  try {
+    propagateTle(agent.tle, time + (agent.tleEpochOffset ?? 0));
+    return false;
+  } catch (error) {
+    if (error instanceof Sgp4Error) return true;
+    throw error;
+  }
+}
+
+/**
+ * Apply velocity adjustments (accelerations in m/s²) over the step before propagation.
+ */
+function applyVelocityAdjustments(
+  states: CartesianState[],
+  adjustments: VelocityAdjustment[],
+  deltaTime: number
+): CartesianState[] {
+  return states.map((state, index) => {
+    const adjustment = adjustments[index]!;
+    const [vx, vy, vz] = state.velocity;
+    const [dvx, dvy, dvz] = adjustment.delta;
+
+    return {
+      position: state.position,
+      velocity: [
+        vx + dvx * deltaTime,
+        vy + dvy * deltaTime,
+        vz + dvz * deltaTime,
+      ] as [number, number, number],
+    };
+  });
+}
+
+/**
+ * Collect the assignment changes made by task allocation.
+ */
+function assignmentUpdates(objectives: Objective[], allocated: Objective[]): ObjectiveUpdate[] {
+  const updates: ObjectiveUpdate[] = [];
+  for (const obj of allocated) {
+    if (obj.type === 'relay_node' && 'assignedAgentId' in obj) {
+      const currentObj = objectives.find((o) => o.id === obj.id);
+      if (currentObj && 'assignedAgentId' in currentObj && currentObj.assignedAgentId !== obj.assignedAgentId) {
+        updates.push({ id: obj.id, updates: { assignedAgentId: obj.assignedAgentId } });
+      }
+    } else if (obj.type === 'hold_formation_zone' && 'assignedAgentIds' in obj) {
+      const currentObj = objectives.find((o) => o.id === obj.id);
+      if (currentObj && 'assignedAgentIds' in currentObj) {
+        // Only update if changed
+        const currentIds = JSON.stringify([...currentObj.assignedAgentIds].sort());
+        const newIds = JSON.stringify([...obj.assignedAgentIds].sort());
+        if (currentIds !== newIds) {
+          updates.push({ id: obj.id, updates: { assignedAgentIds: obj.assignedAgentIds } });
+        }
+      }
+    }
+  }
+  return updates;
+}
+
+/**
+ * Collect completion and relay start time changes made by the objective state update.
+ */
+function completionUpdates(objectives: Objective[], updated: Objective[]): ObjectiveUpdate[] {
+  const result: ObjectiveUpdate[] = [];
+  for (const obj of updated) {
+    const currentObj = objectives.find((o) => o.id === obj.id);
+    if (!currentObj) continue;
+
+    const updates: Record<string, unknown> = {};
+    if (obj.completed !== currentObj.completed) {
+      updates.completed = obj.completed;
+    }
+    if (obj.type === ObjectiveType.RELAY_NODE && currentObj.type === ObjectiveType.RELAY_NODE) {
+      if (obj.startTime !== currentObj.startTime) {
+        updates.startTime = obj.startTime;
+      }
+    }
+    if (Object.keys(updates).length > 0) {
+      result.push({ id: obj.id, updates: updates as Partial<Objective> });
+    }
+  }
+  return result;
+}
+
+/**
+ * Advance the simulation by one step.
+ *
+ * @param input Agents, objectives and the time interval to simulate
+ * @returns Agent state updates, re-entries and objective changes
+ */
+export function runSimStep(input: SimStepInput): SimStepResult {
+  const { agents, objectives, startTime, endTime, reentryAltitude, epochJd, centralBody } = input;
+  const deltaTime = endTime - startTime;
+
+  // Retire agents that dropped below the re-entry altitude during the last step,
+  // or whose element set cannot be propagated to the end of this step
+  const reenteredIds = agents
+    .filter(
+      (a) =>
+        a.reentryTime === undefined &&
+        (hasReentered(a.state, reentryAltitude, centralBody?.radius) || hasTleDecayed(a, endTime))
+    )
+    .map((a) => a.id);
+
+  // Re-entered agents are no longer propagated
+  const activeAgents = agents.filter(
+    (a) => a.reentryTime === undefined && !reenteredIds.includes(a.id)
+  );
+
+  // Agents with a scheduled burn due or a finite burn under way fly it on their own (no steering this step)
+  const mu = centralBody?.mu ?? EARTH_MU;
+  const maneuveringAgents = activeAgents.filter(
+    (a) => isThrusting(a, startTime) || hasManeuverDue(a, startTime, endTime, mu)
+  );
+  const maneuvered = maneuveringAgents.map((agent) =>
+    flyManeuvers(agent, startTime, endTime, mu, epochJd, centralBody)
+  );
+  const coastingAgents = activeAgents.filter((a) => !maneuveringAgents.includes(a));
+
+  // Separate agents into unsteered (player-controlled, TLE and ephemeris) and auto-navigated
+  const unsteeredAgents = coastingAgents.filter((a) => a.selected || !canManeuver(a));
+  const autoAgents = coastingAgents.filter((a) => !unsteeredAgents.includes(a));
+
+  // Propagate unsteered agents with their own propagator
+  const propagatedUnsteeredStates = propagateBatch(
+    unsteeredAgents.map((agent) => agent.state),
+    deltaTime,
+    unsteeredAgents.map((agent) => agent.propagator),
+    propagatorOptions(unsteeredAgents, startTime, epochJd, centralBody)
+  );
+
+  const result: SimStepResult = {
+    updates: [],
+    reenteredIds,
+    steeredIds: [],
+    maneuveredIds: maneuveringAgents.map((agent) => agent.id),
+    executedManeuvers: maneuvered.flatMap((m) => m.executed),
+    budgetUpdates: [],
+    charges: maneuvered.flatMap((m) => m.charges),
+    objectiveUpdates: [],
+    newlyCompleted: [],
+    tasksUpdated: false,
+  };
+
+  let velocityAdjustments: VelocityAdjustment[] = [];
+  if (objectives.length > 0 && autoAgents.length > 0) {
+    // Allocate tasks to auto-navigated agents that can still maneuver (on a copy of the objectives)
+    const allocated = objectives.map((obj) => ({ ...obj }));
+    allocateTasks(autoAgents.filter((agent) => agent.dvRemaining > 0), allocated);
+    result.objectiveUpdates.push(...assignmentUpdates(objectives, allocated));
+
+    // Combine objective steering and swarm behavior velocity adjustments
+    const objectiveAdjustments = computeObjectiveSteeringBatch(
+      autoAgents,
+      objectives,
+      DEFAULT_OBJECTIVE_STEERING_PARAMS
+    );
+    const swarmAdjustments = computeSwarmForces(autoAgents, DEFAULT_BEHAVIOR_PARAMS, deltaTime, mu);
+    velocityAdjustments = swarmAdjustments.map((swarmAdj, index) => {
+      const objAdj = objectiveAdjustments[index]!;
+      return {
+        delta: [
+          swarmAdj.delta[0] + objAdj.delta[0],
+          swarmAdj.delta[1] + objAdj.delta[1],
+          swarmAdj.delta[2] + objAdj.delta[2],
+        ] as [number, number, number],
+      };
+    });
+  } else if (autoAgents.length > 0) {
+    // No objectives, just use swarm behaviors
+    velocityAdjustments = computeSwarmForces(autoAgents, DEFAULT_BEHAVIOR_PARAMS, deltaTime, mu);
+  }
+
+  // Enforce minimum separation (basic collision avoidance)
+  enforceMinimumSeparation(autoAgents, velocityAdjustments, DEFAULT_BEHAVIOR_PARAMS);
+
+  // Steering spends delta-v: agents only get what their budgets cover
+  const steering = chargeSteering(autoAgents, velocityAdjustments, deltaTime);
+  velocityAdjustments = steering.adjustments;
+  result.budgetUpdates = steering.budgets;
+  result.charges.push(...steering.charges);
+
+  result.steeredIds = autoAgents
+    .filter((_, index) => velocityAdjustments[index]?.delta.some((component) => component !== 0))
+    .map((agent) => agent.id);
+
+  // Propagate auto agents in batch with adjusted velocities
+  const propagatedAutoStates = propagateBatch(
+    applyVelocityAdjustments(autoAgents.map((agent) => agent.state), velocityAdjustments, deltaTime),
+    deltaTime,
+    autoAgents.map((agent) => agent.propagator),
+    propagatorOptions(autoAgents, startTime, epochJd, centralBody)
+  );
+
+  const allAgents = [...unsteeredAgents, ...autoAgents, ...maneuveringAgents];
+  const allStates = [...propagatedUnsteeredStates, ...propagatedAutoStates, ...maneuvered.map((m) => m.state)];
+  result.updates = allAgents.map((agent, index) => ({
+    id: agent.id,
+    state: allStates[index]!,
+  }));
+
+  if (objectives.length > 0 && autoAgents.length > 0) {
+    // Update objective states and check for completion (all agents, including unsteered ones)
+    const updated = objectives.map((obj) => ({ ...obj }));
+    result.newlyCompleted = updateObjectiveState(
+      updated,
+      allAgents.map((agent, index) => ({ ...agent, state: allStates[index]! })),
+      endTime
+    );
+    result.objectiveUpdates.push(...completionUpdates(objectives, updated));
+    result.tasksUpdated = true;
+  }
+
+  return result;
+}
@@ -0,0 +1,118 @@
+/**
+ * Tests for formation generators, natural-motion formations in particular.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  computeInPlaneEllipseFormation,
+  computeProjectedCircleFormation,
+  getFormationState,
+  getFormationTarget,
+  isNaturalFormation,
+} from './formations';
+import { chiefMeanMotion, eciToRelative, relativeToEci } from './relativeMotion';
+import { computeCentroid } from './localFrame';
+import { computeFormationSlot, computeSwarmForces } from './swarmSystem';
+import { DEFAULT_BEHAVIOR_PARAMS } from './types';
+import { Agent } from '@/render/Agents.types';
+import { FormationType } from '@/scenario/types';
+import { elementsToCartesian } from '@/sim/orbit/conversions';
+import { propagateUniversal } from '@/sim/orbit/universal';
+import { EARTH_MU, EARTH_RADIUS } from '@/sim/orbit/constants';
+import { distance } from '@/sim/orbit/vector';
+
+const NATURAL = [
+  FormationType.INPLANE_ELLIPSE,
+  FormationType.PROJECTED_CIRCLE,
+  FormationType.ALONG_TRACK_STRING,
+  FormationType.CROSS_TRACK,
+];
+
+const chief = elementsToCartesian({ a: EARTH_RADIUS + 700e3, e: 0, i: 0.9, Ω: 0.4, ω: 0, ν: 0.3 });
+const period = (2 * Math.PI) / chiefMeanMotion(chief);
+
+/**
+ * Agents sitting exactly on their formation slots around the chief.
+ */
+function formationAgents(formation: FormationType, count: number): Agent[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `agent-${i}`,
+    state: relativeToEci(getFormationState(formation, i, count, chief)!, chief),
+    behaviors: { cohesion: false, separation: false, alignment: false, formation },
+    team: 'friendly' as const,
+    dvRemaining: 100,
+    propagator: 'kepler' as const,
+  }));
+}
+
+describe('formations', () => {
+  it('shapes 2:1 ellipses and projected circles', () => {
+    const n = chiefMeanMotion(chief);
+    for (let i = 0; i < 6; i++) {
+      const ellipse = computeInPlaneEllipseFormation(i, 6, n, 0.7, 2000);
+      const [x, y, z] = ellipse.position;
+      expect((x / 1000) ** 2 + (y / 2000) ** 2).toBeCloseTo(1, 12);
+      expect(z).toBe(0);
+      // No along-track drift
+      expect(ellipse.velocity[1]).toBeCloseTo(-2 * n * x, 12);
+
+      const circle = computeProjectedCircleFormation(i, 6, n, 0.7, 2000);
+      expect(Math.hypot(circle.position[1], circle.position[2])).toBeCloseTo(2000, 8);
+    }
+  });
+
+  it('holds natural formations on two-body orbits without thrust', () => {
+    // Small formations and the default (40 km for four agents)
+    for (const [params, size] of [
+      [{ radius: 1000, spacing: 1000 }, 1000],
+      [undefined, 40000],
+    ] as const) {
+      for (const formation of NATURAL) {
+        const states = [0, 1, 2, 3].map((i) => relativeToEci(getFormationState(formation, i, 4, chief, params)!, chief));
+
+        // Part way round and several orbits later every agent is on its slot about the swarm's
+        // centroid, to within the second-order terms the linear design leaves out (no drift builds up)
+        for (const dt of [period / 3, 5.3 * period]) {
+          const later = states.map((state) => propagateUniversal(state, dt, EARTH_MU));
+          const centroid = computeCentroid(later);
+          later.forEach((state, i) => {
+            const slot = getFormationState(formation, i, 4, centroid, params)!;
+            expect(distance(eciToRelative(state, centroid).position, slot.position)).toBeLessThan(0.005 * size);
+          });
+        }
+      }
+    }
+
+    // A fixed ring slot off the orbital plane is not a free-flying equilibrium
+    const ring = getFormationTarget(FormationType.RING, 1, 4, { radius: 1000 })!;
+    const deputy = relativeToEci({ position: ring, velocity: [0, 0, 0] }, chief);
+    const later = eciToRelative(propagateUniversal(deputy, period / 2, EARTH_MU), propagateUniversal(chief, period / 2, EARTH_MU));
+    expect(distance(later.position, ring)).toBeGreaterThan(1000);
+  });
+
+  it('steers next to nothing on natural slots', () => {
+    for (const formation of NATURAL) {
+      expect(isNaturalFormation(formation)).toBe(true);
+      for (const adjustment of computeSwarmForces(formationAgents(formation, 4), DEFAULT_BEHAVIOR_PARAMS, 1)) {
+        expect(Math.hypot(...adjustment.delta)).toBeLessThan(1e-6);
+      }
+    }
+
+    // Far off its slot the agent is steered back at no more than the formation weight
+    const agents = formationAgents(FormationType.PROJECTED_CIRCLE, 4);
+    const [vx, vy, vz] = agents[0]!.state.velocity;
+    agents[0] = { ...agents[0]!, state: { ...agents[0]!.state, velocity: [vx + 200, vy, vz] } };
+    const [pushed] = computeSwarmForces(agents, DEFAULT_BEHAVIOR_PARAMS, 1);
+    expect(Math.hypot(...pushed!.delta)).toBeCloseTo(DEFAULT_BEHAVIOR_PARAMS.formationWeight, 9);
+    expect(isNaturalFormation(FormationType.RING)).toBe(false);
+  });
+
+  it('gives natural formation slots their relative velocity', () => {
+    const agents = formationAgents(FormationType.INPLANE_ELLIPSE, 4);
+    const slot = computeFormationSlot(agents, 'agent-2')!;
+
+    expect(distance(slot.position, agents[2]!.state.position)).toBeLessThan(1e-6);
+    expect(distance(slot.velocity, agents[2]!.state.velocity)).toBeLessThan(1e-6);
+    expect(getFormationState(FormationType.INPLANE_ELLIPSE, 0, 4, { position: [7000e3, 0, 0], velocity: [0, 12000, 0] })).toBeNull();
+  });
+});
@@ -1,9 +1,31 @@
 /**
  * Formation target generators for swarm behaviors.
  * All formations return target positions in local frame coordinates.
+ *
+ * Ring, plane and lattice are fixed offsets, which are not free-flying
+ * equilibria in orbit and need constant steering to hold. The natural-motion
+ * formations are periodic solutions of the Clohessy-Wiltshire equations
+ * (bounded, no along-track drift): each slot comes with the rotating-frame
+ * velocity that keeps it on its relative orbit without thrust, and moves with
+ * the chief's argument of latitude.
  */
 
 import { FormationType } from '@/scenario/types';
+import { CartesianState } from '@/sim/orbit/types';
+import { EARTH_MU } from '@/sim/orbit/constants';
+import { dot, cross, magnitude } from '@/sim/orbit/vector';
+import { LocalFrameState } from './types';
+import { chiefMeanMotion, eciToRelative, relativeToEci } from './relativeMotion';
+
+/**
+ * Formations that follow natural relative orbits.
+ */
+const NATURAL_FORMATIONS: ReadonlySet<FormationType> = new Set([
+  FormationType.INPLANE_ELLIPSE,
+  FormationType.PROJECTED_CIRCLE,
+  FormationType.ALONG_TRACK_STRING,
+  FormationType.CROSS_TRACK,
+]);
 
 /**
  * Compute ring formation target position for an agent.
@@ -107,13 +129,283 @@ export function computeLatticeFormation(
   return [radial, alongTrack, crossTrack];
 }
 
+/**
+ * Whether a formation follows natural relative orbits (slots move and carry a velocity).
+ * @param formationType Type of formation
+ */
+export function isNaturalFormation(formationType: FormationType | undefined): boolean {
+  return formationType !== undefined && NATURAL_FORMATIONS.has(formationType);
+}
+
+/**
+ * Compute 2:1 in-plane ellipse formation slot for an agent.
+ * Agents share one relative ellipse centered on the chief, twice as long
+ * along-track as radially, spread evenly in phase.
+ * @param agentIndex Index of the agent (0-based)
+ * @param totalAgents Total number of agents in formation
+ * @param meanMotion Mean motion n of the chief orbit in rad/s
+ * @param phase Phase of the formation in radians (the chief's argument of latitude)
+ * @param radius Along-track semi-axis in meters (default: auto-scale based on agent count)
+ * @returns Slot state in local frame [radial, along-track, cross-track], rotating-frame velocity
+ */
+export function computeInPlaneEllipseFormation(
+  agentIndex: number,
+  totalAgents: number,
+  meanMotion: number,
+  phase: number = 0,
+  radius?: number
+): LocalFrameState {
+  if (totalAgents <= 0) {
+    throw new Error('Total agents must be positive');
+  }
+
+  const r = radius ?? (totalAgents > 1 ? totalAgents * 10000 : 10000);
+  const θ = phase + (agentIndex / totalAgents) * 2 * Math.PI;
+  const n = meanMotion;
+
+  // x = (r/2) cos θ, y = −r sin θ; ẏ = −2n x cancels the along-track drift
+  return {
+    position: [(r / 2) * Math.cos(θ), -r * Math.sin(θ), 0],
+    velocity: [-(r / 2) * n * Math.sin(θ), -r * n * Math.cos(θ), 0],
+  };
+}
+
+/**
+ * Compute projected circular orbit formation slot for an agent.
+ * The 2:1 ellipse with a cross-track oscillation in phase with the radial
+ * motion, so that agents trace a circle when seen along the radial direction.
+ * @param agentIndex Index of the agent (0-based)
+ * @param totalAgents Total number of agents in formation
+ * @param meanMotion Mean motion n of the chief orbit in rad/s
+ * @param phase Phase of the formation in radians (the chief's argument of latitude)
+ * @param radius Radius of the projected circle in meters (default: auto-scale based on agent count)
+ * @returns Slot state in local frame [radial, along-track, cross-track], rotating-frame velocity
+ */
+export function computeProjectedCircleFormation(
+  agentIndex: number,
+  totalAgents: number,
+  meanMotion: number,
+  phase: number = 0,
+  radius?: number
+): LocalFrameState {
+  const { position, velocity } = computeInPlaneEllipseFormation(agentIndex, totalAgents, meanMotion, phase, radius);
+  // z = 2x keeps y² + z² = r²
+  return {
+    position: [position[0], position[1], 2 * position[0]],
+    velocity: [velocity[0], velocity[1], 2 * velocity[0]],
+  };
+}
+
+/**
+ * Compute along-track string formation slot for an agent.
+ * Agents trail each other on the chief's orbit, which they share, so they
+ * keep their spacing with no relative motion.
+ * @param agentIndex Index of the agent (0-based)
+ * @param totalAgents Total number of agents in formation
+ * @param spacing Spacing between agents in meters (default: 5000m)
+ * @returns Slot state in local frame [radial, along-track, cross-track], rotating-frame velocity
+ */
+export function computeAlongTrackStringFormation(
+  agentIndex: number,
+  totalAgents: number,
+  spacing: number = 5000
+): LocalFrameState {
+  if (totalAgents <= 0) {
+    throw new Error('Total agents must be positive');
+  }
+
+  const alongTrack = (agentIndex - (totalAgents - 1) / 2) * spacing;
+  return { position: [0, alongTrack, 0], velocity: [0, 0, 0] };
+}
+
+/**
+ * Compute cross-track oscillation formation slot for an agent.
+ * An along-track string whose agents swing across the orbital plane (small
+ * inclination differences), spread evenly in phase so the string forms a wave.
+ * @param agentIndex Index of the agent (0-based)
+ * @param totalAgents Total number of agents in formation
+ * @param meanMotion Mean motion n of the chief orbit in rad/s
+ * @param phase Phase of the formation in radians (the chief's argument of latitude)
+ * @param spacing Along-track spacing between agents in meters (default: 5000m)
+ * @param amplitude Cross-track amplitude in meters (default: the spacing)
+ * @returns Slot state in local frame [radial, along-track, cross-track], rotating-frame velocity
+ */
+export function computeCrossTrackFormation(
+  agentIndex: number,
+  totalAgents: number,
+  meanMotion: number,
+  phase: number = 0,
+  spacing: number = 5000,
+  amplitude: number = spacing
+): LocalFrameState {
+  const { position } = computeAlongTrackStringFormation(agentIndex, totalAgents, spacing);
+  const θ = phase + (agentIndex / totalAgents) * 2 * Math.PI;
+  return {
+    position: [0, position[1], amplitude * Math.cos(θ)],
+    velocity: [0, 0, -amplitude * meanMotion * Math.sin(θ)],
+  };
+}
+
+/**
+ * Argument of latitude of the chief: the angle from the ascending node to the
+ * chief in its orbital plane (from the ECI x axis for an equatorial orbit).
+ * Natural formations advance with it, so slots follow the relative orbits.
+ */
+function argumentOfLatitude(chief: CartesianState): number {
+  const h = cross(chief.position, chief.velocity);
+  const node = cross([0, 0, 1], h);
+  const reference: [number, number, number] = magnitude(node) > 1e-9 * magnitude(h) ? node : [1, 0, 0];
+  return Math.atan2(dot(cross(reference, chief.position), h) / magnitude(h), dot(reference, chief.position));
+}
+
+/**
+ * Natural formation slot as designed, in curvilinear coordinates (arc lengths
+ * along-track and cross-track on the chief's orbit sphere).
+ */
+function designNaturalSlot(
+  formationType: FormationType,
+  agentIndex: number,
+  totalAgents: number,
+  meanMotion: number,
+  phase: number,
+  params?: { radius?: number; spacing?: number }
+): LocalFrameState | null {
+  switch (formationType) {
+    case FormationType.INPLANE_ELLIPSE:
+      return computeInPlaneEllipseFormation(agentIndex, totalAgents, meanMotion, phase, params?.radius);
+    case FormationType.PROJECTED_CIRCLE:
+      return computeProjectedCircleFormation(agentIndex, totalAgents, meanMotion, phase, params?.radius);
+    case FormationType.ALONG_TRACK_STRING:
+      return computeAlongTrackStringFormation(agentIndex, totalAgents, params?.spacing);
+    case FormationType.CROSS_TRACK:
+      return computeCrossTrackFormation(agentIndex, totalAgents, meanMotion, phase, params?.spacing, params?.radius);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Radial drop of a curvilinear slot below the Cartesian local frame, and its
+ * rate: to second order the arcs fall (y² + z²) / 2r below the tangent plane.
+ * A straight along-track offset would instead sit above the chief's orbit and
+ * drift behind it.
+ */
+function curvatureDrop(slot: LocalFrameState, radius: number): [number, number] {
+  const [, y, z] = slot.position;
+  const [, vy, vz] = slot.velocity;
+  return [(y * y + z * z) / (2 * radius), (y * vy + z * vz) / radius];
+}
+
+/**
+ * Get the formation slot states of all agents based on formation type.
+ *
+ * Fixed formations have zero rotating-frame velocity. Natural formations take
+ * their phase and mean motion from the chief, which is their centroid (swarms
+ * steer about their own centroid), and are refined beyond the linear design:
+ * - slots follow the curvature of the chief's orbit, lifted as a whole so the
+ *   chief stays their centroid
+ * - every agent gets the same orbital energy (the formation's mean), so all
+ *   share one period and the formation keeps its shape without drifting
+ *
+ * @param formationType Type of formation
+ * @param totalAgents Total number of agents
+ * @param chief State of the formation center (ECI)
+ * @param params Optional formation parameters (radius, spacing)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Slot state of each agent in local frame [radial, along-track, cross-track], rotating-frame
+ *   velocity, or null for no formation and for natural formations around a chief that is not on an
+ *   elliptical orbit
+ */
+export function getFormationStates(
+  formationType: FormationType | undefined,
+  totalAgents: number,
+  chief: CartesianState,
+  params?: { radius?: number; spacing?: number },
+  mu: number = EARTH_MU
+): LocalFrameState[] | null {
+  if (!formationType || !isNaturalFormation(formationType)) {
+    const targets = Array.from({ length: totalAgents }, (_, i) =>
+      getFormationTarget(formationType, i, totalAgents, params)
+    );
+    return targets.every((position) => position !== null)
+      ? targets.map((position): LocalFrameState => ({ position: position!, velocity: [0, 0, 0] }))
+      : null;
+  }
+
+  let n: number;
+  try {
+    n = chiefMeanMotion(chief, mu);
+  } catch {
+    return null;
+  }
+  const phase = argumentOfLatitude(chief);
+  const designs = Array.from({ length: totalAgents }, (_, i) =>
+    designNaturalSlot(formationType, i, totalAgents, n, phase, params)!
+  );
+
+  // Curvature, lifted by the mean drop
+  const radius = magnitude(chief.position);
+  const drops = designs.map((slot) => curvatureDrop(slot, radius));
+  const meanDrop = drops.reduce((sum, [drop]) => sum + drop, 0) / totalAgents;
+  const meanDropRate = drops.reduce((sum, [, dropRate]) => sum + dropRate, 0) / totalAgents;
+  const deputies = designs.map((slot, i) => {
+    const [drop, dropRate] = drops[i]!;
+    const [x, y, z] = slot.position;
+    const [vx, vy, vz] = slot.velocity;
+    return relativeToEci(
+      { position: [x - drop + meanDrop, y, z], velocity: [vx - dropRate + meanDropRate, vy, vz] },
+      chief
+    );
+  });
+
+  // Common energy, weighted so the speed changes cancel out and the centroid keeps its velocity
+  const speeds = deputies.map((deputy) => magnitude(deputy.velocity));
+  const energies = deputies.map(
+    (deputy, i) => (speeds[i]! * speeds[i]!) / 2 - mu / magnitude(deputy.position)
+  );
+  const energy =
+    energies.reduce((sum, e, i) => sum + e / speeds[i]!, 0) / speeds.reduce((sum, v) => sum + 1 / v, 0);
+
+  return deputies.map((deputy, i) => {
+    const speed = Math.sqrt(2 * (energy + mu / magnitude(deputy.position)));
+    const scale = speed / speeds[i]!;
+    const matched: CartesianState = {
+      position: deputy.position,
+      velocity: [deputy.velocity[0] * scale, deputy.velocity[1] * scale, deputy.velocity[2] * scale],
+    };
+    return eciToRelative(matched, chief);
+  });
+}
+
+/**
+ * Get formation slot state for an agent based on formation type (see getFormationStates).
+ * @param formationType Type of formation
+ * @param agentIndex Index of the agent
+ * @param totalAgents Total number of agents
+ * @param chief State of the formation center (ECI)
+ * @param params Optional formation parameters (radius, spacing)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Slot state in local frame [radial, along-track, cross-track], rotating-frame velocity, or null
+ */
+export function getFormationState(
+  formationType: FormationType | undefined,
+  agentIndex: number,
+  totalAgents: number,
+  chief: CartesianState,
+  params?: { radius?: number; spacing?: number },
+  mu: number = EARTH_MU
+): LocalFrameState | null {
+  return getFormationStates(formationType, totalAgents, chief, params, mu)?.[agentIndex] ?? null;
+}
+
 /**
  * Get formation target position for an agent based on formation type.
  * @param formationType Type of formation
  * @param agentIndex Index of the agent
  * @param totalAgents Total number of agents
  * @param params Optional formation parameters (radius, spacing)
- * @returns Target position in local frame [radial, along-track, cross-track]
+ * @returns Target position in local frame [radial, along-track, cross-track], or null for no formation
+ *   and for natural formations (see getFormationState)
  */
 export function getFormationTarget(
   formationType: FormationType | undefined,
@@ -133,6 +425,7 @@ export function getFormationTarget(
     case FormationType.LATTICE:
       return computeLatticeFormation(agentIndex, totalAgents, params?.spacing);
     default:
+      // Natural formations move: see getFormationState
       return null;
   }
 }
@@ -4,6 +4,7 @@
 
 export * from './types';
 export * from './localFrame';
+export * from './relativeMotion';
 export * from './behaviors';
 export * from './formations';
 export * from './swarmSystem';
@@ -0,0 +1,127 @@
+/**
+ * Tests for closed-form relative motion, against two-body propagation of both orbits.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  chiefMeanMotion,
+  eciToRelative,
+  propagateCW,
+  propagateDeputy,
+  propagateYamanakaAnkersen,
+  predictRelativeMotion,
+  relativeToEci,
+} from './relativeMotion';
+import { LocalFrameState } from './types';
+import { elementsToCartesian } from '@/sim/orbit/conversions';
+import { propagateUniversal } from '@/sim/orbit/universal';
+import { CartesianState, OrbitalElements } from '@/sim/orbit/types';
+import { EARTH_MU, EARTH_RADIUS } from '@/sim/orbit/constants';
+import { distance } from '@/sim/orbit/vector';
+
+/**
+ * Chief and a deputy a few hundred meters away on a slightly different orbit.
+ */
+function pair(chiefElements: OrbitalElements) {
+  const chief = elementsToCartesian(chiefElements);
+  const deputy = elementsToCartesian({
+    ...chiefElements,
+    a: chiefElements.a + 200,
+    e: chiefElements.e + 1e-5,
+    i: chiefElements.i + 2e-5,
+    Ω: chiefElements.Ω + 1e-5,
+    ν: (chiefElements.ν ?? 0) - 3e-5,
+  });
+  return { chief, deputy };
+}
+
+/**
+ * Relative state after propagating both orbits.
+ */
+function truth(deputy: CartesianState, chief: CartesianState, dt: number): LocalFrameState {
+  return eciToRelative(propagateUniversal(deputy, dt, EARTH_MU), propagateUniversal(chief, dt, EARTH_MU));
+}
+
+describe('relativeMotion', () => {
+  it('converts between ECI and the rotating local frame', () => {
+    const { chief, deputy } = pair({ a: EARTH_RADIUS + 700e3, e: 0.1, i: 0.9, Ω: 0.4, ω: 0.7, ν: 0.3 });
+    const relative = eciToRelative(deputy, chief);
+    const back = relativeToEci(relative, chief);
+
+    expect(distance(back.position, deputy.position)).toBeLessThan(1e-6);
+    expect(distance(back.velocity, deputy.velocity)).toBeLessThan(1e-9);
+    // A co-moving point at the chief has no relative motion
+    expect(eciToRelative(chief, chief)).toEqual({ position: [0, 0, 0], velocity: [0, 0, 0] });
+  });
+
+  it('matches two-body propagation with Clohessy-Wiltshire for a circular chief', () => {
+    const { chief, deputy } = pair({ a: EARTH_RADIUS + 700e3, e: 0, i: 0.9, Ω: 0.4, ω: 0, ν: 0.3 });
+    const relative = eciToRelative(deputy, chief);
+    const n = chiefMeanMotion(chief);
+    const period = (2 * Math.PI) / n;
+
+    for (const dt of [period / 3, period, -period / 2]) {
+      const expected = truth(deputy, chief, dt);
+      const cw = propagateCW(relative, n, dt);
+      // Linearization error grows with the square of the separation (about 2 km here)
+      expect(distance(cw.position, expected.position)).toBeLessThan(1);
+      expect(distance(cw.velocity, expected.velocity)).toBeLessThan(1e-3);
+    }
+  });
+
+  it('matches two-body propagation with Yamanaka-Ankersen for eccentric chiefs', () => {
+    for (const [a, e] of [
+      [EARTH_RADIUS + 700e3, 0.01],
+      [EARTH_RADIUS + 700e3, 0.3],
+      [EARTH_RADIUS + 20700e3, 0.7],
+    ] as const) {
+      const { chief, deputy } = pair({ a, e, i: 0.9, Ω: 0.4, ω: 0.7, ν: 0.3 });
+      const relative = eciToRelative(deputy, chief);
+      const period = (2 * Math.PI) / chiefMeanMotion(chief);
+
+      for (const dt of [period / 3, period, -period / 2]) {
+        const expected = truth(deputy, chief, dt);
+        const ya = propagateYamanakaAnkersen(relative, chief, dt);
+        const separation = Math.hypot(...expected.position);
+        expect(distance(ya.position, expected.position)).toBeLessThan(1e-3 * separation);
+        expect(distance(ya.velocity, expected.velocity)).toBeLessThan(1e-3);
+      }
+
+      // Clohessy-Wiltshire ignores the eccentricity and drifts away
+      const cw = propagateCW(relative, chiefMeanMotion(chief), period);
+      expect(distance(cw.position, truth(deputy, chief, period).position)).toBeGreaterThan(10);
+    }
+  });
+
+  it('reduces to Clohessy-Wiltshire for a circular chief', () => {
+    const chief = elementsToCartesian({ a: EARTH_RADIUS + 500e3, e: 0, i: 0.5, Ω: 0, ω: 0, ν: 1 });
+    const relative: LocalFrameState = { position: [100, -50, 30], velocity: [0.05, -0.2, 0.01] };
+    const n = chiefMeanMotion(chief);
+
+    const ya = propagateYamanakaAnkersen(relative, chief, 2500);
+    const cw = propagateCW(relative, n, 2500);
+    expect(distance(ya.position, cw.position)).toBeLessThan(1e-6);
+    expect(distance(ya.velocity, cw.velocity)).toBeLessThan(1e-9);
+  });
+
+  it('propagates a deputy in ECI', () => {
+    const { chief, deputy } = pair({ a: EARTH_RADIUS + 700e3, e: 0.05, i: 0.9, Ω: 0.4, ω: 0.7, ν: 0.3 });
+    const expected = propagateUniversal(deputy, 3000, EARTH_MU);
+
+    expect(distance(propagateDeputy(deputy, chief, 3000).position, expected.position)).toBeLessThan(1);
+    expect(() => propagateDeputy(deputy, { position: [7000e3, 0, 0], velocity: [0, 12000, 0] }, 60)).toThrow(
+      'elliptical chief'
+    );
+  });
+
+  it('predicts relative motion at several times', () => {
+    const { chief, deputy } = pair({ a: EARTH_RADIUS + 700e3, e: 0.05, i: 0.9, Ω: 0.4, ω: 0.7, ν: 0.3 });
+    const times = [0, 1000, 3000];
+    const predicted = predictRelativeMotion(deputy, chief, times);
+
+    expect(predicted).toHaveLength(3);
+    predicted.forEach((relative, index) => {
+      expect(distance(relative.position, truth(deputy, chief, times[index]!).position)).toBeLessThan(1);
+    });
+  });
+});
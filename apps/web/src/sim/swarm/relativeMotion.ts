@@ -0,0 +1,279 @@
+/**
+ * Closed-form relative motion in the local (Hill) frame of a chief orbit.
+ *
+ * Relative states are expressed in the rotating frame of computeLocalFrame:
+ * position [radial, along-track, cross-track] of the deputy from the chief,
+ * and velocity as seen by an observer rotating with the chief (the inertial
+ * velocity difference minus ω × ρ, with ω = h / r² along the orbit normal).
+ *
+ * Two linearized solutions propagate such states without integrating either
+ * orbit, valid while the separation stays small compared with the orbit radius:
+ * - Clohessy-Wiltshire (Hill) equations for a circular chief of mean motion n
+ * - Yamanaka-Ankersen solution of the Tschauner-Hempel equations for an
+ *   elliptical chief (Yamanaka & Ankersen, "New State Transition Matrix for
+ *   Relative Motion on an Arbitrary Elliptical Orbit", JGCD 25(1), 2002),
+ *   which reduces to Clohessy-Wiltshire for e = 0
+ *
+ * Units: meters, seconds, m/s.
+ */
+
+import { CartesianState } from '@/sim/orbit/types';
+import { EARTH_MU } from '@/sim/orbit/constants';
+import { propagateUniversal } from '@/sim/orbit/universal';
+import { dot, cross, magnitude } from '@/sim/orbit/vector';
+import { LocalFrameState } from './types';
+import { computeLocalFrame, eciToLocalFrame, localFrameToEci } from './localFrame';
+
+/**
+ * Rotation rate of the chief's local frame (h / r²) in rad/s.
+ */
+function frameRate(chief: CartesianState): number {
+  const r = magnitude(chief.position);
+  return magnitude(cross(chief.position, chief.velocity)) / (r * r);
+}
+
+/**
+ * Mean motion of the chief's orbit, the n of the Clohessy-Wiltshire equations.
+ * @param chief Chief state (ECI)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Mean motion in rad/s
+ * @throws Error if the chief orbit is not elliptical
+ */
+export function chiefMeanMotion(chief: CartesianState, mu: number = EARTH_MU): number {
+  const r = magnitude(chief.position);
+  const v2 = dot(chief.velocity, chief.velocity);
+  const a = 1 / (2 / r - v2 / mu);
+  if (!(a > 0) || !Number.isFinite(a)) {
+    throw new Error('Relative motion needs an elliptical chief orbit');
+  }
+  return Math.sqrt(mu / (a * a * a));
+}
+
+/**
+ * State of a deputy relative to a chief, in the chief's rotating local frame.
+ * @param deputy Deputy state (ECI)
+ * @param chief Chief state (ECI)
+ * @returns Relative position and rotating-frame velocity [radial, along-track, cross-track]
+ */
+export function eciToRelative(deputy: CartesianState, chief: CartesianState): LocalFrameState {
+  const frame = computeLocalFrame(chief);
+  const { position, velocity } = eciToLocalFrame(deputy, frame);
+  const chiefVelocity = eciToLocalFrame(chief, frame).velocity;
+  const ω = frameRate(chief);
+  return {
+    position,
+    velocity: [
+      velocity[0] - chiefVelocity[0] + ω * position[1],
+      velocity[1] - chiefVelocity[1] - ω * position[0],
+      velocity[2] - chiefVelocity[2],
+    ],
+  };
+}
+
+/**
+ * ECI state of a deputy from its state relative to a chief.
+ * @param relative Relative position and rotating-frame velocity [radial, along-track, cross-track]
+ * @param chief Chief state (ECI)
+ * @returns Deputy state (ECI)
+ */
+export function relativeToEci(relative: LocalFrameState, chief: CartesianState): CartesianState {
+  const frame = computeLocalFrame(chief);
+  const chiefVelocity = eciToLocalFrame(chief, frame).velocity;
+  const ω = frameRate(chief);
+  const [x, y] = relative.position;
+  return localFrameToEci(
+    {
+      position: relative.position,
+      velocity: [
+        relative.velocity[0] + chiefVelocity[0] - ω * y,
+        relative.velocity[1] + chiefVelocity[1] + ω * x,
+        relative.velocity[2] + chiefVelocity[2],
+      ],
+    },
+    frame
+  );
+}
+
+/**
+ * Propagate a relative state with the Clohessy-Wiltshire equations (circular chief).
+ * @param relative Relative state at the start
+ * @param meanMotion Mean motion n of the chief orbit in rad/s
+ * @param deltaTime Time to propagate in seconds (may be negative)
+ * @returns Relative state after deltaTime
+ */
+export function propagateCW(relative: LocalFrameState, meanMotion: number, deltaTime: number): LocalFrameState {
+  const n = meanMotion;
+  const [x0, y0, z0] = relative.position;
+  const [vx0, vy0, vz0] = relative.velocity;
+  const nt = n * deltaTime;
+  const s = Math.sin(nt);
+  const c = Math.cos(nt);
+
+  return {
+    position: [
+      (4 - 3 * c) * x0 + (s / n) * vx0 + (2 * (1 - c) / n) * vy0,
+      6 * (s - nt) * x0 + y0 - (2 * (1 - c) / n) * vx0 + ((4 * s - 3 * nt) / n) * vy0,
+      c * z0 + (s / n) * vz0,
+    ],
+    velocity: [
+      3 * n * s * x0 + c * vx0 + 2 * s * vy0,
+      -6 * n * (1 - c) * x0 - 2 * s * vx0 + (4 * c - 3) * vy0,
+      -n * s * z0 + c * vz0,
+    ],
+  };
+}
+
+/**
+ * Solve a 3×3 linear system by Cramer's rule.
+ */
+function solve3(m: number[][], b: number[]): [number, number, number] {
+  const det = (a: number[][]) =>
+    a[0]![0]! * (a[1]![1]! * a[2]![2]! - a[1]![2]! * a[2]![1]!) -
+    a[0]![1]! * (a[1]![0]! * a[2]![2]! - a[1]![2]! * a[2]![0]!) +
+    a[0]![2]! * (a[1]![0]! * a[2]![1]! - a[1]![1]! * a[2]![0]!);
+  const d = det(m);
+  const column = (k: number) => det(m.map((row, i) => row.map((value, j) => (j === k ? b[i]! : value))));
+  return [column(0) / d, column(1) / d, column(2) / d];
+}
+
+/**
+ * Propagate a relative state with the Yamanaka-Ankersen solution (elliptical chief).
+ *
+ * In the true anomaly θ and the scaled coordinates x̃ = ρx (ρ = 1 + e cos θ),
+ * the in-plane motion is
+ *   x̃ = d₁ρ sin θ + d₂ρ cos θ + d₃(2 − 3eρ sin θ J)
+ *   ỹ = d₄ + d₁(1 + ρ) cos θ − d₂(1 + ρ) sin θ − 3d₃ρ²J
+ * with J = k²(t − t₀), k² = √(μ/p³), and the cross-track motion is harmonic in θ.
+ *
+ * @param relative Relative state at the start
+ * @param chief Chief state (ECI) at the start
+ * @param deltaTime Time to propagate in seconds (may be negative)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Relative state after deltaTime
+ * @throws Error if the chief orbit is not elliptical
+ */
+export function propagateYamanakaAnkersen(
+  relative: LocalFrameState,
+  chief: CartesianState,
+  deltaTime: number,
+  mu: number = EARTH_MU
+): LocalFrameState {
+  chiefMeanMotion(chief, mu); // Rejects escape orbits
+
+  const h = cross(chief.position, chief.velocity);
+  const hMagnitude = magnitude(h);
+  const p = (hMagnitude * hMagnitude) / mu;
+  const k2 = Math.sqrt(mu / (p * p * p));
+  const r0 = magnitude(chief.position);
+  const rv = dot(chief.position, chief.velocity);
+  const v2 = dot(chief.velocity, chief.velocity);
+  const eVector = chief.position.map(
+    (component, k) => ((v2 - mu / r0) * component - rv * chief.velocity[k]!) / mu
+  ) as [number, number, number];
+  const e = magnitude(eVector);
+  // True anomaly from periapsis; any fixed direction in the plane serves for a circular chief
+  const reference = e > 1e-12 ? eVector : chief.position;
+  const anomaly = (position: [number, number, number]) =>
+    Math.atan2(dot(cross(reference, position), h) / hMagnitude, dot(reference, position));
+
+  const θ0 = anomaly(chief.position);
+  const θ1 = anomaly(propagateUniversal(chief, deltaTime, mu).position);
+  const J = k2 * deltaTime;
+
+  // Scaled state at the start (derivatives with respect to θ)
+  const toScaled = (value: number, rate: number, θ: number) => {
+    const ρ = 1 + e * Math.cos(θ);
+    return [ρ * value, -e * Math.sin(θ) * value + rate / (k2 * ρ)] as const;
+  };
+  const fromScaled = (scaled: number, derivative: number, θ: number) => {
+    const ρ = 1 + e * Math.cos(θ);
+    return [scaled / ρ, k2 * (ρ * derivative + e * Math.sin(θ) * scaled)] as const;
+  };
+  const [x0, dx0] = toScaled(relative.position[0], relative.velocity[0], θ0);
+  const [y0, dy0] = toScaled(relative.position[1], relative.velocity[1], θ0);
+  const [z0, dz0] = toScaled(relative.position[2], relative.velocity[2], θ0);
+
+  // In-plane fundamental solutions and their θ-derivatives at θ (J = 0 at θ0)
+  const basis = (θ: number, J: number) => {
+    const sin = Math.sin(θ);
+    const cos = Math.cos(θ);
+    const ρ = 1 + e * cos;
+    const s = ρ * sin;
+    const c = ρ * cos;
+    const ds = cos + e * Math.cos(2 * θ);
+    const dc = -(sin + e * Math.sin(2 * θ));
+    return {
+      x: [s, c, 2 - 3 * e * s * J],
+      dx: [ds, dc, -3 * e * (ds * J + s / (ρ * ρ))],
+      y: [(1 + ρ) * cos, -(1 + ρ) * sin, -3 * ρ * ρ * J],
+    };
+  };
+
+  // ỹ' = −2x̃ + e·d₂ + d₃ fixes the third condition
+  const start = basis(θ0, 0);
+  const [d1, d2, d3] = solve3(
+    [start.x, start.dx, [0, e, 1]],
+    [x0, dx0, dy0 + 2 * x0]
+  );
+  const d4 = y0 - (d1 * start.y[0]! + d2 * start.y[1]! + d3 * start.y[2]!);
+
+  const end = basis(θ1, J);
+  const combine = (terms: number[]) => d1 * terms[0]! + d2 * terms[1]! + d3 * terms[2]!;
+  const x1 = combine(end.x);
+  const dx1 = combine(end.dx);
+  const y1 = d4 + combine(end.y);
+  const dy1 = -2 * x1 + e * d2 + d3;
+
+  // Cross-track: z̃ = A cos θ + B sin θ
+  const A = z0 * Math.cos(θ0) - dz0 * Math.sin(θ0);
+  const B = z0 * Math.sin(θ0) + dz0 * Math.cos(θ0);
+  const z1 = A * Math.cos(θ1) + B * Math.sin(θ1);
+  const dz1 = -A * Math.sin(θ1) + B * Math.cos(θ1);
+
+  const [x, vx] = fromScaled(x1, dx1, θ1);
+  const [y, vy] = fromScaled(y1, dy1, θ1);
+  const [z, vz] = fromScaled(z1, dz1, θ1);
+  return { position: [x, y, z], velocity: [vx, vy, vz] };
+}
+
+/**
+ * Propagate a deputy relative to a chief in closed form and return both in ECI.
+ *
+ * @param deputy Deputy state (ECI)
+ * @param chief Chief state (ECI)
+ * @param deltaTime Time to propagate in seconds (may be negative)
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Deputy state (ECI) after deltaTime, from the Yamanaka-Ankersen solution
+ *   on the chief's two-body orbit
+ */
+export function propagateDeputy(
+  deputy: CartesianState,
+  chief: CartesianState,
+  deltaTime: number,
+  mu: number = EARTH_MU
+): CartesianState {
+  const relative = propagateYamanakaAnkersen(eciToRelative(deputy, chief), chief, deltaTime, mu);
+  return relativeToEci(relative, propagateUniversal(chief, deltaTime, mu));
+}
+
+/**
+ * Predict a deputy's motion relative to a chief in closed form, e.g. to preview
+ * how an agent drifts about its formation slot.
+ *
+ * @param deputy Deputy state (ECI)
+ * @param chief Chief state (ECI)
+ * @param times Times from now in seconds
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Relative state [radial, along-track, cross-track] at each time, from the
+ *   Yamanaka-Ankersen solution
+ * @throws Error if the chief orbit is not elliptical
+ */
+export function predictRelativeMotion(
+  deputy: CartesianState,
+  chief: CartesianState,
+  times: number[],
+  mu: number = EARTH_MU
+): LocalFrameState[] {
+  const relative = eciToRelative(deputy, chief);
+  return times.map((time) => propagateYamanakaAnkersen(relative, chief, time, mu));
+}
@@ -4,6 +4,8 @@
  */
 
 import { Agent } from '@/render/Agents.types';
+import { CartesianState } from '@/sim/orbit/types';
+import { EARTH_MU } from '@/sim/orbit/constants';
 import {
   LocalFrameState,
   BehaviorParams,
@@ -17,19 +19,23 @@ import {
   computeCentroid,
 } from './localFrame';
 import { computeCohesion, computeSeparation, computeAlignment } from './behaviors';
-import { getFormationTarget } from './formations';
+import { eciToRelative, relativeToEci } from './relativeMotion';
+import { FormationType } from '@/scenario/types';
+import { getFormationState, getFormationStates, getFormationTarget, isNaturalFormation } from './formations';
 
 /**
  * Compute velocity adjustments for all agents based on swarm behaviors.
  * @param agents Array of agents with their current states and behaviors
  * @param params Behavior parameters (uses defaults if not provided)
  * @param deltaTime Time step in seconds
+ * @param mu Gravitational parameter (m³/s², defaults to Earth), for natural formations
  * @returns Array of velocity adjustments in ECI frame (one per agent)
  */
 export function computeSwarmForces(
   agents: Agent[],
   params: BehaviorParams = DEFAULT_BEHAVIOR_PARAMS,
-  deltaTime: number
+  deltaTime: number,
+  mu: number = EARTH_MU
 ): VelocityAdjustment[] {
   if (agents.length === 0) {
     return [];
@@ -55,6 +61,15 @@ export function computeSwarmForces(
   const localStates: LocalFrameState[] = activeAgents.map((agent) =>
     eciToLocalFrame(agent.state, localFrame)
   );
+
+  // Natural formation slots are designed together, once per formation type
+  const naturalSlots = new Map<FormationType, LocalFrameState[] | null>();
+  const naturalSlot = (formation: FormationType, index: number) => {
+    if (!naturalSlots.has(formation)) {
+      naturalSlots.set(formation, getFormationStates(formation, activeAgents.length, centroidState, undefined, mu));
+    }
+    return naturalSlots.get(formation)?.[index] ?? null;
+  };
   
   // Compute velocity adjustments for each agent
   const adjustments: VelocityAdjustment[] = [];
@@ -105,8 +120,28 @@ export function computeSwarmForces(
       velAdjustLocal[2] += alignment[2]!;
     }
     
-    // Apply formation steering
-    if (behaviors.formation) {
+    // Natural formations: track the moving slot's position and velocity (critically damped),
+    // which costs next to nothing once the agent is on its relative orbit
+    if (behaviors.formation && isNaturalFormation(behaviors.formation)) {
+      const slot = naturalSlot(behaviors.formation, activeIndex);
+
+      if (slot) {
+        const relative = eciToRelative(agent.state, centroidState);
+        const τ = params.naturalFormationTimeConstant;
+        const steer = [0, 1, 2].map(
+          (k) =>
+            (slot.position[k]! - relative.position[k]!) / (τ * τ) +
+            (2 * (slot.velocity[k]! - relative.velocity[k]!)) / τ
+        );
+        const steerMag = Math.sqrt(steer[0]! ** 2 + steer[1]! ** 2 + steer[2]! ** 2);
+        const scale = steerMag > params.formationWeight ? params.formationWeight / steerMag : 1;
+
+        velAdjustLocal[0] += steer[0]! * scale;
+        velAdjustLocal[1] += steer[1]! * scale;
+        velAdjustLocal[2] += steer[2]! * scale;
+      }
+    } else if (behaviors.formation) {
+      // Apply formation steering
       const formationTarget = getFormationTarget(
         behaviors.formation,
         activeIndex,
@@ -153,6 +188,42 @@ export function computeSwarmForces(
   return adjustments;
 }
 
+/**
+ * ECI state of an agent's formation slot: its formation target in the local
+ * frame of the swarm's centroid, moving with the centroid. Slots of natural
+ * formations carry their relative velocity, so they coast on their own orbits.
+ * Uses the same grouping as computeSwarmForces (every agent with a behavior).
+ * @param agents All agents
+ * @param agentId Agent whose slot is wanted
+ * @param mu Gravitational parameter (m³/s², defaults to Earth)
+ * @returns Slot state, or null if the agent is not in a formation
+ */
+export function computeFormationSlot(agents: Agent[], agentId: string, mu: number = EARTH_MU): CartesianState | null {
+  const activeAgents = agents.filter((agent) => {
+    const b = agent.behaviors;
+    return b.cohesion || b.separation || b.alignment || b.formation;
+  });
+  const activeIndex = activeAgents.findIndex((agent) => agent.id === agentId);
+  if (activeIndex === -1) {
+    return null;
+  }
+
+  const formation = activeAgents[activeIndex]!.behaviors.formation;
+  const centroidState = computeCentroid(activeAgents.map((a) => a.state));
+  if (isNaturalFormation(formation)) {
+    const slot = getFormationState(formation, activeIndex, activeAgents.length, centroidState, undefined, mu);
+    return slot ? relativeToEci(slot, centroidState) : null;
+  }
+
+  const target = getFormationTarget(formation, activeIndex, activeAgents.length);
+  if (!target) {
+    return null;
+  }
+
+  const { position } = localFrameToEci({ position: target, velocity: [0, 0, 0] }, computeLocalFrame(centroidState));
+  return { position, velocity: centroidState.velocity };
+}
+
 /**
  * Enforce minimum separation (basic collision avoidance).
  * Modifies velocity adjustments to prevent agents from getting too close.
@@ -43,6 +43,8 @@ export interface BehaviorParams {
   minSeparation: number;
   /** Formation steering weight */
   formationWeight: number;
+  /** Response time of natural-formation slot tracking (seconds) */
+  naturalFormationTimeConstant: number;
 }
 
 /**
@@ -55,6 +57,7 @@ export const DEFAULT_BEHAVIOR_PARAMS: BehaviorParams = {
   neighborRadius: 50000, // 50 km
   minSeparation: 1000, // 1 km
   formationWeight: 0.3,
+  naturalFormationTimeConstant: 600,
 };
 
 /**
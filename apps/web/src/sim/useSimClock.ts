@@ -14,6 +14,7 @@ export function useSimClock() {
     paused,
     timeScale,
     seed,
+    epoch,
     setPaused,
     setTimeScale,
     setSeed,
@@ -45,8 +46,11 @@ export function useSimClock() {
       if (clockRef.current.getSeed() !== seed) {
         clockRef.current.setSeed(seed);
       }
+      if (clockRef.current.getEpoch() !== epoch) {
+        clockRef.current.setEpoch(epoch);
+      }
     }
-  }, [paused, timeScale, seed]);
+  }, [paused, timeScale, seed, epoch]);
 
   // Update clock in render loop
   useFrame((_state, delta) => {
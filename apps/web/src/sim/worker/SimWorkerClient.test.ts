@@ -0,0 +1,270 @@
+/**
+ * Tests for the sim worker: the worker path must match the main-thread step bit for bit.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { SimWorkerClient, SimWorkerStepResult } from './SimWorkerClient';
+import { SimWorkerCore, handleWorkerMessage } from './SimWorkerCore';
+import { SimWorkerRequest, SimWorkerResponse, StepResultMessage } from './protocol';
+import { runSimStep } from '@/sim/step';
+import { Agent } from '@/render/Agents.types';
+import { Objective, ObjectiveType } from '@/sim/tasks/types';
+import { generateTestAgents } from '@/util/generateTestAgents';
+import { DEFAULT_REENTRY_ALTITUDE } from '@/sim/orbit/decay';
+import { setSeed } from '@/util/seed';
+
+/**
+ * Test agents with swarm behaviors enabled and one player-selected agent.
+ */
+function createAgents(): Agent[] {
+  setSeed('worker-test-seed');
+  return generateTestAgents(40).map((agent, index) => ({
+    ...agent,
+    behaviors: { cohesion: true, separation: true, alignment: index % 2 === 0 },
+    selected: index === 3,
+  }));
+}
+
+const objectives: Objective[] = [
+  {
+    id: 'inspect-1',
+    type: ObjectiveType.INSPECT_POINT,
+    position: [7000e3, 0, 0],
+    points: 100,
+    completed: false,
+    threshold: 50e3,
+  },
+];
+
+/**
+ * Apply a step result to a plain agent array (as the agent store does).
+ */
+function applyUpdates(
+  agents: Agent[],
+  result: { updates: SimWorkerStepResult['updates']; reenteredIds: string[] },
+  time: number
+): Agent[] {
+  const states = new Map(result.updates.map((u) => [u.id, u.state]));
+  return agents.map((agent) => ({
+    ...agent,
+    state: states.get(agent.id) ?? agent.state,
+    reentryTime: result.reenteredIds.includes(agent.id) ? time : agent.reentryTime,
+  }));
+}
+
+/**
+ * Stand-in for the Web Worker running sim.worker.ts: messages cross a
+ * structured clone in both directions (transferring buffers, as postMessage
+ * does) and are delivered asynchronously.
+ */
+class FakeWorker {
+  static last: FakeWorker | null = null;
+  onmessage: ((event: MessageEvent<SimWorkerResponse>) => void) | null = null;
+  onerror: ((event: ErrorEvent) => void) | null = null;
+  private readonly core = new SimWorkerCore();
+
+  constructor() {
+    FakeWorker.last = this;
+  }
+
+  postMessage(message: SimWorkerRequest): void {
+    const request = structuredClone(message);
+    setTimeout(() =>
+      handleWorkerMessage(this.core, request, (response, transfer) => {
+        const data = structuredClone(response, { transfer });
+        this.onmessage?.({ data } as MessageEvent<SimWorkerResponse>);
+      })
+    );
+  }
+
+  /** Raise an error the worker did not catch */
+  crash(message: string): void {
+    this.onerror?.({ message, preventDefault: () => {} } as ErrorEvent);
+  }
+
+  terminate(): void {}
+}
+
+/**
+ * Let the fake worker deliver its replies.
+ */
+function flush(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
+describe('sim worker', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('produces bit-identical states to the main-thread step', () => {
+    const times = [0, 0.016, 0.5, 1.7, 30, 31.25];
+
+    // Main-thread path
+    let mainAgents = createAgents();
+    for (let i = 1; i < times.length; i++) {
+      const result = runSimStep({
+        agents: mainAgents,
+        objectives,
+        startTime: times[i - 1]!,
+        endTime: times[i]!,
+        reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+      });
+      mainAgents = applyUpdates(mainAgents, result, times[i - 1]!);
+    }
+
+    // Worker path (in-thread fallback runs the same worker core)
+    let workerAgents = createAgents();
+    const client = new SimWorkerClient({ getAgents: () => workerAgents, useWorker: false });
+    client.onResult((result) => {
+      workerAgents = applyUpdates(workerAgents, result, result.startTime);
+    });
+    for (let i = 1; i < times.length; i++) {
+      client.requestStep({
+        agents: workerAgents,
+        objectives,
+        startTime: times[i - 1]!,
+        endTime: times[i]!,
+        reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+      });
+    }
+
+    expect(workerAgents.map((a) => a.state)).toEqual(mainAgents.map((a) => a.state));
+  });
+
+  it('re-syncs agents changed outside the sim step', () => {
+    let agents = createAgents();
+    const client = new SimWorkerClient({ getAgents: () => agents, useWorker: false });
+    client.onResult((result) => {
+      agents = applyUpdates(agents, result, result.startTime);
+    });
+
+    const request = { objectives: [], reentryAltitude: DEFAULT_REENTRY_ALTITUDE };
+    client.requestStep({ ...request, agents, startTime: 0, endTime: 10 });
+    expect(client.isInSync(agents)).toBe(true);
+
+    // Simulate a burn on one agent
+    const [vx, vy, vz] = agents[0]!.state.velocity;
+    agents = agents.map((agent, index) =>
+      index === 0 ? { ...agent, state: { ...agent.state, velocity: [vx, vy + 10, vz] } } : agent
+    );
+    expect(client.isInSync(agents)).toBe(false);
+
+    const burned = agents;
+    client.requestStep({ ...request, agents, startTime: 10, endTime: 20 });
+    const expected = runSimStep({ ...request, agents: burned, startTime: 10, endTime: 20 });
+    expect(agents[0]!.state).toEqual(expected.updates.find((u) => u.id === agents[0]!.id)!.state);
+
+    // Scheduling a burn changes no state but still needs a sync
+    expect(client.isInSync(agents)).toBe(true);
+    agents = agents.map((agent, index) =>
+      index === 0 ? { ...agent, maneuvers: [{ id: 'm1', trigger: { type: 'time', time: 25 }, rtn: [0, 1, 0] }] } : agent
+    );
+    expect(client.isInSync(agents)).toBe(false);
+  });
+
+  it('transfers states as Float64Array buffers in sync order', () => {
+    const agents = createAgents();
+    const core = new SimWorkerCore();
+    core.handle({ type: 'sync', revision: 1, agents });
+
+    const result = core.handle({
+      type: 'step',
+      revision: 1,
+      objectives: [],
+      controlledIds: [],
+      startTime: 0,
+      endTime: 60,
+      reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+    }) as StepResultMessage;
+
+    expect(result.type).toBe('stepResult');
+    expect(result.positions).toBeInstanceOf(Float64Array);
+    expect(result.positions.length).toBe(agents.length * 3);
+    expect(result.velocities.length).toBe(agents.length * 3);
+    expect(result.revision).toBe(1);
+  });
+
+  it('runs steps through the worker message protocol', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const times = [0, 0.5, 30, 31.25];
+
+    // In-thread reference
+    let mainAgents = createAgents();
+    const mainClient = new SimWorkerClient({ getAgents: () => mainAgents, useWorker: false });
+    mainClient.onResult((result) => {
+      mainAgents = applyUpdates(mainAgents, result, result.startTime);
+    });
+
+    let workerAgents = createAgents();
+    const client = new SimWorkerClient({ getAgents: () => workerAgents });
+    client.onResult((result) => {
+      workerAgents = applyUpdates(workerAgents, result, result.startTime);
+    });
+
+    for (let i = 1; i < times.length; i++) {
+      const request = { objectives, startTime: times[i - 1]!, endTime: times[i]!, reentryAltitude: DEFAULT_REENTRY_ALTITUDE };
+      mainClient.requestStep({ ...request, agents: mainAgents });
+      expect(client.requestStep({ ...request, agents: workerAgents })).toBe(true);
+      expect(client.busy).toBe(true);
+      // One step in flight at a time
+      expect(client.requestStep({ ...request, agents: workerAgents })).toBe(false);
+      await flush();
+      expect(client.busy).toBe(false);
+    }
+
+    expect(workerAgents.map((a) => a.state)).toEqual(mainAgents.map((a) => a.state));
+  });
+
+  it('reports failed steps and accepts the next request', async () => {
+    vi.stubGlobal('Worker', FakeWorker);
+    const agents = createAgents().map((agent, index) =>
+      index === 0 ? { ...agent, propagator: 'numerical' as const, forceModels: ['central_gravity', 'warp_drive'] } : agent
+    );
+    const client = new SimWorkerClient({ getAgents: () => agents });
+    const results: SimWorkerStepResult[] = [];
+    const errors: string[] = [];
+    client.onResult((result) => results.push(result));
+    client.onError((message) => errors.push(message));
+
+    const request = { agents, objectives: [], reentryAltitude: DEFAULT_REENTRY_ALTITUDE };
+    client.requestStep({ ...request, startTime: 0, endTime: 10 });
+    await flush();
+
+    expect(errors).toEqual(['Unknown force model "warp_drive"']);
+    expect(results).toEqual([]);
+    expect(client.busy).toBe(false);
+
+    // The worker is still usable, and errors it does not catch are reported too
+    expect(client.requestStep({ ...request, startTime: 0, endTime: 10 })).toBe(true);
+    FakeWorker.last!.crash('Worker script failed to load');
+    expect(errors).toEqual(['Unknown force model "warp_drive"', 'Worker script failed to load']);
+    expect(client.busy).toBe(false);
+    await flush();
+  });
+
+  it('answers a failed step with an error and keeps its agents', () => {
+    const agents = createAgents();
+    const core = new SimWorkerCore();
+    const step: SimWorkerRequest = {
+      type: 'step',
+      revision: 2,
+      objectives: [],
+      controlledIds: [],
+      startTime: 0,
+      endTime: 60,
+      reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+    };
+    core.handle({ type: 'sync', revision: 2, agents: [{ ...agents[0]!, propagator: 'sgp4' }] });
+
+    expect(core.handle(step)).toEqual({
+      type: 'stepError',
+      revision: 2,
+      startTime: 0,
+      endTime: 60,
+      message: 'The sgp4 propagator requires a TLE',
+    });
+    // Nothing was advanced: the same request fails the same way
+    expect(core.handle(step)).toMatchObject({ type: 'stepError' });
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Render-thread side of the sim worker.
+ * Keeps the worker's agents in sync with the agent store and turns step
+ * results back into per-agent state updates. Falls back to running the same
+ * SimWorkerCore on the calling thread when Web Workers are unavailable
+ * (e.g. tests), which produces bit-identical results. Steps that fail are
+ * reported to the error handler, and the next request can be sent.
+ */
+
+import { Agent } from '@/render/Agents.types';
+import { CartesianState } from '@/sim/orbit/types';
+import { CentralBody } from '@/sim/orbit/centralBody';
+import { ThrustArc } from '@/sim/orbit/forces';
+import { readState } from '@/sim/orbit/batch';
+import { Objective } from '@/sim/tasks/types';
+import { SimStepResult } from '@/sim/step';
+import { ScheduledManeuver } from '@/sim/maneuvers/queue';
+import { SimWorkerCore } from './SimWorkerCore';
+import { SimWorkerRequest, SimWorkerResponse } from './protocol';
+
+/**
+ * A step to run on the current agents.
+ */
+export interface SimStepRequest {
+  /** Agents as currently held by the agent store */
+  agents: Agent[];
+  /** Current objectives */
+  objectives: Objective[];
+  /** Sim time at the start of the step in seconds */
+  startTime: number;
+  /** Sim time at the end of the step in seconds */
+  endTime: number;
+  /** Altitude above the central body's surface in meters below which agents re-enter */
+  reentryAltitude: number;
+  /** Julian date of sim time 0 */
+  epochJd?: number;
+  /** Body the agents orbit (defaults to the Earth) */
+  centralBody?: CentralBody;
+}
+
+/**
+ * Step result delivered to the render thread.
+ */
+export interface SimWorkerStepResult extends SimStepResult {
+  /** Sim time at the start of the step in seconds */
+  startTime: number;
+  /** Sim time at the end of the step in seconds */
+  endTime: number;
+}
+
+/**
+ * Options for SimWorkerClient.
+ */
+export interface SimWorkerClientOptions {
+  /** Returns the agents currently held by the agent store */
+  getAgents: () => Agent[];
+  /** Run the step in a Web Worker (defaults to true when Workers are available) */
+  useWorker?: boolean;
+}
+
+/**
+ * Client for the sim worker. At most one step is in flight at a time.
+ */
+export class SimWorkerClient {
+  private readonly getAgents: () => Agent[];
+  private worker: Worker | null = null;
+  private core: SimWorkerCore | null = null;
+  private listener: ((result: SimWorkerStepResult) => void) | null = null;
+  private errorListener: ((message: string) => void) | null = null;
+  private revision = 0;
+  private pending = false;
+  private syncedIds: string[] = [];
+  private syncedStates = new Map<string, CartesianState>();
+  private syncedManeuvers = new Map<string, ScheduledManeuver[] | undefined>();
+  private syncedArcs = new Map<string, ThrustArc | undefined>();
+
+  constructor(options: SimWorkerClientOptions) {
+    this.getAgents = options.getAgents;
+    const useWorker = options.useWorker ?? typeof Worker !== 'undefined';
+    if (useWorker) {
+      this.worker = new Worker(new URL('./sim.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (event: MessageEvent<SimWorkerResponse>) => this.receive(event.data);
+      // Errors the worker did not catch itself (e.g. the worker script failed to load)
+      this.worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        this.fail(event.message || 'Sim worker failed');
+      };
+    } else {
+      this.core = new SimWorkerCore();
+    }
+  }
+
+  /**
+   * Whether a step is currently in flight.
+   */
+  get busy(): boolean {
+    return this.pending;
+  }
+
+  /**
+   * Register the handler for step results.
+   * @param listener Called with each applied step result
+   */
+  onResult(listener: (result: SimWorkerStepResult) => void): void {
+    this.listener = listener;
+  }
+
+  /**
+   * Register the handler for failed steps.
+   * @param listener Called with the error message of each failed step
+   */
+  onError(listener: (message: string) => void): void {
+    this.errorListener = listener;
+  }
+
+  /**
+   * Check whether the worker holds the same agent states as the given agents.
+   * Agents modified outside the sim step (new scenario, burns) get new state objects,
+   * edited maneuver queues are new arrays and finite burns new thrust arcs.
+   * @param agents Agents as currently held by the agent store
+   * @returns True if no sync is needed
+   */
+  isInSync(agents: Agent[]): boolean {
+    if (agents.length !== this.syncedIds.length) return false;
+    return agents.every(
+      (agent, index) =>
+        agent.id === this.syncedIds[index] &&
+        agent.state === this.syncedStates.get(agent.id) &&
+        agent.maneuvers === this.syncedManeuvers.get(agent.id) &&
+        agent.thrustArc === this.syncedArcs.get(agent.id)
+    );
+  }
+
+  /**
+   * Request a simulation step, syncing agents to the worker first if needed.
+   * @param request Agents, objectives and time interval
+   * @returns False if a step is already in flight (the request is dropped)
+   */
+  requestStep(request: SimStepRequest): boolean {
+    if (this.pending) return false;
+
+    if (!this.isInSync(request.agents)) {
+      this.sync(request.agents);
+    }
+
+    this.pending = true;
+    this.post({
+      type: 'step',
+      revision: this.revision,
+      objectives: request.objectives,
+      controlledIds: request.agents.filter((a) => a.selected).map((a) => a.id),
+      startTime: request.startTime,
+      endTime: request.endTime,
+      reentryAltitude: request.reentryAltitude,
+      epochJd: request.epochJd,
+      centralBody: request.centralBody,
+    });
+    return true;
+  }
+
+  /**
+   * Stop the worker.
+   */
+  dispose(): void {
+    this.worker?.terminate();
+    this.worker = null;
+    this.listener = null;
+    this.errorListener = null;
+  }
+
+  /**
+   * Replace the worker's agents with the given agents.
+   */
+  private sync(agents: Agent[]): void {
+    this.revision++;
+    this.syncedIds = agents.map((agent) => agent.id);
+    this.syncedStates = new Map(agents.map((agent) => [agent.id, agent.state]));
+    this.syncedManeuvers = new Map(agents.map((agent) => [agent.id, agent.maneuvers]));
+    this.syncedArcs = new Map(agents.map((agent) => [agent.id, agent.thrustArc]));
+    this.post({
+      type: 'sync',
+      revision: this.revision,
+      agents: agents.map((agent) => ({ ...agent, selected: false, hovered: false })),
+    });
+  }
+
+  private post(message: SimWorkerRequest): void {
+    if (this.worker) {
+      this.worker.postMessage(message);
+      return;
+    }
+    const result = this.core!.handle(message);
+    if (result) {
+      this.receive(result);
+    }
+  }
+
+  private fail(message: string): void {
+    this.pending = false;
+    this.errorListener?.(message);
+  }
+
+  private receive(message: SimWorkerResponse): void {
+    if (message.type === 'stepError') {
+      // Errors of steps on states the store no longer holds are as stale as their results
+      if (message.revision === this.revision) {
+        this.fail(message.message);
+      } else {
+        this.pending = false;
+      }
+      return;
+    }
+
+    this.pending = false;
+
+    // Drop results computed from states the store no longer holds
+    // (agents changed while the step was in flight); the next request re-syncs.
+    if (message.revision !== this.revision || !this.isInSync(this.getAgents())) {
+      return;
+    }
+
+    const buffer = {
+      positions: message.positions,
+      velocities: message.velocities,
+      count: this.syncedIds.length,
+    };
+    const updates = this.syncedIds.map((id, index) => ({ id, state: readState(buffer, index) }));
+    for (const update of updates) {
+      this.syncedStates.set(update.id, update.state);
+    }
+
+    this.listener?.({
+      updates,
+      reenteredIds: message.reenteredIds,
+      steeredIds: message.steeredIds,
+      maneuveredIds: message.maneuveredIds,
+      executedManeuvers: message.executedManeuvers,
+      budgetUpdates: message.budgetUpdates,
+      charges: message.charges,
+      objectiveUpdates: message.objectiveUpdates,
+      newlyCompleted: message.newlyCompleted,
+      tasksUpdated: message.tasksUpdated,
+      startTime: message.startTime,
+      endTime: message.endTime,
+    });
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * Sim worker state machine, independent of the Worker global scope so it can
+ * run inside the worker, on the main thread as a fallback, and in tests.
+ */
+
+import { Agent } from '@/render/Agents.types';
+import { runSimStep } from '@/sim/step';
+import { packStates } from '@/sim/orbit/batch';
+import { applyExecutedManeuvers } from '@/sim/maneuvers/queue';
+import { SimWorkerRequest, SimWorkerResponse, StepMessage, StepResultMessage } from './protocol';
+
+/**
+ * Authoritative agent state owned by the sim worker.
+ */
+export class SimWorkerCore {
+  private agents: Agent[] = [];
+
+  /**
+   * Handle one request. A step that throws is reported as a 'stepError' and
+   * leaves the agents as they were.
+   * @param message Request from the render thread
+   * @returns Step result or error, or null for requests without a reply
+   */
+  handle(message: SimWorkerRequest): SimWorkerResponse | null {
+    switch (message.type) {
+      case 'sync':
+        this.agents = message.agents;
+        return null;
+      case 'step':
+        try {
+          return this.step(message);
+        } catch (error) {
+          return {
+            type: 'stepError',
+            revision: message.revision,
+            startTime: message.startTime,
+            endTime: message.endTime,
+            message: error instanceof Error ? error.message : String(error),
+          };
+        }
+    }
+  }
+
+  /**
+   * Run one simulation step on the owned agents.
+   * @param message Step request
+   * @returns Step result with the new states packed into Float64Arrays
+   */
+  step(message: StepMessage): StepResultMessage {
+    const controlled = new Set(message.controlledIds);
+    const agents = this.agents.map((agent) => ({ ...agent, selected: controlled.has(agent.id) }));
+
+    const result = runSimStep({
+      agents,
+      objectives: message.objectives,
+      startTime: message.startTime,
+      endTime: message.endTime,
+      reentryAltitude: message.reentryAltitude,
+      epochJd: message.epochJd,
+      centralBody: message.centralBody,
+    });
+
+    const states = new Map(result.updates.map((u) => [u.id, u.state]));
+    const budgets = new Map(result.budgetUpdates.map((u) => [u.id, u]));
+    const reentered = new Set(result.reenteredIds);
+    this.agents = applyExecutedManeuvers(
+      agents.map((agent) => {
+        const budget = budgets.get(agent.id);
+        return {
+          ...agent,
+          state: states.get(agent.id) ?? agent.state,
+          reentryTime: reentered.has(agent.id) ? message.startTime : agent.reentryTime,
+          ...(budget ? { dvRemaining: budget.dvRemaining, propulsion: budget.propulsion } : {}),
+        };
+      }),
+      result.executedManeuvers
+    );
+
+    const buffer = packStates(this.agents.map((agent) => agent.state));
+    return {
+      type: 'stepResult',
+      revision: message.revision,
+      startTime: message.startTime,
+      endTime: message.endTime,
+      positions: buffer.positions,
+      velocities: buffer.velocities,
+      reenteredIds: result.reenteredIds,
+      steeredIds: result.steeredIds,
+      maneuveredIds: result.maneuveredIds,
+      executedManeuvers: result.executedManeuvers,
+      budgetUpdates: result.budgetUpdates,
+      charges: result.charges,
+      objectiveUpdates: result.objectiveUpdates,
+      newlyCompleted: result.newlyCompleted,
+      tasksUpdated: result.tasksUpdated,
+    };
+  }
+}
+
+/**
+ * Worker message handler: handle a request and post the reply, transferring
+ * the state buffers of step results instead of copying them.
+ * @param core Worker state
+ * @param message Request from the render thread
+ * @param post Posts a reply to the render thread
+ */
+export function handleWorkerMessage(
+  core: SimWorkerCore,
+  message: SimWorkerRequest,
+  post: (response: SimWorkerResponse, transfer: Transferable[]) => void
+): void {
+  const response = core.handle(message);
+  if (response?.type === 'stepResult') {
+    post(response, [response.positions.buffer, response.velocities.buffer]);
+  } else if (response) {
+    post(response, []);
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Message protocol between the render thread and the sim worker.
+ * The worker owns the authoritative agent states; the render thread sends a
+ * full 'sync' whenever agents change outside the sim step (scenario load,
+ * burns, maneuver queue edits) and a 'step' request per frame. Step results carry the new states
+ * as transferable Float64Array buffers in the order of the last sync; a step that throws is
+ * answered with a 'stepError' instead.
+ */
+
+import { Agent } from '@/render/Agents.types';
+import { Objective } from '@/sim/tasks/types';
+import { BudgetUpdate, ObjectiveUpdate } from '@/sim/step';
+import { CentralBody } from '@/sim/orbit/centralBody';
+import { ExecutedManeuver } from '@/sim/maneuvers/queue';
+import { LedgerCharge } from '@/sim/maneuvers/ledger';
+
+/**
+ * Replace the worker's agents.
+ */
+export interface SyncMessage {
+  type: 'sync';
+  /** Incremented on every sync; results from older revisions are stale */
+  revision: number;
+  agents: Agent[];
+}
+
+/**
+ * Advance the worker's agents by one step.
+ */
+export interface StepMessage {
+  type: 'step';
+  revision: number;
+  /** Current objectives */
+  objectives: Objective[];
+  /** IDs of player-controlled (selected) agents */
+  controlledIds: string[];
+  /** Sim time at the start of the step in seconds */
+  startTime: number;
+  /** Sim time at the end of the step in seconds */
+  endTime: number;
+  /** Altitude above the central body's surface in meters below which agents re-enter */
+  reentryAltitude: number;
+  /** Julian date of sim time 0 */
+  epochJd?: number;
+  /** Body the agents orbit */
+  centralBody?: CentralBody;
+}
+
+/**
+ * Messages accepted by the sim worker.
+ */
+export type SimWorkerRequest = SyncMessage | StepMessage;
+
+/**
+ * Result of a step, posted back to the render thread.
+ */
+export interface StepResultMessage {
+  type: 'stepResult';
+  revision: number;
+  startTime: number;
+  endTime: number;
+  /** Positions of all agents (3 per agent, sync order, meters) */
+  positions: Float64Array;
+  /** Velocities of all agents (3 per agent, sync order, m/s) */
+  velocities: Float64Array;
+  /** Agents that re-entered at startTime */
+  reenteredIds: string[];
+  /** Agents whose velocity was changed by swarm behaviors or objective steering */
+  steeredIds: string[];
+  /** Agents that executed a scheduled burn or thrusted through a finite burn */
+  maneuveredIds: string[];
+  /** Scheduled burns executed during this step */
+  executedManeuvers: ExecutedManeuver[];
+  /** Budgets of the agents charged for steering */
+  budgetUpdates: BudgetUpdate[];
+  /** Delta-v spent on scheduled burns and steering */
+  charges: LedgerCharge[];
+  /** Objective changes, in the order they should be applied */
+  objectiveUpdates: ObjectiveUpdate[];
+  /** Objectives completed during this step */
+  newlyCompleted: string[];
+  /** Whether task allocation ran (the game timer advances only then) */
+  tasksUpdated: boolean;
+}
+
+/**
+ * A step that failed (the worker's agents are left as they were).
+ */
+export interface StepErrorMessage {
+  type: 'stepError';
+  revision: number;
+  startTime: number;
+  endTime: number;
+  /** What went wrong */
+  message: string;
+}
+
+/**
+ * Messages posted by the sim worker.
+ */
+export type SimWorkerResponse = StepResultMessage | StepErrorMessage;
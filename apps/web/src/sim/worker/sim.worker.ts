@@ -0,0 +1,14 @@
+/**
+ * Sim worker entry point: runs simulation steps off the render thread.
+ * Step results transfer their position/velocity buffers instead of copying;
+ * failed steps are reported back rather than thrown (see SimWorkerCore.handle).
+ */
+
+import { SimWorkerCore, handleWorkerMessage } from './SimWorkerCore';
+import { SimWorkerRequest } from './protocol';
+
+const core = new SimWorkerCore();
+
+self.onmessage = (event: MessageEvent<SimWorkerRequest>) => {
+  handleWorkerMessage(core, event.data, (response, transfer) => self.postMessage(response, { transfer }));
+};
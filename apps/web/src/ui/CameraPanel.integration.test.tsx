@@ -3,11 +3,15 @@ import { render, screen } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { CameraPanel } from './CameraPanel';
 import { useCameraStore } from './stores/cameraStore';
+import { useGroundTrackStore } from './stores/groundTrackStore';
 
 describe('CameraPanel integration', () => {
   beforeEach(() => {
     // Reset store to default
     useCameraStore.getState().setPreset('freecam');
+    useGroundTrackStore.getState().setMode('selected');
+    useGroundTrackStore.getState().setPastRevolutions(1);
+    useGroundTrackStore.getState().setFutureRevolutions(1);
   });
 
   describe('camera presets', () => {
@@ -71,6 +75,36 @@ describe('CameraPanel integration', () => {
     });
   });
 
+  describe('ground track', () => {
+    it('switches the ground track between off, the selected agent and its team', async () => {
+      const user = userEvent.setup();
+      render(<CameraPanel />);
+
+      expect(screen.getByRole('button', { name: /selected agent/i })).toHaveClass('active');
+
+      await user.click(screen.getByRole('button', { name: /selected team/i }));
+      expect(useGroundTrackStore.getState().mode).toBe('team');
+
+      await user.click(screen.getByRole('button', { name: /^off$/i }));
+      expect(useGroundTrackStore.getState().mode).toBe('off');
+    });
+
+    it('sets past and future revolutions within the allowed range', async () => {
+      const user = userEvent.setup();
+      render(<CameraPanel />);
+
+      const future = screen.getByLabelText(/future revs/i);
+      await user.clear(future);
+      await user.type(future, '3');
+      expect(useGroundTrackStore.getState().futureRevolutions).toBe(3);
+
+      const past = screen.getByLabelText(/past revs/i);
+      await user.clear(past);
+      await user.type(past, '9');
+      expect(useGroundTrackStore.getState().pastRevolutions).toBe(5);
+    });
+  });
+
   describe('panel layout', () => {
     it('renders with correct title', () => {
       render(<CameraPanel />);
@@ -1,8 +1,17 @@
 import { useCameraStore, CameraPreset } from './stores/cameraStore';
+import { useGroundTrackStore, GroundTrackMode, MAX_GROUND_TRACK_REVOLUTIONS } from './stores/groundTrackStore';
 
 export function CameraPanel() {
   const preset = useCameraStore((state) => state.preset);
   const setPreset = useCameraStore((state) => state.setPreset);
+  const moonTrueScale = useCameraStore((state) => state.moonTrueScale);
+  const setMoonTrueScale = useCameraStore((state) => state.setMoonTrueScale);
+  const groundTrackMode = useGroundTrackStore((state) => state.mode);
+  const setGroundTrackMode = useGroundTrackStore((state) => state.setMode);
+  const pastRevolutions = useGroundTrackStore((state) => state.pastRevolutions);
+  const setPastRevolutions = useGroundTrackStore((state) => state.setPastRevolutions);
+  const futureRevolutions = useGroundTrackStore((state) => state.futureRevolutions);
+  const setFutureRevolutions = useGroundTrackStore((state) => state.setFutureRevolutions);
 
   const presets: { value: CameraPreset; label: string }[] = [
     { value: 'freecam', label: 'Freecam' },
@@ -10,6 +19,12 @@ export function CameraPanel() {
     { value: 'follow', label: 'Follow Target' },
   ];
 
+  const groundTrackModes: { value: GroundTrackMode; label: string }[] = [
+    { value: 'off', label: 'Off' },
+    { value: 'selected', label: 'Selected Agent' },
+    { value: 'team', label: 'Selected Team' },
+  ];
+
   return (
     <>
       <style>{`
@@ -40,6 +55,56 @@ export function CameraPanel() {
             </button>
           ))}
         </div>
+        <label style={checkboxLabelStyle}>
+          <input
+            type="checkbox"
+            checked={moonTrueScale}
+            onChange={(e) => setMoonTrueScale(e.target.checked)}
+          />
+          True-scale Moon distance
+        </label>
+        <h4 style={sectionTitleStyle}>Ground Track</h4>
+        <div style={buttonGroupStyle}>
+          {groundTrackModes.map((m) => (
+            <button
+              key={m.value}
+              onClick={() => setGroundTrackMode(m.value)}
+              className={`camera-panel-button ${groundTrackMode === m.value ? 'active' : ''}`}
+              style={{
+                ...buttonStyle,
+                ...(groundTrackMode === m.value ? activeButtonStyle : {}),
+              }}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+        <div style={revolutionRowStyle}>
+          <label style={inputLabelStyle}>
+            Past revs
+            <input
+              type="number"
+              value={pastRevolutions}
+              onChange={(e) => setPastRevolutions(Number(e.target.value))}
+              style={inputStyle}
+              min="0"
+              max={MAX_GROUND_TRACK_REVOLUTIONS}
+              step="1"
+            />
+          </label>
+          <label style={inputLabelStyle}>
+            Future revs
+            <input
+              type="number"
+              value={futureRevolutions}
+              onChange={(e) => setFutureRevolutions(Number(e.target.value))}
+              style={inputStyle}
+              min="0"
+              max={MAX_GROUND_TRACK_REVOLUTIONS}
+              step="1"
+            />
+          </label>
+        </div>
       </div>
     </>
   );
@@ -70,6 +135,14 @@ const titleStyle: React.CSSProperties = {
   textShadow: '0 1px 2px rgba(0, 0, 0, 0.5)',
 };
 
+const sectionTitleStyle: React.CSSProperties = {
+  margin: '16px 0 8px 0',
+  fontSize: '13px',
+  fontWeight: '600',
+  letterSpacing: '0.3px',
+  color: 'rgba(255, 255, 255, 0.85)',
+};
+
 const buttonGroupStyle: React.CSSProperties = {
   display: 'flex',
   flexDirection: 'column',
@@ -96,3 +169,41 @@ const activeButtonStyle: React.CSSProperties = {
   borderColor: 'rgba(100, 150, 255, 0.5)',
   boxShadow: '0 2px 8px rgba(100, 150, 255, 0.3)',
 };
+
+const checkboxLabelStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '8px',
+  marginTop: '10px',
+  fontSize: '12px',
+  fontWeight: 500,
+  color: 'rgba(255, 255, 255, 0.85)',
+  cursor: 'pointer',
+};
+
+const revolutionRowStyle: React.CSSProperties = {
+  display: 'flex',
+  gap: '8px',
+  marginTop: '8px',
+};
+
+const inputLabelStyle: React.CSSProperties = {
+  flex: 1,
+  fontSize: '12px',
+  fontWeight: 500,
+  color: 'rgba(255, 255, 255, 0.85)',
+  letterSpacing: '0.3px',
+};
+
+const inputStyle: React.CSSProperties = {
+  width: '100%',
+  marginTop: '4px',
+  padding: '6px 8px',
+  background: 'rgba(255, 255, 255, 0.08)',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: '8px',
+  color: '#fff',
+  fontSize: '13px',
+  fontFamily: 'monospace',
+  boxSizing: 'border-box',
+};
@@ -0,0 +1,145 @@
+/**
+ * FormationDrift component: previews how the selected agent moves about its
+ * natural formation slot over the next orbit, coasting or after the burn
+ * entered in the Maneuver Planner. The relative motion is predicted in closed
+ * form (Yamanaka-Ankersen) with the slot as the chief, so the preview is only
+ * shown while the agent is close enough to its slot for the linear solution.
+ */
+
+import { useMemo } from 'react';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
+import { agentTrajectoryKey } from '@/render/utils/agentEphemeris';
+import { useSimSnapshot } from '@/render/utils/useSimSnapshot';
+import { Agent } from '@/render/Agents.types';
+import { computeFormationSlot, chiefMeanMotion, isNaturalFormation, predictRelativeMotion } from '@/sim/swarm';
+import { rtnToEci } from '@/sim/maneuvers/rtnToEci';
+import { add, distance } from '@/sim/orbit/vector';
+
+/**
+ * Simulation seconds between preview refreshes (the agent moves along its orbit meanwhile).
+ */
+const DRIFT_REFRESH_SECONDS = 1;
+
+/**
+ * Largest distance from the slot in meters the linear prediction is shown for.
+ */
+const MAX_PREVIEW_DISTANCE = 100e3;
+
+/**
+ * Fractions of the slot's orbital period the preview lists.
+ */
+const ORBIT_FRACTIONS = [0, 0.25, 0.5, 0.75, 1];
+
+interface FormationDriftProps {
+  /** Selected agent */
+  agent: Agent;
+  /** Burn to apply now in RTN (m/s), or null to preview coasting */
+  burnRtn: [number, number, number] | null;
+}
+
+/**
+ * Format a distance in meters for display.
+ */
+function formatDistance(meters: number): string {
+  if (Math.abs(meters) >= 10e3) return `${(meters / 1000).toFixed(1)} km`;
+  return `${meters.toFixed(0)} m`;
+}
+
+export function FormationDrift({ agent, burnRtn }: FormationDriftProps) {
+  const mu = useCentralBodyStore((state) => state.body.mu);
+  // Retaken after a burn changes the agent's trajectory
+  const { agents } = useSimSnapshot(DRIFT_REFRESH_SECONDS, agentTrajectoryKey(agent));
+  const [dvR, dvT, dvN] = burnRtn ?? [0, 0, 0];
+
+  const preview = useMemo(() => {
+    const current = agents.find((a) => a.id === agent.id);
+    if (!current || !isNaturalFormation(current.behaviors.formation)) return null;
+    const slot = computeFormationSlot(agents, agent.id, mu);
+    if (!slot) return null;
+    if (distance(current.state.position, slot.position) > MAX_PREVIEW_DISTANCE) {
+      return { tooFar: true, rows: [] };
+    }
+
+    try {
+      const period = (2 * Math.PI) / chiefMeanMotion(slot, mu);
+      const times = ORBIT_FRACTIONS.map((fraction) => fraction * period);
+      const deputy = {
+        position: current.state.position,
+        velocity: add(current.state.velocity, rtnToEci([dvR, dvT, dvN], current.state)),
+      };
+      const rows = predictRelativeMotion(deputy, slot, times, mu).map((relative, index) => ({
+        time: times[index]!,
+        position: relative.position,
+      }));
+      return { tooFar: false, rows };
+    } catch {
+      return null;
+    }
+  }, [agents, agent.id, mu, dvR, dvT, dvN]);
+
+  if (!preview) return null;
+
+  return (
+    <div>
+      <div style={sectionTitleStyle}>Formation Drift</div>
+      {preview.tooFar ? (
+        <div style={infoStyle}>More than {formatDistance(MAX_PREVIEW_DISTANCE)} from the slot</div>
+      ) : (
+        <>
+          <div style={infoStyle}>Offset from slot, {burnRtn ? 'after the burn' : 'coasting'}:</div>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={cellStyle}>Time</th>
+                <th style={cellStyle}>R</th>
+                <th style={cellStyle}>T</th>
+                <th style={cellStyle}>N</th>
+              </tr>
+            </thead>
+            <tbody>
+              {preview.rows.map((row) => (
+                <tr key={row.time}>
+                  <td style={cellStyle}>T+{(row.time / 60).toFixed(0)} min</td>
+                  {row.position.map((component, axis) => (
+                    <td key={axis} style={cellStyle}>
+                      {formatDistance(component)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </>
+      )}
+    </div>
+  );
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+  margin: '0 0 8px 0',
+  fontSize: '13px',
+  fontWeight: 600,
+  letterSpacing: '0.3px',
+  color: 'rgba(255, 255, 255, 0.85)',
+};
+
+const tableStyle: React.CSSProperties = {
+  width: '100%',
+  borderCollapse: 'collapse',
+  fontSize: '11px',
+  fontFamily: 'monospace',
+  marginBottom: '8px',
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '3px 4px',
+  textAlign: 'right',
+  borderBottom: '1px solid rgba(255, 255, 255, 0.08)',
+};
+
+const infoStyle: React.CSSProperties = {
+  fontSize: '11px',
+  color: 'rgba(255, 255, 255, 0.7)',
+  marginBottom: '6px',
+  fontFamily: 'monospace',
+};
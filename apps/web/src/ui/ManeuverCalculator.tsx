@@ -0,0 +1,257 @@
+/**
+ * ManeuverCalculator component: computes a textbook maneuver (Hohmann,
+ * bi-elliptic, plane change, combined plane change, phasing) for the selected
+ * agent and hands the resulting burn sequence to the Maneuver Planner.
+ * Altitudes are entered above the central body's surface, angles in degrees.
+ */
+
+import { useState, useMemo } from 'react';
+import { useAgentStore } from '@/ui/stores/agentStore';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
+import { Agent } from '@/render/Agents.types';
+import { agentTrajectoryKey } from '@/render/utils/agentEphemeris';
+import { useSimSnapshot } from '@/render/utils/useSimSnapshot';
+import { CartesianState } from '@/sim/orbit/types';
+import {
+  hohmannTransfer,
+  biEllipticTransfer,
+  planeChange,
+  combinedPlaneChange,
+  phasingManeuver,
+  ManeuverPlan,
+} from '@/sim/maneuvers/classic';
+
+/**
+ * Simulation seconds between recomputations (the agent moves along its orbit meanwhile).
+ */
+const CALCULATOR_REFRESH_SECONDS = 1;
+
+type CalculatorKind = 'hohmann' | 'biElliptic' | 'planeChange' | 'combined' | 'phasing';
+
+/**
+ * Calculator names and the inputs each one uses.
+ */
+const CALCULATORS: Record<CalculatorKind, { label: string; inputs: (keyof CalculatorInputs)[] }> = {
+  hohmann: { label: 'Hohmann transfer', inputs: ['altitude'] },
+  biElliptic: { label: 'Bi-elliptic transfer', inputs: ['altitude', 'intermediateAltitude'] },
+  planeChange: { label: 'Plane change', inputs: ['inclinationChange'] },
+  combined: { label: 'Combined plane change', inputs: ['altitude', 'inclinationChange'] },
+  phasing: { label: 'Phasing', inputs: ['phaseAngle', 'revolutions'] },
+};
+
+/**
+ * Calculator inputs as typed by the player.
+ */
+interface CalculatorInputs {
+  altitude: string;
+  intermediateAltitude: string;
+  inclinationChange: string;
+  phaseAngle: string;
+  revolutions: string;
+}
+
+const INPUT_LABELS: Record<keyof CalculatorInputs, string> = {
+  altitude: 'Target altitude (km)',
+  intermediateAltitude: 'Intermediate altitude (km)',
+  inclinationChange: 'Δi (°)',
+  phaseAngle: 'Lead angle (°)',
+  revolutions: 'Revolutions',
+};
+
+const DEFAULT_INPUTS: CalculatorInputs = {
+  altitude: '1000',
+  intermediateAltitude: '20000',
+  inclinationChange: '5',
+  phaseAngle: '10',
+  revolutions: '1',
+};
+
+interface ManeuverCalculatorProps {
+  /** Selected agent */
+  agent: Agent;
+  /** Called with a freshly computed plan, to schedule from now */
+  onSchedulePlan: (plan: ManeuverPlan) => void;
+}
+
+/**
+ * Run a calculator on a state.
+ * @throws Error if the inputs are invalid for the calculator
+ */
+function calculate(
+  kind: CalculatorKind,
+  inputs: CalculatorInputs,
+  state: CartesianState,
+  mu: number,
+  radius: number
+): ManeuverPlan {
+  const toRadius = (altitudeKm: string) => radius + Number(altitudeKm) * 1000;
+  const toRadians = (degrees: string) => (Number(degrees) * Math.PI) / 180;
+  switch (kind) {
+    case 'hohmann':
+      return hohmannTransfer(state, toRadius(inputs.altitude), mu);
+    case 'biElliptic':
+      return biEllipticTransfer(state, toRadius(inputs.altitude), toRadius(inputs.intermediateAltitude), mu);
+    case 'planeChange':
+      return planeChange(state, toRadians(inputs.inclinationChange), mu);
+    case 'combined':
+      return combinedPlaneChange(state, toRadius(inputs.altitude), toRadians(inputs.inclinationChange), mu);
+    case 'phasing':
+      return phasingManeuver(state, toRadians(inputs.phaseAngle), Number(inputs.revolutions), mu);
+  }
+}
+
+/**
+ * Format a time from now for display.
+ */
+function formatOffset(seconds: number): string {
+  if (seconds >= 3600) {
+    return `T+${(seconds / 3600).toFixed(1)} h`;
+  }
+  return `T+${(seconds / 60).toFixed(1)} min`;
+}
+
+export function ManeuverCalculator({ agent, onSchedulePlan }: ManeuverCalculatorProps) {
+  // Retaken after a burn changes the agent's trajectory
+  const { agents } = useSimSnapshot(CALCULATOR_REFRESH_SECONDS, agentTrajectoryKey(agent));
+  const body = useCentralBodyStore((state) => state.body);
+
+  const [kind, setKind] = useState<CalculatorKind>('hohmann');
+  const [inputs, setInputs] = useState<CalculatorInputs>(DEFAULT_INPUTS);
+
+  const result = useMemo((): { plan: ManeuverPlan | null; error: string | null } => {
+    const state = agents.find((a) => a.id === agent.id)?.state;
+    if (!state) return { plan: null, error: null };
+    try {
+      return { plan: calculate(kind, inputs, state, body.mu, body.radius), error: null };
+    } catch (err) {
+      return { plan: null, error: err instanceof Error ? err.message : 'Cannot compute maneuver' };
+    }
+  }, [agents, agent.id, kind, inputs, body]);
+
+  const { plan, error } = result;
+
+  // Recompute at the moment of scheduling so the burn times start now
+  const handleSchedule = () => {
+    const state = useAgentStore.getState().agents.find((a) => a.id === agent.id)?.state;
+    if (!state) return;
+    try {
+      onSchedulePlan(calculate(kind, inputs, state, body.mu, body.radius));
+    } catch {
+      // The preview already shows why the maneuver cannot be computed
+    }
+  };
+
+  return (
+    <div>
+      <div style={sectionTitleStyle}>Maneuver Calculator</div>
+
+      <select value={kind} onChange={(e) => setKind(e.target.value as CalculatorKind)} style={selectStyle}>
+        {(Object.keys(CALCULATORS) as CalculatorKind[]).map((key) => (
+          <option key={key} value={key}>
+            {CALCULATORS[key].label}
+          </option>
+        ))}
+      </select>
+
+      {CALCULATORS[kind].inputs.map((input) => (
+        <label key={input} style={optionLabelStyle}>
+          {INPUT_LABELS[input]}
+          <input
+            type="number"
+            value={inputs[input]}
+            onChange={(e) => setInputs({ ...inputs, [input]: e.target.value })}
+            style={smallInputStyle}
+            step={input === 'revolutions' ? '1' : 'any'}
+          />
+        </label>
+      ))}
+
+      {error && <div style={errorStyle}>{error}</div>}
+
+      {plan && (
+        <>
+          {plan.burns.map((burn, index) => (
+            <div key={index} style={infoStyle}>
+              {formatOffset(burn.time)} {burn.label}: {burn.deltaV.toFixed(1)} m/s
+            </div>
+          ))}
+          <div style={{ ...infoStyle, color: plan.totalDeltaV <= agent.dvRemaining ? '#fff' : '#ff6b6b' }}>
+            Total Δv: {plan.totalDeltaV.toFixed(1)} / {agent.dvRemaining.toFixed(1)} m/s
+          </div>
+          {plan.minimumRadius < body.radius && (
+            <div style={errorStyle}>Passes below the surface of {body.name}</div>
+          )}
+          <button onClick={handleSchedule} style={buttonStyle}>
+            Schedule Plan
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+  margin: '0 0 8px 0',
+  fontSize: '13px',
+  fontWeight: 600,
+  letterSpacing: '0.3px',
+  color: 'rgba(255, 255, 255, 0.85)',
+};
+
+const selectStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px 8px',
+  marginBottom: '8px',
+  background: 'rgba(255, 255, 255, 0.08)',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: '8px',
+  color: '#fff',
+  fontSize: '12px',
+};
+
+const optionLabelStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: '6px',
+  marginBottom: '6px',
+  fontSize: '12px',
+  fontWeight: 500,
+  color: 'rgba(255, 255, 255, 0.85)',
+};
+
+const smallInputStyle: React.CSSProperties = {
+  width: '80px',
+  padding: '4px 6px',
+  background: 'rgba(255, 255, 255, 0.08)',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: '6px',
+  color: '#fff',
+  fontSize: '12px',
+  fontFamily: 'monospace',
+};
+
+const infoStyle: React.CSSProperties = {
+  fontSize: '11px',
+  color: 'rgba(255, 255, 255, 0.7)',
+  marginBottom: '6px',
+  fontFamily: 'monospace',
+};
+
+const errorStyle: React.CSSProperties = {
+  fontSize: '11px',
+  color: '#ff6b6b',
+  marginBottom: '8px',
+};
+
+const buttonStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  background: 'rgba(255, 204, 102, 0.15)',
+  border: '1px solid rgba(255, 204, 102, 0.4)',
+  borderRadius: '8px',
+  color: '#fff',
+  fontSize: '13px',
+  fontWeight: 600,
+  cursor: 'pointer',
+};
@@ -8,11 +8,75 @@
  * - Normal (N): Cross-track direction (perpendicular to orbital plane)
  * 
  * Units: All delta-v inputs and budget in meters/second (m/s)
+ *
+ * Agents with propulsion burn over a finite duration; the panel shows their
+ * propellant and each burn's duration and propellant use. The delta-v the
+ * agent has spent so far is listed by what spent it (see the propellant ledger).
+ *
+ * Burns can be executed now or scheduled at a later sim time or at the next
+ * apoapsis, periapsis or node. Scheduled burns are listed with their predicted
+ * times and can be edited or removed; the sim step executes them on time.
+ * Plans from the Maneuver Calculator are scheduled burn by burn. Agents in a
+ * natural formation also see how they drift about their slot (FormationDrift).
  */
 
 import { useState, useEffect } from 'react';
 import { useAgentStore } from '@/ui/stores/agentStore';
+import { useSimClockStore } from '@/ui/stores/simClockStore';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
+import { useLedgerStore } from '@/ui/stores/ledgerStore';
 import { updateTrajectoryPreview } from '@/render/TrajectoryPreview';
+import { TransferPlanner } from './TransferPlanner';
+import { ManeuverCalculator } from './ManeuverCalculator';
+import { FormationDrift } from './FormationDrift';
+import { ManeuverPlan } from '@/sim/maneuvers/classic';
+import { burnDuration, propellantForDeltaV } from '@/sim/maneuvers/propulsion';
+import { LEDGER_CATEGORIES } from '@/sim/maneuvers/ledger';
+import {
+  enqueueManeuver,
+  ManeuverTrigger,
+  nextManeuverId,
+  predictManeuvers,
+  ScheduledManeuver,
+  TRIGGER_LABELS,
+} from '@/sim/maneuvers/queue';
+import { isNaturalFormation } from '@/sim/swarm';
+import { sunPosition } from '@/sim/orbit/sun';
+import { shadowState, ShadowState } from '@/sim/orbit/eclipse';
+
+/**
+ * Display labels for the selected agent's shadow state.
+ */
+const SHADOW_LABELS: Record<ShadowState, string> = {
+  sunlit: '☀️ Sunlit',
+  penumbra: '🌗 Penumbra',
+  umbra: '🌑 Umbra',
+};
+
+/**
+ * When a burn from the RTN inputs executes: now, or on a queue trigger.
+ */
+type BurnTiming = 'now' | ManeuverTrigger['type'];
+
+/**
+ * Format the time until a scheduled burn for display.
+ */
+function formatCountdown(seconds: number): string {
+  if (seconds <= 0) return 'now';
+  const minutes = Math.floor(seconds / 60);
+  if (minutes >= 60) {
+    return `in ${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, '0')}m`;
+  }
+  return `in ${minutes}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+}
+
+/**
+ * Format a burn duration for display.
+ */
+function formatDuration(seconds: number): string {
+  if (seconds < 120) return `${seconds.toFixed(1)} s`;
+  return `${(seconds / 60).toFixed(1)} min`;
+}
 
 /**
  * ManeuverPanel component for executing delta-v burns.
@@ -22,6 +86,15 @@ import { updateTrajectoryPreview } from '@/render/TrajectoryPreview';
 export function ManeuverPanel() {
   const selectedAgent = useAgentStore((state) => state.getSelectedAgent());
   const applyDeltaVToAgent = useAgentStore((state) => state.applyDeltaVToAgent);
+  const scheduleManeuver = useAgentStore((state) => state.scheduleManeuver);
+  const updateManeuver = useAgentStore((state) => state.updateManeuver);
+  const removeManeuver = useAgentStore((state) => state.removeManeuver);
+  const mu = useCentralBodyStore((state) => state.body.mu);
+  const spent = useLedgerStore((state) =>
+    selectedAgent ? state.summary?.agents[selectedAgent.id] : undefined
+  );
+  const julianDate = useSimClockStore((state) => state.julianDate());
+  const simTime = useSimClockStore((state) => state.simTime);
   
   // RTN delta-v inputs (in m/s)
   const [radial, setRadial] = useState<string>('0');
@@ -31,6 +104,12 @@ export function ManeuverPanel() {
   // Error message for invalid inputs
   const [error, setError] = useState<string | null>(null);
 
+  // When the burn executes, minutes from now for burns at a time, and the
+  // queued burn being edited
+  const [timing, setTiming] = useState<BurnTiming>('now');
+  const [minutesFromNow, setMinutesFromNow] = useState<string>('10');
+  const [editingId, setEditingId] = useState<string | null>(null);
+
   // Parse input value (allow empty string for editing)
   const parseInput = (value: string): number => {
     if (value === '' || value === '-') return 0;
@@ -52,6 +131,8 @@ export function ManeuverPanel() {
     setAlongTrack('0');
     setNormal('0');
     setError(null);
+    setTiming('now');
+    setEditingId(null);
     updateTrajectoryPreview([0, 0, 0]);
   }, [selectedAgent?.id]);
 
@@ -65,10 +146,20 @@ export function ManeuverPanel() {
     updateTrajectoryPreview(rtnVector);
   }, [radial, alongTrack, normal]);
 
+  // Fill the RTN inputs (e.g. from a queued burn)
+  const setRtnInputs = ([r, t, n]: [number, number, number]) => {
+    setRadial(r.toFixed(2));
+    setAlongTrack(t.toFixed(2));
+    setNormal(n.toFixed(2));
+  };
+
   // Don't render if no agent is selected
   if (!selectedAgent) return null;
 
   const dvRemaining = selectedAgent.dvRemaining;
+  const queue = selectedAgent.maneuvers ?? [];
+  // TLE and replayed agents follow their element set or ephemeris
+  const canSchedule = selectedAgent.propagator !== 'sgp4' && selectedAgent.propagator !== 'ephemeris';
 
   // Calculate total delta-v magnitude from inputs (using helper function defined above)
   const currentRtnVector: [number, number, number] = [
@@ -91,9 +182,16 @@ export function ManeuverPanel() {
     !isNaN(parseFloat(alongTrack)) &&
     !isNaN(parseFloat(normal)) &&
     dvMagnitude > 0 &&
-    dvMagnitude <= dvRemaining;
+    dvMagnitude <= dvRemaining &&
+    (timing !== 'time' || !isNaN(parseFloat(minutesFromNow)));
 
-  // Handle Execute Burn button click
+  // Trigger for a burn scheduled from the inputs
+  const scheduledTrigger = (type: ManeuverTrigger['type']): ManeuverTrigger =>
+    type === 'time'
+      ? { type, time: useSimClockStore.getState().simTime + Math.max(0, parseFloat(minutesFromNow)) * 60 }
+      : { type };
+
+  // Handle Execute/Schedule/Update Burn button click
   const handleExecuteBurn = () => {
     if (!isValidInput) {
       setError('Invalid delta-v values');
@@ -102,7 +200,24 @@ export function ManeuverPanel() {
 
     try {
       setError(null);
-      applyDeltaVToAgent(selectedAgent.id, currentRtnVector);
+      if (timing === 'now' || !canSchedule) {
+        applyDeltaVToAgent(selectedAgent.id, currentRtnVector);
+      } else if (editingId) {
+        const editing = queue.find((m) => m.id === editingId);
+        updateManeuver(selectedAgent.id, {
+          ...editing,
+          id: editingId,
+          trigger: scheduledTrigger(timing),
+          rtn: currentRtnVector,
+        });
+        setEditingId(null);
+      } else {
+        scheduleManeuver(selectedAgent.id, {
+          id: nextManeuverId(queue),
+          trigger: scheduledTrigger(timing),
+          rtn: currentRtnVector,
+        });
+      }
       // Reset inputs after successful burn
       setRadial('0');
       setAlongTrack('0');
@@ -113,6 +228,42 @@ export function ManeuverPanel() {
     }
   };
 
+  // Load a queued burn into the inputs for editing
+  const handleEditManeuver = (maneuver: ScheduledManeuver) => {
+    setRtnInputs(maneuver.rtn);
+    setTiming(maneuver.trigger.type);
+    if (maneuver.trigger.type === 'time') {
+      setMinutesFromNow(Math.max(0, (maneuver.trigger.time - simTime) / 60).toFixed(1));
+    }
+    setEditingId(maneuver.id);
+    setError(null);
+  };
+
+  // Schedule a calculator plan's burns at their times from now
+  const handleSchedulePlan = (plan: ManeuverPlan) => {
+    const now = useSimClockStore.getState().simTime;
+    let planned = queue;
+    for (const burn of plan.burns) {
+      const maneuver: ScheduledManeuver = {
+        id: nextManeuverId(planned),
+        trigger: { type: 'time', time: now + burn.time },
+        rtn: burn.rtn,
+        label: `${plan.name}: ${burn.label}`,
+      };
+      planned = enqueueManeuver(planned, maneuver);
+      scheduleManeuver(selectedAgent.id, maneuver);
+    }
+  };
+
+  // Predicted times of the queued burns
+  const predictions = new Map(
+    predictManeuvers(selectedAgent.state, queue, simTime, selectedAgent.lastManeuverTime, mu).map((p) => [
+      p.maneuver.id,
+      p.time,
+    ])
+  );
+  const queuedDeltaV = queue.reduce((sum, m) => sum + Math.hypot(...m.rtn), 0);
+
   return (
     <div style={panelStyle}>
       <div style={titleStyle}>Maneuver Planner</div>
@@ -122,6 +273,35 @@ export function ManeuverPanel() {
         <div style={valueStyle}>{formatDeltaV(dvRemaining)}</div>
       </div>
 
+      {selectedAgent.propulsion && (
+        <div style={rowStyle}>
+          <div style={labelStyle}>Propellant:</div>
+          <div style={shadowValueStyle}>{selectedAgent.propulsion.propellantMass.toFixed(1)} kg</div>
+        </div>
+      )}
+
+      {spent && (
+        <>
+          <div style={rowStyle}>
+            <div style={labelStyle}>Δv Spent:</div>
+            <div style={shadowValueStyle}>
+              {formatDeltaV(spent.totalDeltaV)}
+              {selectedAgent.propulsion && ` (${spent.propellant.toFixed(1)} kg)`}
+            </div>
+          </div>
+          <div style={infoStyle}>
+            {LEDGER_CATEGORIES.map((category) => `${category} ${formatDeltaV(spent.deltaV[category])}`).join(' · ')}
+          </div>
+        </>
+      )}
+
+      <div style={rowStyle}>
+        <div style={labelStyle}>Sunlight:</div>
+        <div style={shadowValueStyle}>
+          {SHADOW_LABELS[shadowState(selectedAgent.state.position, sunPosition(julianDate))]}
+        </div>
+      </div>
+
       <div style={dividerStyle} />
 
       <div style={inputGroupStyle}>
@@ -165,6 +345,40 @@ export function ManeuverPanel() {
         </div>
       )}
 
+      {selectedAgent.propulsion && dvMagnitude > 0 && dvMagnitude <= dvRemaining && (
+        <div style={infoStyle}>
+          Burn: {formatDuration(burnDuration(selectedAgent.propulsion, dvMagnitude))},{' '}
+          {propellantForDeltaV(selectedAgent.propulsion, dvMagnitude).toFixed(2)} kg propellant
+        </div>
+      )}
+
+      {canSchedule && (
+        <div style={timingRowStyle}>
+          <select value={timing} onChange={(e) => setTiming(e.target.value as BurnTiming)} style={selectStyle}>
+            {!editingId && <option value="now">Now</option>}
+            {(Object.keys(TRIGGER_LABELS) as ManeuverTrigger['type'][]).map((type) => (
+              <option key={type} value={type}>
+                {TRIGGER_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          {timing === 'time' && (
+            <label style={minutesLabelStyle}>
+              T+
+              <input
+                type="number"
+                value={minutesFromNow}
+                onChange={(e) => setMinutesFromNow(e.target.value)}
+                style={minutesInputStyle}
+                min="0"
+                step="any"
+              />
+              min
+            </label>
+          )}
+        </div>
+      )}
+
       {error && (
         <div style={errorStyle}>{error}</div>
       )}
@@ -177,8 +391,74 @@ export function ManeuverPanel() {
           ...(!isValidInput ? disabledButtonStyle : {}),
         }}
       >
-        Execute Burn
+        {editingId ? 'Update Burn' : timing === 'now' || !canSchedule ? 'Execute Burn' : 'Schedule Burn'}
       </button>
+
+      {editingId && (
+        <button onClick={() => setEditingId(null)} style={{ ...planButtonStyle, width: '100%', marginTop: '8px' }}>
+          Cancel Edit
+        </button>
+      )}
+
+      {queue.length > 0 && (
+        <>
+          <div style={dividerStyle} />
+          <div style={planTitleStyle}>Scheduled Burns</div>
+          {queue.map((maneuver, index) => {
+            const time = predictions.get(maneuver.id);
+            return (
+              <div
+                key={maneuver.id}
+                style={{ ...planBurnStyle, color: maneuver.id === editingId ? '#ffaa00' : '#fff' }}
+              >
+                <span style={planBurnTextStyle}>
+                  {index + 1}. {maneuver.label ?? TRIGGER_LABELS[maneuver.trigger.type]}:{' '}
+                  {Math.hypot(...maneuver.rtn).toFixed(1)} m/s (
+                  {time === undefined ? 'not reached' : formatCountdown(time - simTime)})
+                </span>
+                <button onClick={() => handleEditManeuver(maneuver)} style={queueButtonStyle}>
+                  Edit
+                </button>
+                <button
+                  onClick={() => {
+                    removeManeuver(selectedAgent.id, maneuver.id);
+                    if (maneuver.id === editingId) setEditingId(null);
+                  }}
+                  style={queueButtonStyle}
+                  title="Remove burn"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+          <div style={{ ...infoStyle, color: queuedDeltaV <= dvRemaining ? 'rgba(255, 255, 255, 0.6)' : '#ff6b6b' }}>
+            Queued Δv: {formatDeltaV(queuedDeltaV)} of {formatDeltaV(dvRemaining)}
+          </div>
+        </>
+      )}
+
+      <div style={dividerStyle} />
+
+      <ManeuverCalculator agent={selectedAgent} onSchedulePlan={handleSchedulePlan} />
+
+      <div style={dividerStyle} />
+
+      <TransferPlanner
+        agent={selectedAgent}
+        onUseDepartureBurn={setRtnInputs}
+      />
+
+      {isNaturalFormation(selectedAgent.behaviors.formation) && (
+        <>
+          <div style={dividerStyle} />
+
+          <FormationDrift
+            agent={selectedAgent}
+            burnRtn={timing === 'now' && dvMagnitude > 0 ? currentRtnVector : null}
+          />
+        </>
+      )}
     </div>
   );
 }
@@ -195,6 +475,8 @@ const panelStyle: React.CSSProperties = {
   fontSize: '14px',
   minWidth: '250px',
   maxWidth: '300px',
+  maxHeight: 'calc(100vh - 380px)',
+  overflowY: 'auto',
   boxShadow: '0 4px 20px rgba(0, 0, 0, 0.5), 0 0 0 1px rgba(255, 255, 255, 0.1)',
   backdropFilter: 'blur(10px)',
   zIndex: 1000,
@@ -231,6 +513,12 @@ const valueStyle: React.CSSProperties = {
   textShadow: '0 1px 3px rgba(0, 0, 0, 0.5)',
 };
 
+const shadowValueStyle: React.CSSProperties = {
+  fontSize: '13px',
+  fontWeight: 600,
+  color: '#fff',
+};
+
 const dividerStyle: React.CSSProperties = {
   height: '1px',
   background: 'rgba(255, 255, 255, 0.1)',
@@ -302,3 +590,81 @@ const disabledButtonStyle: React.CSSProperties = {
   color: 'rgba(255, 255, 255, 0.3)',
   cursor: 'not-allowed',
 };
+
+const planTitleStyle: React.CSSProperties = {
+  marginBottom: '6px',
+  fontSize: '13px',
+  fontWeight: 600,
+  color: 'rgba(255, 255, 255, 0.85)',
+};
+
+const planBurnStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  fontSize: '11px',
+  fontFamily: 'monospace',
+  marginBottom: '4px',
+};
+
+const planBurnTextStyle: React.CSSProperties = {
+  flex: 1,
+};
+
+const queueButtonStyle: React.CSSProperties = {
+  marginLeft: '4px',
+  padding: '2px 6px',
+  background: 'rgba(255, 255, 255, 0.08)',
+  border: '1px solid rgba(255, 255, 255, 0.2)',
+  borderRadius: '4px',
+  color: '#fff',
+  fontSize: '10px',
+  cursor: 'pointer',
+};
+
+const timingRowStyle: React.CSSProperties = {
+  display: 'flex',
+  gap: '8px',
+  alignItems: 'center',
+  marginBottom: '8px',
+};
+
+const selectStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '6px 8px',
+  background: 'rgba(255, 255, 255, 0.08)',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: '6px',
+  color: '#fff',
+  fontSize: '12px',
+};
+
+const minutesLabelStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '4px',
+  fontSize: '12px',
+  color: 'rgba(255, 255, 255, 0.85)',
+};
+
+const minutesInputStyle: React.CSSProperties = {
+  width: '60px',
+  padding: '4px 6px',
+  background: 'rgba(255, 255, 255, 0.08)',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: '6px',
+  color: '#fff',
+  fontSize: '12px',
+  fontFamily: 'monospace',
+};
+
+const planButtonStyle: React.CSSProperties = {
+  flex: 1,
+  padding: '6px 8px',
+  background: 'rgba(255, 204, 102, 0.15)',
+  border: '1px solid rgba(255, 204, 102, 0.4)',
+  borderRadius: '8px',
+  color: '#fff',
+  fontSize: '12px',
+  fontWeight: 600,
+  cursor: 'pointer',
+};
@@ -1,8 +1,30 @@
 /**
- * PerformanceOverlay component: displays FPS and performance metrics.
+ * PerformanceOverlay component: displays FPS and performance metrics, the
+ * physics invariant monitor's drift report, and the fleet's propellant ledger.
  */
 
 import { useAgentStore } from './stores/agentStore';
+import { useDiagnosticsStore } from './stores/diagnosticsStore';
+import { useLedgerStore } from './stores/ledgerStore';
+import { InvariantName } from '@/sim/diagnostics/invariants';
+import { LEDGER_CATEGORIES, LedgerCategory } from '@/sim/maneuvers/ledger';
+
+/**
+ * Most flagged agents listed.
+ */
+const MAX_FLAGGED_LISTED = 5;
+
+const INVARIANT_LABELS: Record<InvariantName, string> = {
+  energy: 'Energy',
+  angularMomentum: 'Ang. mom.',
+  eccentricity: 'Ecc. vec.',
+};
+
+const LEDGER_LABELS: Record<LedgerCategory, string> = {
+  manual: 'Manual',
+  scheduled: 'Scheduled',
+  steering: 'Steering',
+};
 
 interface PerformanceOverlayProps {
   visible: boolean;
@@ -11,6 +33,12 @@ interface PerformanceOverlayProps {
 
 export function PerformanceOverlay({ visible, fps }: PerformanceOverlayProps) {
   const agentCount = useAgentStore((state) => state.agents.length);
+  const report = useDiagnosticsStore((state) => state.report);
+  const fleet = useLedgerStore((state) => state.summary?.fleet);
+  // Active agents that can no longer maneuver (they coast)
+  const dryCount = useAgentStore(
+    (state) => state.agents.filter((agent) => agent.reentryTime === undefined && agent.dvRemaining <= 0).length
+  );
 
   if (!visible) return null;
 
@@ -46,6 +74,51 @@ export function PerformanceOverlay({ visible, fps }: PerformanceOverlayProps) {
       <div style={{ marginBottom: '4px' }}>
         Agents: <span style={{ color: '#94a3b8' }}>{agentCount}</span>
       </div>
+      {report && report.monitored > 0 && (
+        <>
+          <div style={{ margin: '8px 0 4px', fontWeight: '600', borderBottom: '1px solid rgba(255, 255, 255, 0.1)', paddingBottom: '4px' }}>
+            Invariant drift
+          </div>
+          {(Object.keys(INVARIANT_LABELS) as InvariantName[]).map((name) => (
+            <div key={name} style={{ marginBottom: '4px' }}>
+              {INVARIANT_LABELS[name]}: <span style={{ color: '#94a3b8' }}>{report.maxDrift[name].toExponential(1)}</span>
+            </div>
+          ))}
+          <div style={{ marginBottom: '4px' }}>
+            Flagged: <span style={{ color: report.flagged.length > 0 ? '#f87171' : '#4ade80' }}>
+              {report.flagged.length} / {report.monitored}
+            </span>
+          </div>
+          {report.flagged.slice(0, MAX_FLAGGED_LISTED).map((status) => (
+            <div key={status.id} style={{ marginBottom: '2px', color: '#f87171' }}>
+              {status.id}: {status.flagged.map((name) => INVARIANT_LABELS[name]).join(', ')}
+            </div>
+          ))}
+        </>
+      )}
+      {fleet && (
+        <>
+          <div style={{ margin: '8px 0 4px', fontWeight: '600', borderBottom: '1px solid rgba(255, 255, 255, 0.1)', paddingBottom: '4px' }}>
+            Fleet Δv spent
+          </div>
+          {LEDGER_CATEGORIES.map((category) => (
+            <div key={category} style={{ marginBottom: '4px' }}>
+              {LEDGER_LABELS[category]}: <span style={{ color: '#94a3b8' }}>{fleet.deltaV[category].toFixed(1)} m/s</span>
+            </div>
+          ))}
+          <div style={{ marginBottom: '4px' }}>
+            Total: <span style={{ color: '#94a3b8' }}>{fleet.totalDeltaV.toFixed(1)} m/s</span>
+          </div>
+          {fleet.propellant > 0 && (
+            <div style={{ marginBottom: '4px' }}>
+              Propellant: <span style={{ color: '#94a3b8' }}>{fleet.propellant.toFixed(2)} kg</span>
+            </div>
+          )}
+          <div style={{ marginBottom: '4px' }}>
+            Out of Δv: <span style={{ color: dryCount > 0 ? '#fbbf24' : '#4ade80' }}>{dryCount}</span>
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -1,20 +1,47 @@
 import { useState, useRef } from 'react';
 import { useScenarioStore } from './stores/scenarioStore';
+import { useAgentStore } from './stores/agentStore';
+import { useSimClockStore } from './stores/simClockStore';
+import { useCentralBodyStore } from './stores/centralBodyStore';
 import { validateScenario } from '@/scenario/schema';
-import { downloadScenario } from '@/scenario/saver';
+import { downloadScenario, downloadText, agentToOem, agentToOpm } from '@/scenario/saver';
 import {
   saveToLocalStorage,
   loadFromLocalStorage,
   listLocalStorageScenarios,
   deleteFromLocalStorage,
 } from '@/scenario/storage';
+import { createTleAgent, createEphemerisAgent, ephemerisFromOem, agentEpoch } from '@/scenario/loader';
+import { parseOem, formatOem, formatOpm } from '@/scenario/ccsds';
+import { loadExampleScenario, getExampleScenarioNames, ExampleScenarioName } from '@/scenario/examples';
+import { parseTLEs } from '@/sim/orbit/tle';
+import { SECONDS_PER_DAY } from '@/sim/orbit/time';
+
+/**
+ * First free agent ID of the form base, base-2, base-3, ... (adds it to ids).
+ */
+function uniqueAgentId(base: string, ids: Set<string>): string {
+  let id = base;
+  for (let n = 2; ids.has(id); n++) {
+    id = `${base}-${n}`;
+  }
+  ids.add(id);
+  return id;
+}
 
 export function ScenarioPanel() {
   const { currentScenario, scenarioName, loadScenario, saveCurrentScenario } = useScenarioStore();
   const [savedScenarios, setSavedScenarios] = useState<string[]>(listLocalStorageScenarios());
   const [saveName, setSaveName] = useState('');
   const [saveDescription, setSaveDescription] = useState('');
+  const [tleText, setTleText] = useState('');
+  const [oemSpanHours, setOemSpanHours] = useState(24);
+  const [oemStep, setOemStep] = useState(60);
+  const selectedAgent = useAgentStore((state) => state.getSelectedAgent());
+  // TLEs and OEMs are Earth-centered
+  const aroundEarth = useCentralBodyStore((state) => state.body.name === 'earth');
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const oemInputRef = useRef<HTMLInputElement>(null);
 
   const refreshSavedScenarios = () => {
     setSavedScenarios(listLocalStorageScenarios());
@@ -79,6 +106,90 @@ export function ScenarioPanel() {
     }
   };
 
+  const handleAddTleAgents = () => {
+    try {
+      const tles = parseTLEs(tleText);
+      const { agents, setAgents } = useAgentStore.getState();
+      const { simTime, epoch, setEpoch } = useSimClockStore.getState();
+
+      // Keep the clock epoch if TLE or ephemeris agents are already present;
+      // otherwise move it so the current sim time is the latest pasted epoch
+      const epochJd = agentEpoch(agents) !== undefined
+        ? epoch
+        : Math.max(...tles.map((tle) => tle.epochJd)) - simTime / SECONDS_PER_DAY;
+
+      const ids = new Set(agents.map((a) => a.id));
+      const added = tles.map((tle) =>
+        createTleAgent(tle, uniqueAgentId(`tle-${tle.satnum}`, ids), epochJd, simTime)
+      );
+
+      setEpoch(epochJd);
+      setAgents([...agents, ...added]);
+      setTleText('');
+    } catch (error) {
+      alert(`Failed to import TLE: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleImportOem = () => {
+    oemInputRef.current?.click();
+  };
+
+  const handleOemFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const oem = parseOem(e.target?.result as string);
+        const { agents, setAgents } = useAgentStore.getState();
+        const { simTime, epoch, setEpoch } = useSimClockStore.getState();
+
+        // Keep the clock epoch if TLE or ephemeris agents are already present;
+        // otherwise move it so the current sim time is the start of the ephemeris
+        const epochJd = agentEpoch(agents) !== undefined
+          ? epoch
+          : oem.segments[0]!.metadata.startTime - simTime / SECONDS_PER_DAY;
+        const ephemeris = ephemerisFromOem(oem, epochJd, useCentralBodyStore.getState().body);
+        const id = uniqueAgentId(`oem-${ephemeris.objectId ?? file.name}`, new Set(agents.map((a) => a.id)));
+
+        setEpoch(epochJd);
+        setAgents([...agents, createEphemerisAgent(ephemeris, id, simTime)]);
+      } catch (error) {
+        alert(`Failed to import OEM: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+    };
+    reader.readAsText(file);
+
+    if (oemInputRef.current) {
+      oemInputRef.current.value = '';
+    }
+  };
+
+  const handleExportOem = () => {
+    if (!selectedAgent) return;
+    try {
+      const { simTime, epoch } = useSimClockStore.getState();
+      const { body } = useCentralBodyStore.getState();
+      const oem = agentToOem(selectedAgent, epoch, simTime, oemSpanHours * 3600, oemStep, body);
+      downloadText(formatOem(oem), `${selectedAgent.id}.oem`);
+    } catch (error) {
+      alert(`Failed to export OEM: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleExportOpm = () => {
+    if (!selectedAgent) return;
+    try {
+      const { simTime, epoch } = useSimClockStore.getState();
+      const { body } = useCentralBodyStore.getState();
+      downloadText(formatOpm(agentToOpm(selectedAgent, epoch, simTime, body)), `${selectedAgent.id}.opm`);
+    } catch (error) {
+      alert(`Failed to export OPM: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleLoadFromStorage = (name: string) => {
     try {
       const scenario = loadFromLocalStorage(name);
@@ -90,6 +201,14 @@ export function ScenarioPanel() {
     }
   };
 
+  const handleLoadExample = (name: ExampleScenarioName) => {
+    try {
+      loadScenario(loadExampleScenario(name));
+    } catch (error) {
+      alert(`Failed to load example: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
   const handleDeleteFromStorage = (name: string, event: React.MouseEvent) => {
     event.stopPropagation();
     if (confirm(`Delete scenario "${name}"?`)) {
@@ -188,6 +307,96 @@ export function ScenarioPanel() {
           ⬇️ Download Scenario
         </button>
 
+        {/* Add agents from pasted TLE text */}
+        <div style={controlGroupStyle}>
+          <label style={labelStyle}>Add TLE Agents:</label>
+          <textarea
+            value={tleText}
+            onChange={(e) => setTleText(e.target.value)}
+            className="scenario-panel-input"
+            style={{ ...inputStyle, ...textareaStyle, ...tleTextareaStyle }}
+            placeholder="Paste two-line element sets..."
+            rows={4}
+          />
+          <button
+            onClick={handleAddTleAgents}
+            className="scenario-panel-button"
+            style={buttonStyle}
+            disabled={!tleText.trim() || !aroundEarth}
+          >
+            🛰️ Add TLE Agents
+          </button>
+        </div>
+
+        {/* CCSDS ephemeris exchange */}
+        <div style={controlGroupStyle}>
+          <label style={labelStyle}>CCSDS Ephemeris:</label>
+          <button onClick={handleImportOem} className="scenario-panel-button" style={buttonStyle}>
+            📡 Import OEM
+          </button>
+          <input
+            ref={oemInputRef}
+            type="file"
+            accept=".oem,.txt"
+            onChange={handleOemFileChange}
+            style={{ display: 'none' }}
+          />
+          <div style={inlineInputsStyle}>
+            <label style={inlineLabelStyle}>
+              Span (h)
+              <input
+                type="number"
+                min={0}
+                value={oemSpanHours}
+                onChange={(e) => setOemSpanHours(Number(e.target.value))}
+                className="scenario-panel-input"
+                style={inputStyle}
+              />
+            </label>
+            <label style={inlineLabelStyle}>
+              Step (s)
+              <input
+                type="number"
+                min={1}
+                value={oemStep}
+                onChange={(e) => setOemStep(Number(e.target.value))}
+                className="scenario-panel-input"
+                style={inputStyle}
+              />
+            </label>
+          </div>
+          <button
+            onClick={handleExportOem}
+            className="scenario-panel-button"
+            style={buttonStyle}
+            disabled={!selectedAgent}
+          >
+            ⬇️ Export OEM
+          </button>
+          <button
+            onClick={handleExportOpm}
+            className="scenario-panel-button"
+            style={buttonStyle}
+            disabled={!selectedAgent}
+          >
+            ⬇️ Export OPM
+          </button>
+        </div>
+
+        {/* Bundled example scenarios */}
+        <div style={controlGroupStyle}>
+          <label style={labelStyle}>Example Scenarios:</label>
+          <div style={scenariosListStyle}>
+            {getExampleScenarioNames().map((name) => (
+              <div key={name} style={scenarioItemStyle} className="scenario-item">
+                <button onClick={() => handleLoadExample(name)} style={scenarioItemButtonStyle}>
+                  {name}
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Saved scenarios list */}
         {savedScenarios.length > 0 && (
           <div style={controlGroupStyle}>
@@ -299,6 +508,26 @@ const textareaStyle: React.CSSProperties = {
   fontFamily: 'system-ui, -apple-system, sans-serif',
 };
 
+const inlineInputsStyle: React.CSSProperties = {
+  display: 'flex',
+  gap: '8px',
+};
+
+const inlineLabelStyle: React.CSSProperties = {
+  flex: 1,
+  display: 'flex',
+  flexDirection: 'column',
+  gap: '4px',
+  fontSize: '11px',
+  color: 'rgba(255, 255, 255, 0.6)',
+};
+
+const tleTextareaStyle: React.CSSProperties = {
+  fontFamily: 'monospace',
+  fontSize: '10px',
+  whiteSpace: 'pre',
+};
+
 const currentScenarioStyle: React.CSSProperties = {
   padding: '12px',
   background: 'rgba(100, 150, 255, 0.1)',
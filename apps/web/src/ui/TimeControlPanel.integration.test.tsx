@@ -15,6 +15,7 @@ describe('TimeControlPanel integration', () => {
     store.setPaused(false);
     store.setTimeScale(1.0);
     store.setSeed('default');
+    store.setEpoch(2451545.0);
     store.setClockInstance(null);
     setSeed('default');
     cleanup(); // Clean up any rendered components
@@ -173,6 +174,15 @@ describe('TimeControlPanel integration', () => {
       rerender(<TimeControlPanel />);
       expect(screen.getByText(/20s/i)).toBeInTheDocument();
     });
+
+    it('displays the UTC calendar date from the scenario epoch', () => {
+      useSimClockStore.getState().setEpoch(2460310.5); // 2024-01-01T00:00:00Z
+      useSimClockStore.getState().setSimTime(90061);
+      render(<TimeControlPanel />);
+
+      expect(screen.getByText('2024-01-02 01:01:01 UTC')).toBeInTheDocument();
+      expect(screen.getByText(/JD 2460311\.54237/)).toBeInTheDocument();
+    });
   });
 
   describe('seed input', () => {
@@ -1,5 +1,7 @@
 import { useState } from 'react';
 import { useSimClockStore } from '@/ui/stores/simClockStore';
+import { useDiagnosticsStore } from '@/ui/stores/diagnosticsStore';
+import { greenwichMeanSiderealTime } from '@/sim/orbit/time';
 import { ScenarioSection } from './ScenarioSection';
 
 export function TimeControlPanel() {
@@ -13,8 +15,14 @@ export function TimeControlPanel() {
     step,
     reset,
     formatTime,
+    formatDate,
+    julianDate,
   } = useSimClockStore();
+  const stepError = useDiagnosticsStore((state) => state.stepError);
   
+  const jd = julianDate();
+  const gmstDegrees = (greenwichMeanSiderealTime(jd) * 180) / Math.PI;
+
   const [scenariosExpanded, setScenariosExpanded] = useState(false);
 
   return (
@@ -96,6 +104,9 @@ export function TimeControlPanel() {
           {paused ? '▶ Play' : '⏸ Pause'}
         </button>
 
+        {/* Why the simulation stopped, if a step failed */}
+        {stepError && <div style={errorStyle}>Simulation step failed: {stepError}</div>}
+
         {/* Time scale slider */}
         <div style={controlGroupStyle}>
           <label style={labelStyle}>
@@ -124,6 +135,10 @@ export function TimeControlPanel() {
         <div style={timeDisplayStyle}>
           <div style={timeLabelStyle}>Sim Time:</div>
           <div style={timeValueStyle}>{formatTime()}</div>
+          <div style={dateValueStyle}>{formatDate()}</div>
+          <div style={siderealValueStyle}>
+            JD {jd.toFixed(5)} · GMST {gmstDegrees.toFixed(2)}°
+          </div>
         </div>
 
         {/* Seed input */}
@@ -221,6 +236,16 @@ const dangerButtonStyle: React.CSSProperties = {
   marginTop: '4px',
 };
 
+const errorStyle: React.CSSProperties = {
+  fontSize: '11px',
+  color: '#ff6b6b',
+  marginBottom: '12px',
+  padding: '6px 8px',
+  background: 'rgba(255, 107, 107, 0.1)',
+  border: '1px solid rgba(255, 107, 107, 0.3)',
+  borderRadius: '6px',
+};
+
 const controlGroupStyle: React.CSSProperties = {
   marginBottom: '10px',
 };
@@ -279,6 +304,20 @@ const timeValueStyle: React.CSSProperties = {
   textShadow: '0 1px 3px rgba(0, 0, 0, 0.5)',
 };
 
+const dateValueStyle: React.CSSProperties = {
+  marginTop: '6px',
+  fontSize: '12px',
+  fontFamily: 'monospace',
+  color: 'rgba(255, 255, 255, 0.85)',
+};
+
+const siderealValueStyle: React.CSSProperties = {
+  marginTop: '2px',
+  fontSize: '10px',
+  fontFamily: 'monospace',
+  color: 'rgba(255, 255, 255, 0.55)',
+};
+
 const scenariosSectionStyle: React.CSSProperties = {
   marginTop: '10px',
   borderTop: '1px solid rgba(255, 255, 255, 0.1)',
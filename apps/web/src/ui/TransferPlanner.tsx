@@ -0,0 +1,283 @@
+/**
+ * TransferPlanner component: plans a Lambert transfer from the selected agent
+ * to an objective or its formation slot. Lists the cheapest transfer for a
+ * range of times of flight (a porkchop table for a departure now); the chosen
+ * transfer's arc is drawn by TrajectoryPreview and its departure burn can be
+ * copied into the Maneuver Planner's RTN inputs. The arrival burn is shown
+ * for the player to execute on arrival.
+ */
+
+import { useState, useMemo, useEffect } from 'react';
+import { useTaskStore } from '@/ui/stores/taskStore';
+import { useCentralBodyStore } from '@/ui/stores/centralBodyStore';
+import { updateTransferPreview } from '@/render/utils/transferPreview';
+import { agentTrajectoryKey } from '@/render/utils/agentEphemeris';
+import { useSimSnapshot } from '@/render/utils/useSimSnapshot';
+import { Agent } from '@/render/Agents.types';
+import { FormationType } from '@/scenario/types';
+import { computeFormationSlot } from '@/sim/swarm';
+import { transferTable, defaultTimesOfFlight, TransferTarget, TransferTableRow } from '@/sim/maneuvers/transfer';
+
+/**
+ * Simulation seconds between table refreshes (the agent moves along its orbit meanwhile).
+ */
+const TRANSFER_REFRESH_SECONDS = 1;
+
+/**
+ * Most complete revolutions the player can allow.
+ */
+const MAX_TRANSFER_REVOLUTIONS = 3;
+
+/**
+ * Destination ID of the selected agent's formation slot (objectives use their own IDs).
+ */
+const FORMATION_SLOT_ID = '__formation-slot__';
+
+interface TransferPlannerProps {
+  /** Selected agent */
+  agent: Agent;
+  /** Called with a transfer's departure burn in RTN (m/s) */
+  onUseDepartureBurn: (rtn: [number, number, number]) => void;
+}
+
+/**
+ * Format an RTN vector for display.
+ */
+function formatRtn([r, t, n]: [number, number, number]): string {
+  return `R ${r.toFixed(1)}  T ${t.toFixed(1)}  N ${n.toFixed(1)} m/s`;
+}
+
+export function TransferPlanner({ agent, onUseDepartureBurn }: TransferPlannerProps) {
+  const objectives = useTaskStore((state) => state.objectives);
+  const hasFormationSlot = agent.behaviors.formation !== undefined && agent.behaviors.formation !== FormationType.NONE;
+  // Retaken after a burn changes the agent's trajectory
+  const { agents } = useSimSnapshot(TRANSFER_REFRESH_SECONDS, agentTrajectoryKey(agent));
+  const mu = useCentralBodyStore((state) => state.body.mu);
+
+  const [destinationId, setDestinationId] = useState('');
+  const [maxRevolutions, setMaxRevolutions] = useState(1);
+  const [rendezvous, setRendezvous] = useState(true);
+  const [selectedRow, setSelectedRow] = useState<number | null>(null);
+
+  const destinations = useMemo(
+    () => [
+      ...(hasFormationSlot ? [{ id: FORMATION_SLOT_ID, label: 'Formation slot' }] : []),
+      ...objectives
+        .filter((objective) => !objective.completed)
+        .map((objective) => ({ id: objective.id, label: `${objective.type.replace(/_/g, ' ')}: ${objective.id}` })),
+    ],
+    [hasFormationSlot, objectives]
+  );
+
+  // Clear the plan when the selected agent changes
+  useEffect(() => {
+    setDestinationId('');
+    setSelectedRow(null);
+  }, [agent.id]);
+
+  const rows = useMemo((): TransferTableRow[] => {
+    if (!destinationId) return [];
+    const current = agents.find((a) => a.id === agent.id);
+    if (!current) return [];
+
+    let target: TransferTarget | null = null;
+    if (destinationId === FORMATION_SLOT_ID) {
+      target = computeFormationSlot(agents, agent.id, mu);
+    } else {
+      const objective = objectives.find((o) => o.id === destinationId);
+      target = objective ? { position: objective.position } : null;
+    }
+    if (!target) return [];
+
+    return transferTable(current.state, target, defaultTimesOfFlight(current.state, 8, mu), { maxRevolutions, rendezvous }, mu);
+  }, [agents, agent.id, destinationId, objectives, maxRevolutions, rendezvous, mu]);
+
+  const selectedPlan = selectedRow !== null ? rows[selectedRow]?.plan ?? null : null;
+
+  // Draw the chosen transfer arc
+  useEffect(() => {
+    updateTransferPreview(
+      selectedPlan ? { state: selectedPlan.transferState, duration: selectedPlan.timeOfFlight } : null
+    );
+  }, [selectedPlan]);
+
+  // Remove the arc when the planner closes
+  useEffect(() => () => updateTransferPreview(null), []);
+
+  return (
+    <div>
+      <div style={sectionTitleStyle}>Transfer</div>
+
+      <select
+        value={destinationId}
+        onChange={(e) => {
+          setDestinationId(e.target.value);
+          setSelectedRow(null);
+        }}
+        style={selectStyle}
+      >
+        <option value="">Choose destination…</option>
+        {destinations.map((destination) => (
+          <option key={destination.id} value={destination.id}>
+            {destination.label}
+          </option>
+        ))}
+      </select>
+
+      <div style={optionRowStyle}>
+        <label style={optionLabelStyle}>
+          Max revs
+          <input
+            type="number"
+            value={maxRevolutions}
+            onChange={(e) => setMaxRevolutions(Math.min(MAX_TRANSFER_REVOLUTIONS, Math.max(0, Math.round(Number(e.target.value) || 0))))}
+            style={smallInputStyle}
+            min="0"
+            max={MAX_TRANSFER_REVOLUTIONS}
+            step="1"
+          />
+        </label>
+        <label style={optionLabelStyle}>
+          <input type="checkbox" checked={rendezvous} onChange={(e) => setRendezvous(e.target.checked)} />
+          Rendezvous
+        </label>
+      </div>
+
+      {rows.length > 0 && (
+        <table style={tableStyle}>
+          <thead>
+            <tr>
+              <th style={cellStyle}>TOF</th>
+              <th style={cellStyle}>Revs</th>
+              <th style={cellStyle}>Dep.</th>
+              <th style={cellStyle}>Arr.</th>
+              <th style={cellStyle}>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => {
+              const affordable = row.plan !== null && row.plan.totalDeltaV <= agent.dvRemaining;
+              return (
+                <tr
+                  key={index}
+                  onClick={() => row.plan && setSelectedRow(index)}
+                  style={{
+                    cursor: row.plan ? 'pointer' : 'default',
+                    background: index === selectedRow ? 'rgba(100, 150, 255, 0.25)' : 'transparent',
+                    color: affordable ? '#fff' : 'rgba(255, 255, 255, 0.4)',
+                  }}
+                >
+                  <td style={cellStyle}>{(row.timeOfFlight / 60).toFixed(0)} min</td>
+                  {row.plan ? (
+                    <>
+                      <td style={cellStyle}>{row.plan.revolutions}</td>
+                      <td style={cellStyle}>{row.plan.departureDeltaV.toFixed(1)}</td>
+                      <td style={cellStyle}>{row.plan.arrivalDeltaV.toFixed(1)}</td>
+                      <td style={cellStyle}>{row.plan.totalDeltaV.toFixed(1)}</td>
+                    </>
+                  ) : (
+                    <td style={cellStyle} colSpan={4}>—</td>
+                  )}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {selectedPlan && (
+        <>
+          <div style={infoStyle}>Departure: {formatRtn(selectedPlan.departureBurnRtn)}</div>
+          {rendezvous && (
+            <div style={infoStyle}>
+              Arrival (T+{(selectedPlan.timeOfFlight / 60).toFixed(0)} min): {formatRtn(selectedPlan.arrivalBurnRtn)}
+            </div>
+          )}
+          <button onClick={() => onUseDepartureBurn(selectedPlan.departureBurnRtn)} style={buttonStyle}>
+            Use Departure Burn
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+const sectionTitleStyle: React.CSSProperties = {
+  margin: '0 0 8px 0',
+  fontSize: '13px',
+  fontWeight: 600,
+  letterSpacing: '0.3px',
+  color: 'rgba(255, 255, 255, 0.85)',
+};
+
+const selectStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '6px 8px',
+  marginBottom: '8px',
+  background: 'rgba(255, 255, 255, 0.08)',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: '8px',
+  color: '#fff',
+  fontSize: '12px',
+};
+
+const optionRowStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  justifyContent: 'space-between',
+  gap: '8px',
+  marginBottom: '8px',
+};
+
+const optionLabelStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '6px',
+  fontSize: '12px',
+  fontWeight: 500,
+  color: 'rgba(255, 255, 255, 0.85)',
+};
+
+const smallInputStyle: React.CSSProperties = {
+  width: '48px',
+  padding: '4px 6px',
+  background: 'rgba(255, 255, 255, 0.08)',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: '6px',
+  color: '#fff',
+  fontSize: '12px',
+  fontFamily: 'monospace',
+};
+
+const tableStyle: React.CSSProperties = {
+  width: '100%',
+  borderCollapse: 'collapse',
+  fontSize: '11px',
+  fontFamily: 'monospace',
+  marginBottom: '8px',
+};
+
+const cellStyle: React.CSSProperties = {
+  padding: '3px 4px',
+  textAlign: 'right',
+  borderBottom: '1px solid rgba(255, 255, 255, 0.08)',
+};
+
+const infoStyle: React.CSSProperties = {
+  fontSize: '11px',
+  color: 'rgba(255, 255, 255, 0.7)',
+  marginBottom: '6px',
+  fontFamily: 'monospace',
+};
+
+const buttonStyle: React.CSSProperties = {
+  width: '100%',
+  padding: '8px 12px',
+  background: 'rgba(255, 102, 255, 0.15)',
+  border: '1px solid rgba(255, 102, 255, 0.4)',
+  borderRadius: '8px',
+  color: '#fff',
+  fontSize: '13px',
+  fontWeight: 600,
+  cursor: 'pointer',
+};
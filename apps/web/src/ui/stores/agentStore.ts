@@ -1,45 +1,80 @@
 import { create } from 'zustand';
 import { Agent } from '@/render/Agents.types';
 import { CartesianState } from '@/sim/orbit/types';
-import { applyDeltaV } from '@/sim/maneuvers/deltaV';
-import { rtnToEci } from '@/sim/maneuvers/rtnToEci';
+import { BudgetUpdate } from '@/sim/step';
+import { executeBurn } from '@/sim/maneuvers/deltaV';
+import {
+  applyExecutedManeuvers,
+  enqueueManeuver,
+  ExecutedManeuver,
+  ScheduledManeuver,
+} from '@/sim/maneuvers/queue';
+import { useSimClockStore } from '@/ui/stores/simClockStore';
+import { useLedgerStore } from '@/ui/stores/ledgerStore';
+import { DEFAULT_REENTRY_ALTITUDE } from '@/sim/orbit/decay';
 
 interface AgentState {
   agents: Agent[];
   selectedAgentId: string | null;
   hoveredAgentId: string | null;
+  /** Altitude above the central body's surface in meters below which agents re-enter */
+  reentryAltitude: number;
   setAgents: (agents: Agent[]) => void;
   updateAgent: (id: string, state: CartesianState) => void;
-  updateAgentsBatch: (updates: Array<{ id: string; state: CartesianState }>) => void;
+  updateAgentsBatch: (updates: Array<{ id: string; state: CartesianState }>, controlledIds?: string[]) => void;
   selectAgent: (id: string | null) => void;
   hoverAgent: (id: string | null) => void;
   clearSelection: () => void;
   getSelectedAgent: () => Agent | null;
   applyDeltaVToAgent: (id: string, rtnVector: [number, number, number]) => void;
   updateAgentDvRemaining: (id: string, dvRemaining: number) => void;
+  setReentryAltitude: (altitude: number) => void;
+  markAgentsReentered: (ids: string[], time: number) => void;
+  scheduleManeuver: (id: string, maneuver: ScheduledManeuver) => void;
+  updateManeuver: (id: string, maneuver: ScheduledManeuver) => void;
+  removeManeuver: (id: string, maneuverId: string) => void;
+  applyExecutedManeuvers: (executed: ExecutedManeuver[]) => void;
+  updateAgentBudgets: (updates: BudgetUpdate[]) => void;
+}
+
+/**
+ * Last trajectory revision handed out. Revisions are unique across scenarios,
+ * so an agent ID reused by a new scenario never matches an old trajectory.
+ */
+let lastTrajectoryRevision = 0;
+
+function nextTrajectoryRevision(): number {
+  return ++lastTrajectoryRevision;
 }
 
 export const useAgentStore = create<AgentState>((set, get) => ({
   agents: [],
   selectedAgentId: null,
   hoveredAgentId: null,
-  setAgents: (agents) => set({ agents }),
+  reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+  setAgents: (agents) =>
+    set({
+      agents: agents.map((agent) =>
+        agent.trajectoryRevision === undefined ? { ...agent, trajectoryRevision: nextTrajectoryRevision() } : agent
+      ),
+    }),
   updateAgent: (id, state) => {
     set((current) => ({
       agents: current.agents.map((agent) =>
-        agent.id === id ? { ...agent, state } : agent
+        agent.id === id ? { ...agent, state, trajectoryRevision: nextTrajectoryRevision() } : agent
       ),
     }));
   },
-  updateAgentsBatch: (updates) => {
+  updateAgentsBatch: (updates, controlledIds = []) => {
     set((current) => {
       const updateMap = new Map(updates.map((u) => [u.id, u.state]));
+      const controlled = new Set(controlledIds);
       return {
-        agents: current.agents.map((agent) =>
-          updateMap.has(agent.id)
-            ? { ...agent, state: updateMap.get(agent.id)! }
-            : agent
-        ),
+        agents: current.agents.map((agent) => {
+          if (!updateMap.has(agent.id)) return agent;
+          const updated = { ...agent, state: updateMap.get(agent.id)! };
+          return controlled.has(agent.id) ? { ...updated, trajectoryRevision: nextTrajectoryRevision() } : updated;
+        }),
       };
     });
   },
@@ -83,24 +118,32 @@ export const useAgentStore = create<AgentState>((set, get) => ({
     }
 
     try {
-      // Convert RTN vector to ECI frame
-      const dvVector = rtnToEci(rtnVector, agent.state);
+      const { simTime } = useSimClockStore.getState();
+      if (agent.thrustArc && agent.thrustArc.endTime > simTime) {
+        throw new Error(`The previous burn thrusts for another ${(agent.thrustArc.endTime - simTime).toFixed(0)} s`);
+      }
 
-      // Apply delta-v burn
-      const { newState, newDvRemaining } = applyDeltaV(
-        agent.state,
-        dvVector,
-        agent.dvRemaining
-      );
+      // Apply delta-v burn (agents with propulsion spend propellant and thrust from now on)
+      const burn = executeBurn(agent.state, rtnVector, agent.dvRemaining, agent.propulsion, simTime);
 
-      // Update agent state and delta-v budget
+      // Update agent state, delta-v budget and thrust arc
       set((current) => ({
         agents: current.agents.map((a) =>
           a.id === id
-            ? { ...a, state: newState, dvRemaining: newDvRemaining }
+            ? {
+                ...a,
+                state: burn.state,
+                dvRemaining: burn.dvRemaining,
+                propulsion: burn.propulsion,
+                thrustArc: burn.thrustArc ?? a.thrustArc,
+                trajectoryRevision: nextTrajectoryRevision(),
+              }
             : a
         ),
       }));
+      useLedgerStore.getState().record([
+        { agentId: id, category: 'manual', deltaV: Math.hypot(...rtnVector), propellant: burn.propellantUsed },
+      ]);
     } catch (error) {
       console.error(`Failed to apply delta-v to agent ${id}:`, error);
       throw error;
@@ -113,4 +156,71 @@ export const useAgentStore = create<AgentState>((set, get) => ({
       ),
     }));
   },
+  setReentryAltitude: (reentryAltitude) => set({ reentryAltitude }),
+  markAgentsReentered: (ids, time) => {
+    if (ids.length === 0) return;
+    const reentered = new Set(ids);
+    set((current) => ({
+      // Re-entered agents can no longer be selected
+      selectedAgentId:
+        current.selectedAgentId !== null && reentered.has(current.selectedAgentId)
+          ? null
+          : current.selectedAgentId,
+      agents: current.agents.map((agent) =>
+        reentered.has(agent.id)
+          ? { ...agent, reentryTime: time, selected: false, hovered: false }
+          : agent
+      ),
+    }));
+  },
+  scheduleManeuver: (id, maneuver) => {
+    set((current) => ({
+      agents: current.agents.map((agent) =>
+        agent.id === id ? { ...agent, maneuvers: enqueueManeuver(agent.maneuvers ?? [], maneuver) } : agent
+      ),
+    }));
+  },
+  updateManeuver: (id, maneuver) => {
+    set((current) => ({
+      agents: current.agents.map((agent) => {
+        if (agent.id !== id) return agent;
+        // Re-queue so that a changed time moves the burn into order
+        const others = (agent.maneuvers ?? []).filter((m) => m.id !== maneuver.id);
+        return { ...agent, maneuvers: enqueueManeuver(others, maneuver) };
+      }),
+    }));
+  },
+  removeManeuver: (id, maneuverId) => {
+    set((current) => ({
+      agents: current.agents.map((agent) =>
+        agent.id === id
+          ? { ...agent, maneuvers: (agent.maneuvers ?? []).filter((m) => m.id !== maneuverId) }
+          : agent
+      ),
+    }));
+  },
+  applyExecutedManeuvers: (executed) => {
+    if (executed.length === 0) return;
+    for (const burn of executed) {
+      if (burn.error) {
+        console.warn(`Scheduled burn ${burn.maneuverId} of agent ${burn.agentId} failed:`, burn.error);
+      }
+    }
+    const maneuvered = new Set(executed.map((burn) => burn.agentId));
+    set((current) => ({
+      agents: applyExecutedManeuvers(current.agents, executed).map((agent) =>
+        maneuvered.has(agent.id) ? { ...agent, trajectoryRevision: nextTrajectoryRevision() } : agent
+      ),
+    }));
+  },
+  updateAgentBudgets: (updates) => {
+    if (updates.length === 0) return;
+    const budgets = new Map(updates.map((u) => [u.id, u]));
+    set((current) => ({
+      agents: current.agents.map((agent) => {
+        const budget = budgets.get(agent.id);
+        return budget ? { ...agent, dvRemaining: budget.dvRemaining, propulsion: budget.propulsion } : agent;
+      }),
+    }));
+  },
 }));
@@ -4,11 +4,16 @@ export type CameraPreset = 'freecam' | 'cinematic' | 'follow';
 
 interface CameraState {
   preset: CameraPreset;
+  /** Draw the Moon at its true distance (about 60 Earth radii) instead of a compressed one */
+  moonTrueScale: boolean;
   setPreset: (preset: CameraPreset) => void;
+  setMoonTrueScale: (trueScale: boolean) => void;
 }
 
 export const useCameraStore = create<CameraState>((set) => ({
   preset: 'freecam',
+  moonTrueScale: false,
   setPreset: (preset) => set({ preset }),
+  setMoonTrueScale: (moonTrueScale) => set({ moonTrueScale }),
 }));
 
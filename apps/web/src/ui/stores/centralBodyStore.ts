@@ -0,0 +1,16 @@
+import { create } from 'zustand';
+import { CentralBody, EARTH_BODY } from '@/sim/orbit/centralBody';
+
+/**
+ * Body the scenario's agents orbit, set when a scenario is loaded.
+ * Propagation uses its μ and oblateness; the scene unit is its radius.
+ */
+interface CentralBodyState {
+  body: CentralBody;
+  setBody: (body: CentralBody) => void;
+}
+
+export const useCentralBodyStore = create<CentralBodyState>((set) => ({
+  body: EARTH_BODY,
+  setBody: (body) => set({ body }),
+}));
@@ -0,0 +1,43 @@
+import { create } from 'zustand';
+import { Agent } from '@/render/Agents.types';
+import { InvariantMonitor, InvariantReport } from '@/sim/diagnostics/invariants';
+
+/**
+ * Simulation seconds between published reports. Every step is monitored; the
+ * report shown in the performance overlay is only refreshed this often.
+ */
+const DIAGNOSTICS_REFRESH_SECONDS = 1;
+
+/**
+ * Invariant monitoring of the simulated agents (see sim/diagnostics/invariants.ts).
+ */
+interface DiagnosticsState {
+  monitor: InvariantMonitor;
+  report: InvariantReport | null;
+  /** Error of the last sim step, if it failed */
+  stepError: string | null;
+  recordStep: (agents: Agent[], time: number, controlledIds: string[], mu: number) => void;
+  setStepError: (stepError: string | null) => void;
+  reset: () => void;
+}
+
+export const useDiagnosticsStore = create<DiagnosticsState>((set, get) => ({
+  monitor: new InvariantMonitor(),
+  report: null,
+  stepError: null,
+  recordStep: (agents, time, controlledIds, mu) => {
+    const { monitor, report } = get();
+    const controlled = new Set(controlledIds);
+    for (const agent of agents) {
+      monitor.observe(agent, time, controlled.has(agent.id), mu);
+    }
+    if (!report || time < report.time || time - report.time >= DIAGNOSTICS_REFRESH_SECONDS) {
+      set({ report: monitor.report() });
+    }
+  },
+  setStepError: (stepError) => set({ stepError }),
+  reset: () => {
+    get().monitor.reset();
+    set({ report: null, stepError: null });
+  },
+}));
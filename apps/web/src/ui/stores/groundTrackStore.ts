@@ -0,0 +1,38 @@
+import { create } from 'zustand';
+
+/**
+ * Which agents have their ground track drawn: none, the selected agent, or
+ * every agent on the selected agent's team.
+ */
+export type GroundTrackMode = 'off' | 'selected' | 'team';
+
+/**
+ * Most revolutions drawn on either side of the current time.
+ */
+export const MAX_GROUND_TRACK_REVOLUTIONS = 5;
+
+interface GroundTrackState {
+  mode: GroundTrackMode;
+  pastRevolutions: number;
+  futureRevolutions: number;
+  setMode: (mode: GroundTrackMode) => void;
+  setPastRevolutions: (revolutions: number) => void;
+  setFutureRevolutions: (revolutions: number) => void;
+}
+
+/**
+ * Clamp a revolution count to a whole number between 0 and MAX_GROUND_TRACK_REVOLUTIONS.
+ */
+function clampRevolutions(revolutions: number): number {
+  if (!Number.isFinite(revolutions)) return 0;
+  return Math.min(MAX_GROUND_TRACK_REVOLUTIONS, Math.max(0, Math.round(revolutions)));
+}
+
+export const useGroundTrackStore = create<GroundTrackState>((set) => ({
+  mode: 'selected',
+  pastRevolutions: 1,
+  futureRevolutions: 1,
+  setMode: (mode) => set({ mode }),
+  setPastRevolutions: (revolutions) => set({ pastRevolutions: clampRevolutions(revolutions) }),
+  setFutureRevolutions: (revolutions) => set({ futureRevolutions: clampRevolutions(revolutions) }),
+}));
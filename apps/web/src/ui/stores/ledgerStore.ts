@@ -0,0 +1,45 @@
+import { create } from 'zustand';
+import { LedgerCharge, LedgerSummary, PropellantLedger } from '@/sim/maneuvers/ledger';
+
+/**
+ * Simulation seconds between published summaries. Every charge is recorded;
+ * the summary shown in the UI is only refreshed this often.
+ */
+const LEDGER_REFRESH_SECONDS = 1;
+
+/**
+ * Delta-v and propellant spent by the agents (see sim/maneuvers/ledger.ts).
+ */
+interface LedgerState {
+  ledger: PropellantLedger;
+  summary: LedgerSummary | null;
+  /** Sim time of the last published summary in seconds */
+  summaryTime: number | null;
+  /** Record the charges of a sim step */
+  recordStep: (charges: LedgerCharge[], time: number) => void;
+  /** Record charges made outside the sim step (manual burns), published at once */
+  record: (charges: LedgerCharge[]) => void;
+  reset: () => void;
+}
+
+export const useLedgerStore = create<LedgerState>((set, get) => ({
+  ledger: new PropellantLedger(),
+  summary: null,
+  summaryTime: null,
+  recordStep: (charges, time) => {
+    const { ledger, summaryTime } = get();
+    ledger.record(charges);
+    if (summaryTime === null || time < summaryTime || time - summaryTime >= LEDGER_REFRESH_SECONDS) {
+      set({ summary: ledger.summary(), summaryTime: time });
+    }
+  },
+  record: (charges) => {
+    const { ledger } = get();
+    ledger.record(charges);
+    set({ summary: ledger.summary() });
+  },
+  reset: () => {
+    get().ledger.reset();
+    set({ summary: null, summaryTime: null });
+  },
+}));
@@ -1,21 +1,26 @@
 import { create } from 'zustand';
 import { SimClock } from '@/sim/SimClock';
+import { J2000_JD, SECONDS_PER_DAY, formatUtc } from '@/sim/orbit/time';
 
 interface SimClockState {
   paused: boolean;
   timeScale: number;
   simTime: number; // seconds
   seed: string;
+  epoch: number; // Julian date (UTC) of simTime 0
   clockInstance: SimClock | null;
   setPaused: (paused: boolean) => void;
   setTimeScale: (scale: number) => void;
   setSimTime: (time: number) => void;
   setSeed: (seed: string) => void;
+  setEpoch: (epoch: number) => void;
   setClockInstance: (clock: SimClock | null) => void;
   toggle: () => void;
   step: () => void;
   reset: () => void;
   formatTime: () => string;
+  julianDate: () => number;
+  formatDate: () => string;
 }
 
 export const useSimClockStore = create<SimClockState>((set, get) => ({
@@ -23,6 +28,7 @@ export const useSimClockStore = create<SimClockState>((set, get) => ({
   timeScale: 1.0,
   simTime: 0,
   seed: 'default',
+  epoch: J2000_JD,
   clockInstance: null,
   setPaused: (paused) => {
     set({ paused });
@@ -48,6 +54,13 @@ export const useSimClockStore = create<SimClockState>((set, get) => ({
       set({ simTime: 0 }); // Update store time after reset
     }
   },
+  setEpoch: (epoch) => {
+    set({ epoch });
+    const clock = get().clockInstance;
+    if (clock) {
+      clock.setEpoch(epoch);
+    }
+  },
   setClockInstance: (clockInstance) => set({ clockInstance }),
   toggle: () => {
     const clock = get().clockInstance;
@@ -97,5 +110,10 @@ export const useSimClockStore = create<SimClockState>((set, get) => ({
     }
     return `${seconds}s`;
   },
+  julianDate: () => {
+    const { epoch, simTime } = get();
+    return epoch + simTime / SECONDS_PER_DAY;
+  },
+  formatDate: () => formatUtc(get().julianDate()),
 }));
 
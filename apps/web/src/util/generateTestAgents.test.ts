@@ -0,0 +1,51 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { generateTestAgents } from './generateTestAgents';
+import { setSeed } from './seed';
+import { cartesianToElements } from '@/sim/orbit/conversions';
+import { EARTH_RADIUS } from '@/sim/orbit/constants';
+import { runSimStep } from '@/sim/step';
+import { DEFAULT_REENTRY_ALTITUDE } from '@/sim/orbit/decay';
+
+describe('generateTestAgents', () => {
+  beforeEach(() => {
+    setSeed('default');
+  });
+
+  it('propagates low agents with drag and the rest two-body', () => {
+    const agents = generateTestAgents(100);
+    expect(agents).toHaveLength(100);
+
+    for (const agent of agents) {
+      const elements = cartesianToElements(agent.state);
+      const perigeeAltitude = elements.a * (1 - elements.e) - EARTH_RADIUS;
+      expect(perigeeAltitude).toBeGreaterThan(200e3 - 1);
+
+      if (perigeeAltitude < 600e3) {
+        expect(agent.propagator).toBe('numerical');
+        expect(agent.forceModels).toEqual(['central_gravity', 'drag']);
+        expect(agent.integrator).toBe('rk4');
+      } else {
+        expect(agent.propagator).toBe('kepler');
+        expect(agent.forceModels).toBeUndefined();
+      }
+    }
+    expect(agents.some((agent) => agent.propagator === 'numerical')).toBe(true);
+    expect(agents.some((agent) => agent.propagator === 'kepler')).toBe(true);
+  });
+
+  it('decays the orbits of dragged agents in the sim step', () => {
+    const agents = generateTestAgents(20).filter((agent) => agent.propagator === 'numerical');
+    const result = runSimStep({
+      agents,
+      objectives: [],
+      startTime: 0,
+      endTime: 86400,
+      reentryAltitude: DEFAULT_REENTRY_ALTITUDE,
+    });
+
+    for (const agent of agents) {
+      const update = result.updates.find((u) => u.id === agent.id)!;
+      expect(cartesianToElements(update.state).a).toBeLessThan(cartesianToElements(agent.state).a);
+    }
+  });
+});
@@ -4,12 +4,30 @@
  */
 
 import { Agent } from '@/render/Agents.types';
-import { OrbitalElements } from '@/sim/orbit/types';
+import { OrbitalElements, PropagatorType } from '@/sim/orbit/types';
 import { elementsToCartesian } from '@/sim/orbit/conversions';
 import { EARTH_RADIUS } from '@/sim/orbit/constants';
 import { randomFloat } from './seed';
 import { BehaviorFlags, FormationType } from '@/scenario/types';
 
+/**
+ * Lowest perigee altitude for dragged agents in meters.
+ */
+const MIN_PERIGEE_ALTITUDE = 200e3;
+
+/**
+ * Agents with a perigee below this altitude (meters) are propagated with
+ * atmospheric drag so their orbits visibly decay; higher ones stay two-body.
+ */
+const DRAG_PERIGEE_ALTITUDE = 600e3;
+
+/**
+ * Fixed RK4 step in seconds for dragged agents. A sim step at normal speed is a
+ * single RK4 step, which keeps hundreds of them within the frame budget; the
+ * truncation error stays well below the decay from drag up to 600 km.
+ */
+const DRAG_RK4_STEP = 30;
+
 /**
  * Generate N test agents with random orbital elements.
  * Uses deterministic seed from sim clock store for reproducibility.
@@ -25,9 +43,13 @@ export function generateTestAgents(count: number): Agent[] {
     const altitude = randomFloat(400e3, 2000e3);
     const radius = EARTH_RADIUS + altitude;
     
+    // Eccentricity 0-0.3 (mostly circular), capped so the perigee stays above
+    // the atmosphere's dense layers
+    const eccentricity = randomFloat(0, 0.3);
+    const maxEccentricity = 1 - (EARTH_RADIUS + MIN_PERIGEE_ALTITUDE) / radius;
     const elements: OrbitalElements = {
       a: radius,
-      e: randomFloat(0, 0.3), // Eccentricity 0-0.3 (mostly circular)
+      e: Math.min(eccentricity, maxEccentricity),
       i: randomFloat(0, Math.PI), // Inclination 0-π
       Ω: randomFloat(0, 2 * Math.PI), // RAAN 0-2π
       ω: randomFloat(0, 2 * Math.PI), // Argument of periapsis 0-2π
@@ -37,6 +59,11 @@ export function generateTestAgents(count: number): Agent[] {
     // Convert to Cartesian state
     const state = elementsToCartesian(elements);
 
+    // Low orbits are propagated numerically with drag; everything else stays two-body
+    const perigeeAltitude = radius * (1 - elements.e) - EARTH_RADIUS;
+    const dragged = perigeeAltitude < DRAG_PERIGEE_ALTITUDE;
+    const propagator: PropagatorType = dragged ? 'numerical' : 'kepler';
+
     // Default behaviors (all disabled)
     const behaviors: BehaviorFlags = {
       cohesion: false,
@@ -54,6 +81,10 @@ export function generateTestAgents(count: number): Agent[] {
       behaviors,
       team,
       dvRemaining: 1000, // Default delta-v budget: 1000 m/s
+      propagator,
+      forceModels: dragged ? ['central_gravity', 'drag'] : undefined,
+      integrator: dragged ? 'rk4' : undefined,
+      maxStep: dragged ? DRAG_RK4_STEP : undefined,
       selected: false,
       hovered: false,
     });